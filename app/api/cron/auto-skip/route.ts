@@ -1,8 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-// Vercel Cron: runs every 15 minutes
-// Add to vercel.json: { "crons": [{ "path": "/api/cron/auto-skip", "schedule": "*/15 * * * *" }] }
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { sendPushToUser } from '@/lib/pushDelivery'
+import {
+  deliverDueNotifications,
+  getDefaultChannelTransports,
+  hasAnyChannel,
+  notifyHotSeatEvents,
+  notifyUser,
+  revealDueRounds,
+  type ChannelTransports,
+} from '@/lib/notificationDelivery'
+
+// Vercel Cron: runs once a day at midnight UTC (vercel.json, "0 0 * * *"),
+// the most often the deployment plan allows. Stalled turns and hot seat
+// picks wait for this run. Round deadlines and quiet-hours notifications
+// are also handled after turn and message events (notify-turn,
+// notify-message), and games paused while everyone was away resume when
+// someone opens the room, so active rooms don't wait for it.
 
 export async function GET(request: NextRequest) {
   try {
@@ -26,6 +40,9 @@ export async function GET(request: NextRequest) {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
+    // Push and email are optional - skips are still processed without them
+    const transports = getDefaultChannelTransports()
+
     // Call the process_stalled_turns function
     const { data, error } = await supabase.rpc('process_stalled_turns')
 
@@ -40,25 +57,93 @@ export async function GET(request: NextRequest) {
       console.log(`[auto-skip] Processed ${skipped.length} stalled turns:`, skipped)
 
       // Send push notifications for skipped turns
-      for (const skip of skipped) {
-        try {
-          // Notify the next user that it's their turn
-          await notifyNextUser(supabase, skip.room_id)
-
-          // If user was removed, we could send them a notification too
-          if (skip.removed) {
-            console.log(`[auto-skip] User ${skip.skipped_user_id} was removed from room ${skip.room_id}`)
+      if (hasAnyChannel(transports)) {
+        for (const skip of skipped) {
+          try {
+            const roomName = await getRoomName(supabase, skip.room_id)
+
+            // Notify the next user that it's their turn
+            await notifyNextUser(supabase, skip.room_id, roomName, transports)
+
+            // Let the skipped user know what happened (push only)
+            if (transports.pushTransport) {
+              await notifySkippedUser(supabase, skip.room_id, roomName, skip.skipped_user_id, skip.removed)
+            }
+          } catch (notifyErr) {
+            console.error('[auto-skip] Error sending notification:', notifyErr)
           }
-        } catch (notifyErr) {
-          console.error('[auto-skip] Error sending notification:', notifyErr)
         }
       }
     }
 
+    // Games paused because nobody was around: pick them up where someone's back
+    const { data: resumedData, error: resumeError } = await supabase.rpc('process_away_pauses')
+
+    if (resumeError) {
+      console.error('[auto-skip] Error resuming away pauses:', resumeError)
+    }
+
+    const resumed = resumedData || []
+
+    if (resumed.length > 0) {
+      console.log(`[auto-skip] Resumed ${resumed.length} paused games:`, resumed)
+
+      if (hasAnyChannel(transports)) {
+        for (const resume of resumed) {
+          try {
+            const roomName = await getRoomName(supabase, resume.room_id)
+            await notifyNextUser(supabase, resume.room_id, roomName, transports)
+          } catch (notifyErr) {
+            console.error('[auto-skip] Error sending notification:', notifyErr)
+          }
+        }
+      }
+    }
+
+    // Reveal 'everyone answers' rounds whose deadline has passed
+    const revealed = await revealDueRounds(supabase, transports).catch((roundsErr) => {
+      console.error('[auto-skip] Error processing round deadlines:', roundsErr)
+      return []
+    })
+
+    // Hot seat: turn the top-voted question into the prompt where voting has ended
+    const { data: hotSeats, error: hotSeatError } = await supabase.rpc('process_hot_seat_questions')
+
+    if (hotSeatError) {
+      console.error('[auto-skip] Error picking hot seat questions:', hotSeatError)
+    }
+
+    const picked = hotSeats || []
+
+    if (picked.length > 0) {
+      console.log(`[auto-skip] Picked ${picked.length} hot seat questions:`, picked)
+    }
+
+    // Tell turn holders their question is ready (picked here or by a member
+    // opening the room) and rooms whose question window has opened
+    const hotSeatNotified = await notifyHotSeatEvents(supabase, transports).catch((hotSeatNotifyErr) => {
+      console.error('[auto-skip] Error sending hot seat notifications:', hotSeatNotifyErr)
+      return null
+    })
+
+    // Quiet hours: send what's due that no turn or message event has picked up
+    let deferred = null
+    if (hasAnyChannel(transports)) {
+      deferred = await deliverDueNotifications(supabase, transports).catch((deferredErr) => {
+        console.error('[auto-skip] Error sending deferred notifications:', deferredErr)
+        return null
+      })
+    }
+
     return NextResponse.json({
       success: true,
       processed: skipped.length,
-      skipped: skipped
+      skipped: skipped,
+      resumed: resumed.length,
+      rounds_revealed: revealed.length,
+      hot_seat_picked: picked.length,
+      hot_seat_notified: hotSeatNotified,
+      deferred_sent: deferred?.sent ?? 0
     })
   } catch (err) {
     console.error('[auto-skip] Cron job error:', err)
@@ -66,7 +151,22 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function notifyNextUser(supabase: any, roomId: string) {
+async function getRoomName(supabase: SupabaseClient, roomId: string) {
+  const { data: room } = await supabase
+    .from('rooms')
+    .select('name')
+    .eq('id', roomId)
+    .single()
+
+  return room?.name || 'Spin the Chat'
+}
+
+async function notifyNextUser(
+  supabase: SupabaseClient,
+  roomId: string,
+  roomName: string,
+  transports: ChannelTransports
+) {
   // Get the current turn user
   const { data: session } = await supabase
     .from('turn_sessions')
@@ -77,21 +177,24 @@ async function notifyNextUser(supabase: any, roomId: string) {
 
   if (!session?.current_turn_user_id) return
 
-  // Get room name
-  const { data: room } = await supabase
-    .from('rooms')
-    .select('name')
-    .eq('id', roomId)
-    .single()
+  const { push, email } = await notifyUser(supabase, session.current_turn_user_id, roomId, {
+    push: { type: 'turn', roomId, roomName },
+    email: { type: 'turn', roomId, roomName, prompt: session.prompt_text ?? null },
+  }, transports)
 
-  // Get user's push subscriptions
-  const { data: subscriptions } = await supabase
-    .rpc('get_user_push_subscriptions', { p_user_id: session.current_turn_user_id })
+  console.log(`[auto-skip] Notified user ${session.current_turn_user_id} for room ${roomId} (${push?.sent ?? 0} sent${email ? `, email ${email.status}` : ''})`)
+}
 
-  if (!subscriptions || subscriptions.length === 0) return
+async function notifySkippedUser(
+  supabase: SupabaseClient,
+  roomId: string,
+  roomName: string,
+  userId: string,
+  removed: boolean
+) {
+  const { sent } = await sendPushToUser(supabase, userId, { type: 'turn_skipped', roomId, roomName, removed })
 
-  // We'd need webpush here - for now just log
-  console.log(`[auto-skip] Would notify user ${session.current_turn_user_id} for room ${roomId}`)
+  console.log(`[auto-skip] Notified ${removed ? 'removed' : 'skipped'} user ${userId} for room ${roomId} (${sent} sent)`)
 }
 
 // Also support POST for manual triggering
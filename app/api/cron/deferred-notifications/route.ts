@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { deliverDueNotifications, getDefaultChannelTransports, hasAnyChannel } from '@/lib/notificationDelivery'
+
+// Sends pushes/emails held back by quiet hours. Not scheduled in vercel.json:
+// crons run daily on our plan, so the queue is drained by the auto-skip cron
+// and after turn and message events (see deliverDueNotifications). Call this
+// route to drain it by hand or from an external scheduler.
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (Vercel adds this header for cron jobs)
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    // In production, verify the request is from Vercel Cron
+    if (process.env.NODE_ENV === 'production' && cronSecret) {
+      if (authHeader !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json({ error: 'Supabase not configured' }, { status: 500 })
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const transports = getDefaultChannelTransports()
+
+    // Leave the queue alone until a channel is configured
+    if (!hasAnyChannel(transports)) {
+      return NextResponse.json({ success: true, sent: 0, message: 'Push and email not configured' })
+    }
+
+    const summary = await deliverDueNotifications(supabase, transports)
+
+    return NextResponse.json({ success: true, ...summary })
+  } catch (err) {
+    console.error('[deferred-notifications] Cron job error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
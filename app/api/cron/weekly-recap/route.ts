@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getDefaultTransport, sendPushToUser } from '@/lib/pushDelivery'
+
+// Vercel Cron: runs every Monday morning and recaps the week before
+// Add to vercel.json: { "crons": [{ "path": "/api/cron/weekly-recap", "schedule": "0 9 * * 1" }] }
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (Vercel adds this header for cron jobs)
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    // In production, verify the request is from Vercel Cron
+    if (process.env.NODE_ENV === 'production' && cronSecret) {
+      if (authHeader !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json({ error: 'Supabase not configured' }, { status: 500 })
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Push is optional - recaps are still posted without VAPID keys
+    const pushEnabled = getDefaultTransport() !== null
+
+    // Posts the recap messages and in-app notifications; skips rooms already recapped
+    const { data, error } = await supabase.rpc('generate_weekly_recaps')
+
+    if (error) {
+      console.error('[weekly-recap] Error generating recaps:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const recaps: { room_id: string; message_id: string; member_ids: string[] }[] = data || []
+
+    if (recaps.length > 0) {
+      console.log(`[weekly-recap] Posted ${recaps.length} recaps`)
+
+      if (pushEnabled) {
+        for (const recap of recaps) {
+          try {
+            const { data: room } = await supabase
+              .from('rooms')
+              .select('name')
+              .eq('id', recap.room_id)
+              .single()
+            const roomName = room?.name || 'Spin the Chat'
+
+            for (const memberId of recap.member_ids) {
+              await sendPushToUser(supabase, memberId, {
+                type: 'recap',
+                roomId: recap.room_id,
+                roomName,
+                messageId: recap.message_id,
+              })
+            }
+          } catch (notifyErr) {
+            console.error('[weekly-recap] Error sending notification:', notifyErr)
+          }
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      posted: recaps.length,
+      rooms: recaps.map(r => r.room_id),
+    })
+  } catch (err) {
+    console.error('[weekly-recap] Cron job error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { sendEmail } from '@/lib/emailDelivery'
+import { getDefaultChannelTransports, hasAnyChannel, notifyUser } from '@/lib/notificationDelivery'
+
+// How long before the same invite can be announced again
+const INVITE_NOTIFY_COOLDOWN_MS = 24 * 60 * 60 * 1000
+
+// Tells someone they were invited by email: push + email fallback if they
+// already have an account, otherwise straight to the invited address
+export async function POST(request: NextRequest) {
+  try {
+    // Check push/email configuration
+    const transports = getDefaultChannelTransports()
+
+    if (!hasAnyChannel(transports)) {
+      return NextResponse.json({ sent: false, message: 'Push and email not configured' })
+    }
+
+    // Check Supabase configuration
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+    if (!supabaseUrl || !supabaseServiceKey || !supabaseAnonKey) {
+      return NextResponse.json({ sent: false, error: 'Supabase not configured' }, { status: 500 })
+    }
+
+    // Get the user's access token from Authorization header
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json({ sent: false, error: 'Missing authorization' }, { status: 401 })
+    }
+    const accessToken = authHeader.slice(7)
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken)
+    if (userError || !user) {
+      return NextResponse.json({ sent: false, error: 'Invalid session' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { roomId, inviteCode } = body
+
+    if (!roomId || !inviteCode) {
+      return NextResponse.json({ sent: false, error: 'Missing roomId or inviteCode' }, { status: 400 })
+    }
+
+    // Only the inviter can announce their own pending email invite
+    const { data: invite } = await supabaseAdmin
+      .from('room_invites')
+      .select('id, invited_email')
+      .eq('room_id', roomId)
+      .eq('code', inviteCode)
+      .eq('created_by', user.id)
+      .is('accepted_at', null)
+      .maybeSingle()
+
+    if (!invite?.invited_email) {
+      return NextResponse.json({ sent: false, error: 'Invite not found' }, { status: 404 })
+    }
+
+    // Claim the send; a single update so repeated calls can't both get through
+    const cooldownStart = new Date(Date.now() - INVITE_NOTIFY_COOLDOWN_MS).toISOString()
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('room_invites')
+      .update({ emailed_at: new Date().toISOString() })
+      .eq('id', invite.id)
+      .or(`emailed_at.is.null,emailed_at.lt.${cooldownStart}`)
+      .select('id')
+
+    if (claimError) {
+      console.error('Failed to record invite notification:', claimError)
+      return NextResponse.json({ sent: false, error: 'Failed to send' }, { status: 500 })
+    }
+
+    if (!claimed?.length) {
+      return NextResponse.json({ sent: false, error: 'This invite was sent recently' }, { status: 429 })
+    }
+
+    const [{ data: room }, { data: inviter }, { data: inviteeId }] = await Promise.all([
+      supabaseAdmin.from('rooms').select('name').eq('id', roomId).single(),
+      supabaseAdmin.from('profiles').select('display_name, email').eq('id', user.id).single(),
+      supabaseAdmin.rpc('get_user_id_by_email', { p_email: invite.invited_email }),
+    ])
+
+    const payload = {
+      type: 'invite' as const,
+      roomId,
+      roomName: room?.name || 'Spin the Chat',
+      inviterName: inviter?.display_name || inviter?.email?.split('@')[0] || 'Someone',
+      inviteCode,
+    }
+
+    if (inviteeId) {
+      const { push, email } = await notifyUser(supabaseAdmin, inviteeId, roomId, { push: payload, email: payload }, transports)
+      return NextResponse.json({ sent: (push?.sent ?? 0) > 0 || email?.status === 'sent' })
+    }
+
+    // No account yet - email is the only way to reach them
+    if (!transports.emailTransport) {
+      return NextResponse.json({ sent: false, message: 'Email not configured' })
+    }
+
+    const email = await sendEmail(
+      supabaseAdmin,
+      { email: invite.invited_email, userId: null },
+      payload,
+      { transport: transports.emailTransport }
+    )
+
+    return NextResponse.json({ sent: email.status === 'sent' })
+  } catch (err) {
+    console.error('Notify invite error:', err)
+    return NextResponse.json({ sent: false, error: 'Failed to send' })
+  }
+}
@@ -1,26 +1,28 @@
-import { NextRequest, NextResponse } from 'next/server'
-import webpush from 'web-push'
-import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { getDefaultTransport, sendPushToUser, type PushTransport } from '@/lib/pushDelivery'
+import { deliverDueNotifications, notifyHotSeatEvents, revealDueRounds } from '@/lib/notificationDelivery'
+import { getMessagePreviewText } from '@/app/room/[id]/utils/messagePayload'
 
 interface NotifyMessagePayload {
   roomId: string
   messageId: string
   senderId: string
+  // senderId voted in the poll messageId; only the poll's creator is told
+  pollVote?: boolean
 }
 
+const truncate = (text: string, length = 80) => text.slice(0, length) + (text.length > length ? '...' : '')
+
 export async function POST(request: NextRequest) {
   try {
-    // Check VAPID configuration
-    const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
-    const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY
-    const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:hello@spinthechat.com'
+    // Check push configuration
+    const transport = getDefaultTransport()
 
-    if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+    if (!transport) {
       return NextResponse.json({ sent: 0, message: 'VAPID not configured' })
     }
 
-    webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)
-
     // Check Supabase configuration
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
     const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -31,8 +33,16 @@ export async function POST(request: NextRequest) {
 
     const supabaseAdmin = createClient(supabaseUrl, supabaseKey)
 
+    // Activity is a chance to reveal rounds past their deadline and send what
+    // quiet hours held back (no sub-daily cron)
+    after(async () => {
+      await revealDueRounds(supabaseAdmin).catch(() => {})
+      await notifyHotSeatEvents(supabaseAdmin).catch(() => {})
+      await deliverDueNotifications(supabaseAdmin).catch(() => {})
+    })
+
     const body: NotifyMessagePayload = await request.json()
-    const { roomId, messageId, senderId } = body
+    const { roomId, messageId, senderId, pollVote } = body
 
     if (!roomId || !messageId || !senderId) {
       return NextResponse.json({ error: 'Missing roomId, messageId, or senderId' }, { status: 400 })
@@ -41,7 +51,7 @@ export async function POST(request: NextRequest) {
     // Get the message details
     const { data: message, error: messageError } = await supabaseAdmin
       .from('messages')
-      .select('content, type, user_id')
+      .select('content, type, payload, user_id, deleted_at, mentions')
       .eq('id', messageId)
       .single()
 
@@ -49,6 +59,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ sent: 0, message: 'Message not found' })
     }
 
+    // Deleted before the push went out; edits are picked up since content is read here
+    if (message.deleted_at) {
+      return NextResponse.json({ sent: 0, message: 'Message deleted' })
+    }
+
     // Get room name
     const { data: room } = await supabaseAdmin
       .from('rooms')
@@ -67,26 +82,13 @@ export async function POST(request: NextRequest) {
 
     const senderName = sender?.display_name || 'Someone'
 
-    // Format notification body based on message type
-    let messagePreview: string
-    if (message.type === 'image') {
-      messagePreview = `${senderName}: Sent a photo`
-    } else if (message.type === 'turn_response') {
-      // Check if it's a photo turn
-      try {
-        const parsed = JSON.parse(message.content)
-        if (parsed.kind === 'photo_turn') {
-          messagePreview = `${senderName}: Sent a photo`
-        } else {
-          messagePreview = `${senderName}: ${message.content.slice(0, 80)}${message.content.length > 80 ? '...' : ''}`
-        }
-      } catch {
-        messagePreview = `${senderName}: ${message.content.slice(0, 80)}${message.content.length > 80 ? '...' : ''}`
-      }
-    } else {
-      messagePreview = `${senderName}: ${message.content.slice(0, 80)}${message.content.length > 80 ? '...' : ''}`
+    if (pollVote) {
+      return notifyPollVote(supabaseAdmin, transport, { roomId, roomName, messageId, senderId, senderName })
     }
 
+    // Notification body, summarized the same way as the lobby preview
+    const messagePreview = `${senderName}: ${truncate(getMessagePreviewText(message))}`
+
     // Get room members with their notification preferences (excluding sender)
     const { data: members, error: membersError } = await supabaseAdmin
       .rpc('get_room_members_for_notification', {
@@ -105,11 +107,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ sent: 0, message: 'All members have notifications disabled' })
     }
 
+    // Mentioned members get their own push and skip the rate limit batching
+    const mentionedIds = new Set(
+      ((message.mentions ?? []) as { user_id: string }[]).map(m => m.user_id)
+    )
+    const mentionPreview = truncate(message.content)
+
     // Check rate limits and send notifications
     let sent = 0
     const RATE_LIMIT_SECONDS = 60
 
     for (const member of eligibleMembers) {
+      if (mentionedIds.has(member.user_id)) {
+        const delivery = await sendPushToUser(supabaseAdmin, member.user_id, {
+          type: 'mention',
+          roomId,
+          roomName,
+          messageId,
+          actorName: senderName,
+          preview: mentionPreview,
+        }, { transport }).catch(() => null)
+
+        if (delivery && delivery.sent > 0) sent++
+        continue
+      }
+
       // Check rate limit
       const { data: rateLimitResult } = await supabaseAdmin
         .rpc('check_message_notification_rate_limit', {
@@ -127,58 +149,21 @@ export async function POST(request: NextRequest) {
         continue
       }
 
-      // Get user's push subscriptions
-      const { data: subscriptions } = await supabaseAdmin
-        .rpc('get_user_push_subscriptions', { p_user_id: member.user_id })
-
-      if (!subscriptions || subscriptions.length === 0) continue
-
       // Build notification body (include pending count if any)
       let notificationBody = messagePreview
       if (pending_count > 0) {
         notificationBody = `${messagePreview} (+${pending_count} more)`
       }
 
-      // Prepare notification payload
-      const payload = JSON.stringify({
-        title: roomName,
-        body: notificationBody,
-        roomId,
-        url: `/room/${roomId}`,
-        tag: `message-${roomId}`,
-      })
-
       // Send to all subscriptions for this user
-      const results = await Promise.allSettled(
-        subscriptions.map(async (sub: { id: string; endpoint: string; p256dh: string; auth: string }) => {
-          try {
-            await webpush.sendNotification(
-              {
-                endpoint: sub.endpoint,
-                keys: {
-                  p256dh: sub.p256dh,
-                  auth: sub.auth,
-                },
-              },
-              payload
-            )
-            return { success: true }
-          } catch (err: unknown) {
-            const error = err as { statusCode?: number }
-            if (error.statusCode === 404 || error.statusCode === 410) {
-              // Subscription expired, clean up
-              await supabaseAdmin
-                .from('push_subscriptions')
-                .delete()
-                .eq('id', sub.id)
-            }
-            return { success: false }
-          }
-        })
-      )
+      const delivery = await sendPushToUser(supabaseAdmin, member.user_id, {
+        type: 'message',
+        roomId,
+        roomName,
+        preview: notificationBody,
+      }, { transport }).catch(() => null)
 
-      const userSent = results.filter(r => r.status === 'fulfilled' && (r.value as { success: boolean }).success).length
-      if (userSent > 0) sent++
+      if (delivery && delivery.sent > 0) sent++
     }
 
     return NextResponse.json({ sent, total: eligibleMembers.length })
@@ -187,3 +172,75 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ sent: 0, error: 'Failed to send' })
   }
 }
+
+/**
+ * "X voted" push for the poll's creator. Anonymous polls get the vote
+ * count instead of the voter's name. Batched by the message rate limit.
+ */
+async function notifyPollVote(
+  supabaseAdmin: SupabaseClient,
+  transport: PushTransport,
+  { roomId, roomName, messageId, senderId, senderName }: {
+    roomId: string
+    roomName: string
+    messageId: string
+    senderId: string
+    senderName: string
+  }
+) {
+  const { data: poll } = await supabaseAdmin
+    .from('polls')
+    .select('id, created_by, question, is_anonymous, closed_at')
+    .eq('message_id', messageId)
+    .eq('room_id', roomId)
+    .single()
+
+  if (!poll || poll.created_by === senderId || poll.closed_at) {
+    return NextResponse.json({ sent: 0, message: 'No one to notify' })
+  }
+
+  // The voter must actually have voted
+  const { data: votes } = await supabaseAdmin
+    .from('poll_votes')
+    .select('user_id')
+    .eq('poll_id', poll.id)
+
+  const voterIds = new Set((votes ?? []).map((v: { user_id: string }) => v.user_id))
+  if (!voterIds.has(senderId)) {
+    return NextResponse.json({ sent: 0, message: 'No vote found' })
+  }
+
+  const { data: members } = await supabaseAdmin
+    .rpc('get_room_members_for_notification', {
+      p_room_id: roomId,
+      p_exclude_user_id: senderId
+    })
+
+  const creator = (members ?? []).find((m: { user_id: string }) => m.user_id === poll.created_by)
+  if (!creator?.message_notifs_enabled) {
+    return NextResponse.json({ sent: 0, message: 'Notifications disabled' })
+  }
+
+  const { data: rateLimitResult } = await supabaseAdmin
+    .rpc('check_message_notification_rate_limit', {
+      p_user_id: poll.created_by,
+      p_room_id: roomId,
+      p_rate_limit_seconds: 60
+    })
+
+  if (!rateLimitResult || rateLimitResult.length === 0 || !rateLimitResult[0].should_send) {
+    return NextResponse.json({ sent: 0, message: 'Rate limited' })
+  }
+
+  const voter = poll.is_anonymous
+    ? (voterIds.size === 1 ? '1 person' : `${voterIds.size} people`)
+    : senderName
+  const delivery = await sendPushToUser(supabaseAdmin, poll.created_by, {
+    type: 'message',
+    roomId,
+    roomName,
+    preview: `📊 ${voter} voted in "${truncate(poll.question, 60)}"`,
+  }, { transport }).catch(() => null)
+
+  return NextResponse.json({ sent: delivery && delivery.sent > 0 ? 1 : 0, total: 1 })
+}
@@ -1,20 +1,24 @@
-import { NextRequest, NextResponse } from 'next/server'
-import webpush from 'web-push'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import {
+  deliverDueNotifications,
+  getDefaultChannelTransports,
+  hasAnyChannel,
+  notifyHotSeatEvents,
+  notifyRoundParticipants,
+  notifyUser,
+  revealDueRounds,
+} from '@/lib/notificationDelivery'
 
 export async function POST(request: NextRequest) {
   try {
-    // Check VAPID configuration
-    const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
-    const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY
-    const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:hello@spinthechat.com'
+    // Check push/email configuration
+    const transports = getDefaultChannelTransports()
 
-    if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
-      return NextResponse.json({ sent: 0, message: 'VAPID not configured' })
+    if (!hasAnyChannel(transports)) {
+      return NextResponse.json({ sent: 0, message: 'Push and email not configured' })
     }
 
-    webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)
-
     // Check Supabase configuration
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
     const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -25,6 +29,15 @@ export async function POST(request: NextRequest) {
 
     const supabaseAdmin = createClient(supabaseUrl, supabaseKey)
 
+    // Turn events are a chance to reveal rounds past their deadline, send
+    // due hot seat notifications and what quiet hours held back (no
+    // sub-daily cron)
+    after(async () => {
+      await revealDueRounds(supabaseAdmin, transports).catch(() => {})
+      await notifyHotSeatEvents(supabaseAdmin, transports).catch(() => {})
+      await deliverDueNotifications(supabaseAdmin, transports).catch(() => {})
+    })
+
     const body = await request.json()
     const { roomId } = body
 
@@ -35,12 +48,12 @@ export async function POST(request: NextRequest) {
     // Get the current turn user and room info
     const { data: session, error: sessionError } = await supabaseAdmin
       .from('turn_sessions')
-      .select('current_turn_user_id, room_id')
+      .select('current_turn_user_id, current_round_id, room_id, prompt_text, hot_seat_until')
       .eq('room_id', roomId)
       .eq('is_active', true)
       .single()
 
-    if (sessionError || !session?.current_turn_user_id) {
+    if (sessionError || (!session?.current_turn_user_id && !session?.current_round_id)) {
       return NextResponse.json({ sent: 0, message: 'No active turn session' })
     }
 
@@ -52,57 +65,42 @@ export async function POST(request: NextRequest) {
       .single()
 
     const roomName = room?.name || 'Spin the Chat'
+
+    // Everyone answers: notify all who haven't answered the round yet
+    if (session.current_round_id) {
+      const reached = await notifyRoundParticipants(supabaseAdmin, roomId, roomName, transports)
+      return NextResponse.json({ sent: reached })
+    }
+
+    // Hot seat: the room hears when the question window opens and the holder
+    // once the question is picked, whichever path picked it
+    const hotSeat = await notifyHotSeatEvents(supabaseAdmin, transports, roomId)
+    if (session.hot_seat_until || hotSeat.picked > 0) {
+      return NextResponse.json({ sent: hotSeat.opened + hotSeat.picked, hotSeat })
+    }
+
     const userId = session.current_turn_user_id
 
-    // Get user's push subscriptions
-    const { data: subscriptions, error: fetchError } = await supabaseAdmin
-      .rpc('get_user_push_subscriptions', { p_user_id: userId })
+    // Push keeps its short "your turn" body; the email can carry the prompt
+    const { push: delivery, email, deferredUntil } = await notifyUser(supabaseAdmin, userId, roomId, {
+      push: { type: 'turn', roomId, roomName },
+      email: { type: 'turn', roomId, roomName, prompt: session.prompt_text ?? null },
+    }, transports)
 
-    if (fetchError || !subscriptions || subscriptions.length === 0) {
-      return NextResponse.json({ sent: 0, message: 'No subscriptions for user' })
+    // Quiet hours: queued, not lost
+    if (deferredUntil) {
+      return NextResponse.json({ sent: 0, deferredUntil })
     }
 
-    // Prepare notification payload
-    const payload = JSON.stringify({
-      title: roomName,
-      body: "It's your turn!",
-      roomId,
-      url: `/room/${roomId}`,
-      tag: `turn-${roomId}`,
-    })
+    if (email) {
+      return NextResponse.json({ sent: delivery?.sent ?? 0, emailed: email.status === 'sent' })
+    }
+
+    if (!delivery || delivery.total === 0) {
+      return NextResponse.json({ sent: 0, message: 'No subscriptions for user' })
+    }
 
-    // Send to all subscriptions
-    const results = await Promise.allSettled(
-      subscriptions.map(async (sub: { id: string; endpoint: string; p256dh: string; auth: string }) => {
-        try {
-          await webpush.sendNotification(
-            {
-              endpoint: sub.endpoint,
-              keys: {
-                p256dh: sub.p256dh,
-                auth: sub.auth,
-              },
-            },
-            payload
-          )
-          return { success: true, id: sub.id }
-        } catch (err: unknown) {
-          const error = err as { statusCode?: number }
-          if (error.statusCode === 404 || error.statusCode === 410) {
-            await supabaseAdmin
-              .from('push_subscriptions')
-              .delete()
-              .eq('id', sub.id)
-            return { success: false, id: sub.id, expired: true }
-          }
-          throw err
-        }
-      })
-    )
-
-    const sent = results.filter((r) => r.status === 'fulfilled' && (r.value as { success: boolean }).success).length
-
-    return NextResponse.json({ sent, total: subscriptions.length })
+    return NextResponse.json({ sent: delivery.sent, total: delivery.total, results: delivery.results })
   } catch (err) {
     console.error('Notify turn error:', err)
     return NextResponse.json({ sent: 0, error: 'Failed to send' })
@@ -1,20 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import webpush from 'web-push'
 import { createClient } from '@supabase/supabase-js'
+import { getDefaultChannelTransports, hasAnyChannel, notifyUser } from '@/lib/notificationDelivery'
 
 export async function POST(request: NextRequest) {
   try {
-    // Check VAPID configuration
-    const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
-    const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY
-    const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:hello@spinthechat.com'
+    // Check push/email configuration
+    const transports = getDefaultChannelTransports()
 
-    if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
-      return NextResponse.json({ success: false, error: 'VAPID not configured' }, { status: 500 })
+    if (!hasAnyChannel(transports)) {
+      return NextResponse.json({ success: false, error: 'Push and email not configured' }, { status: 500 })
     }
 
-    webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)
-
     // Check Supabase configuration
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
     const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -44,15 +40,17 @@ export async function POST(request: NextRequest) {
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
 
     const body = await request.json()
-    const { roomId } = body
+    // userId picks who to nudge in an 'everyone answers' round
+    const { roomId, userId } = body
 
     if (!roomId) {
       return NextResponse.json({ success: false, error: 'Missing roomId' }, { status: 400 })
     }
 
     // Call the send_nudge RPC (handles validation, rate limiting, and recording)
-    const { data: nudgeResult, error: nudgeError } = await supabaseUser
-      .rpc('send_nudge', { p_room_id: roomId })
+    const { data: nudgeResult, error: nudgeError } = userId
+      ? await supabaseUser.rpc('send_round_nudge', { p_room_id: roomId, p_user_id: userId })
+      : await supabaseUser.rpc('send_nudge', { p_room_id: roomId })
 
     if (nudgeError) {
       console.error('Nudge RPC error:', nudgeError)
@@ -70,64 +68,41 @@ export async function POST(request: NextRequest) {
 
     const { nudged_user_id, room_name } = nudgeResult
 
-    // Get the nudged user's push subscriptions
-    const { data: subscriptions, error: subError } = await supabaseAdmin
-      .rpc('get_user_push_subscriptions', { p_user_id: nudged_user_id })
+    // Send to all of the nudged user's devices, or by email if none accepted it
+    const nudge = { type: 'nudge' as const, roomId, roomName: room_name || 'Spin the Chat' }
+    const delivery = await notifyUser(supabaseAdmin, nudged_user_id, roomId, {
+      push: nudge,
+      email: nudge,
+    }, transports).catch((err) => {
+      console.error('Nudge push error:', err)
+      return null
+    })
 
-    if (subError || !subscriptions || subscriptions.length === 0) {
-      // Nudge was recorded but user has no push subscriptions
+    // Quiet hours: the push goes out when their window ends
+    if (delivery?.deferredUntil) {
       return NextResponse.json({
         success: true,
         sent: false,
-        message: 'Nudge recorded but user has notifications off',
+        deferred_until: delivery.deferredUntil,
         all_nudged: nudgeResult.all_nudged ?? false
       })
     }
 
-    // Prepare notification payload
-    const payload = JSON.stringify({
-      title: room_name || 'Spin the Chat',
-      body: "👀 Nudge — it's your turn!",
-      roomId,
-      url: `/room/${roomId}`,
-      tag: `nudge-${roomId}`,
-    })
+    const sent = (delivery?.push?.sent ?? 0) > 0 || delivery?.email?.status === 'sent'
 
-    // Send to all subscriptions
-    let sent = 0
-    const results = await Promise.allSettled(
-      subscriptions.map(async (sub: { id: string; endpoint: string; p256dh: string; auth: string }) => {
-        try {
-          await webpush.sendNotification(
-            {
-              endpoint: sub.endpoint,
-              keys: {
-                p256dh: sub.p256dh,
-                auth: sub.auth,
-              },
-            },
-            payload
-          )
-          return { success: true }
-        } catch (err: unknown) {
-          const error = err as { statusCode?: number }
-          if (error.statusCode === 404 || error.statusCode === 410) {
-            // Subscription expired, clean up
-            await supabaseAdmin
-              .from('push_subscriptions')
-              .delete()
-              .eq('id', sub.id)
-          }
-          return { success: false }
-        }
+    if (!delivery || (!delivery.push?.total && !delivery.email)) {
+      // Nudge was recorded but user has no push subscriptions or email
+      return NextResponse.json({
+        success: true,
+        sent: false,
+        message: 'Nudge recorded but user has notifications off',
+        all_nudged: nudgeResult.all_nudged ?? false
       })
-    )
-
-    sent = results.filter(r => r.status === 'fulfilled' && (r.value as { success: boolean }).success).length
+    }
 
     return NextResponse.json({
       success: true,
-      sent: sent > 0,
+      sent,
       all_nudged: nudgeResult.all_nudged ?? false
     })
   } catch (err) {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import webpush from 'web-push'
 import { createClient } from '@supabase/supabase-js'
+import { getDefaultTransport, sendPushToUser } from '@/lib/pushDelivery'
 
 interface PushPayload {
   userId: string
@@ -9,27 +9,32 @@ interface PushPayload {
   message?: string
 }
 
+// "Send test notification" from the profile menu: signed in with the
+// user's own token and always sent, even during their quiet hours
+interface TestPushPayload {
+  test: true
+}
+
 export async function POST(request: NextRequest) {
   try {
-    // Verify this is an internal call (from our server)
+    const body: PushPayload | TestPushPayload = await request.json()
+    const isTest = 'test' in body && body.test === true
+
+    // Verify this is an internal call (from our server); test sends carry the user's session instead
     const authHeader = request.headers.get('authorization')
     const expectedToken = process.env.INTERNAL_API_SECRET
 
-    if (expectedToken && authHeader !== `Bearer ${expectedToken}`) {
+    if (!isTest && expectedToken && authHeader !== `Bearer ${expectedToken}`) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Check VAPID configuration
-    const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
-    const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY
-    const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:hello@spinthechat.com'
+    // Check push configuration
+    const transport = getDefaultTransport()
 
-    if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+    if (!transport) {
       return NextResponse.json({ error: 'VAPID keys not configured' }, { status: 500 })
     }
 
-    webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)
-
     // Check Supabase configuration
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
     const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -40,68 +45,55 @@ export async function POST(request: NextRequest) {
 
     const supabaseAdmin = createClient(supabaseUrl, supabaseKey)
 
-    const body: PushPayload = await request.json()
-    const { userId, roomId, roomName, message } = body
-
-    if (!userId || !roomId) {
-      return NextResponse.json({ error: 'Missing userId or roomId' }, { status: 400 })
+    let delivery
+    if (isTest) {
+      if (!authHeader?.startsWith('Bearer ')) {
+        return NextResponse.json({ error: 'Missing authorization' }, { status: 401 })
+      }
+      const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(authHeader.slice(7))
+      if (userError || !user) {
+        return NextResponse.json({ error: 'Invalid session' }, { status: 401 })
+      }
+
+      try {
+        delivery = await sendPushToUser(supabaseAdmin, user.id, { type: 'test' }, { transport, ignoreQuietHours: true })
+      } catch {
+        return NextResponse.json({ error: 'Failed to fetch subscriptions' }, { status: 500 })
+      }
+    } else {
+      const { userId, roomId, roomName, message } = body as PushPayload
+
+      if (!userId || !roomId) {
+        return NextResponse.json({ error: 'Missing userId or roomId' }, { status: 400 })
+      }
+
+      try {
+        delivery = await sendPushToUser(supabaseAdmin, userId, {
+          type: 'turn',
+          roomId,
+          roomName: roomName || 'Spin the Chat',
+          body: message,
+        }, { transport })
+      } catch {
+        return NextResponse.json({ error: 'Failed to fetch subscriptions' }, { status: 500 })
+      }
     }
 
-    // Get user's push subscriptions
-    const { data: subscriptions, error: fetchError } = await supabaseAdmin
-      .rpc('get_user_push_subscriptions', { p_user_id: userId })
-
-    if (fetchError) {
-      console.error('Error fetching subscriptions:', fetchError)
-      return NextResponse.json({ error: 'Failed to fetch subscriptions' }, { status: 500 })
+    // Quiet hours: queued, not lost
+    if (delivery.deferredUntil) {
+      return NextResponse.json({ sent: 0, deferredUntil: delivery.deferredUntil })
     }
 
-    if (!subscriptions || subscriptions.length === 0) {
+    if (delivery.total === 0) {
       return NextResponse.json({ sent: 0, message: 'No subscriptions found' })
     }
 
-    // Prepare notification payload
-    const payload = JSON.stringify({
-      title: roomName || 'Spin the Chat',
-      body: message || "It's your turn!",
-      roomId,
-      url: `/room/${roomId}`,
-      tag: `turn-${roomId}`,
+    return NextResponse.json({
+      sent: delivery.sent,
+      failed: delivery.total - delivery.sent,
+      total: delivery.total,
+      results: delivery.results,
     })
-
-    // Send to all subscriptions
-    const results = await Promise.allSettled(
-      subscriptions.map(async (sub: { id: string; endpoint: string; p256dh: string; auth: string }) => {
-        try {
-          await webpush.sendNotification(
-            {
-              endpoint: sub.endpoint,
-              keys: {
-                p256dh: sub.p256dh,
-                auth: sub.auth,
-              },
-            },
-            payload
-          )
-          return { success: true, id: sub.id }
-        } catch (err: unknown) {
-          const error = err as { statusCode?: number }
-          if (error.statusCode === 404 || error.statusCode === 410) {
-            await supabaseAdmin
-              .from('push_subscriptions')
-              .delete()
-              .eq('id', sub.id)
-            return { success: false, id: sub.id, expired: true }
-          }
-          throw err
-        }
-      })
-    )
-
-    const sent = results.filter((r) => r.status === 'fulfilled' && (r.value as { success: boolean }).success).length
-    const failed = results.length - sent
-
-    return NextResponse.json({ sent, failed, total: subscriptions.length })
   } catch (err) {
     console.error('Push send error:', err)
     return NextResponse.json({ error: 'Failed to send push' }, { status: 500 })
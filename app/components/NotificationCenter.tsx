@@ -184,6 +184,24 @@ const getNotificationIcon = (type: string): { icon: ReactNode; bgColor: string }
         ),
         bgColor: 'bg-amber-500',
       }
+    case 'mentioned_you':
+      return {
+        icon: (
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 12a4.5 4.5 0 11-9 0 4.5 4.5 0 019 0zm0 0c0 1.657 1.007 3 2.25 3S21 13.657 21 12a9 9 0 10-2.636 6.364M16.5 12V8.25" />
+          </svg>
+        ),
+        bgColor: 'bg-sky-500',
+      }
+    case 'weekly_recap':
+      return {
+        icon: (
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 7.5h1.5m-1.5 3h1.5m-7.5 3h7.5m-7.5 3h7.5m3-9h3.375c.621 0 1.125.504 1.125 1.125V18a2.25 2.25 0 01-2.25 2.25M16.5 7.5V18a2.25 2.25 0 002.25 2.25M16.5 7.5V4.875c0-.621-.504-1.125-1.125-1.125H4.125C3.504 3.75 3 4.254 3 4.875V18a2.25 2.25 0 002.25 2.25h13.5M6 7.5h3v3H6v-3z" />
+          </svg>
+        ),
+        bgColor: 'bg-indigo-500',
+      }
     case 'poked_you':
       return {
         icon: (
@@ -240,6 +258,10 @@ const getNotificationText = (notification: NotificationItem): string => {
       return `Whole group upvoted your answer!`
     case 'poked_you':
       return `${actorName} poked you 👋`
+    case 'mentioned_you':
+      return `${actorName} mentioned you${notification.room_name ? ` in ${notification.room_name}` : ''}`
+    case 'weekly_recap':
+      return `Your weekly recap for ${notification.room_name || 'your group'} is here`
     default:
       return 'You have a new notification'
   }
@@ -254,9 +276,16 @@ const getSecondaryText = (notification: NotificationItem): string | null => {
   if (notification.type === 'story_reply' && notification.metadata?.reply_preview) {
     return `"${notification.metadata.reply_preview}"`
   }
+  if (notification.type === 'mentioned_you' && notification.metadata?.message_preview) {
+    return `"${notification.metadata.message_preview}"`
+  }
   if (notification.type === 'upvote_milestone' && notification.metadata?.answer_preview) {
     return `"${notification.metadata.answer_preview}"`
   }
+  if (notification.type === 'weekly_recap' && typeof notification.metadata?.answer_count === 'number') {
+    const count = notification.metadata.answer_count as number
+    return `${count} answer${count !== 1 ? 's' : ''} last week`
+  }
   if (notification.type === 'upvote_whole_group') {
     const roomName = notification.metadata?.room_name || notification.room_name
     if (roomName) {
@@ -269,7 +298,7 @@ const getSecondaryText = (notification: NotificationItem): string | null => {
 interface NotificationCenterProps {
   isOpen: boolean
   onClose: () => void
-  onNavigateToRoom: (roomId: string) => void
+  onNavigateToRoom: (roomId: string, messageId?: string) => void
   onNavigateToProfile: (userId: string) => void
   userId: string | null
 }
@@ -373,11 +402,11 @@ export function NotificationCenter({
   const matchesFilter = (type: string, filterType: FilterType): boolean => {
     switch (filterType) {
       case 'social':
-        return ['followed_you', 'unfollowed_you', 'story_reply', 'story_view_milestone', 'upvote_milestone', 'upvote_whole_group', 'poked_you'].includes(type)
+        return ['followed_you', 'unfollowed_you', 'story_reply', 'story_view_milestone', 'upvote_milestone', 'upvote_whole_group', 'poked_you', 'mentioned_you'].includes(type)
       case 'turns':
         return ['your_turn', 'nudged_you', 'turn_skipped', 'turn_completed'].includes(type)
       case 'groups':
-        return ['group_invite', 'added_to_group', 'removed_from_group'].includes(type)
+        return ['group_invite', 'added_to_group', 'removed_from_group', 'weekly_recap'].includes(type)
       default:
         return true
     }
@@ -451,6 +480,12 @@ export function NotificationCenter({
           onNavigateToRoom(notification.room_id)
         }
         break
+      case 'mentioned_you':
+      case 'weekly_recap':
+        if (notification.room_id) {
+          onNavigateToRoom(notification.room_id, notification.message_id ?? undefined)
+        }
+        break
       case 'upvote_milestone':
       case 'upvote_whole_group':
         // Navigate to room - message_id is stored for potential scroll-to
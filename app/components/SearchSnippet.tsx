@@ -0,0 +1,36 @@
+'use client'
+
+interface SearchSnippetProps {
+  snippet: string
+  className?: string
+}
+
+/**
+ * Wrap case-insensitive occurrences of query in [[ ]] markers, the same
+ * format the search RPCs use for message snippets
+ */
+export function markMatches(text: string, query: string): string {
+  const term = query.trim()
+  if (!term) return text
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return text.replace(new RegExp(escaped, 'gi'), match => `[[${match}]]`)
+}
+
+/**
+ * SearchSnippet - Renders a search snippet with [[matches]] highlighted
+ */
+export function SearchSnippet({ snippet, className = '' }: SearchSnippetProps) {
+  return (
+    <span className={className}>
+      {snippet.split(/(\[\[.*?\]\])/g).map((part, i) =>
+        part.startsWith('[[') && part.endsWith(']]') ? (
+          <mark key={i} className="bg-amber-200/70 dark:bg-amber-500/40 text-inherit rounded-sm px-0.5">
+            {part.slice(2, -2)}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </span>
+  )
+}
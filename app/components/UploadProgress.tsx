@@ -0,0 +1,83 @@
+'use client'
+
+import type { UploadStatus } from '@/lib/useUploadTask'
+
+interface UploadProgressProps {
+  status: UploadStatus
+  progress: number
+  error: string | null
+  label?: string
+  onCancel: () => void
+  onRetry: () => void
+  onDismiss: () => void
+  className?: string
+}
+
+/**
+ * UploadProgress - Progress bar for a useUploadTask upload, with cancel
+ * while it runs and retry once it has failed
+ */
+export function UploadProgress({
+  status,
+  progress,
+  error,
+  label = 'Uploading',
+  onCancel,
+  onRetry,
+  onDismiss,
+  className = '',
+}: UploadProgressProps) {
+  if (status === 'idle') return null
+
+  const percent = Math.round(progress * 100)
+
+  if (status === 'failed') {
+    return (
+      <div role="alert" className={`flex items-center gap-2 px-3 py-2 rounded-xl bg-red-50 dark:bg-red-950/40 text-sm ${className}`}>
+        <span className="flex-1 min-w-0 truncate text-red-600 dark:text-red-400">{error || 'Upload failed'}</span>
+        <button
+          onClick={onRetry}
+          className="px-2.5 py-1 text-xs font-semibold rounded-lg bg-red-500 text-white hover:bg-red-600"
+        >
+          Retry
+        </button>
+        <button
+          onClick={onDismiss}
+          aria-label="Dismiss"
+          className="p-1 text-red-400 hover:text-red-600 dark:hover:text-red-300"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`flex items-center gap-3 px-3 py-2 rounded-xl bg-stone-100 dark:bg-stone-800 text-sm ${className}`}>
+      <div className="flex-1 min-w-0">
+        <div className="flex justify-between text-xs text-stone-500 dark:text-stone-400 mb-1">
+          <span className="truncate">{progress > 0 ? label : 'Preparing...'}</span>
+          <span className="tabular-nums">{percent}%</span>
+        </div>
+        <div
+          role="progressbar"
+          aria-label={label}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+          className="h-1.5 rounded-full bg-stone-200 dark:bg-stone-700 overflow-hidden"
+        >
+          <div className="h-full bg-sky-500 transition-[width] duration-200" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+      <button
+        onClick={onCancel}
+        className="px-2.5 py-1 text-xs font-semibold rounded-lg text-stone-600 dark:text-stone-300 hover:bg-stone-200 dark:hover:bg-stone-700"
+      >
+        Cancel
+      </button>
+    </div>
+  )
+}
@@ -3,6 +3,9 @@
 import { useState, useRef, useCallback } from 'react'
 import Image from 'next/image'
 import { supabase } from '@/lib/supabaseClient'
+import { isVideoFile, prepareVideoClip, uploadVideoClip, VIDEO_CLIP_MAX_SECONDS, type PreparedVideoClip } from '@/lib/videoClip'
+import { IMAGE_MAX_INPUT_BYTES, uploadImage } from '@/lib/mediaUpload'
+import { useUploadTask } from '@/lib/useUploadTask'
 import { StoryEditor } from './StoryEditor'
 import { StoryOverlays } from './types'
 
@@ -19,25 +22,53 @@ export function StoryCreator({ isOpen, onClose, onStoryCreated, userId }: StoryC
   const [step, setStep] = useState<Step>('select')
   const [selectedImage, setSelectedImage] = useState<string | null>(null)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  // Set for video stories; selectedImage is then the poster frame
+  const [selectedClip, setSelectedClip] = useState<PreparedVideoClip | null>(null)
+  const [clipPreviewUrl, setClipPreviewUrl] = useState<string | null>(null)
   const [overlays, setOverlays] = useState<StoryOverlays | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const {
+    status: uploadStatus,
+    progress: uploadProgress,
+    error: uploadError,
+    run: runUpload,
+    cancel: cancelUpload,
+    retry: retryUpload,
+    dismiss: dismissUpload,
+  } = useUploadTask()
 
   const cameraInputRef = useRef<HTMLInputElement>(null)
   const libraryInputRef = useRef<HTMLInputElement>(null)
 
-  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
 
+    if (isVideoFile(file)) {
+      e.target.value = ''
+      setError(null)
+      try {
+        const clip = await prepareVideoClip(file)
+        setSelectedFile(file)
+        setSelectedClip(clip)
+        setClipPreviewUrl(URL.createObjectURL(file))
+        setSelectedImage(URL.createObjectURL(clip.poster))
+        setStep('preview')
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load video')
+      }
+      return
+    }
+
     // Validate file type
     if (!file.type.startsWith('image/')) {
-      setError('Please select an image file')
+      setError('Please select a photo or video')
       return
     }
 
-    // Validate file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      setError('Image must be less than 10MB')
+    // Validate file size; photos are shrunk before upload
+    if (file.size > IMAGE_MAX_INPUT_BYTES) {
+      setError(`Image must be less than ${IMAGE_MAX_INPUT_BYTES / (1024 * 1024)}MB`)
       return
     }
 
@@ -58,13 +89,19 @@ export function StoryCreator({ isOpen, onClose, onStoryCreated, userId }: StoryC
 
   // Define handleClose first since handleUpload depends on it
   const handleClose = useCallback(() => {
+    cancelUpload()
+    // Blob URLs only exist for video stories (photos use data URLs)
+    if (selectedImage?.startsWith('blob:')) URL.revokeObjectURL(selectedImage)
+    if (clipPreviewUrl) URL.revokeObjectURL(clipPreviewUrl)
     setStep('select')
     setSelectedImage(null)
     setSelectedFile(null)
+    setSelectedClip(null)
+    setClipPreviewUrl(null)
     setOverlays(null)
     setError(null)
     onClose()
-  }, [onClose])
+  }, [onClose, selectedImage, clipPreviewUrl, cancelUpload])
 
   const handleUpload = useCallback(async (storyOverlays?: StoryOverlays) => {
     if (!selectedFile || !userId) return
@@ -72,25 +109,19 @@ export function StoryCreator({ isOpen, onClose, onStoryCreated, userId }: StoryC
     setStep('uploading')
     setError(null)
 
-    try {
-      // Generate unique filename
-      const fileExt = selectedFile.name.split('.').pop()?.toLowerCase() || 'jpg'
-      const fileName = `${userId}/${Date.now()}.${fileExt}`
+    const posted = await runUpload(async ({ signal, onProgress }) => {
+      let media: { image_url: string; video_url?: string; duration_ms?: number; blurhash?: string | null }
 
-      // Upload to Supabase Storage
-      const { error: uploadError } = await supabase.storage
-        .from('stories')
-        .upload(fileName, selectedFile, {
-          contentType: selectedFile.type,
-          cacheControl: '3600',
-        })
-
-      if (uploadError) throw uploadError
-
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('stories')
-        .getPublicUrl(fileName)
+      if (selectedClip) {
+        // Video story: the clip plus its poster frame as the image
+        const { videoUrl, posterUrl } = await uploadVideoClip('stories', userId, selectedClip, { signal, onProgress })
+        media = { image_url: posterUrl, video_url: videoUrl, duration_ms: selectedClip.durationMs }
+      } else {
+        // Resized and stripped of metadata on the way (lib/mediaUpload.ts)
+        const image = await uploadImage('stories', userId, selectedFile, { signal, onProgress })
+        media = { image_url: image.url, blurhash: image.blurhash }
+      }
+      signal.throwIfAborted()
 
       // Create story record with overlays
       const finalOverlays = storyOverlays || overlays
@@ -100,21 +131,32 @@ export function StoryCreator({ isOpen, onClose, onStoryCreated, userId }: StoryC
         .from('stories')
         .insert({
           user_id: userId,
-          image_url: urlData.publicUrl,
+          ...media,
           overlays: hasOverlays ? finalOverlays : null,
         })
 
-      if (insertError) throw insertError
+      if (insertError) throw new Error(insertError.message || 'Failed to post story')
+    })
+
+    if (posted) {
+      onStoryCreated()
+      handleClose()
+    }
+  }, [selectedFile, selectedClip, userId, overlays, onStoryCreated, handleClose, runUpload])
 
-      // Success
+  const handleRetryUpload = useCallback(async () => {
+    if (await retryUpload()) {
       onStoryCreated()
       handleClose()
-    } catch (err) {
-      console.error('Failed to upload story:', err)
-      setError('Failed to upload story. Please try again.')
-      setStep('edit')
     }
-  }, [selectedFile, userId, overlays, onStoryCreated, handleClose])
+  }, [retryUpload, onStoryCreated, handleClose])
+
+  // Cancelling or giving up on a failed upload goes back to the editor
+  const handleStopUpload = useCallback(() => {
+    if (uploadStatus === 'failed') dismissUpload()
+    else cancelUpload()
+    setStep('edit')
+  }, [uploadStatus, dismissUpload, cancelUpload])
 
   // Handle editor completion
   const handleEditorComplete = useCallback((editorOverlays: StoryOverlays) => {
@@ -185,7 +227,7 @@ export function StoryCreator({ isOpen, onClose, onStoryCreated, userId }: StoryC
                 </svg>
               </div>
               <div className="text-left">
-                <p className="text-white font-medium">Take Photo</p>
+                <p className="text-white font-medium">Take Photo or Video</p>
                 <p className="text-white/50 text-sm">Use your camera</p>
               </div>
             </button>
@@ -201,7 +243,7 @@ export function StoryCreator({ isOpen, onClose, onStoryCreated, userId }: StoryC
               </div>
               <div className="text-left">
                 <p className="text-white font-medium">Choose from Library</p>
-                <p className="text-white/50 text-sm">Select an existing photo</p>
+                <p className="text-white/50 text-sm">Photos, or videos up to {VIDEO_CLIP_MAX_SECONDS}s</p>
               </div>
             </button>
 
@@ -213,12 +255,24 @@ export function StoryCreator({ isOpen, onClose, onStoryCreated, userId }: StoryC
 
         {step === 'preview' && selectedImage && (
           <div className="relative w-full h-full">
-            <Image
-              src={selectedImage}
-              alt="Preview"
-              fill
-              className="object-contain"
-            />
+            {clipPreviewUrl ? (
+              <video
+                src={clipPreviewUrl}
+                poster={selectedImage}
+                autoPlay
+                loop
+                muted
+                playsInline
+                className="absolute inset-0 w-full h-full object-contain"
+              />
+            ) : (
+              <Image
+                src={selectedImage}
+                alt="Preview"
+                fill
+                className="object-contain"
+              />
+            )}
             {error && (
               <div className="absolute bottom-8 left-4 right-4 bg-red-500/90 text-white text-sm px-4 py-3 rounded-xl text-center">
                 {error}
@@ -228,10 +282,50 @@ export function StoryCreator({ isOpen, onClose, onStoryCreated, userId }: StoryC
         )}
 
         {step === 'uploading' && (
-          <div className="flex flex-col items-center gap-4">
-            <div className="w-12 h-12 border-3 border-white/30 border-t-white rounded-full animate-spin" />
-            <p className="text-white/70">Posting your story...</p>
-          </div>
+          uploadStatus === 'failed' ? (
+            <div className="flex flex-col items-center gap-4 px-8 text-center">
+              <p className="text-white/80">{uploadError || 'Failed to upload story.'}</p>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleStopUpload}
+                  className="px-5 py-2 rounded-full bg-white/10 text-white font-medium hover:bg-white/20 transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleRetryUpload}
+                  className="px-5 py-2 rounded-full bg-white text-black font-semibold hover:bg-white/90 transition-colors"
+                >
+                  Retry
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center gap-4 w-full max-w-xs px-8">
+              <p className="text-white/70">
+                Posting your story... {Math.round(uploadProgress * 100)}%
+              </p>
+              <div
+                role="progressbar"
+                aria-label="Story upload"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(uploadProgress * 100)}
+                className="w-full h-1.5 rounded-full bg-white/20 overflow-hidden"
+              >
+                <div
+                  className="h-full bg-white transition-[width] duration-200"
+                  style={{ width: `${Math.round(uploadProgress * 100)}%` }}
+                />
+              </div>
+              <button
+                onClick={handleStopUpload}
+                className="text-sm text-white/60 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          )
         )}
       </div>
 
@@ -239,7 +333,7 @@ export function StoryCreator({ isOpen, onClose, onStoryCreated, userId }: StoryC
       <input
         ref={cameraInputRef}
         type="file"
-        accept="image/*"
+        accept="image/*,video/*"
         capture="environment"
         onChange={handleFileSelect}
         className="hidden"
@@ -247,7 +341,7 @@ export function StoryCreator({ isOpen, onClose, onStoryCreated, userId }: StoryC
       <input
         ref={libraryInputRef}
         type="file"
-        accept="image/*"
+        accept="image/*,video/*"
         onChange={handleFileSelect}
         className="hidden"
       />
@@ -13,6 +13,7 @@ import {
   stringToColor,
 } from './types'
 import { supabase } from '@/lib/supabaseClient'
+import { blurhashPlaceholderStyle } from '@/lib/blurhash'
 
 interface StoryViewerProps {
   users: StoryUser[]
@@ -39,6 +40,8 @@ export function StoryViewer({
   const [viewers, setViewers] = useState<StoryViewerType[]>([])
   const [loadingViewers, setLoadingViewers] = useState(false)
   const [imageLoaded, setImageLoaded] = useState(false)
+  const [isMuted, setIsMuted] = useState(false)
+  const videoRef = useRef<HTMLVideoElement>(null)
 
   // Reply state
   const [replyText, setReplyText] = useState('')
@@ -129,6 +132,7 @@ export function StoryViewer({
   const currentUser = users[currentUserIndex]
   const currentStory = currentUser?.stories[currentStoryIndex]
   const isOwnStory = currentUser?.user_id === currentUserId
+  const isVideo = !!currentStory?.video_url
   const STORY_DURATION = 5000 // 5 seconds
 
   // Mark story as viewed
@@ -151,9 +155,9 @@ export function StoryViewer({
     }
   }, [currentStory, currentUserId, onStoryViewed])
 
-  // Progress timer
+  // Progress timer (video stories follow playback instead)
   useEffect(() => {
-    if (isPaused || !imageLoaded) {
+    if (isPaused || !imageLoaded || isVideo) {
       if (progressIntervalRef.current) {
         clearInterval(progressIntervalRef.current)
         progressIntervalRef.current = null
@@ -178,7 +182,19 @@ export function StoryViewer({
         clearInterval(progressIntervalRef.current)
       }
     }
-  }, [isPaused, imageLoaded, currentUserIndex, currentStoryIndex])
+  }, [isPaused, imageLoaded, isVideo, currentUserIndex, currentStoryIndex])
+
+  // Play and pause video stories with the viewer; if the browser won't
+  // autoplay with sound, fall back to muted
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || !imageLoaded) return
+    if (isPaused) {
+      video.pause()
+      return
+    }
+    video.play().catch(() => setIsMuted(true))
+  }, [isPaused, imageLoaded, isMuted, currentUserIndex, currentStoryIndex])
 
   const goToNext = useCallback(() => {
     setProgress(0)
@@ -401,15 +417,36 @@ export function StoryViewer({
             </div>
           </div>
 
-          {/* Close button */}
-          <button
-            onClick={onClose}
-            className="p-2 text-white/80 hover:text-white"
-          >
-            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+          <div className="flex items-center">
+            {/* Mute toggle for video stories */}
+            {isVideo && (
+              <button
+                onClick={() => setIsMuted(prev => !prev)}
+                className="p-2 text-white/80 hover:text-white"
+                aria-label={isMuted ? 'Unmute' : 'Mute'}
+              >
+                {isMuted ? (
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M17.25 9.75L19.5 12m0 0l2.25 2.25M19.5 12l2.25-2.25M19.5 12l-2.25 2.25m-10.5-6l4.72-4.72a.75.75 0 011.28.531V19.94a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z" />
+                  </svg>
+                ) : (
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z" />
+                  </svg>
+                )}
+              </button>
+            )}
+
+            {/* Close button */}
+            <button
+              onClick={onClose}
+              className="p-2 text-white/80 hover:text-white"
+            >
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
         </div>
       </div>
 
@@ -422,14 +459,44 @@ export function StoryViewer({
         onMouseDown={() => !isReplying && setIsPaused(true)}
         onMouseUp={() => !isReplying && setIsPaused(false)}
       >
-        <Image
-          src={currentStory.image_url}
-          alt="Story"
-          fill
-          className="object-contain"
-          onLoad={() => setImageLoaded(true)}
-          priority
-        />
+        {/* Blurred stand-in until the photo arrives */}
+        {!imageLoaded && currentStory.blurhash && (
+          <div
+            className="absolute inset-0 pointer-events-none"
+            style={blurhashPlaceholderStyle(currentStory.blurhash)}
+            aria-hidden="true"
+          />
+        )}
+
+        {currentStory.video_url ? (
+          // Progress follows playback, and the story ends with the clip
+          <video
+            key={currentStory.story_id}
+            ref={videoRef}
+            src={currentStory.video_url}
+            poster={currentStory.image_url}
+            muted={isMuted}
+            playsInline
+            preload="auto"
+            className="absolute inset-0 w-full h-full object-contain"
+            onLoadedData={() => setImageLoaded(true)}
+            onTimeUpdate={(e) => {
+              const video = e.currentTarget
+              const durationSec = Number.isFinite(video.duration) ? video.duration : (currentStory.duration_ms ?? 0) / 1000
+              if (durationSec > 0) setProgress(Math.min((video.currentTime / durationSec) * 100, 100))
+            }}
+            onEnded={goToNext}
+          />
+        ) : (
+          <Image
+            src={currentStory.image_url}
+            alt="Story"
+            fill
+            className="object-contain"
+            onLoad={() => setImageLoaded(true)}
+            priority
+          />
+        )}
 
         {/* Dim overlay */}
         {currentStory.overlays?.dimOverlay && (
@@ -36,6 +36,11 @@ export interface Story {
   is_viewed: boolean
   view_count: number
   overlays: StoryOverlays | null
+  // Video stories: image_url is then the clip's poster frame
+  video_url: string | null
+  duration_ms: number | null
+  // Placeholder shown while the photo loads (image_placeholders.sql)
+  blurhash: string | null
 }
 
 export interface StoryUser {
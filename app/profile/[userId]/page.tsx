@@ -5,6 +5,7 @@ import { createPortal } from 'react-dom'
 import Image from 'next/image'
 import { useRouter, useParams } from 'next/navigation'
 import { supabase } from '@/lib/supabaseClient'
+import { blurhashPlaceholderStyle } from '@/lib/blurhash'
 
 // Types
 type FollowStatus = 'explicit' | 'implicit' | 'none' | 'unfollowed' | null
@@ -29,6 +30,7 @@ type ProfilePhoto = {
   id: string
   url: string
   position: number
+  blurhash: string | null
 }
 
 type UserListItem = {
@@ -594,6 +596,7 @@ export default function UserProfilePage() {
                       src={photo.url}
                       alt=""
                       className="w-full h-full object-cover"
+                      style={blurhashPlaceholderStyle(photo.blurhash)}
                     />
                   </button>
                 ))}
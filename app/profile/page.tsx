@@ -2,6 +2,12 @@
 
 import { useEffect, useState, useRef, useCallback } from 'react'
 import { supabase } from '@/lib/supabaseClient'
+import { SNOOZE_OPTIONS, getSnoozeUntil, notifyAdvancedRooms } from '@/lib/snooze'
+import { DEFAULT_QUIET_HOURS, getBrowserTimeZone, listTimeZones, toTimeInput } from '@/lib/quietHours'
+import { AVATAR_MAX_DIMENSION, uploadImage } from '@/lib/mediaUpload'
+import { useUploadTask } from '@/lib/useUploadTask'
+import { blurhashPlaceholderStyle } from '@/lib/blurhash'
+import { UploadProgress } from '@/app/components/UploadProgress'
 import { useRouter } from 'next/navigation'
 import Image from 'next/image'
 
@@ -13,6 +19,9 @@ type Profile = {
   avatar_url: string | null
   flashbox_youtube_url: string | null
   flashbox_youtube_id: string | null
+  timezone: string | null
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
 }
 
 type ProfilePhoto = {
@@ -21,6 +30,7 @@ type ProfilePhoto = {
   storage_path: string
   position: number
   created_at: string
+  blurhash: string | null
 }
 
 type ProfileStats = {
@@ -53,7 +63,8 @@ export default function ProfilePage() {
 
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
-  const [uploading, setUploading] = useState(false)
+  const avatarUpload = useUploadTask()
+  const uploading = avatarUpload.isUploading
   const [profile, setProfile] = useState<Profile | null>(null)
   const [displayName, setDisplayName] = useState('')
   const [bio, setBio] = useState('')
@@ -81,7 +92,8 @@ export default function ProfilePage() {
   const galleryInputRef = useRef<HTMLInputElement>(null)
   const [photos, setPhotos] = useState<ProfilePhoto[]>([])
   const [photosLoading, setPhotosLoading] = useState(true)
-  const [uploadingPhoto, setUploadingPhoto] = useState(false)
+  const galleryUpload = useUploadTask()
+  const uploadingPhoto = galleryUpload.isUploading
   const [photoViewerIndex, setPhotoViewerIndex] = useState<number | null>(null)
   const [deletingPhotoId, setDeletingPhotoId] = useState<string | null>(null)
 
@@ -91,6 +103,21 @@ export default function ProfilePage() {
   const [flashboxSaving, setFlashboxSaving] = useState(false)
   const [flashboxEditing, setFlashboxEditing] = useState(false)
 
+  // Snooze across all groups
+  const [snoozeStatus, setSnoozeStatus] = useState<{
+    total_rooms: number
+    snoozed_rooms: number
+    snoozed_until: string | null
+  } | null>(null)
+  const [snoozeSaving, setSnoozeSaving] = useState(false)
+
+  // Quiet hours
+  const [timeZone, setTimeZone] = useState('UTC')
+  const [quietEnabled, setQuietEnabled] = useState(false)
+  const [quietStart, setQuietStart] = useState<string>(DEFAULT_QUIET_HOURS.start)
+  const [quietEnd, setQuietEnd] = useState<string>(DEFAULT_QUIET_HOURS.end)
+  const [quietSaving, setQuietSaving] = useState(false)
+
   useEffect(() => {
     const loadProfile = async () => {
       const { data: authData } = await supabase.auth.getUser()
@@ -115,6 +142,20 @@ export default function ProfilePage() {
         setAvatarUrl(profileData.avatar_url || null)
         setFlashboxUrl(profileData.flashbox_youtube_url || '')
         setFlashboxVideoId(profileData.flashbox_youtube_id || null)
+
+        const start = toTimeInput(profileData.quiet_hours_start)
+        const end = toTimeInput(profileData.quiet_hours_end)
+        setTimeZone(profileData.timezone || getBrowserTimeZone())
+        setQuietEnabled(!!start && !!end)
+        if (start && end) {
+          setQuietStart(start)
+          setQuietEnd(end)
+        }
+
+        // Remember the browser's timezone the first time we see it
+        if (!profileData.timezone) {
+          supabase.rpc('set_quiet_hours', { p_timezone: getBrowserTimeZone() }).then(() => {})
+        }
       }
 
       // Load profile photos
@@ -157,14 +198,71 @@ export default function ProfilePage() {
       }
       setStatsLoaded(true)
 
+      // Load snooze status
+      const { data: snoozeData, error: snoozeError } = await supabase.rpc('get_my_snooze_status')
+      if (snoozeError) {
+        console.error('Error loading snooze status:', snoozeError)
+      } else {
+        setSnoozeStatus(snoozeData)
+      }
+
       setLoading(false)
     }
 
     loadProfile()
   }, [router])
 
+  const handleSetSnooze = async (until: string | null) => {
+    setSnoozeSaving(true)
+    const { data, error } = await supabase.rpc('set_snooze', { p_until: until })
+
+    if (error || !data?.success) {
+      console.error('Error updating snooze:', error || data?.error)
+      setMessage({ type: 'error', text: data?.error || 'Failed to update snooze' })
+    } else {
+      if (data.advanced_room_ids?.length > 0) {
+        notifyAdvancedRooms(data.advanced_room_ids)
+      }
+      setSnoozeStatus(prev => prev && {
+        ...prev,
+        snoozed_rooms: until ? prev.total_rooms : 0,
+        snoozed_until: until,
+      })
+      const pausedCount = data.paused_room_ids?.length ?? 0
+      setMessage({
+        type: 'success',
+        text: !until
+          ? 'Snooze turned off'
+          : pausedCount > 0
+            ? `Snoozed in all your groups. Everyone else is away in ${pausedCount === 1 ? 'one of them' : `${pausedCount} of them`}, so those games are paused until someone is back.`
+            : 'Snoozed in all your groups',
+      })
+    }
+    setSnoozeSaving(false)
+  }
+
+  const handleSaveQuietHours = async (enabled: boolean) => {
+    setQuietSaving(true)
+    const { data, error } = await supabase.rpc('set_quiet_hours', {
+      p_timezone: timeZone,
+      p_start: enabled ? quietStart : null,
+      p_end: enabled ? quietEnd : null,
+    })
+
+    if (error || !data?.success) {
+      console.error('Error updating quiet hours:', error || data?.error)
+      setMessage({ type: 'error', text: data?.error || 'Failed to update quiet hours' })
+    } else {
+      setQuietEnabled(enabled)
+      setMessage({ type: 'success', text: enabled ? `Quiet from ${quietStart} to ${quietEnd}` : 'Quiet hours turned off' })
+    }
+    setQuietSaving(false)
+  }
+
   const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
+    // Reset input so the same photo can be picked again
+    e.target.value = ''
     if (!file || !profile) return
 
     if (!file.type.startsWith('image/')) {
@@ -172,44 +270,26 @@ export default function ProfilePage() {
       return
     }
 
-    if (file.size > 5 * 1024 * 1024) {
-      setMessage({ type: 'error', text: 'Image must be less than 5MB' })
-      return
-    }
-
-    setUploading(true)
     setMessage(null)
 
-    try {
-      const fileExt = file.name.split('.').pop()
-      const fileName = `avatars/${profile.id}.${fileExt}`
-
-      const { error: uploadError } = await supabase.storage
-        .from('media')
-        .upload(fileName, file, { upsert: true })
-
-      if (uploadError) throw uploadError
-
-      const { data: urlData } = supabase.storage
-        .from('media')
-        .getPublicUrl(fileName)
-
-      const newAvatarUrl = urlData.publicUrl + '?t=' + Date.now()
+    await avatarUpload.run(async ({ signal, onProgress }) => {
+      // Each upload gets a new key, so the URL needs no cache-busting
+      const image = await uploadImage('media', `avatars/${profile.id}`, file, {
+        signal,
+        onProgress,
+        maxDimension: AVATAR_MAX_DIMENSION,
+      })
+      signal.throwIfAborted()
 
       const { error: updateError } = await supabase.rpc('update_profile', {
-        p_avatar_url: newAvatarUrl
+        p_avatar_url: image.url
       })
 
       if (updateError) throw updateError
 
-      setAvatarUrl(newAvatarUrl)
+      setAvatarUrl(image.url)
       setMessage({ type: 'success', text: 'Photo updated!' })
-    } catch (error: unknown) {
-      console.error('Upload error:', error)
-      setMessage({ type: 'error', text: (error as Error).message || 'Failed to upload photo' })
-    } finally {
-      setUploading(false)
-    }
+    })
   }
 
   const handleSave = async () => {
@@ -238,6 +318,10 @@ export default function ProfilePage() {
   // Photo Gallery handlers
   const handleGalleryUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
+    // Reset input
+    if (galleryInputRef.current) {
+      galleryInputRef.current.value = ''
+    }
     if (!file || !profile) return
 
     if (!file.type.startsWith('image/')) {
@@ -245,39 +329,22 @@ export default function ProfilePage() {
       return
     }
 
-    if (file.size > 10 * 1024 * 1024) {
-      setMessage({ type: 'error', text: 'Image must be less than 10MB' })
-      return
-    }
-
     if (photos.length >= 16) {
       setMessage({ type: 'error', text: 'Maximum 16 photos allowed' })
       return
     }
 
-    setUploadingPhoto(true)
     setMessage(null)
 
-    try {
-      const fileExt = file.name.split('.').pop()
-      const fileName = `gallery/${profile.id}/${Date.now()}.${fileExt}`
-
-      const { error: uploadError } = await supabase.storage
-        .from('media')
-        .upload(fileName, file)
-
-      if (uploadError) throw uploadError
-
-      const { data: urlData } = supabase.storage
-        .from('media')
-        .getPublicUrl(fileName)
-
-      const photoUrl = urlData.publicUrl
+    await galleryUpload.run(async ({ signal, onProgress }) => {
+      const image = await uploadImage('media', `gallery/${profile.id}`, file, { signal, onProgress })
+      signal.throwIfAborted()
 
       // Add to database
       const { data: addResult, error: addError } = await supabase.rpc('add_profile_photo', {
-        p_url: photoUrl,
-        p_storage_path: fileName
+        p_url: image.url,
+        p_storage_path: image.path,
+        p_blurhash: image.blurhash
       })
 
       if (addError) throw addError
@@ -289,23 +356,15 @@ export default function ProfilePage() {
       // Add to local state
       setPhotos(prev => [...prev, {
         id: addResult.photo_id,
-        url: photoUrl,
-        storage_path: fileName,
+        url: image.url,
+        storage_path: image.path,
         position: addResult.position,
-        created_at: new Date().toISOString()
+        created_at: new Date().toISOString(),
+        blurhash: image.blurhash
       }])
 
       setMessage({ type: 'success', text: 'Photo added!' })
-    } catch (error: unknown) {
-      console.error('Gallery upload error:', error)
-      setMessage({ type: 'error', text: (error as Error).message || 'Failed to upload photo' })
-    } finally {
-      setUploadingPhoto(false)
-      // Reset input
-      if (galleryInputRef.current) {
-        galleryInputRef.current.value = ''
-      }
-    }
+    })
   }
 
   const handleDeletePhoto = async (photoId: string) => {
@@ -553,6 +612,16 @@ export default function ProfilePage() {
               className="hidden"
             />
           </div>
+          <UploadProgress
+            status={avatarUpload.status}
+            progress={avatarUpload.progress}
+            error={avatarUpload.error}
+            label="Uploading photo"
+            onCancel={avatarUpload.cancel}
+            onRetry={avatarUpload.retry}
+            onDismiss={avatarUpload.dismiss}
+            className="mt-3 w-full max-w-xs"
+          />
           <h2 className="mt-3 text-xl font-semibold text-stone-900 dark:text-stone-50">
             {displayName || getDisplayName(profile?.email || '')}
           </h2>
@@ -631,6 +700,17 @@ export default function ProfilePage() {
             className="hidden"
           />
 
+          <UploadProgress
+            status={galleryUpload.status}
+            progress={galleryUpload.progress}
+            error={galleryUpload.error}
+            label="Uploading photo"
+            onCancel={galleryUpload.cancel}
+            onRetry={galleryUpload.retry}
+            onDismiss={galleryUpload.dismiss}
+            className="mb-3"
+          />
+
           {photosLoading ? (
             <div className="grid grid-cols-3 gap-2">
               {[...Array(3)].map((_, i) => (
@@ -660,6 +740,7 @@ export default function ProfilePage() {
                     src={photo.url}
                     alt=""
                     className="w-full h-full object-cover"
+                    style={blurhashPlaceholderStyle(photo.blurhash)}
                   />
                 </button>
               ))}
@@ -748,6 +829,107 @@ export default function ProfilePage() {
           )}
         </div>
 
+        {/* Snooze */}
+        {snoozeStatus && snoozeStatus.total_rooms > 0 && (
+          <div className="bg-white dark:bg-stone-800 rounded-2xl p-5 border border-stone-200/50 dark:border-stone-700/50 mb-6">
+            <h3 className="text-sm font-semibold text-stone-500 dark:text-stone-400 uppercase tracking-wide mb-2">
+              Snooze
+            </h3>
+            {snoozeStatus.snoozed_until ? (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm text-amber-600 dark:text-amber-400">
+                  Away until {new Date(snoozeStatus.snoozed_until).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                  {snoozeStatus.snoozed_rooms < snoozeStatus.total_rooms && (
+                    <span className="text-stone-400 dark:text-stone-500"> · {snoozeStatus.snoozed_rooms} of {snoozeStatus.total_rooms} groups</span>
+                  )}
+                </p>
+                <button
+                  onClick={() => handleSetSnooze(null)}
+                  disabled={snoozeSaving}
+                  className="text-sm font-medium text-indigo-500 hover:text-indigo-600 disabled:opacity-50"
+                >
+                  Turn off
+                </button>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-stone-500 dark:text-stone-400 mb-3">
+                  Skip your turns and pause nudges in all your groups
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {SNOOZE_OPTIONS.map(option => (
+                    <button
+                      key={option.days}
+                      onClick={() => handleSetSnooze(getSnoozeUntil(option.days))}
+                      disabled={snoozeSaving}
+                      className="px-3 py-1.5 text-sm bg-stone-100 dark:bg-stone-700 text-stone-700 dark:text-stone-200 rounded-xl hover:bg-stone-200 dark:hover:bg-stone-600 transition-colors disabled:opacity-50"
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Quiet Hours */}
+        <div className="bg-white dark:bg-stone-800 rounded-2xl p-5 border border-stone-200/50 dark:border-stone-700/50 mb-6">
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <h3 className="text-sm font-semibold text-stone-500 dark:text-stone-400 uppercase tracking-wide">
+              Quiet Hours
+            </h3>
+            {quietEnabled && (
+              <button
+                onClick={() => handleSaveQuietHours(false)}
+                disabled={quietSaving}
+                className="text-sm font-medium text-indigo-500 hover:text-indigo-600 disabled:opacity-50"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-stone-500 dark:text-stone-400 mb-3">
+            Turns, nudges and notifications wait until your quiet hours end
+          </p>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <input
+              type="time"
+              value={quietStart}
+              onChange={(e) => setQuietStart(e.target.value)}
+              aria-label="Quiet hours start"
+              className="px-3 py-1.5 text-sm bg-stone-50 dark:bg-stone-700 border border-stone-200 dark:border-stone-600 rounded-xl text-stone-900 dark:text-stone-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <span className="text-sm text-stone-400 dark:text-stone-500">to</span>
+            <input
+              type="time"
+              value={quietEnd}
+              onChange={(e) => setQuietEnd(e.target.value)}
+              aria-label="Quiet hours end"
+              className="px-3 py-1.5 text-sm bg-stone-50 dark:bg-stone-700 border border-stone-200 dark:border-stone-600 rounded-xl text-stone-900 dark:text-stone-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              aria-label="Timezone"
+              className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-stone-50 dark:bg-stone-700 border border-stone-200 dark:border-stone-600 rounded-xl text-stone-900 dark:text-stone-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {listTimeZones(timeZone).map(zone => (
+                <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleSaveQuietHours(true)}
+              disabled={quietSaving || !quietStart || !quietEnd}
+              className="px-4 py-1.5 text-sm font-medium bg-indigo-500 text-white rounded-xl hover:bg-indigo-600 transition-colors disabled:opacity-50"
+            >
+              {quietSaving ? 'Saving...' : quietEnabled ? 'Update' : 'Turn on'}
+            </button>
+          </div>
+        </div>
+
         {/* Edit Form */}
         <div className="bg-white dark:bg-stone-800 rounded-2xl p-5 border border-stone-200/50 dark:border-stone-700/50 space-y-5">
           <h3 className="text-sm font-semibold text-stone-500 dark:text-stone-400 uppercase tracking-wide">Edit Profile</h3>
@@ -0,0 +1,232 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { supabase } from '@/lib/supabaseClient'
+import { Avatar } from './Avatar'
+import { formatShortDate } from '../utils/formatters'
+import { getPhotoTurn, splitTurnResponse } from '../utils/messagePayload'
+import { HIGHLIGHT_PERIODS } from '../types'
+import type { Highlight, HighlightPeriod, PinnedMessage, UserInfo } from '../types'
+
+type Tab = 'pinned' | 'highlights'
+
+interface HighlightsPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  roomId: string
+  currentUserId: string | null
+  isHost: boolean
+  users: Map<string, UserInfo>
+  refreshKey: number
+  onSelect: (item: { id: string; created_at: string }) => void
+  onUnpin: (messageId: string) => void
+}
+
+// Text and photo to show for a pinned or highlighted message
+const getPreview = (item: Pick<PinnedMessage, 'type' | 'content' | 'payload'>): { text: string | null; imageUrl: string | null } => {
+  if (item.type === 'image') return { text: null, imageUrl: item.content }
+  if (item.type === 'turn_response') {
+    const photoTurn = getPhotoTurn(item)
+    if (photoTurn) return { text: photoTurn.prompt, imageUrl: photoTurn.image_url }
+    if (item.content.startsWith('Reply to "')) {
+      return { text: splitTurnResponse(item.content).answer.replace(/\n\n/g, ' '), imageUrl: null }
+    }
+  }
+  return { text: item.content, imageUrl: null }
+}
+
+// Pinned messages and the room's best answers, opened from the header
+export function HighlightsPanel({
+  isOpen,
+  onClose,
+  roomId,
+  currentUserId,
+  isHost,
+  users,
+  refreshKey,
+  onSelect,
+  onUnpin,
+}: HighlightsPanelProps) {
+  const [tab, setTab] = useState<Tab>('pinned')
+  const [period, setPeriod] = useState<HighlightPeriod>('week')
+  const [pins, setPins] = useState<PinnedMessage[]>([])
+  const [highlights, setHighlights] = useState<Highlight[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    const request = tab === 'pinned'
+      ? supabase.rpc('get_pinned_messages', { p_room_id: roomId })
+      : supabase.rpc('get_room_highlights', { p_room_id: roomId, p_period: period })
+    request.then(({ data, error: rpcError }) => {
+      if (cancelled) return
+      setLoading(false)
+      if (rpcError) {
+        console.error('Failed to load highlights:', rpcError)
+        setError(tab === 'pinned' ? 'Failed to load pins' : 'Failed to load highlights')
+        return
+      }
+      setError(null)
+      if (tab === 'pinned') setPins((data ?? []) as PinnedMessage[])
+      else setHighlights((data ?? []) as Highlight[])
+    })
+    return () => { cancelled = true }
+  }, [isOpen, roomId, tab, period, refreshKey])
+
+  if (!isOpen) return null
+
+  const items: (PinnedMessage | Highlight)[] = tab === 'pinned' ? pins : highlights
+
+  const switchTab = (next: Tab) => {
+    if (next === tab) return
+    setLoading(true)
+    setTab(next)
+  }
+
+  const switchPeriod = (next: HighlightPeriod) => {
+    if (next === period) return
+    setLoading(true)
+    setPeriod(next)
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/40 z-[200]"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <div
+        className="fixed inset-x-0 top-0 z-[201] max-h-[85vh] flex flex-col bg-white dark:bg-stone-900 shadow-xl rounded-b-2xl"
+        style={{ paddingTop: 'env(safe-area-inset-top, 0px)' }}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Pinned and highlights"
+      >
+        <div className="max-w-3xl w-full mx-auto px-4 pt-3 pb-2 space-y-2 border-b border-stone-100 dark:border-stone-800">
+          <div className="flex items-center gap-2">
+            <div className="flex-1 flex p-0.5 bg-stone-100 dark:bg-stone-800 rounded-xl">
+              {(['pinned', 'highlights'] as const).map(t => (
+                <button
+                  key={t}
+                  onClick={() => switchTab(t)}
+                  className={`flex-1 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                    tab === t
+                      ? 'bg-white dark:bg-stone-700 text-stone-900 dark:text-stone-50 shadow-sm'
+                      : 'text-stone-500 dark:text-stone-400'
+                  }`}
+                >
+                  {t === 'pinned' ? 'Pinned' : 'Highlights'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={onClose}
+              className="text-sm font-medium text-stone-500 dark:text-stone-400 hover:text-stone-700 dark:hover:text-stone-200"
+            >
+              Done
+            </button>
+          </div>
+
+          {tab === 'highlights' && (
+            <div className="flex gap-1.5 text-xs">
+              {HIGHLIGHT_PERIODS.map(p => (
+                <button
+                  key={p.value}
+                  onClick={() => switchPeriod(p.value)}
+                  className={`px-2.5 py-1 rounded-full font-medium transition-colors ${
+                    period === p.value
+                      ? 'bg-indigo-500 text-white'
+                      : 'bg-stone-100 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-200 dark:hover:bg-stone-700'
+                  }`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <div className="max-w-3xl mx-auto px-2 py-2">
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <div className="w-5 h-5 border-2 border-stone-300 border-t-indigo-500 rounded-full animate-spin" />
+              </div>
+            ) : error ? (
+              <p className="px-2 py-6 text-center text-sm text-red-500">{error}</p>
+            ) : items.length === 0 ? (
+              <p className="px-2 py-6 text-center text-sm text-stone-400 dark:text-stone-500">
+                {tab === 'pinned'
+                  ? 'Nothing pinned yet. Long-press a message and tap Pin.'
+                  : 'No highlights for this period yet. Pin messages or upvote answers to see them here.'}
+              </p>
+            ) : (
+              items.map(item => {
+                const author = item.user_id ? users.get(item.user_id) ?? null : null
+                const { text, imageUrl } = getPreview(item)
+                const score = 'score' in item ? item.score : 0
+                const canUnpin = tab === 'pinned' && (item.pinned_by === currentUserId || isHost)
+
+                return (
+                  <div key={item.message_id} className="flex items-start gap-1 rounded-xl hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors">
+                    <button
+                      onClick={() => onSelect({ id: item.message_id, created_at: item.created_at })}
+                      className="flex-1 min-w-0 flex items-start gap-3 px-2 py-2.5 text-left"
+                    >
+                      <Avatar user={author} size="md" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 text-xs">
+                          <span className="font-medium text-stone-700 dark:text-stone-200 truncate">
+                            {author?.displayName ?? 'Unknown'}
+                          </span>
+                          {item.type === 'turn_response' && (
+                            <span className="text-indigo-500 dark:text-indigo-400">answer</span>
+                          )}
+                          {tab === 'highlights' && item.pinned_at && (
+                            <span className="text-amber-500">pinned</span>
+                          )}
+                          {score > 0 && (
+                            <span className="text-emerald-600 dark:text-emerald-400 font-semibold">▲ {score}</span>
+                          )}
+                          <span className="ml-auto text-stone-400 dark:text-stone-500 shrink-0">
+                            {formatShortDate(item.created_at)}
+                          </span>
+                        </div>
+                        {text && (
+                          <p className="text-sm text-stone-600 dark:text-stone-300 line-clamp-2">{text}</p>
+                        )}
+                        {tab === 'pinned' && item.pinned_by && (
+                          <p className="text-[11px] text-stone-400 dark:text-stone-500 mt-0.5">
+                            Pinned by {item.pinned_by === currentUserId ? 'you' : users.get(item.pinned_by)?.displayName ?? 'a member'}
+                          </p>
+                        )}
+                      </div>
+                      {imageUrl && (
+                        <Image src={imageUrl} alt="" width={40} height={40} className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                      )}
+                    </button>
+                    {canUnpin && (
+                      <button
+                        onClick={() => onUnpin(item.message_id)}
+                        className="mt-2.5 mr-2 px-2 py-1 text-xs font-medium text-stone-400 hover:text-red-500 dark:text-stone-500 dark:hover:text-red-400"
+                        aria-label="Unpin"
+                      >
+                        Unpin
+                      </button>
+                    )}
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
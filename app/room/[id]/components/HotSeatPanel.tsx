@@ -0,0 +1,217 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabaseClient'
+import { Avatar } from './Avatar'
+import { formatTimeRemaining } from '../utils'
+import type { HotSeatQuestion, HotSeatStatus, TurnSession, UserInfo } from '../types'
+
+interface HotSeatPanelProps {
+  roomId: string
+  userId: string
+  isHost: boolean
+  session: Pick<TurnSession, 'turn_instance_id' | 'hot_seat_until' | 'paused_at'>
+  // Questions asked so far this turn, from the message list (reloads the panel)
+  questionCount: number
+  getUserInfo: (uid: string) => UserInfo | null
+  // The window closed and a question became the prompt
+  onPicked: () => void
+}
+
+const MAX_QUESTION_LENGTH = 300
+
+// Question window for hot seat mode: the group asks the turn holder
+// questions and votes; the top one becomes the prompt
+export function HotSeatPanel({ roomId, userId, isHost, session, questionCount, getUserInfo, onPicked }: HotSeatPanelProps) {
+  const [status, setStatus] = useState<HotSeatStatus | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [draft, setDraft] = useState('')
+  const [asking, setAsking] = useState(false)
+  const [closing, setClosing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [, setTick] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    supabase.rpc('get_hot_seat_status', { p_room_id: roomId }).then(({ data, error: rpcError }) => {
+      if (cancelled) return
+      if (rpcError || !data?.success) {
+        setError(rpcError?.message || data?.error || 'Failed to load questions')
+        return
+      }
+      setError(null)
+      setStatus(data.active ? (data as HotSeatStatus) : null)
+      if (data.picked) onPicked()
+    })
+
+    return () => { cancelled = true }
+    // onPicked is a fresh closure each render; reloading on it would loop
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [roomId, session.turn_instance_id, session.hot_seat_until, questionCount, refreshKey])
+
+  // Countdown, and a reload once the window closes (that picks the question)
+  useEffect(() => {
+    if (!status) return
+    const interval = setInterval(() => {
+      setTick(t => t + 1)
+      if (new Date(status.closes_at).getTime() <= Date.now()) {
+        setRefreshKey(k => k + 1)
+      }
+    }, 30000)
+    return () => clearInterval(interval)
+  }, [status])
+
+  if (!status) {
+    return error ? <p className="max-w-3xl mx-auto px-4 py-2 text-xs text-red-600 dark:text-red-400">{error}</p> : null
+  }
+
+  const isHolder = status.holder_id === userId
+  const holderName = getUserInfo(status.holder_id)?.displayName ?? 'them'
+  const isPaused = !!session.paused_at
+  const canClose = (isHolder || isHost) && !isPaused && new Date(status.opens_at) <= new Date()
+  const myQuestionCount = status.questions.filter(q => q.user_id === userId).length
+
+  const ask = async () => {
+    const question = draft.trim()
+    if (!question) return
+
+    setAsking(true)
+    setError(null)
+    const { data, error: rpcError } = await supabase.rpc('ask_hot_seat_question', {
+      p_room_id: roomId,
+      p_question: question,
+    })
+    setAsking(false)
+
+    if (rpcError || !data?.success) {
+      setError(rpcError?.message || data?.error || 'Failed to ask question')
+      return
+    }
+    setDraft('')
+    setRefreshKey(k => k + 1)
+  }
+
+  const vote = async (question: HotSeatQuestion, voteType: 'up' | 'down') => {
+    const { data, error: rpcError } = await supabase.rpc('vote_on_message', {
+      p_message_id: question.message_id,
+      p_vote_type: voteType,
+    })
+
+    if (rpcError) {
+      setError(rpcError.message)
+      return
+    }
+
+    setStatus(prev => prev ? {
+      ...prev,
+      questions: prev.questions
+        .map(q => q.message_id === question.message_id ? { ...q, score: data.score, user_vote: data.user_vote } : q)
+        .sort((a, b) => b.score - a.score || a.created_at.localeCompare(b.created_at)),
+    } : prev)
+  }
+
+  const closeNow = async () => {
+    setClosing(true)
+    setError(null)
+    const { data, error: rpcError } = await supabase.rpc('close_hot_seat_questions', { p_room_id: roomId })
+    setClosing(false)
+
+    if (rpcError || !data?.success) {
+      setError(rpcError?.message || data?.error || 'Failed to pick a question')
+      return
+    }
+    onPicked()
+  }
+
+  return (
+    <div className="bg-orange-50/80 dark:bg-orange-950/30 border-b border-orange-200/40 dark:border-orange-800/40">
+      <div className="max-w-3xl mx-auto px-4 py-2.5 space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm font-medium text-stone-800 dark:text-stone-100 min-w-0 truncate">
+            🔥 {isHolder ? 'You’re in the hot seat' : `Questions for ${holderName}`}
+          </p>
+          <span className="text-[11px] text-stone-400 dark:text-stone-500 shrink-0">
+            {isPaused ? 'Paused' : `Picks in ${formatTimeRemaining(new Date(status.closes_at))}`}
+          </span>
+        </div>
+
+        {isHolder && (
+          <p className="text-xs text-stone-500 dark:text-stone-400">
+            The group is asking and voting. The top question becomes your prompt.
+          </p>
+        )}
+
+        {status.questions.length > 0 && (
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {status.questions.map(q => {
+              const isMine = q.user_id === userId
+              return (
+                <li key={q.message_id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-white/80 dark:bg-stone-900/60">
+                  <Avatar user={getUserInfo(q.user_id)} size="xs" />
+                  <span className="flex-1 min-w-0 text-xs text-stone-700 dark:text-stone-200 break-words">{q.content}</span>
+                  <div className="flex items-center gap-0.5 shrink-0">
+                    <button
+                      onClick={() => vote(q, 'up')}
+                      disabled={isMine || isPaused}
+                      aria-label="Upvote question"
+                      className={`p-0.5 rounded disabled:opacity-40 ${q.user_vote === 'up' ? 'text-orange-500' : 'text-stone-400 hover:text-orange-500'}`}
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M5 15l7-7 7 7" />
+                      </svg>
+                    </button>
+                    <span className="w-5 text-center text-xs font-medium text-stone-600 dark:text-stone-300">{q.score}</span>
+                    <button
+                      onClick={() => vote(q, 'down')}
+                      disabled={isMine || isPaused}
+                      aria-label="Downvote question"
+                      className={`p-0.5 rounded disabled:opacity-40 ${q.user_vote === 'down' ? 'text-indigo-500' : 'text-stone-400 hover:text-indigo-500'}`}
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        {!isHolder && !isPaused && myQuestionCount < 3 && (
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') ask() }}
+              maxLength={MAX_QUESTION_LENGTH}
+              placeholder={`Ask ${holderName} something...`}
+              className="flex-1 px-3 py-1.5 text-sm bg-white dark:bg-stone-900 border border-orange-200 dark:border-orange-800 rounded-xl text-stone-900 dark:text-stone-50 focus:outline-none focus:ring-2 focus:ring-orange-400"
+            />
+            <button
+              onClick={ask}
+              disabled={asking || !draft.trim()}
+              className="px-3 py-1.5 text-sm font-medium bg-orange-500 text-white rounded-xl hover:bg-orange-600 disabled:opacity-50"
+            >
+              {asking ? '...' : 'Ask'}
+            </button>
+          </div>
+        )}
+
+        {canClose && (
+          <button
+            onClick={closeNow}
+            disabled={closing}
+            className="text-xs font-medium text-orange-600 dark:text-orange-400 hover:text-orange-700 disabled:opacity-50"
+          >
+            {closing ? 'Picking...' : status.questions.length > 0 ? 'Use the top question now' : 'Skip to a regular prompt'}
+          </button>
+        )}
+
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { Avatar } from './Avatar'
+import type { UserInfo } from '../types'
+
+interface MentionSuggestionsProps {
+  query: string
+  candidates: UserInfo[]
+  onSelect: (user: UserInfo) => void
+}
+
+const MAX_SUGGESTIONS = 5
+
+// Member picker shown above the chat input while typing @name
+export function MentionSuggestions({ query, candidates, onSelect }: MentionSuggestionsProps) {
+  const needle = query.toLowerCase()
+  const matches = candidates
+    .filter(u =>
+      u.displayName.toLowerCase().split(/\s+/).some(part => part.startsWith(needle)) ||
+      u.email.toLowerCase().startsWith(needle)
+    )
+    .slice(0, MAX_SUGGESTIONS)
+
+  if (matches.length === 0) return null
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 pt-2">
+      <div
+        className="bg-white dark:bg-stone-900 rounded-2xl shadow-lg ring-1 ring-stone-200 dark:ring-stone-700 py-1 overflow-hidden"
+        role="listbox"
+        aria-label="Mention a member"
+      >
+        {matches.map(user => (
+          <button
+            key={user.id}
+            // Keep focus in the input so the keyboard stays up on mobile
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(user)}
+            role="option"
+            aria-selected={false}
+            className="w-full flex items-center gap-2.5 px-3 py-2 text-left hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors"
+          >
+            <Avatar user={user} size="xs" />
+            <span className="text-sm font-medium text-stone-800 dark:text-stone-100 truncate">{user.displayName}</span>
+            <span className="text-xs text-stone-400 dark:text-stone-500 truncate">{user.email}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { supabase } from '@/lib/supabaseClient'
+import { SearchSnippet } from '@/app/components/SearchSnippet'
+import { formatShortDate } from '../utils/formatters'
+import { getMessageImageUrl } from '../utils/messagePayload'
+import type { MessagePayload, Msg, RoomMember, UserInfo } from '../types'
+
+export type MessageSearchResult = {
+  id: string
+  user_id: string | null
+  type: Msg['type']
+  content: string
+  payload: MessagePayload | null
+  created_at: string
+  snippet: string
+  rank: number
+}
+
+interface MessageSearchPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  roomId: string
+  members: RoomMember[]
+  users: Map<string, UserInfo>
+  onSelectResult: (result: MessageSearchResult) => void
+}
+
+const TYPE_FILTERS = [
+  { value: '', label: 'All types' },
+  { value: 'chat', label: 'Chat' },
+  { value: 'turn_response', label: 'Answers' },
+  { value: 'image', label: 'Photos' },
+  { value: 'story_reply', label: 'Story replies' },
+] as const
+
+const PAGE_SIZE = 30
+
+// Search overlay for the room's message history
+export function MessageSearchPanel({
+  isOpen,
+  onClose,
+  roomId,
+  members,
+  users,
+  onSelectResult,
+}: MessageSearchPanelProps) {
+  const [query, setQuery] = useState('')
+  const [authorFilter, setAuthorFilter] = useState('')
+  const [typeFilter, setTypeFilter] = useState('')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+  const [results, setResults] = useState<MessageSearchResult[]>([])
+  const [searching, setSearching] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasCriteria = query.trim().length > 0 || !!authorFilter || !!typeFilter
+
+  const runSearch = async (before: string | null) => {
+    setSearching(true)
+    setError(null)
+    const { data, error: rpcError } = await supabase.rpc('search_room_messages', {
+      p_room_id: roomId,
+      p_query: query.trim(),
+      p_user_id: authorFilter || null,
+      p_type: typeFilter || null,
+      // Dates are local days; the "to" day is inclusive
+      p_from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : null,
+      p_to: toDate ? new Date(new Date(`${toDate}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString() : null,
+      p_before: before,
+      p_limit: PAGE_SIZE,
+    })
+    setSearching(false)
+
+    if (rpcError) {
+      console.error('Message search failed:', rpcError)
+      setError('Search failed')
+      return
+    }
+    const rows = (data ?? []) as MessageSearchResult[]
+    setResults(prev => before ? [...prev, ...rows] : rows)
+    setHasMore(rows.length >= PAGE_SIZE)
+  }
+
+  // Debounced search as the query or filters change
+  useEffect(() => {
+    if (!isOpen || !hasCriteria) return
+    const timer = setTimeout(() => runSearch(null), 300)
+    return () => clearTimeout(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, query, authorFilter, typeFilter, fromDate, toDate])
+
+  if (!isOpen) return null
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/40 z-[200]"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <div
+        className="fixed inset-x-0 top-0 z-[201] max-h-[85vh] flex flex-col bg-white dark:bg-stone-900 shadow-xl rounded-b-2xl"
+        style={{ paddingTop: 'env(safe-area-inset-top, 0px)' }}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search messages"
+      >
+        <div className="max-w-3xl w-full mx-auto px-4 pt-3 pb-2 space-y-2 border-b border-stone-100 dark:border-stone-800">
+          <div className="flex items-center gap-2">
+            <div className="flex-1 flex items-center gap-2 px-3 py-2 bg-stone-100 dark:bg-stone-800 rounded-xl">
+              <svg className="w-4 h-4 text-stone-400 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+              </svg>
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search messages and answers"
+                autoFocus
+                className="flex-1 min-w-0 bg-transparent text-sm text-stone-800 dark:text-stone-100 placeholder:text-stone-400 focus:outline-none"
+              />
+            </div>
+            <button
+              onClick={onClose}
+              className="text-sm font-medium text-stone-500 dark:text-stone-400 hover:text-stone-700 dark:hover:text-stone-200"
+            >
+              Cancel
+            </button>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <select
+              value={authorFilter}
+              onChange={(e) => setAuthorFilter(e.target.value)}
+              className="px-2 py-1 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg text-stone-700 dark:text-stone-200"
+            >
+              <option value="">Anyone</option>
+              {members.map(m => (
+                <option key={m.user_id} value={m.user_id}>
+                  {users.get(m.user_id)?.displayName ?? 'Unknown'}
+                </option>
+              ))}
+            </select>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              className="px-2 py-1 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg text-stone-700 dark:text-stone-200"
+            >
+              {TYPE_FILTERS.map(f => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              aria-label="From date"
+              className="px-2 py-1 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg text-stone-700 dark:text-stone-200"
+            />
+            <span className="text-stone-400">–</span>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              aria-label="To date"
+              className="px-2 py-1 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg text-stone-700 dark:text-stone-200"
+            />
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto">
+          <div className="max-w-3xl mx-auto px-2 py-2">
+            {!hasCriteria ? (
+              <p className="px-2 py-6 text-center text-sm text-stone-400 dark:text-stone-500">
+                Search by words, or filter by person or type
+              </p>
+            ) : error ? (
+              <p className="px-2 py-6 text-center text-sm text-red-500">{error}</p>
+            ) : results.length === 0 && !searching ? (
+              <p className="px-2 py-6 text-center text-sm text-stone-400 dark:text-stone-500">No messages found</p>
+            ) : (
+              results.map(result => {
+                const author = result.user_id ? users.get(result.user_id) : null
+                const imageUrl = getMessageImageUrl(result)
+
+                return (
+                  <button
+                    key={result.id}
+                    onClick={() => onSelectResult(result)}
+                    className="w-full flex items-start gap-3 px-2 py-2.5 rounded-xl text-left hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors"
+                  >
+                    {author?.avatarUrl ? (
+                      <Image src={author.avatarUrl} alt="" width={32} height={32} className="w-8 h-8 rounded-full object-cover shrink-0" />
+                    ) : (
+                      <div className={`w-8 h-8 rounded-full ${author?.color ?? 'bg-stone-300'} flex items-center justify-center text-white text-xs font-medium shrink-0`}>
+                        {author?.initials ?? '??'}
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 text-xs">
+                        <span className="font-medium text-stone-700 dark:text-stone-200 truncate">
+                          {author?.displayName ?? 'Unknown'}
+                        </span>
+                        {result.type === 'turn_response' && (
+                          <span className="text-indigo-500 dark:text-indigo-400">answer</span>
+                        )}
+                        {result.type === 'story_reply' && (
+                          <span className="text-pink-500 dark:text-pink-400">story reply</span>
+                        )}
+                        <span className="ml-auto text-stone-400 dark:text-stone-500 shrink-0">
+                          {formatShortDate(result.created_at)}
+                        </span>
+                      </div>
+                      {result.snippet && (
+                        <p className="text-sm text-stone-600 dark:text-stone-300 line-clamp-2">
+                          <SearchSnippet snippet={result.snippet} />
+                        </p>
+                      )}
+                    </div>
+                    {imageUrl && (
+                      <Image src={imageUrl} alt="" width={40} height={40} className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                    )}
+                  </button>
+                )
+              })
+            )}
+
+            {searching && (
+              <div className="flex justify-center py-4">
+                <div className="w-5 h-5 border-2 border-stone-300 border-t-indigo-500 rounded-full animate-spin" />
+              </div>
+            )}
+
+            {hasMore && !searching && hasCriteria && (
+              <button
+                onClick={() => runSearch(results[results.length - 1]?.created_at ?? null)}
+                className="w-full py-3 text-sm font-medium text-indigo-500 hover:text-indigo-600"
+              >
+                Load more
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -9,6 +9,10 @@ interface MessageSelectionOverlayProps {
   onReact: (emoji: string) => void
   onReply: () => void
   onCopy?: () => void
+  onEdit?: () => void
+  onDelete?: () => void
+  onTogglePin?: () => void
+  isPinned?: boolean
   onClose: () => void
   canCopy: boolean
 }
@@ -19,6 +23,10 @@ export function MessageSelectionOverlay({
   onReact,
   onReply,
   onCopy,
+  onEdit,
+  onDelete,
+  onTogglePin,
+  isPinned = false,
   onClose,
   canCopy,
 }: MessageSelectionOverlayProps) {
@@ -177,6 +185,45 @@ export function MessageSelectionOverlay({
             </button>
           )}
 
+          {onTogglePin && (
+            <button
+              onClick={() => { onTogglePin(); onClose() }}
+              aria-label={isPinned ? 'Unpin message' : 'Pin message'}
+              className="w-full flex items-center gap-3 px-4 py-3.5 text-sm font-medium text-slate-700 hover:bg-slate-50 active:bg-slate-100 transition-colors"
+            >
+              <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 3.75V9l2.25 3.75H5.25L7.5 9V3.75m9 0h-9m4.5 9V21" />
+              </svg>
+              {isPinned ? 'Unpin' : 'Pin'}
+            </button>
+          )}
+
+          {onEdit && (
+            <button
+              onClick={() => { onEdit(); onClose() }}
+              aria-label="Edit message"
+              className="w-full flex items-center gap-3 px-4 py-3.5 text-sm font-medium text-slate-700 hover:bg-slate-50 active:bg-slate-100 transition-colors"
+            >
+              <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487z" />
+              </svg>
+              Edit
+            </button>
+          )}
+
+          {onDelete && (
+            <button
+              onClick={() => { onDelete(); onClose() }}
+              aria-label="Delete message"
+              className="w-full flex items-center gap-3 px-4 py-3.5 text-sm font-medium text-red-500 hover:bg-red-50 active:bg-red-100 transition-colors"
+            >
+              <svg className="w-5 h-5 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+              </svg>
+              Delete for everyone
+            </button>
+          )}
+
           <button
             onClick={onClose}
             aria-label="Cancel"
@@ -48,7 +48,7 @@ export function PhotoActionSheet({
                   <path strokeLinecap="round" strokeLinejoin="round" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
                 </svg>
               </div>
-              <span className="text-base font-medium text-stone-900">Take Photo</span>
+              <span className="text-base font-medium text-stone-900">Take Photo or Video</span>
             </button>
             <button
               onClick={() => {
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { Avatar } from './Avatar'
+import { formatTimeRemaining } from '../utils'
+import type { Msg, Poll, UserInfo } from '../types'
+
+interface PollCardProps {
+  message: Msg
+  poll?: Poll
+  isMe: boolean
+  currentUserId: string | null
+  users: Map<string, UserInfo>
+  onVote: (poll: Poll, optionIds: string[]) => Promise<void>
+  onClose: (poll: Poll) => Promise<void>
+}
+
+// Poll inside a chat bubble: results bars, and tapping an option votes (or un-votes)
+export function PollCard({ message, poll, isMe, currentUserId, users, onVote, onClose }: PollCardProps) {
+  const [busy, setBusy] = useState(false)
+
+  if (!poll) {
+    return (
+      <div className="min-w-[14rem]">
+        <p className="text-sm font-semibold">📊 {message.content}</p>
+        <p className={`text-xs mt-1 ${isMe ? 'text-white/60' : 'text-slate-400'}`}>Loading poll...</p>
+      </div>
+    )
+  }
+
+  const isClosed = !!poll.closed_at || (!!poll.closes_at && new Date(poll.closes_at) <= new Date())
+  const hasVoted = poll.my_option_ids.length > 0
+  // Results show once you've voted, and for everyone after the poll closes
+  const showResults = hasVoted || isClosed || poll.created_by === currentUserId
+  const totalVotes = poll.options.reduce((sum, o) => sum + o.vote_count, 0)
+  const canClose = !isClosed && (poll.created_by === currentUserId || (!!currentUserId && !!users.get(currentUserId)?.isHost))
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await action()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toggleOption = (optionId: string) => {
+    const selected = poll.my_option_ids.includes(optionId)
+    const next = poll.allow_multiple
+      ? (selected ? poll.my_option_ids.filter(id => id !== optionId) : [...poll.my_option_ids, optionId])
+      : (selected ? [] : [optionId])
+    run(() => onVote(poll, next))
+  }
+
+  return (
+    <div className="min-w-[14rem] space-y-2.5">
+      <div>
+        <div className={`text-[10px] font-bold uppercase tracking-wider mb-1 ${isMe ? 'text-white/80' : 'text-sky-600 dark:text-sky-400'}`}>
+          📊 {poll.prompt_text ? 'Turn poll' : 'Poll'}
+        </div>
+        {poll.prompt_text && (
+          <p className={`text-[12px] italic leading-snug mb-1 ${isMe ? 'text-white/70' : 'text-slate-500'}`}>
+            &ldquo;{poll.prompt_text}&rdquo;
+          </p>
+        )}
+        <p className="text-[15px] font-semibold leading-snug break-words">{poll.question}</p>
+      </div>
+
+      <div className="space-y-1.5">
+        {poll.options.map(option => {
+          const selected = poll.my_option_ids.includes(option.id)
+          const percent = totalVotes > 0 ? Math.round((option.vote_count / totalVotes) * 100) : 0
+          return (
+            <button
+              key={option.id}
+              onClick={(e) => { e.stopPropagation(); toggleOption(option.id) }}
+              disabled={busy || isClosed}
+              aria-pressed={selected}
+              className={`relative w-full overflow-hidden rounded-xl text-left text-sm transition-colors disabled:cursor-default ${
+                isMe
+                  ? `bg-white/15 ${selected ? 'ring-2 ring-white/80' : 'ring-1 ring-white/25'}`
+                  : `bg-slate-50 dark:bg-stone-800 ${selected ? 'ring-2 ring-sky-500' : 'ring-1 ring-slate-200 dark:ring-stone-700'}`
+              }`}
+            >
+              {showResults && (
+                <span
+                  className={`absolute inset-y-0 left-0 transition-all duration-300 ${isMe ? 'bg-white/20' : 'bg-sky-100 dark:bg-sky-900/40'}`}
+                  style={{ width: `${percent}%` }}
+                  aria-hidden="true"
+                />
+              )}
+              <span className="relative flex items-center gap-2 px-3 py-2">
+                <span className={`w-4 h-4 shrink-0 flex items-center justify-center border ${poll.allow_multiple ? 'rounded' : 'rounded-full'} ${
+                  selected
+                    ? (isMe ? 'bg-white border-white text-slate-800' : 'bg-sky-500 border-sky-500 text-white')
+                    : (isMe ? 'border-white/60' : 'border-slate-300 dark:border-stone-600')
+                }`}>
+                  {selected && (
+                    <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                    </svg>
+                  )}
+                </span>
+                <span className="flex-1 min-w-0 break-words">{option.label}</span>
+                {showResults && option.voter_ids && option.voter_ids.length > 0 && (
+                  <span className="flex -space-x-1 shrink-0">
+                    {option.voter_ids.slice(0, 3).map(id => (
+                      <Avatar key={id} user={users.get(id) ?? null} size="xs" className="ring-1 ring-white dark:ring-stone-900" />
+                    ))}
+                  </span>
+                )}
+                {showResults && (
+                  <span className={`text-xs font-semibold tabular-nums shrink-0 ${isMe ? 'text-white/80' : 'text-slate-500 dark:text-stone-400'}`}>
+                    {percent}%
+                  </span>
+                )}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+
+      <div className={`flex flex-wrap items-center gap-1.5 text-[11px] ${isMe ? 'text-white/60' : 'text-slate-400'}`}>
+        <span>{poll.voter_count === 1 ? '1 vote' : `${poll.voter_count} votes`}</span>
+        {poll.allow_multiple && <span>· Multiple choice</span>}
+        {poll.is_anonymous && <span>· Anonymous</span>}
+        <span>
+          · {isClosed
+            ? 'Closed'
+            : poll.closes_at
+              ? `Closes in ${formatTimeRemaining(new Date(poll.closes_at))}`
+              : 'Open'}
+        </span>
+        {canClose && (
+          <button
+            onClick={(e) => { e.stopPropagation(); run(() => onClose(poll)) }}
+            disabled={busy}
+            className={`ml-auto font-medium disabled:opacity-50 ${isMe ? 'text-white/90 hover:text-white' : 'text-sky-600 dark:text-sky-400 hover:text-sky-700'}`}
+          >
+            End poll
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
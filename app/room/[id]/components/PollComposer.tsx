@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import { supabase } from '@/lib/supabaseClient'
+import { POLL_DURATION_OPTIONS } from '../types'
+
+interface PollComposerProps {
+  isOpen: boolean
+  onClose: () => void
+  roomId: string
+  // The turn's poll prompt; when set, the poll is this turn's answer
+  turnPrompt?: string | null
+  onCreated: (messageId: string) => void
+}
+
+const MAX_OPTIONS = 10
+
+// Sheet for asking the group a poll, in chat or as a poll-prompt turn
+export function PollComposer({ isOpen, onClose, roomId, turnPrompt = null, onCreated }: PollComposerProps) {
+  const [question, setQuestion] = useState('')
+  const [options, setOptions] = useState<string[]>(['', ''])
+  const [allowMultiple, setAllowMultiple] = useState(false)
+  const [isAnonymous, setIsAnonymous] = useState(false)
+  const [durationHours, setDurationHours] = useState<number | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!isOpen) return null
+
+  const filledOptions = options.map(o => o.trim()).filter(Boolean)
+  const canSubmit = !!question.trim() && filledOptions.length >= 2 && !submitting
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return
+    setSubmitting(true)
+    setError(null)
+    const { data, error: rpcError } = await supabase.rpc('create_poll', {
+      p_room_id: roomId,
+      p_question: question.trim(),
+      p_options: filledOptions,
+      p_allow_multiple: allowMultiple,
+      p_is_anonymous: isAnonymous,
+      p_closes_at: durationHours ? new Date(Date.now() + durationHours * 60 * 60 * 1000).toISOString() : null,
+      p_as_turn: !!turnPrompt,
+    })
+    setSubmitting(false)
+
+    if (rpcError || !data?.success) {
+      setError(rpcError?.message || data?.error || 'Failed to create poll')
+      return
+    }
+
+    setQuestion('')
+    setOptions(['', ''])
+    setAllowMultiple(false)
+    setIsAnonymous(false)
+    setDurationHours(null)
+    onCreated(data.message_id)
+    onClose()
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/40 z-[200] transition-opacity"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      {/* Sheet */}
+      <div
+        className="fixed inset-x-0 bottom-0 z-[201] animate-in slide-in-from-bottom duration-200"
+        role="dialog"
+        aria-modal="true"
+        aria-label="New poll"
+      >
+        <div
+          className="mx-auto max-w-lg bg-white dark:bg-stone-900 rounded-t-2xl shadow-xl max-h-[85vh] flex flex-col"
+          style={{ paddingBottom: 'env(safe-area-inset-bottom, 0px)' }}
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-stone-100 dark:border-stone-800">
+            <h3 className="text-base font-semibold text-stone-900 dark:text-stone-50">
+              {turnPrompt ? 'Your turn: ask a poll' : 'New poll'}
+            </h3>
+            <button
+              onClick={onClose}
+              className="p-1 text-stone-400 hover:text-stone-600 dark:hover:text-stone-200"
+              aria-label="Close"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {turnPrompt && (
+              <p className="text-sm italic text-stone-500 dark:text-stone-400">&ldquo;{turnPrompt}&rdquo;</p>
+            )}
+
+            <textarea
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="Ask a question..."
+              maxLength={300}
+              rows={2}
+              className="w-full px-3 py-2 text-sm bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-stone-800 dark:text-stone-100 placeholder:text-stone-400 resize-none focus:outline-none focus:ring-2 focus:ring-sky-500/30"
+            />
+
+            <div className="space-y-1.5">
+              {options.map((option, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => setOptions(prev => prev.map((o, j) => j === i ? e.target.value : o))}
+                    placeholder={`Option ${i + 1}`}
+                    maxLength={100}
+                    className="flex-1 px-3 py-2 text-sm bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-stone-800 dark:text-stone-100 placeholder:text-stone-400 focus:outline-none focus:ring-2 focus:ring-sky-500/30"
+                  />
+                  {options.length > 2 && (
+                    <button
+                      onClick={() => setOptions(prev => prev.filter((_, j) => j !== i))}
+                      aria-label="Remove option"
+                      className="p-1.5 text-stone-400 hover:text-red-500"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+              ))}
+              {options.length < MAX_OPTIONS && (
+                <button
+                  onClick={() => setOptions(prev => [...prev, ''])}
+                  className="text-xs font-medium text-sky-600 dark:text-sky-400 hover:text-sky-700"
+                >
+                  + Add an option
+                </button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center justify-between gap-3 text-sm text-stone-700 dark:text-stone-200">
+                Allow multiple answers
+                <input
+                  type="checkbox"
+                  checked={allowMultiple}
+                  onChange={(e) => setAllowMultiple(e.target.checked)}
+                  className="w-4 h-4 accent-sky-500"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-3 text-sm text-stone-700 dark:text-stone-200">
+                Anonymous votes
+                <input
+                  type="checkbox"
+                  checked={isAnonymous}
+                  onChange={(e) => setIsAnonymous(e.target.checked)}
+                  className="w-4 h-4 accent-sky-500"
+                />
+              </label>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-stone-500 dark:text-stone-400 uppercase tracking-wide mb-1.5">Voting ends</p>
+              <div className="flex flex-wrap gap-1.5">
+                {POLL_DURATION_OPTIONS.map(opt => (
+                  <button
+                    key={opt.label}
+                    onClick={() => setDurationHours(opt.value)}
+                    aria-pressed={durationHours === opt.value}
+                    className={`px-2.5 py-1 text-xs font-medium rounded-lg ${
+                      durationHours === opt.value
+                        ? 'bg-sky-500 text-white'
+                        : 'bg-stone-100 dark:bg-stone-800 text-stone-600 dark:text-stone-300'
+                    }`}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {error && <p className="text-xs text-red-500 dark:text-red-400">{error}</p>}
+
+            <button
+              onClick={handleSubmit}
+              disabled={!canSubmit}
+              className="w-full py-2.5 text-sm font-semibold bg-sky-500 text-white rounded-xl hover:bg-sky-600 disabled:opacity-50"
+            >
+              {submitting ? 'Posting...' : turnPrompt ? 'Post poll and finish turn' : 'Post poll'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useRef } from 'react'
 import { createPortal } from 'react-dom'
 import Image from 'next/image'
 import { supabase } from '@/lib/supabaseClient'
+import { blurhashPlaceholderStyle } from '@/lib/blurhash'
 import type { UserInfo } from '../types'
 
 // Follow status: 'explicit' | 'implicit' | 'none' | 'unfollowed'
@@ -20,6 +21,7 @@ type ProfilePhoto = {
   id: string
   url: string
   position: number
+  blurhash: string | null
 }
 
 type UserListItem = {
@@ -662,6 +664,7 @@ export function ProfileDrawer({
                         src={photo.url}
                         alt=""
                         className="w-full h-full object-cover"
+                        style={blurhashPlaceholderStyle(photo.blurhash)}
                       />
                     </button>
                   ))}
@@ -0,0 +1,346 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { supabase } from '@/lib/supabaseClient'
+import { parsePromptList } from '../utils/promptImport'
+import type { PromptPack, PromptType } from '../types'
+
+// The type badge on each prompt cycles through the types
+const NEXT_PROMPT_TYPE: Record<PromptType, PromptType> = { text: 'photo', photo: 'poll', poll: 'voice', voice: 'text' }
+
+interface PromptPacksPanelProps {
+  roomId: string
+}
+
+// Host-only editor for the room's own prompts, mixed into the shuffle bag
+export function PromptPacksPanel({ roomId }: PromptPacksPanelProps) {
+  const [packs, setPacks] = useState<PromptPack[]>([])
+  const [includeBuiltin, setIncludeBuiltin] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const [newPackName, setNewPackName] = useState('')
+  const [openPackId, setOpenPackId] = useState<string | null>(null)
+  const [importText, setImportText] = useState('')
+  const [importType, setImportType] = useState<PromptType>('text')
+  const [editingItemId, setEditingItemId] = useState<string | null>(null)
+  const [editingText, setEditingText] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    supabase.rpc('get_room_prompt_packs', { p_room_id: roomId })
+      .then(({ data, error: rpcError }) => {
+        if (cancelled) return
+        if (rpcError) {
+          console.error('Failed to load prompt packs:', rpcError)
+        } else if (data?.success) {
+          setPacks(data.packs)
+          setIncludeBuiltin(data.include_builtin_prompts)
+        }
+        setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [roomId, refreshKey])
+
+  const runAction = async (
+    key: string,
+    rpc: string,
+    params: Record<string, unknown>
+  ): Promise<{ success: boolean; added?: number; pack_id?: string } | null> => {
+    setBusy(key)
+    setError(null)
+    const { data, error: rpcError } = await supabase.rpc(rpc, params)
+    setBusy(null)
+
+    if (rpcError) {
+      setError(rpcError.message)
+      return null
+    }
+    if (data && !data.success) {
+      setError(data.error || 'Something went wrong')
+      return null
+    }
+    setRefreshKey(k => k + 1)
+    return data
+  }
+
+  const handleCreatePack = async () => {
+    if (!newPackName.trim()) return
+    const result = await runAction('create', 'create_prompt_pack', {
+      p_room_id: roomId,
+      p_name: newPackName.trim(),
+    })
+    if (result) {
+      setNewPackName('')
+      if (result.pack_id) setOpenPackId(result.pack_id)
+    }
+  }
+
+  const handleImport = async (packId: string, text: string) => {
+    // Lines without their own type column get the selected default
+    const items = parsePromptList(text, importType)
+    if (items.length === 0) {
+      setError('No prompts found — put one prompt per line')
+      return
+    }
+    const result = await runAction(`import-${packId}`, 'add_prompt_pack_items', {
+      p_pack_id: packId,
+      p_items: items,
+    })
+    if (result) {
+      setImportText('')
+      if (result.added === 0) setError('Those prompts are already in this pack')
+    }
+  }
+
+  const handleFileImport = async (packId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    await handleImport(packId, await file.text())
+  }
+
+  const handleSaveItem = async (itemId: string, promptType: PromptType) => {
+    const result = await runAction(`item-${itemId}`, 'update_prompt_pack_item', {
+      p_item_id: itemId,
+      p_text: editingText,
+      p_prompt_type: promptType,
+    })
+    if (result) setEditingItemId(null)
+  }
+
+  const activePromptCount = packs
+    .filter(p => p.is_active)
+    .reduce((sum, p) => sum + p.items.length, 0)
+
+  return (
+    <div className="p-4 border-b border-stone-100 dark:border-stone-800">
+      <h4 className="text-sm font-medium text-stone-700 dark:text-stone-200 mb-2">Custom Prompts</h4>
+      <p className="text-xs text-stone-500 dark:text-stone-400 mb-3">
+        Write your own prompts. Active packs are shuffled in with the prompt mode below.
+      </p>
+
+      {/* Mix with built-in prompts */}
+      <label className="flex items-center justify-between px-3 py-2 mb-3 rounded-lg bg-stone-50 dark:bg-stone-800 text-sm text-stone-700 dark:text-stone-300">
+        <span>Include built-in prompts</span>
+        <input
+          type="checkbox"
+          checked={includeBuiltin}
+          disabled={busy === 'builtin'}
+          onChange={(e) => {
+            setIncludeBuiltin(e.target.checked)
+            runAction('builtin', 'set_room_builtin_prompts', { p_room_id: roomId, p_enabled: e.target.checked })
+          }}
+          className="w-4 h-4 accent-indigo-500"
+        />
+      </label>
+      {!includeBuiltin && activePromptCount === 0 && !loading && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 mb-3 px-1">
+          No active custom prompts yet — built-in prompts will be used until you add some.
+        </p>
+      )}
+
+      {loading ? (
+        <div className="h-10 bg-stone-100 dark:bg-stone-800 rounded-lg animate-pulse" />
+      ) : (
+        <div className="space-y-2">
+          {packs.map(pack => {
+            const isOpen = openPackId === pack.id
+
+            return (
+              <div key={pack.id} className="rounded-lg bg-stone-50 dark:bg-stone-800">
+                <div className="flex items-center gap-2 px-3 py-2">
+                  <button
+                    onClick={() => {
+                      setOpenPackId(isOpen ? null : pack.id)
+                      setImportText('')
+                      setEditingItemId(null)
+                    }}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <span className={`text-sm font-medium truncate block ${pack.is_active ? 'text-stone-800 dark:text-stone-100' : 'text-stone-400 dark:text-stone-500'}`}>
+                      {pack.name}
+                    </span>
+                    <span className="text-xs text-stone-400 dark:text-stone-500">
+                      {pack.items.length} {pack.items.length === 1 ? 'prompt' : 'prompts'}
+                      {!pack.is_active && ' · off'}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => runAction(`toggle-${pack.id}`, 'update_prompt_pack', {
+                      p_pack_id: pack.id,
+                      p_is_active: !pack.is_active,
+                    })}
+                    disabled={busy === `toggle-${pack.id}`}
+                    className={`text-xs font-medium disabled:opacity-50 ${
+                      pack.is_active
+                        ? 'text-stone-500 dark:text-stone-400 hover:text-stone-700 dark:hover:text-stone-200'
+                        : 'text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 dark:hover:text-indigo-300'
+                    }`}
+                  >
+                    {pack.is_active ? 'Turn off' : 'Turn on'}
+                  </button>
+                </div>
+
+                {isOpen && (
+                  <div className="px-3 pb-3 space-y-2">
+                    {/* Prompts in the pack */}
+                    {pack.items.length > 0 && (
+                      <div className="max-h-60 overflow-y-auto space-y-1">
+                        {pack.items.map(item => (
+                          <div key={item.id} className="flex items-start gap-2 px-2 py-1.5 rounded bg-white dark:bg-stone-900">
+                            {editingItemId === item.id ? (
+                              <>
+                                <input
+                                  value={editingText}
+                                  onChange={(e) => setEditingText(e.target.value)}
+                                  onKeyDown={(e) => e.key === 'Enter' && handleSaveItem(item.id, item.prompt_type)}
+                                  maxLength={280}
+                                  autoFocus
+                                  className="flex-1 min-w-0 px-2 py-1 text-xs bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded text-stone-700 dark:text-stone-200"
+                                />
+                                <button
+                                  onClick={() => handleSaveItem(item.id, item.prompt_type)}
+                                  disabled={busy === `item-${item.id}`}
+                                  className="text-xs font-medium text-indigo-600 dark:text-indigo-400 disabled:opacity-50"
+                                >
+                                  Save
+                                </button>
+                              </>
+                            ) : (
+                              <>
+                                <button
+                                  onClick={() => {
+                                    setEditingItemId(item.id)
+                                    setEditingText(item.text)
+                                  }}
+                                  className="flex-1 min-w-0 text-left text-xs text-stone-700 dark:text-stone-300"
+                                >
+                                  {item.text}
+                                </button>
+                                <button
+                                  onClick={() => runAction(`item-${item.id}`, 'update_prompt_pack_item', {
+                                    p_item_id: item.id,
+                                    p_text: item.text,
+                                    p_prompt_type: NEXT_PROMPT_TYPE[item.prompt_type],
+                                  })}
+                                  disabled={busy === `item-${item.id}`}
+                                  className={`text-[10px] px-1.5 py-0.5 rounded font-medium disabled:opacity-50 ${
+                                    item.prompt_type === 'photo'
+                                      ? 'bg-violet-100 dark:bg-violet-900/50 text-violet-700 dark:text-violet-300'
+                                      : item.prompt_type === 'poll'
+                                        ? 'bg-sky-100 dark:bg-sky-900/50 text-sky-700 dark:text-sky-300'
+                                        : item.prompt_type === 'voice'
+                                          ? 'bg-rose-100 dark:bg-rose-900/50 text-rose-700 dark:text-rose-300'
+                                          : 'bg-stone-100 dark:bg-stone-800 text-stone-500 dark:text-stone-400'
+                                  }`}
+                                  title="Switch between text, photo, poll and voice"
+                                >
+                                  {item.prompt_type === 'photo' ? 'Photo' : item.prompt_type === 'poll' ? 'Poll' : item.prompt_type === 'voice' ? 'Voice' : 'Text'}
+                                </button>
+                                <button
+                                  onClick={() => runAction(`item-${item.id}`, 'delete_prompt_pack_item', { p_item_id: item.id })}
+                                  disabled={busy === `item-${item.id}`}
+                                  className="text-stone-400 hover:text-red-500 disabled:opacity-50"
+                                  aria-label="Delete prompt"
+                                >
+                                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                                  </svg>
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Add prompts: paste a list or import a file */}
+                    <textarea
+                      value={importText}
+                      onChange={(e) => setImportText(e.target.value)}
+                      placeholder={'One prompt per line\nor CSV: prompt,photo, prompt,poll or prompt,voice'}
+                      rows={3}
+                      className="w-full px-2 py-1.5 text-xs bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg text-stone-700 dark:text-stone-200 placeholder:text-stone-400 resize-none"
+                    />
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={importType}
+                        onChange={(e) => setImportType(e.target.value as PromptType)}
+                        className="px-2 py-1 text-xs bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg text-stone-700 dark:text-stone-200"
+                      >
+                        <option value="text">Text answers</option>
+                        <option value="photo">Photo answers</option>
+                        <option value="poll">Poll answers</option>
+                        <option value="voice">Voice answers</option>
+                      </select>
+                      <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={!!busy}
+                        className="text-xs text-stone-500 dark:text-stone-400 hover:text-stone-700 dark:hover:text-stone-200 disabled:opacity-50"
+                      >
+                        Import file
+                      </button>
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".txt,.csv,text/plain,text/csv"
+                        onChange={(e) => handleFileImport(pack.id, e)}
+                        className="hidden"
+                      />
+                      <button
+                        onClick={() => handleImport(pack.id, importText)}
+                        disabled={!importText.trim() || busy === `import-${pack.id}`}
+                        className="ml-auto px-2.5 py-1 text-xs font-medium bg-indigo-500 dark:bg-indigo-600 text-white rounded hover:bg-indigo-600 dark:hover:bg-indigo-500 disabled:opacity-50"
+                      >
+                        {busy === `import-${pack.id}` ? 'Adding...' : 'Add'}
+                      </button>
+                    </div>
+
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete "${pack.name}" and its ${pack.items.length} prompts?`)) {
+                          runAction(`delete-${pack.id}`, 'delete_prompt_pack', { p_pack_id: pack.id })
+                        }
+                      }}
+                      disabled={busy === `delete-${pack.id}`}
+                      className="text-xs text-red-500 dark:text-red-400 hover:text-red-600 disabled:opacity-50"
+                    >
+                      Delete pack
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+
+          {/* New pack */}
+          <div className="flex gap-2">
+            <input
+              value={newPackName}
+              onChange={(e) => setNewPackName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreatePack()}
+              placeholder="New pack name"
+              maxLength={60}
+              className="flex-1 min-w-0 px-3 py-2 text-sm bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg text-stone-700 dark:text-stone-200 placeholder:text-stone-400"
+            />
+            <button
+              onClick={handleCreatePack}
+              disabled={!newPackName.trim() || busy === 'create'}
+              className="px-3 py-2 text-sm font-medium bg-stone-100 dark:bg-stone-800 text-stone-700 dark:text-stone-200 rounded-lg hover:bg-stone-200 dark:hover:bg-stone-700 disabled:opacity-50"
+            >
+              Create
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-500 dark:text-red-400 mt-2">{error}</p>
+      )}
+    </div>
+  )
+}
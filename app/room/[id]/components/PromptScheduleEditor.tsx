@@ -0,0 +1,131 @@
+'use client'
+
+import { useState } from 'react'
+import { supabase } from '@/lib/supabaseClient'
+import { getBrowserTimeZone } from '@/lib/quietHours'
+import { SCHEDULE_DAYS } from '../types'
+
+interface PromptScheduleEditorProps {
+  roomId: string
+  days: number[] | null
+  times: string[] | null
+  timezone: string | null
+  onSaved: (schedule: { days: number[] | null; times: string[] | null; timezone: string | null }) => void
+}
+
+const MAX_TIMES = 6
+
+// Days-of-week + times editor for rooms that prompt on a schedule
+export function PromptScheduleEditor({ roomId, days, times, timezone, onSaved }: PromptScheduleEditorProps) {
+  const [draftDays, setDraftDays] = useState<number[]>(days?.length ? days : [1, 2, 3, 4, 5])
+  const [draftTimes, setDraftTimes] = useState<string[]>(times?.length ? times.map(t => t.slice(0, 5)) : ['19:00'])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Keep the room's timezone unless nobody has set one yet
+  const zone = timezone || getBrowserTimeZone()
+  const hasSchedule = !!days?.length && !!times?.length
+
+  const toggleDay = (day: number) => {
+    setDraftDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort())
+  }
+
+  const save = async (clear: boolean) => {
+    const nextDays = clear ? null : draftDays
+    const nextTimes = clear ? null : Array.from(new Set(draftTimes.filter(Boolean))).sort()
+
+    setSaving(true)
+    setError(null)
+    const { data, error: rpcError } = await supabase.rpc('set_room_schedule', {
+      p_room_id: roomId,
+      p_days: nextDays,
+      p_times: nextTimes,
+      p_timezone: zone,
+    })
+    setSaving(false)
+
+    if (rpcError || !data?.success) {
+      setError(rpcError?.message || data?.error || 'Failed to save schedule')
+      return
+    }
+    onSaved({ days: nextDays, times: nextTimes, timezone: zone })
+  }
+
+  return (
+    <div className="mt-2 p-3 rounded-lg bg-stone-50 dark:bg-stone-800/60 space-y-3">
+      <div className="flex gap-1">
+        {SCHEDULE_DAYS.map(day => (
+          <button
+            key={day.value}
+            onClick={() => toggleDay(day.value)}
+            aria-label={day.label}
+            aria-pressed={draftDays.includes(day.value)}
+            className={`flex-1 h-8 rounded-lg text-xs font-medium transition-colors ${
+              draftDays.includes(day.value)
+                ? 'bg-indigo-500 text-white'
+                : 'bg-white dark:bg-stone-900 text-stone-500 dark:text-stone-400 ring-1 ring-stone-200 dark:ring-stone-700'
+            }`}
+          >
+            {day.short}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        {draftTimes.map((time, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              type="time"
+              value={time}
+              onChange={(e) => setDraftTimes(prev => prev.map((t, j) => j === i ? e.target.value : t))}
+              aria-label={`Prompt time ${i + 1}`}
+              className="flex-1 px-3 py-1.5 text-sm bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg text-stone-900 dark:text-stone-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            {draftTimes.length > 1 && (
+              <button
+                onClick={() => setDraftTimes(prev => prev.filter((_, j) => j !== i))}
+                aria-label="Remove time"
+                className="p-1.5 text-stone-400 hover:text-red-500"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        ))}
+        {draftTimes.length < MAX_TIMES && (
+          <button
+            onClick={() => setDraftTimes(prev => [...prev, '12:00'])}
+            className="text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-700"
+          >
+            + Add a time
+          </button>
+        )}
+      </div>
+
+      <p className="text-[11px] text-stone-400 dark:text-stone-500">Times are in {zone.replace(/_/g, ' ')}</p>
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => save(false)}
+          disabled={saving || draftDays.length === 0 || !draftTimes.some(Boolean)}
+          className="flex-1 px-3 py-2 text-sm font-medium bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : hasSchedule ? 'Update schedule' : 'Use schedule'}
+        </button>
+        {hasSchedule && (
+          <button
+            onClick={() => save(true)}
+            disabled={saving}
+            className="px-3 py-2 text-sm text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 rounded-lg disabled:opacity-50"
+          >
+            Turn off
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
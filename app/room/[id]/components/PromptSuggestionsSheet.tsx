@@ -0,0 +1,266 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabaseClient'
+import type { PromptSuggestion, PromptType } from '../types'
+
+interface PromptSuggestionsSheetProps {
+  isOpen: boolean
+  onClose: () => void
+  roomId: string
+  currentUserId: string | null
+  isHost: boolean
+}
+
+// Members suggest prompts and vote others into the room's deck
+export function PromptSuggestionsSheet({
+  isOpen,
+  onClose,
+  roomId,
+  currentUserId,
+  isHost,
+}: PromptSuggestionsSheetProps) {
+  const [suggestions, setSuggestions] = useState<PromptSuggestion[]>([])
+  const [threshold, setThreshold] = useState(1)
+  const [loading, setLoading] = useState(true)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [text, setText] = useState('')
+  const [promptType, setPromptType] = useState<PromptType>('text')
+  const [submitting, setSubmitting] = useState(false)
+  const [votingId, setVotingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [showApproved, setShowApproved] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    supabase.rpc('get_prompt_suggestions', { p_room_id: roomId })
+      .then(({ data, error: rpcError }) => {
+        if (cancelled) return
+        if (rpcError) {
+          console.error('Failed to load prompt suggestions:', rpcError)
+        } else if (data?.success) {
+          setSuggestions(data.suggestions)
+          setThreshold(data.threshold)
+        }
+        setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [isOpen, roomId, refreshKey])
+
+  if (!isOpen) return null
+
+  const pending = suggestions.filter(s => s.status === 'pending')
+  const approved = suggestions.filter(s => s.status === 'approved')
+
+  const handleSubmit = async () => {
+    if (!text.trim()) return
+    setSubmitting(true)
+    setError(null)
+    const { data, error: rpcError } = await supabase.rpc('suggest_prompt', {
+      p_room_id: roomId,
+      p_text: text.trim(),
+      p_prompt_type: promptType,
+    })
+    setSubmitting(false)
+
+    if (rpcError || !data?.success) {
+      setError(rpcError?.message || data?.error || 'Failed to suggest prompt')
+      return
+    }
+    setText('')
+    setPromptType('text')
+    setRefreshKey(k => k + 1)
+  }
+
+  const handleVote = async (suggestionId: string, voteType: 'up' | 'down') => {
+    setVotingId(suggestionId)
+    setError(null)
+    const { data, error: rpcError } = await supabase.rpc('vote_on_prompt_suggestion', {
+      p_suggestion_id: suggestionId,
+      p_vote_type: voteType,
+    })
+    setVotingId(null)
+
+    if (rpcError || !data?.success) {
+      setError(rpcError?.message || data?.error || 'Failed to vote')
+      return
+    }
+    if (data.approved) {
+      setRefreshKey(k => k + 1)
+    } else {
+      setSuggestions(prev => prev.map(s =>
+        s.id === suggestionId ? { ...s, score: data.score, user_vote: data.user_vote } : s
+      ))
+    }
+  }
+
+  const handleDelete = async (suggestionId: string) => {
+    const { data, error: rpcError } = await supabase.rpc('delete_prompt_suggestion', {
+      p_suggestion_id: suggestionId,
+    })
+    if (rpcError || !data?.success) {
+      setError(rpcError?.message || data?.error || 'Failed to remove suggestion')
+      return
+    }
+    setSuggestions(prev => prev.filter(s => s.id !== suggestionId))
+  }
+
+  const renderSuggestion = (suggestion: PromptSuggestion) => {
+    const isMine = suggestion.user_id === currentUserId
+    const canDelete = isMine || isHost
+
+    return (
+      <div key={suggestion.id} className="flex items-start gap-3 px-3 py-2.5 rounded-xl bg-stone-50 dark:bg-stone-800">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-stone-800 dark:text-stone-100">{suggestion.text}</p>
+          <p className="text-xs text-stone-400 dark:text-stone-500 mt-0.5">
+            by {isMine ? 'you' : suggestion.author_name ?? 'a member'}
+            {suggestion.prompt_type === 'photo' && ' · photo'}
+            {suggestion.status === 'pending' && ` · ${Math.max(0, suggestion.score)}/${threshold} votes`}
+          </p>
+          {canDelete && (
+            <button
+              onClick={() => handleDelete(suggestion.id)}
+              className="text-xs text-stone-400 hover:text-red-500 mt-1"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+
+        {suggestion.status === 'pending' && !isMine && (
+          <div className="flex flex-col items-center">
+            <button
+              onClick={() => handleVote(suggestion.id, 'up')}
+              disabled={votingId === suggestion.id}
+              className={`p-1 rounded disabled:opacity-50 ${suggestion.user_vote === 'up' ? 'text-orange-500' : 'text-stone-400 hover:text-orange-500'}`}
+              aria-label="Upvote"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M5 15l7-7 7 7" />
+              </svg>
+            </button>
+            <span className="text-xs font-medium text-stone-600 dark:text-stone-300 tabular-nums">{suggestion.score}</span>
+            <button
+              onClick={() => handleVote(suggestion.id, 'down')}
+              disabled={votingId === suggestion.id}
+              className={`p-1 rounded disabled:opacity-50 ${suggestion.user_vote === 'down' ? 'text-indigo-500' : 'text-stone-400 hover:text-indigo-500'}`}
+              aria-label="Downvote"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/40 z-[200] transition-opacity"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      {/* Sheet */}
+      <div
+        className="fixed inset-x-0 bottom-0 z-[201] animate-in slide-in-from-bottom duration-200"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Prompt suggestions"
+      >
+        <div
+          className="mx-auto max-w-lg bg-white dark:bg-stone-900 rounded-t-2xl shadow-xl max-h-[80vh] flex flex-col"
+          style={{ paddingBottom: 'env(safe-area-inset-bottom, 0px)' }}
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-stone-100 dark:border-stone-800">
+            <h3 className="text-base font-semibold text-stone-900 dark:text-stone-50">Suggest a prompt</h3>
+            <button
+              onClick={onClose}
+              className="p-1 text-stone-400 hover:text-stone-600 dark:hover:text-stone-200"
+              aria-label="Close"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {/* New suggestion */}
+            <div className="space-y-2">
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="What should the group answer next?"
+                maxLength={280}
+                rows={2}
+                className="w-full px-3 py-2 text-sm bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-stone-800 dark:text-stone-100 placeholder:text-stone-400 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+              />
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPromptType(promptType === 'photo' ? 'text' : 'photo')}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-lg ${
+                    promptType === 'photo'
+                      ? 'bg-violet-100 dark:bg-violet-900/50 text-violet-700 dark:text-violet-300'
+                      : 'bg-stone-100 dark:bg-stone-800 text-stone-500 dark:text-stone-400'
+                  }`}
+                >
+                  {promptType === 'photo' ? 'Photo answer' : 'Text answer'}
+                </button>
+                <span className="text-xs text-stone-400 dark:text-stone-500">
+                  Needs {threshold} {threshold === 1 ? 'vote' : 'votes'} to join the deck
+                </span>
+                <button
+                  onClick={handleSubmit}
+                  disabled={!text.trim() || submitting}
+                  className="ml-auto px-3 py-1.5 text-sm font-medium bg-indigo-500 dark:bg-indigo-600 text-white rounded-lg hover:bg-indigo-600 dark:hover:bg-indigo-500 disabled:opacity-50"
+                >
+                  {submitting ? 'Sending...' : 'Suggest'}
+                </button>
+              </div>
+              {error && (
+                <p className="text-xs text-red-500 dark:text-red-400">{error}</p>
+              )}
+            </div>
+
+            {/* Voting queue */}
+            {loading ? (
+              <div className="h-16 bg-stone-100 dark:bg-stone-800 rounded-xl animate-pulse" />
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <h4 className="text-xs font-semibold text-stone-500 dark:text-stone-400 uppercase tracking-wide">
+                    Up for a vote
+                  </h4>
+                  {pending.length === 0 ? (
+                    <p className="text-sm text-stone-400 dark:text-stone-500">No suggestions yet — be the first!</p>
+                  ) : (
+                    pending.map(renderSuggestion)
+                  )}
+                </div>
+
+                {approved.length > 0 && (
+                  <div className="space-y-2">
+                    <button
+                      onClick={() => setShowApproved(!showApproved)}
+                      className="text-xs font-semibold text-stone-500 dark:text-stone-400 uppercase tracking-wide"
+                    >
+                      In the deck ({approved.length}) {showApproved ? '▾' : '▸'}
+                    </button>
+                    {showApproved && approved.map(renderSuggestion)}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
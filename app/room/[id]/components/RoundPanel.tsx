@@ -0,0 +1,315 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { supabase } from '@/lib/supabaseClient'
+import { Avatar } from './Avatar'
+import { formatTime, formatTimeRemaining } from '../utils'
+import type { RoundStatus, TurnSession, UserInfo } from '../types'
+
+interface RoundPanelProps {
+  roomId: string
+  userId: string
+  session: Pick<TurnSession, 'current_round_id' | 'round_answered_count' | 'paused_at'>
+  getUserInfo: (uid: string) => UserInfo | null
+  uploadPhoto: (file: File) => Promise<string>
+  // Everyone answered, so the next round may already be open
+  onRevealed: () => void
+}
+
+// Text answers are stored like turn responses: 'Reply to "prompt"\n\nanswer'
+const stripPromptPrefix = (content: string, prompt: string) => {
+  const prefix = `Reply to "${prompt}"\n\n`
+  return content.startsWith(prefix) ? content.slice(prefix.length) : content
+}
+
+// Header panel for 'everyone answers' rounds: who has answered, the
+// deadline, nudges for the rest, and my (hidden) answer
+export function RoundPanel({ roomId, userId, session, getUserInfo, uploadPhoto, onRevealed }: RoundPanelProps) {
+  const [round, setRound] = useState<RoundStatus | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [draft, setDraft] = useState('')
+  const [editing, setEditing] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [nudging, setNudging] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+  const [, setTick] = useState(0)
+  const photoInputRef = useRef<HTMLInputElement>(null)
+
+  const isPaused = !!session.paused_at
+
+  useEffect(() => {
+    let cancelled = false
+
+    supabase.rpc('get_round_status', { p_room_id: roomId }).then(({ data, error: rpcError }) => {
+      if (cancelled) return
+      if (rpcError || !data?.success) {
+        setError(rpcError?.message || data?.error || 'Failed to load round')
+        return
+      }
+      setError(null)
+      setRound(data.active ? (data as RoundStatus) : null)
+    })
+
+    return () => { cancelled = true }
+  }, [roomId, session.current_round_id, session.round_answered_count, refreshKey])
+
+  // Hide nudge toast after 3 seconds
+  useEffect(() => {
+    if (!toast) return
+    const timer = setTimeout(() => setToast(null), 3000)
+    return () => clearTimeout(timer)
+  }, [toast])
+
+  // Countdown, and a reload once the round opens or its deadline passes
+  useEffect(() => {
+    if (!round) return
+    const interval = setInterval(() => {
+      setTick(t => t + 1)
+      const now = Date.now()
+      const opensAt = new Date(round.opens_at).getTime()
+      const deadline = new Date(round.deadline_at).getTime()
+      if ((opensAt <= now && opensAt > now - 60000) || deadline <= now) {
+        setRefreshKey(k => k + 1)
+      }
+    }, 60000)
+    return () => clearInterval(interval)
+  }, [round])
+
+  if (!round) {
+    return error ? <p className="max-w-3xl mx-auto px-4 py-2 text-xs text-red-600 dark:text-red-400">{error}</p> : null
+  }
+
+  const isOpen = new Date(round.opens_at) <= new Date()
+  const answeredCount = round.participants.filter(p => p.answered).length
+  const hasAnswered = round.my_answer !== null
+  const isPhoto = round.prompt_type === 'photo'
+  const showComposer = isOpen && !isPaused && (!hasAnswered || editing)
+
+  const submit = async (imageUrl: string | null) => {
+    const text = draft.trim()
+    if (!imageUrl && !text) return
+
+    setSubmitting(true)
+    setError(null)
+    const { data, error: rpcError } = await supabase.rpc('submit_round_answer', {
+      p_room_id: roomId,
+      p_content: imageUrl ? null : `Reply to "${round.prompt_text}"\n\n${text}`,
+      p_image_url: imageUrl,
+    })
+    setSubmitting(false)
+
+    if (rpcError || !data?.success) {
+      setError(rpcError?.message || data?.error || 'Failed to submit answer')
+      return
+    }
+
+    setDraft('')
+    setEditing(false)
+    if (data.revealed) {
+      onRevealed()
+    } else {
+      setRefreshKey(k => k + 1)
+    }
+  }
+
+  const handlePhoto = async (file: File) => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      const imageUrl = await uploadPhoto(file)
+      await submit(imageUrl)
+    } catch (err: unknown) {
+      setError((err as Error).message || 'Failed to upload photo')
+      setSubmitting(false)
+    }
+  }
+
+  const nudge = async (targetId: string) => {
+    setNudging(targetId)
+    try {
+      const { data: sessionData } = await supabase.auth.getSession()
+      const accessToken = sessionData?.session?.access_token
+      if (!accessToken) {
+        setToast({ message: 'Not logged in', type: 'error' })
+        return
+      }
+
+      const res = await fetch('/api/push/nudge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ roomId, userId: targetId }),
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        setToast({
+          message: result.deferred_until
+            ? `Nudge sent — they'll get it at ${formatTime(result.deferred_until)} (quiet hours)`
+            : result.sent ? 'Nudge sent!' : 'Nudge sent (notifications off)',
+          type: 'success',
+        })
+        setRefreshKey(k => k + 1)
+      } else {
+        setToast({ message: result.error || 'Failed to nudge', type: 'error' })
+      }
+    } catch {
+      setToast({ message: 'Failed to nudge', type: 'error' })
+    } finally {
+      setNudging(null)
+    }
+  }
+
+  return (
+    <div className="bg-indigo-50/80 dark:bg-indigo-950/30 border-b border-indigo-200/40 dark:border-indigo-800/40">
+      <div className="max-w-3xl mx-auto px-4 py-2.5 space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">
+              Everyone answers
+            </p>
+            <p className="text-sm font-medium text-stone-800 dark:text-stone-100 truncate">
+              {isPhoto && '📷 '}&ldquo;{round.prompt_text}&rdquo;
+            </p>
+          </div>
+          <div className="text-right shrink-0">
+            <p className="text-xs font-medium text-stone-700 dark:text-stone-200">
+              {answeredCount}/{round.participants.length} answered
+            </p>
+            <p className="text-[11px] text-stone-400 dark:text-stone-500">
+              {isPaused
+                ? 'Paused'
+                : isOpen
+                  ? `Reveal in ${formatTimeRemaining(new Date(round.deadline_at))}`
+                  : `Opens in ${formatTimeRemaining(new Date(round.opens_at))}`}
+            </p>
+          </div>
+        </div>
+
+        {isOpen && (
+          <div className="flex flex-wrap items-center gap-1.5">
+            {round.participants.map(p => {
+              const info = getUserInfo(p.user_id)
+              const canNudge = !p.answered && p.user_id !== userId && !p.nudged_by_me && !p.away_until && !isPaused
+              return (
+                <div
+                  key={p.user_id}
+                  className={`flex items-center gap-1 pl-0.5 pr-2 py-0.5 rounded-full text-xs ${
+                    p.answered
+                      ? 'bg-emerald-100/80 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300'
+                      : 'bg-white/80 text-stone-500 dark:bg-stone-800/80 dark:text-stone-400'
+                  }`}
+                >
+                  <Avatar user={info} size="xs" />
+                  <span className="max-w-[6rem] truncate">{p.user_id === userId ? 'You' : info?.displayName ?? 'Member'}</span>
+                  {p.answered ? (
+                    <span aria-label="Answered">✓</span>
+                  ) : canNudge ? (
+                    <button
+                      onClick={() => nudge(p.user_id)}
+                      disabled={nudging !== null}
+                      aria-label={`Nudge ${info?.displayName ?? 'member'}`}
+                      className="ml-0.5 hover:scale-110 transition-transform disabled:opacity-50"
+                    >
+                      👀
+                    </button>
+                  ) : p.nudged_by_me ? (
+                    <span className="text-[10px] text-amber-600">nudged</span>
+                  ) : null}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {toast && (
+          <div className={`text-xs px-3 py-1.5 rounded-lg ${
+            toast.type === 'success' ? 'bg-emerald-100/80 text-emerald-700' : 'bg-red-100/80 text-red-700'
+          }`}>
+            {toast.message}
+          </div>
+        )}
+
+        {hasAnswered && !editing && (
+          <div className="flex items-center justify-between gap-2 text-xs text-stone-500 dark:text-stone-400">
+            <span>🔒 Your answer is in. Everyone&apos;s answers show up together.</span>
+            {isOpen && !isPaused && (
+              <button
+                onClick={() => {
+                  setDraft(isPhoto ? '' : stripPromptPrefix(round.my_answer ?? '', round.prompt_text))
+                  setEditing(true)
+                }}
+                className="font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-700"
+              >
+                Change
+              </button>
+            )}
+          </div>
+        )}
+
+        {showComposer && (
+          isPhoto ? (
+            <div className="flex items-center gap-2">
+              <input
+                ref={photoInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) handlePhoto(file)
+                }}
+              />
+              <button
+                onClick={() => photoInputRef.current?.click()}
+                disabled={submitting}
+                className="flex-1 px-3 py-2 text-sm font-medium bg-indigo-500 text-white rounded-xl hover:bg-indigo-600 disabled:opacity-50"
+              >
+                {submitting ? 'Uploading...' : hasAnswered ? 'Replace photo' : 'Add your photo'}
+              </button>
+              {editing && (
+                <button
+                  onClick={() => setEditing(false)}
+                  className="px-3 py-2 text-sm text-stone-500 hover:text-stone-700 dark:hover:text-stone-300"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-end gap-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={1}
+                placeholder="Your answer (hidden until the reveal)"
+                className="flex-1 px-3 py-2 text-sm bg-white dark:bg-stone-900 border border-indigo-200 dark:border-indigo-800 rounded-xl text-stone-900 dark:text-stone-50 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                onClick={() => submit(null)}
+                disabled={submitting || !draft.trim()}
+                className="px-4 py-2 text-sm font-medium bg-indigo-500 text-white rounded-xl hover:bg-indigo-600 disabled:opacity-50"
+              >
+                {submitting ? '...' : hasAnswered ? 'Update' : 'Submit'}
+              </button>
+              {editing && (
+                <button
+                  onClick={() => setEditing(false)}
+                  className="px-2 py-2 text-sm text-stone-500 hover:text-stone-700 dark:hover:text-stone-300"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          )
+        )}
+
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </div>
+  )
+}
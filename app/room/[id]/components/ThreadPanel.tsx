@@ -0,0 +1,221 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Image from 'next/image'
+import { supabase } from '@/lib/supabaseClient'
+import { Avatar } from './Avatar'
+import { formatShortDate, formatTime } from '../utils/formatters'
+import { getPhotoTurn, splitTurnResponse } from '../utils/messagePayload'
+import type { Msg, UserInfo } from '../types'
+
+interface ThreadPanelProps {
+  root: Msg | null
+  onClose: () => void
+  roomId: string
+  currentUserId: string | null
+  users: Map<string, UserInfo>
+  refreshKey: number
+  onRead: (rootId: string) => void
+}
+
+// Prompt + answer (or photo) of the turn response that starts the thread
+const parseRoot = (root: Msg): { prompt: string | null; text: string | null; imageUrl: string | null } => {
+  const photoTurn = getPhotoTurn(root)
+  if (photoTurn) return { prompt: photoTurn.prompt, text: null, imageUrl: photoTurn.image_url }
+  const { prompt, answer } = splitTurnResponse(root.content)
+  return { prompt, text: answer, imageUrl: null }
+}
+
+// Side panel with every reply to one turn response
+export function ThreadPanel({
+  root,
+  onClose,
+  roomId,
+  currentUserId,
+  users,
+  refreshKey,
+  onRead,
+}: ThreadPanelProps) {
+  const [replies, setReplies] = useState<Msg[]>([])
+  const [loading, setLoading] = useState(true)
+  const [text, setText] = useState('')
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  const rootId = root?.id ?? null
+
+  // Load replies (again whenever new ones arrive) and mark the thread read
+  useEffect(() => {
+    if (!rootId) return
+    let cancelled = false
+    supabase.rpc('get_thread_messages', { p_root_id: rootId })
+      .then(({ data, error: rpcError }) => {
+        if (cancelled) return
+        if (rpcError) {
+          console.error('Failed to load thread:', rpcError)
+        } else {
+          setReplies((data ?? []) as Msg[])
+          requestAnimationFrame(() => bottomRef.current?.scrollIntoView({ block: 'end' }))
+        }
+        setLoading(false)
+        supabase.rpc('mark_thread_read', { p_root_id: rootId }).then(() => onRead(rootId))
+      })
+    return () => { cancelled = true }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rootId, refreshKey])
+
+  if (!root) return null
+
+  const author = root.user_id ? users.get(root.user_id) ?? null : null
+  const { prompt, text: answerText, imageUrl } = parseRoot(root)
+
+  const handleSend = async () => {
+    if (!currentUserId || !text.trim()) return
+    setSending(true)
+    setError(null)
+    const { data, error: insertError } = await supabase
+      .from('messages')
+      .insert({
+        room_id: roomId,
+        user_id: currentUserId,
+        type: 'chat',
+        content: text.trim(),
+        reply_to_message_id: root.id,
+      })
+      .select()
+      .single()
+    setSending(false)
+
+    if (insertError || !data) {
+      setError(insertError?.message || 'Failed to send reply')
+      return
+    }
+    setText('')
+    setReplies(prev => prev.some(m => m.id === data.id) ? prev : [...prev, data as Msg])
+    requestAnimationFrame(() => bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' }))
+
+    // Fire-and-forget push, same as the main composer
+    fetch('/api/push/notify-message', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ roomId, messageId: data.id, senderId: currentUserId }),
+    }).catch(() => {})
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/40 z-[200]"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <div
+        className="fixed inset-y-0 right-0 z-[201] w-full max-w-md flex flex-col bg-white dark:bg-stone-900 shadow-xl animate-in slide-in-from-right duration-200"
+        style={{ paddingTop: 'env(safe-area-inset-top, 0px)', paddingBottom: 'env(safe-area-inset-bottom, 0px)' }}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Thread"
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-stone-100 dark:border-stone-800">
+          <h3 className="text-base font-semibold text-stone-900 dark:text-stone-50">Thread</h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-stone-400 hover:text-stone-600 dark:hover:text-stone-200"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {/* The answer */}
+          <div className="px-4 py-3 border-b border-stone-100 dark:border-stone-800 bg-indigo-50/50 dark:bg-indigo-950/20">
+            <div className="flex items-center gap-2 mb-1.5">
+              <Avatar user={author} size="sm" />
+              <span className="text-sm font-semibold text-stone-800 dark:text-stone-100">{author?.displayName ?? 'Unknown'}</span>
+              <span className="text-xs text-stone-400 dark:text-stone-500">{formatShortDate(root.created_at)}</span>
+            </div>
+            {prompt && (
+              <p className="text-xs italic text-indigo-500 dark:text-indigo-400 mb-1">&ldquo;{prompt}&rdquo;</p>
+            )}
+            {answerText && (
+              <p className="text-[15px] text-stone-800 dark:text-stone-100 whitespace-pre-wrap">{answerText}</p>
+            )}
+            {imageUrl && (
+              <Image src={imageUrl} alt="Photo answer" width={320} height={240} className="mt-1 rounded-xl max-h-60 w-auto object-cover" />
+            )}
+          </div>
+
+          {/* Replies */}
+          <div className="px-4 py-3 space-y-3">
+            {loading ? (
+              <div className="h-12 bg-stone-100 dark:bg-stone-800 rounded-xl animate-pulse" />
+            ) : replies.length === 0 ? (
+              <p className="py-6 text-center text-sm text-stone-400 dark:text-stone-500">No replies yet — start the conversation</p>
+            ) : (
+              replies.map(reply => {
+                const replyAuthor = reply.user_id ? users.get(reply.user_id) ?? null : null
+                return (
+                  <div key={reply.id} className="flex items-start gap-2.5">
+                    <Avatar user={replyAuthor} size="sm" className="mt-0.5" />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-baseline gap-2">
+                        <span className="text-[13px] font-semibold text-stone-800 dark:text-stone-100 truncate">
+                          {reply.user_id === currentUserId ? 'You' : replyAuthor?.displayName ?? 'Unknown'}
+                        </span>
+                        <span className="text-[10px] text-stone-400 dark:text-stone-500 shrink-0">
+                          {formatTime(reply.created_at)}
+                          {reply.edited_at && ' · edited'}
+                        </span>
+                      </div>
+                      {reply.deleted_at ? (
+                        <p className="text-sm italic text-stone-400 dark:text-stone-500">Message deleted</p>
+                      ) : reply.type === 'image' ? (
+                        <Image src={reply.content} alt="Photo" width={200} height={150} className="mt-1 rounded-lg max-h-40 w-auto object-cover" />
+                      ) : (
+                        <p className="text-sm text-stone-700 dark:text-stone-200 whitespace-pre-wrap break-words">{reply.content}</p>
+                      )}
+                    </div>
+                  </div>
+                )
+              })
+            )}
+            <div ref={bottomRef} />
+          </div>
+        </div>
+
+        {/* Composer */}
+        <div className="border-t border-stone-100 dark:border-stone-800 px-3 py-2.5">
+          {error && <p className="text-xs text-red-500 dark:text-red-400 mb-1.5">{error}</p>}
+          <div className="flex items-end gap-2">
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault()
+                  handleSend()
+                }
+              }}
+              rows={1}
+              placeholder={`Reply to ${author?.displayName ?? 'this answer'}...`}
+              className="flex-1 min-w-0 px-3 py-2 text-base bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-stone-800 dark:text-stone-100 placeholder:text-stone-400 resize-none max-h-24 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+            />
+            <button
+              onClick={handleSend}
+              disabled={!text.trim() || sending}
+              className="px-3 py-2 text-sm font-medium bg-indigo-500 dark:bg-indigo-600 text-white rounded-xl hover:bg-indigo-600 dark:hover:bg-indigo-500 disabled:opacity-50"
+            >
+              {sending ? 'Sending...' : 'Reply'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,311 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import Image from 'next/image'
+import { supabase } from '@/lib/supabaseClient'
+import { isSnoozed } from '@/lib/snooze'
+import { formatShortDate } from '../utils/formatters'
+import type { RoomMember, TurnSession, UserInfo } from '../types'
+
+interface TurnManagementPanelProps {
+  roomId: string
+  turnSession: TurnSession
+  members: RoomMember[]
+  users: Map<string, UserInfo>
+  onTurnAdvanced: () => void
+  onTurnOrderSaved: (order: string[]) => void
+}
+
+// Same ordering get_next_turn_user uses: turn_order first, newer members last
+const getRotation = (turnOrder: string[], members: RoomMember[]): string[] => {
+  const inOrder = turnOrder.filter(id => members.some(m => m.user_id === id))
+  const rest = members.map(m => m.user_id).filter(id => !inOrder.includes(id))
+  return [...inOrder, ...rest]
+}
+
+const isExcluded = (member: RoomMember | undefined) =>
+  !!member?.excluded_until && new Date(member.excluded_until) > new Date()
+
+// Host-only controls for the rotation: skip, reorder, vacations, pause
+export function TurnManagementPanel({
+  roomId,
+  turnSession,
+  members,
+  users,
+  onTurnAdvanced,
+  onTurnOrderSaved,
+}: TurnManagementPanelProps) {
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [draftOrder, setDraftOrder] = useState<string[] | null>(null)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [awayPickerFor, setAwayPickerFor] = useState<string | null>(null)
+  const [awayDate, setAwayDate] = useState('')
+  const rowRefs = useRef<Map<string, HTMLDivElement>>(new Map())
+
+  const isPaused = !!turnSession.paused_at
+  const rotation = getRotation(turnSession.turn_order ?? [], members)
+  const displayedOrder = draftOrder ?? rotation
+  const currentUser = turnSession.current_turn_user_id
+    ? users.get(turnSession.current_turn_user_id)
+    : null
+
+  // Tomorrow, as the earliest pickable vacation end date
+  const minAwayDate = (() => {
+    const d = new Date()
+    d.setDate(d.getDate() + 1)
+    return d.toISOString().slice(0, 10)
+  })()
+
+  const runAction = async (
+    key: string,
+    rpc: string,
+    params: Record<string, unknown>
+  ): Promise<{ success: boolean; turn_advanced?: boolean } | null> => {
+    setBusy(key)
+    setError(null)
+    const { data, error: rpcError } = await supabase.rpc(rpc, params)
+    setBusy(null)
+
+    if (rpcError) {
+      setError(rpcError.message)
+      return null
+    }
+    if (data && !data.success) {
+      setError(data.error || 'Something went wrong')
+      return null
+    }
+    return data
+  }
+
+  const handleSkip = async () => {
+    const result = await runAction('skip', 'host_skip_turn', { p_room_id: roomId })
+    if (result) onTurnAdvanced()
+  }
+
+  const handleTogglePause = async () => {
+    await runAction(
+      'pause',
+      isPaused ? 'resume_turn_session' : 'pause_turn_session',
+      { p_room_id: roomId }
+    )
+  }
+
+  const handleSetAway = async (userId: string) => {
+    if (!awayDate) return
+    // Away through the end of the picked day
+    const until = new Date(`${awayDate}T23:59:59`)
+    const result = await runAction(`away-${userId}`, 'set_member_excluded_until', {
+      p_room_id: roomId,
+      p_user_id: userId,
+      p_until: until.toISOString(),
+    })
+    if (result) {
+      setAwayPickerFor(null)
+      setAwayDate('')
+      if (result.turn_advanced) onTurnAdvanced()
+    }
+  }
+
+  const handleClearAway = async (userId: string) => {
+    await runAction(`away-${userId}`, 'set_member_excluded_until', {
+      p_room_id: roomId,
+      p_user_id: userId,
+      p_until: null,
+    })
+  }
+
+  // Pointer-based drag so reordering works with touch as well as mouse
+  const handleDragStart = (e: React.PointerEvent, userId: string) => {
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDraggingId(userId)
+    setDraftOrder(displayedOrder)
+  }
+
+  const handleDragMove = (e: React.PointerEvent) => {
+    if (!draggingId || !draftOrder) return
+
+    // Drop position = first row whose midpoint is below the pointer
+    let targetIndex = draftOrder.length - 1
+    for (let i = 0; i < draftOrder.length; i++) {
+      const rect = rowRefs.current.get(draftOrder[i])?.getBoundingClientRect()
+      if (rect && e.clientY < rect.top + rect.height / 2) {
+        targetIndex = i
+        break
+      }
+    }
+
+    const fromIndex = draftOrder.indexOf(draggingId)
+    if (fromIndex === targetIndex) return
+
+    const next = [...draftOrder]
+    next.splice(fromIndex, 1)
+    next.splice(targetIndex, 0, draggingId)
+    setDraftOrder(next)
+  }
+
+  const handleDragEnd = async () => {
+    if (!draggingId) return
+    setDraggingId(null)
+
+    const order = draftOrder
+    if (!order || order.join() === rotation.join()) {
+      setDraftOrder(null)
+      return
+    }
+
+    const result = await runAction('order', 'update_turn_order', {
+      p_room_id: roomId,
+      p_user_ids: order,
+    })
+    if (result) onTurnOrderSaved(order)
+    setDraftOrder(null)
+  }
+
+  return (
+    <div className="p-4 border-b border-stone-100 dark:border-stone-800">
+      <h4 className="text-sm font-medium text-stone-700 dark:text-stone-200 mb-2">Turn Management</h4>
+      <p className="text-xs text-stone-500 dark:text-stone-400 mb-3">Only you can see these controls as host</p>
+
+      {/* Skip + pause */}
+      <div className="flex gap-2 mb-4">
+        <button
+          onClick={handleSkip}
+          disabled={isPaused || !!busy || !turnSession.current_turn_user_id}
+          className="flex-1 px-3 py-2 text-sm font-medium bg-stone-100 dark:bg-stone-800 text-stone-700 dark:text-stone-200 rounded-lg hover:bg-stone-200 dark:hover:bg-stone-700 disabled:opacity-50 truncate"
+        >
+          {busy === 'skip' ? 'Skipping...' : `Skip ${currentUser?.displayName ?? 'current turn'}`}
+        </button>
+        <button
+          onClick={handleTogglePause}
+          disabled={!!busy}
+          className={`px-3 py-2 text-sm font-medium rounded-lg disabled:opacity-50 ${
+            isPaused
+              ? 'bg-emerald-50 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 hover:bg-emerald-100 dark:hover:bg-emerald-900/60'
+              : 'bg-amber-50 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/60'
+          }`}
+        >
+          {busy === 'pause' ? '...' : isPaused ? 'Resume' : 'Pause'}
+        </button>
+      </div>
+
+      {isPaused && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 mb-3">
+          Paused since {formatShortDate(turnSession.paused_at!)} — no turns, nudges or auto-skips until you resume
+        </p>
+      )}
+
+      {/* Rotation order */}
+      <p className="text-xs text-stone-500 dark:text-stone-400 mb-2">Turn order — drag to reorder</p>
+      <div
+        className="space-y-1"
+        onPointerMove={handleDragMove}
+        onPointerUp={handleDragEnd}
+        onPointerCancel={handleDragEnd}
+      >
+        {displayedOrder.map((userId, index) => {
+          const user = users.get(userId)
+          const member = members.find(m => m.user_id === userId)
+          const away = isExcluded(member)
+          const isCurrent = userId === turnSession.current_turn_user_id
+
+          return (
+            <div
+              key={userId}
+              ref={el => {
+                if (el) rowRefs.current.set(userId, el)
+                else rowRefs.current.delete(userId)
+              }}
+              className={`rounded-lg px-2 py-2 transition-colors ${
+                draggingId === userId
+                  ? 'bg-indigo-50 dark:bg-indigo-900/40 ring-1 ring-indigo-200 dark:ring-indigo-700'
+                  : 'bg-stone-50 dark:bg-stone-800'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                {/* Drag handle */}
+                <button
+                  onPointerDown={(e) => handleDragStart(e, userId)}
+                  className="p-1 text-stone-400 dark:text-stone-500 cursor-grab active:cursor-grabbing touch-none"
+                  aria-label="Drag to reorder"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M4 8h16M4 16h16" />
+                  </svg>
+                </button>
+                <span className="w-4 text-xs text-stone-400 dark:text-stone-500 tabular-nums">{index + 1}</span>
+                {user?.avatarUrl ? (
+                  <Image src={user.avatarUrl} alt="" width={24} height={24} className="w-6 h-6 rounded-full object-cover" />
+                ) : (
+                  <div className={`w-6 h-6 rounded-full ${user?.color ?? 'bg-stone-300'} flex items-center justify-center text-white text-[10px] font-medium`}>
+                    {user?.initials ?? '??'}
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <span className={`text-sm truncate block ${away || isSnoozed(member?.snoozed_until) ? 'text-stone-400 dark:text-stone-500' : 'text-stone-800 dark:text-stone-100'}`}>
+                    {user?.displayName ?? 'Unknown'}
+                    {isCurrent && <span className="text-xs text-indigo-500 dark:text-indigo-400"> · now</span>}
+                  </span>
+                  {away && (
+                    <span className="text-[11px] text-amber-600 dark:text-amber-400">
+                      On vacation until {formatShortDate(member!.excluded_until!)}
+                    </span>
+                  )}
+                  {!away && isSnoozed(member?.snoozed_until) && (
+                    <span className="text-[11px] text-amber-600 dark:text-amber-400">
+                      Snoozed until {formatShortDate(member!.snoozed_until!)}
+                    </span>
+                  )}
+                </div>
+                {away ? (
+                  <button
+                    onClick={() => handleClearAway(userId)}
+                    disabled={busy === `away-${userId}`}
+                    className="text-xs text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 dark:hover:text-indigo-300 font-medium disabled:opacity-50"
+                  >
+                    Back
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => {
+                      setAwayPickerFor(awayPickerFor === userId ? null : userId)
+                      setAwayDate('')
+                    }}
+                    className="text-xs text-stone-500 dark:text-stone-400 hover:text-stone-700 dark:hover:text-stone-200"
+                  >
+                    Away...
+                  </button>
+                )}
+              </div>
+
+              {awayPickerFor === userId && !away && (
+                <div className="flex items-center gap-2 mt-2 pl-7">
+                  <label className="text-xs text-stone-500 dark:text-stone-400">Until</label>
+                  <input
+                    type="date"
+                    min={minAwayDate}
+                    value={awayDate}
+                    onChange={(e) => setAwayDate(e.target.value)}
+                    className="flex-1 px-2 py-1 text-xs bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg text-stone-700 dark:text-stone-200"
+                  />
+                  <button
+                    onClick={() => handleSetAway(userId)}
+                    disabled={!awayDate || busy === `away-${userId}`}
+                    className="px-2 py-1 text-xs font-medium bg-indigo-500 dark:bg-indigo-600 text-white rounded hover:bg-indigo-600 dark:hover:bg-indigo-500 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-500 dark:text-red-400 mt-2">{error}</p>
+      )}
+    </div>
+  )
+}
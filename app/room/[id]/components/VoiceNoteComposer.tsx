@@ -0,0 +1,222 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabaseClient'
+import { createStoragePath } from '@/lib/mediaUpload'
+import { VoicePlayer } from './VoicePlayer'
+import { useVoiceRecorder } from '../hooks'
+import { formatDuration } from '../utils'
+import { MESSAGE_PAYLOAD_VERSION, VOICE_NOTE_MAX_SECONDS, type VoicePayload } from '../types'
+
+interface VoiceNoteComposerProps {
+  isOpen: boolean
+  onClose: () => void
+  roomId: string
+  userId: string | null
+  // The turn's voice prompt; when set, the recording is this turn's answer
+  turnPrompt?: string | null
+  onSent: (messageId: string) => void
+}
+
+// Shorter than this is almost always an accidental tap
+const MIN_DURATION_MS = 500
+
+const fileExtension = (mimeType: string) => {
+  if (mimeType.startsWith('audio/mp4')) return 'm4a'
+  if (mimeType.startsWith('audio/ogg')) return 'ogg'
+  return 'webm'
+}
+
+// Sheet for recording a voice note, in chat or as a voice-prompt turn
+export function VoiceNoteComposer({ isOpen, onClose, roomId, userId, turnPrompt = null, onSent }: VoiceNoteComposerProps) {
+  const { status, elapsedMs, levels, recording, error: recorderError, start, stop, reset } = useVoiceRecorder()
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Local copy of the recording for the preview player
+  const previewUrl = useMemo(() => recording ? URL.createObjectURL(recording.blob) : null, [recording])
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl)
+  }, [previewUrl])
+
+  if (!isOpen) return null
+
+  const tooShort = !!recording && recording.durationMs < MIN_DURATION_MS
+
+  // The sheet stays mounted while closed, so drop the recording here
+  const handleClose = () => {
+    reset()
+    setError(null)
+    onClose()
+  }
+
+  const handleSend = async () => {
+    if (!recording || !userId || tooShort || sending) return
+    setSending(true)
+    setError(null)
+
+    try {
+      const fileName = createStoragePath(`voice/${roomId}`, fileExtension(recording.mimeType))
+      const { error: uploadError } = await supabase.storage
+        .from('media')
+        .upload(fileName, recording.blob, { contentType: recording.mimeType })
+
+      if (uploadError) throw new Error(uploadError.message || 'Failed to upload voice note')
+
+      const { data: urlData } = supabase.storage
+        .from('media')
+        .getPublicUrl(fileName)
+
+      let messageId: string
+      if (turnPrompt) {
+        const { data, error: rpcError } = await supabase.rpc('submit_voice_turn', {
+          p_room_id: roomId,
+          p_audio_url: urlData.publicUrl,
+          p_duration_ms: recording.durationMs,
+          p_waveform: recording.waveform,
+        })
+        if (rpcError || !data?.success) throw new Error(rpcError?.message || data?.error || 'Failed to submit voice answer')
+        messageId = data.message_id
+      } else {
+        const payload: VoicePayload = {
+          v: MESSAGE_PAYLOAD_VERSION,
+          kind: 'voice',
+          audio_url: urlData.publicUrl,
+          duration_ms: recording.durationMs,
+          waveform: recording.waveform,
+        }
+        const { data, error: insertError } = await supabase.from('messages').insert({
+          room_id: roomId,
+          user_id: userId,
+          type: 'voice',
+          content: '🎤 Voice note',
+          payload,
+        }).select('id').single()
+        if (insertError || !data) throw new Error(insertError?.message || 'Failed to send voice note')
+        messageId = data.id
+      }
+
+      reset()
+      onSent(messageId)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send voice note')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/40 z-[200] transition-opacity"
+        onClick={handleClose}
+        aria-hidden="true"
+      />
+
+      {/* Sheet */}
+      <div
+        className="fixed inset-x-0 bottom-0 z-[201] animate-in slide-in-from-bottom duration-200"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Voice note"
+      >
+        <div
+          className="mx-auto max-w-lg bg-white dark:bg-stone-900 rounded-t-2xl shadow-xl max-h-[85vh] flex flex-col"
+          style={{ paddingBottom: 'env(safe-area-inset-bottom, 0px)' }}
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-stone-100 dark:border-stone-800">
+            <h3 className="text-base font-semibold text-stone-900 dark:text-stone-50">
+              {turnPrompt ? 'Your turn: record an answer' : 'Voice note'}
+            </h3>
+            <button
+              onClick={handleClose}
+              className="p-1 text-stone-400 hover:text-stone-600 dark:hover:text-stone-200"
+              aria-label="Close"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {turnPrompt && (
+              <p className="text-sm italic text-stone-500 dark:text-stone-400">&ldquo;{turnPrompt}&rdquo;</p>
+            )}
+
+            {status === 'recorded' && recording && previewUrl ? (
+              <div className="px-3 py-2.5 bg-stone-50 dark:bg-stone-800 rounded-xl">
+                <VoicePlayer
+                  audioUrl={previewUrl}
+                  durationMs={recording.durationMs}
+                  waveform={recording.waveform}
+                  isMe={false}
+                />
+              </div>
+            ) : (
+              <div className="flex flex-col items-center gap-3 py-2">
+                <div className="flex items-center justify-center gap-[3px] h-10 w-full max-w-xs" aria-hidden="true">
+                  {status === 'recording' ? levels.map((level, i) => (
+                    <span
+                      key={i}
+                      className="w-1 rounded-full bg-red-400"
+                      style={{ height: `${Math.max(10, Math.min(100, level * 300))}%` }}
+                    />
+                  )) : (
+                    <span className="text-xs text-stone-400">Up to {VOICE_NOTE_MAX_SECONDS / 60} minutes</span>
+                  )}
+                </div>
+
+                <button
+                  onClick={status === 'recording' ? stop : start}
+                  aria-label={status === 'recording' ? 'Stop recording' : 'Start recording'}
+                  className={`w-16 h-16 rounded-full flex items-center justify-center text-white shadow-md ${
+                    status === 'recording' ? 'bg-red-500 hover:bg-red-600 animate-pulse' : 'bg-sky-500 hover:bg-sky-600'
+                  }`}
+                >
+                  {status === 'recording' ? (
+                    <span className="w-5 h-5 rounded-sm bg-white" />
+                  ) : (
+                    <svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+                    </svg>
+                  )}
+                </button>
+
+                <p className="text-sm tabular-nums text-stone-500 dark:text-stone-400">
+                  {status === 'recording'
+                    ? `${formatDuration(elapsedMs)} / ${formatDuration(VOICE_NOTE_MAX_SECONDS * 1000)}`
+                    : 'Tap to record'}
+                </p>
+              </div>
+            )}
+
+            {tooShort && <p className="text-xs text-amber-600 dark:text-amber-400">That was too short. Record again?</p>}
+            {(error || recorderError) && <p className="text-xs text-red-500 dark:text-red-400">{error || recorderError}</p>}
+
+            {status === 'recorded' && (
+              <div className="flex gap-2">
+                <button
+                  onClick={reset}
+                  disabled={sending}
+                  className="flex-1 py-2.5 text-sm font-semibold bg-stone-100 dark:bg-stone-800 text-stone-700 dark:text-stone-200 rounded-xl hover:bg-stone-200 dark:hover:bg-stone-700 disabled:opacity-50"
+                >
+                  Record again
+                </button>
+                <button
+                  onClick={handleSend}
+                  disabled={sending || tooShort}
+                  className="flex-1 py-2.5 text-sm font-semibold bg-sky-500 text-white rounded-xl hover:bg-sky-600 disabled:opacity-50"
+                >
+                  {sending ? 'Sending...' : turnPrompt ? 'Send and finish turn' : 'Send'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { formatDuration } from '../utils'
+import { VOICE_PLAYBACK_RATES } from '../types'
+
+interface VoicePlayerProps {
+  audioUrl: string
+  durationMs: number
+  waveform: number[]
+  isMe: boolean
+}
+
+// Shown for notes recorded without level samples
+const FLAT_WAVEFORM = Array.from({ length: 32 }, () => 30)
+
+// Voice note inside a chat bubble: play/pause, a seekable waveform and playback speed
+export function VoicePlayer({ audioUrl, durationMs, waveform, isMe }: VoicePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [playing, setPlaying] = useState(false)
+  const [positionMs, setPositionMs] = useState(0)
+  const [rateIndex, setRateIndex] = useState(0)
+
+  const bars = waveform.length > 0 ? waveform : FLAT_WAVEFORM
+  const progress = durationMs > 0 ? Math.min(positionMs / durationMs, 1) : 0
+  const rate = VOICE_PLAYBACK_RATES[rateIndex]
+
+  const togglePlay = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    const audio = audioRef.current
+    if (!audio) return
+    if (audio.paused) {
+      audio.play().catch(() => setPlaying(false))
+    } else {
+      audio.pause()
+    }
+  }
+
+  const cycleRate = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    const next = (rateIndex + 1) % VOICE_PLAYBACK_RATES.length
+    setRateIndex(next)
+    if (audioRef.current) audioRef.current.playbackRate = VOICE_PLAYBACK_RATES[next]
+  }
+
+  // Recorded webm often reports no duration, so seek against the stored one
+  const seekTo = (ms: number) => {
+    const clamped = Math.min(Math.max(ms, 0), durationMs)
+    if (audioRef.current) audioRef.current.currentTime = clamped / 1000
+    setPositionMs(clamped)
+  }
+
+  const handleSeekClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation()
+    const rect = e.currentTarget.getBoundingClientRect()
+    seekTo(((e.clientX - rect.left) / rect.width) * durationMs)
+  }
+
+  const handleSeekKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowRight') seekTo(positionMs + 5000)
+    else if (e.key === 'ArrowLeft') seekTo(positionMs - 5000)
+    else return
+    e.preventDefault()
+    e.stopPropagation()
+  }
+
+  return (
+    <div className="flex items-center gap-2.5 min-w-[13rem]">
+      <button
+        onClick={togglePlay}
+        aria-label={playing ? 'Pause voice note' : 'Play voice note'}
+        className={`w-9 h-9 shrink-0 rounded-full flex items-center justify-center ${
+          isMe ? 'bg-white/20 text-white hover:bg-white/30' : 'bg-sky-500 text-white hover:bg-sky-600'
+        }`}
+      >
+        {playing ? (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M7 5h3.5v14H7zM13.5 5H17v14h-3.5z" />
+          </svg>
+        ) : (
+          <svg className="w-4 h-4 ml-0.5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M8 5.14v13.72a1 1 0 001.52.85l10.9-6.86a1 1 0 000-1.7L9.52 4.29A1 1 0 008 5.14z" />
+          </svg>
+        )}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Voice note position"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(durationMs / 1000)}
+          aria-valuenow={Math.round(positionMs / 1000)}
+          aria-valuetext={formatDuration(positionMs)}
+          onClick={handleSeekClick}
+          onKeyDown={handleSeekKey}
+          className="flex items-center gap-[2px] h-7 cursor-pointer focus:outline-none"
+        >
+          {bars.map((level, i) => (
+            <span
+              key={i}
+              className={`flex-1 rounded-full transition-colors ${
+                i / bars.length < progress
+                  ? (isMe ? 'bg-white' : 'bg-sky-500')
+                  : (isMe ? 'bg-white/40' : 'bg-slate-300 dark:bg-stone-600')
+              }`}
+              style={{ height: `${Math.max(12, level)}%` }}
+              aria-hidden="true"
+            />
+          ))}
+        </div>
+        <div className={`flex items-center justify-between text-[11px] tabular-nums ${isMe ? 'text-white/70' : 'text-slate-400'}`}>
+          <span>{formatDuration(playing || positionMs > 0 ? positionMs : durationMs)}</span>
+          <button
+            onClick={cycleRate}
+            aria-label={`Playback speed ${rate}x`}
+            className={`px-1.5 rounded-md font-semibold ${isMe ? 'bg-white/15 text-white' : 'bg-slate-100 dark:bg-stone-800 text-slate-600 dark:text-stone-300'}`}
+          >
+            {rate}×
+          </button>
+        </div>
+      </div>
+
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        preload="metadata"
+        onPlay={(e) => { e.currentTarget.playbackRate = rate; setPlaying(true) }}
+        onPause={() => setPlaying(false)}
+        onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+        onEnded={() => { setPlaying(false); setPositionMs(0) }}
+      />
+    </div>
+  )
+}
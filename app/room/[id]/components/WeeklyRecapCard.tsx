@@ -0,0 +1,158 @@
+'use client'
+
+import Image from 'next/image'
+import { Avatar } from './Avatar'
+import { formatShortDate } from '../utils/formatters'
+import type { UserInfo, WeeklyRecap } from '../types'
+
+interface WeeklyRecapCardProps {
+  recap: WeeklyRecap
+  users: Map<string, UserInfo>
+  onJumpToMessage?: (message: { id: string; created_at: string }) => void
+  onProfileClick: (userId: string) => void
+}
+
+const MAX_PROMPTS = 5
+
+// Names stored in the recap outlive members who have since left
+const nameFor = (users: Map<string, UserInfo>, member: { user_id: string; name: string | null }) =>
+  users.get(member.user_id)?.displayName ?? member.name ?? 'Someone'
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="pt-3 mt-3 border-t border-indigo-100 dark:border-indigo-900/40">
+    <div className="text-[10px] font-semibold uppercase tracking-wider text-indigo-500 dark:text-indigo-400 mb-1.5">{title}</div>
+    {children}
+  </div>
+)
+
+// Recap card posted into the room once a week
+export function WeeklyRecapCard({ recap, users, onJumpToMessage, onProfileClick }: WeeklyRecapCardProps) {
+  // week_end is the exclusive Monday boundary; show the Sunday before it
+  const lastDay = new Date(new Date(recap.week_end).getTime() - 24 * 60 * 60 * 1000).toISOString()
+  const extraPrompts = recap.prompts.length - MAX_PROMPTS
+
+  return (
+    <div className="flex justify-center py-3">
+      <div className="w-full max-w-sm rounded-2xl bg-white dark:bg-stone-900 ring-1 ring-indigo-100 dark:ring-indigo-900/50 shadow-sm px-4 py-3.5">
+        <div className="flex items-center gap-2">
+          <span className="text-lg" aria-hidden="true">📰</span>
+          <div>
+            <div className="text-sm font-semibold text-stone-900 dark:text-stone-50">Weekly recap</div>
+            <div className="text-[11px] text-stone-400 dark:text-stone-500">
+              {formatShortDate(recap.week_start)} – {formatShortDate(lastDay)}
+            </div>
+          </div>
+          <div className="ml-auto text-right">
+            <div className="text-lg font-semibold text-stone-900 dark:text-stone-50 leading-none">{recap.prompts.length}</div>
+            <div className="text-[10px] text-stone-400 dark:text-stone-500">answer{recap.prompts.length !== 1 ? 's' : ''}</div>
+          </div>
+        </div>
+
+        {recap.prompts.length > 0 && (
+          <Section title="Prompts answered">
+            <ul className="space-y-1">
+              {recap.prompts.slice(0, MAX_PROMPTS).map(p => (
+                <li key={p.message_id}>
+                  <button
+                    onClick={() => onJumpToMessage?.({ id: p.message_id, created_at: p.created_at })}
+                    className="w-full text-left text-[13px] text-stone-700 dark:text-stone-200 hover:text-indigo-600 dark:hover:text-indigo-400 line-clamp-1"
+                  >
+                    <span className="font-medium">{nameFor(users, p)}</span>
+                    <span className="text-stone-400 dark:text-stone-500"> · </span>
+                    <span className="italic">{p.prompt ?? 'Answered a prompt'}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {extraPrompts > 0 && (
+              <div className="text-[11px] text-stone-400 dark:text-stone-500 mt-1">+{extraPrompts} more</div>
+            )}
+          </Section>
+        )}
+
+        {recap.top_answers.length > 0 && (
+          <Section title="Top answers">
+            <ul className="space-y-2">
+              {recap.top_answers.map((a, i) => (
+                <li key={a.message_id}>
+                  <button
+                    onClick={() => onJumpToMessage?.({ id: a.message_id, created_at: a.created_at })}
+                    className="w-full flex items-start gap-2 text-left group"
+                  >
+                    <span className="text-sm" aria-hidden="true">{['🥇', '🥈', '🥉'][i]}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-[13px] text-stone-800 dark:text-stone-100 line-clamp-2 group-hover:text-indigo-600 dark:group-hover:text-indigo-400">
+                        {a.answer ?? (a.image_url ? 'Photo answer' : '')}
+                      </div>
+                      <div className="text-[11px] text-stone-400 dark:text-stone-500">
+                        {nameFor(users, a)} · ▲ {a.score}
+                      </div>
+                    </div>
+                    {a.image_url && (
+                      <Image src={a.image_url} alt="" width={36} height={36} className="w-9 h-9 rounded-lg object-cover shrink-0" />
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        {recap.top_photos.length > 0 && (
+          <Section title="Most-loved photos">
+            <div className="flex gap-2">
+              {recap.top_photos.map(photo => (
+                <button
+                  key={photo.message_id}
+                  onClick={() => onJumpToMessage?.({ id: photo.message_id, created_at: photo.created_at })}
+                  className="relative"
+                  aria-label={`Photo by ${nameFor(users, photo)}, ${photo.reactions} reactions`}
+                >
+                  <Image src={photo.image_url} alt="" width={72} height={72} className="w-[72px] h-[72px] rounded-xl object-cover" />
+                  <span className="absolute bottom-1 right-1 px-1.5 rounded-full bg-black/60 text-white text-[10px]">
+                    ❤️ {photo.reactions}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </Section>
+        )}
+
+        {(recap.answered_by.length > 0 || recap.skipped.length > 0) && (
+          <Section title="Who showed up">
+            <div className="flex flex-wrap gap-1.5">
+              {recap.answered_by.map(m => (
+                <button
+                  key={m.user_id}
+                  onClick={() => onProfileClick(m.user_id)}
+                  className="flex items-center gap-1 pl-0.5 pr-2 py-0.5 rounded-full bg-emerald-50 dark:bg-emerald-950/30 text-[11px] text-emerald-700 dark:text-emerald-300"
+                >
+                  <Avatar user={users.get(m.user_id) ?? null} size="xs" />
+                  {nameFor(users, m)} · {m.count}
+                </button>
+              ))}
+              {recap.skipped.map(m => (
+                <button
+                  key={m.user_id}
+                  onClick={() => onProfileClick(m.user_id)}
+                  className="flex items-center gap-1 pl-0.5 pr-2 py-0.5 rounded-full bg-stone-100 dark:bg-stone-800 text-[11px] text-stone-500 dark:text-stone-400"
+                >
+                  <Avatar user={users.get(m.user_id) ?? null} size="xs" />
+                  {nameFor(users, m)} · skipped{m.count > 1 ? ` ×${m.count}` : ''}
+                </button>
+              ))}
+            </div>
+          </Section>
+        )}
+
+        {recap.new_members.length > 0 && (
+          <Section title="New members">
+            <p className="text-[13px] text-stone-700 dark:text-stone-200">
+              👋 Welcome {recap.new_members.map(m => nameFor(users, m)).join(', ')}
+            </p>
+          </Section>
+        )}
+      </div>
+    </div>
+  )
+}
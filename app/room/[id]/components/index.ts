@@ -7,3 +7,19 @@ export { PhotoLightbox } from './PhotoLightbox'
 export { ProfileDrawer } from './ProfileDrawer'
 export { MessageSelectionOverlay } from './MessageSelectionOverlay'
 export { EmojiPickerPortal } from './EmojiPickerPortal'
+export { TurnManagementPanel } from './TurnManagementPanel'
+export { PromptPacksPanel } from './PromptPacksPanel'
+export { PromptSuggestionsSheet } from './PromptSuggestionsSheet'
+export { MessageSearchPanel, type MessageSearchResult } from './MessageSearchPanel'
+export { MentionSuggestions } from './MentionSuggestions'
+export { ThreadPanel } from './ThreadPanel'
+export { HighlightsPanel } from './HighlightsPanel'
+export { WeeklyRecapCard } from './WeeklyRecapCard'
+export { PromptScheduleEditor } from './PromptScheduleEditor'
+export { RoundPanel } from './RoundPanel'
+export { HotSeatPanel } from './HotSeatPanel'
+export { PollCard } from './PollCard'
+export { PollComposer } from './PollComposer'
+export { VoicePlayer } from './VoicePlayer'
+export { VoiceNoteComposer } from './VoiceNoteComposer'
+export { VideoClipPlayer } from './VideoClipPlayer'
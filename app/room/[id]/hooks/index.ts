@@ -1 +1,3 @@
 export { useMobileViewport } from './useMobileViewport'
+export { useVoiceRecorder } from './useVoiceRecorder'
+export { useOutbox } from './useOutbox'
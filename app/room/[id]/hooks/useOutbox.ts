@@ -0,0 +1,135 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  discardOutboxItem,
+  enqueueOutboxItem,
+  flushOutbox,
+  isOutboxSupported,
+  listOutboxItems,
+  retryOutboxItem,
+  subscribeOutbox,
+  type NewOutboxItem,
+  type OutboxItem,
+} from '@/lib/outbox'
+import type { Msg } from '../types'
+
+// How often the page looks for queued items that are due a retry
+const RETRY_CHECK_MS = 15_000
+
+/**
+ * Messages and turn answers from this room still waiting in the outbox
+ * (lib/outbox.ts), as messages to show at the end of the list.
+ *
+ * Keeps the outbox moving while the room is open: on mount, when the
+ * device comes back online or the tab is shown again, and on a timer.
+ * onSent gets the stored row for anything this page sent, so it can be
+ * shown before realtime delivers it. isOnline tells the page when answers
+ * that can't be queued (photos, videos, voice notes, polls) have to wait.
+ */
+export function useOutbox(roomId: string, userId: string | null, onSent: (message: Msg) => void) {
+  const [items, setItems] = useState<(OutboxItem & { previewUrl?: string })[]>([])
+  const [isOnline, setIsOnline] = useState(true)
+  // Queued photos show from the local file until they are uploaded
+  const previewUrlsRef = useRef(new Map<string, string>())
+
+  const onSentRef = useRef(onSent)
+  useEffect(() => {
+    onSentRef.current = onSent
+  }, [onSent])
+
+  const reload = useCallback(() => {
+    listOutboxItems(roomId)
+      .then((queued) => {
+        const urls = previewUrlsRef.current
+        const ids = new Set(queued.map(item => item.id))
+        for (const [id, url] of urls) {
+          if (!ids.has(id)) {
+            URL.revokeObjectURL(url)
+            urls.delete(id)
+          }
+        }
+        setItems(queued.map((item) => {
+          if (!item.upload || item.message.type !== 'image') return item
+          if (!urls.has(item.id)) urls.set(item.id, URL.createObjectURL(item.upload.blob))
+          return { ...item, previewUrl: urls.get(item.id) }
+        }))
+      })
+      .catch(err => console.warn('[outbox] Failed to read queue:', err))
+  }, [roomId])
+
+  useEffect(() => {
+    if (!isOutboxSupported()) return
+
+    reload()
+    const unsubscribe = subscribeOutbox((event) => {
+      if (event.type === 'sent' && event.item.roomId === roomId && event.message) {
+        onSentRef.current(event.message as Msg)
+      }
+      reload()
+    })
+
+    const flush = () => {
+      if (document.visibilityState === 'visible') flushOutbox()
+    }
+    flush()
+    window.addEventListener('online', flush)
+    document.addEventListener('visibilitychange', flush)
+    const interval = setInterval(flush, RETRY_CHECK_MS)
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', flush)
+      document.removeEventListener('visibilitychange', flush)
+      clearInterval(interval)
+    }
+  }, [roomId, reload])
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine)
+    update()
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  useEffect(() => {
+    const urls = previewUrlsRef.current
+    return () => {
+      urls.forEach(url => URL.revokeObjectURL(url))
+      urls.clear()
+    }
+  }, [])
+
+  const queuedMessages = useMemo((): Msg[] => items
+    .filter(item => item.userId === userId)
+    .map(item => ({
+      ...item.message,
+      content: item.previewUrl ?? item.message.content,
+      id: item.id,
+      room_id: item.roomId,
+      user_id: item.userId,
+      created_at: item.createdAt,
+      mentions: item.message.mentions as Msg['mentions'],
+      payload: item.message.payload as Msg['payload'],
+      outbox_status: item.status,
+      outbox_error: item.error,
+    })), [items, userId])
+
+  const hasQueuedTurn = items.some(item => item.userId === userId && item.notify === 'turn' && item.status === 'pending')
+
+  const enqueue = useCallback((item: Omit<NewOutboxItem, 'roomId'>) =>
+    enqueueOutboxItem({ ...item, roomId }), [roomId])
+
+  return {
+    queuedMessages,
+    hasQueuedTurn,
+    isOnline,
+    enqueue,
+    retry: retryOutboxItem,
+    discard: discardOutboxItem,
+  }
+}
@@ -0,0 +1,160 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { VOICE_NOTE_MAX_SECONDS, type VoiceRecording } from '../types'
+
+export type VoiceRecorderStatus = 'idle' | 'recording' | 'recorded'
+
+// Formats in order of preference; Safari only records mp4
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/mp4', 'audio/ogg;codecs=opus', 'audio/webm']
+
+const WAVEFORM_BARS = 48
+const SAMPLE_INTERVAL_MS = 100
+
+// Average the sampled input levels down to at most WAVEFORM_BARS bars (0-100)
+const toWaveform = (levels: number[]): number[] => {
+  if (levels.length === 0) return []
+  const bars = Math.min(WAVEFORM_BARS, levels.length)
+  const peak = Math.max(...levels, 0.01)
+  return Array.from({ length: bars }, (_, i) => {
+    const start = Math.floor((i * levels.length) / bars)
+    const end = Math.max(start + 1, Math.floor(((i + 1) * levels.length) / bars))
+    const slice = levels.slice(start, end)
+    const average = slice.reduce((sum, level) => sum + level, 0) / slice.length
+    return Math.round((average / peak) * 100)
+  })
+}
+
+/**
+ * Records a voice note with MediaRecorder.
+ *
+ * While recording, the microphone level is sampled through an AnalyserNode
+ * so the sheet can draw live bars and the note gets a waveform to show in
+ * the chat. Recording stops by itself at VOICE_NOTE_MAX_SECONDS.
+ */
+export function useVoiceRecorder() {
+  const [status, setStatus] = useState<VoiceRecorderStatus>('idle')
+  const [elapsedMs, setElapsedMs] = useState(0)
+  const [levels, setLevels] = useState<number[]>([])
+  const [recording, setRecording] = useState<VoiceRecording | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  // Set when the recording in progress should be thrown away on stop
+  const discardRef = useRef(false)
+
+  // Turn the microphone off
+  const release = useCallback(() => {
+    if (intervalRef.current) clearInterval(intervalRef.current)
+    intervalRef.current = null
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    audioContextRef.current?.close().catch(() => {})
+    audioContextRef.current = null
+  }, [])
+
+  const start = useCallback(async () => {
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError('Voice notes are not supported in this browser')
+      return
+    }
+    setError(null)
+    setRecording(null)
+    setLevels([])
+    setElapsedMs(0)
+    discardRef.current = false
+
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    } catch {
+      setError('Allow microphone access to record a voice note')
+      return
+    }
+    streamRef.current = stream
+
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? ''
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+    recorderRef.current = recorder
+
+    const audioContext = new AudioContext()
+    audioContextRef.current = audioContext
+    const analyser = audioContext.createAnalyser()
+    analyser.fftSize = 512
+    audioContext.createMediaStreamSource(stream).connect(analyser)
+    const samples = new Uint8Array(analyser.fftSize)
+    const sampledLevels: number[] = []
+
+    const chunks: Blob[] = []
+    const startedAt = Date.now()
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data)
+    }
+    recorder.onstop = () => {
+      const durationMs = Date.now() - startedAt
+      release()
+      recorderRef.current = null
+      if (discardRef.current) return
+      const type = recorder.mimeType || mimeType || 'audio/webm'
+      setRecording({
+        blob: new Blob(chunks, { type }),
+        mimeType: type,
+        durationMs,
+        waveform: toWaveform(sampledLevels),
+      })
+      setStatus('recorded')
+    }
+
+    intervalRef.current = setInterval(() => {
+      // RMS of the signal around the 128 midpoint
+      analyser.getByteTimeDomainData(samples)
+      let sum = 0
+      for (let i = 0; i < samples.length; i++) {
+        const centered = (samples[i] - 128) / 128
+        sum += centered * centered
+      }
+      const level = Math.sqrt(sum / samples.length)
+      sampledLevels.push(level)
+      setLevels(prev => [...prev.slice(-(WAVEFORM_BARS - 1)), level])
+
+      const elapsed = Date.now() - startedAt
+      setElapsedMs(elapsed)
+      if (elapsed >= VOICE_NOTE_MAX_SECONDS * 1000 && recorder.state === 'recording') recorder.stop()
+    }, SAMPLE_INTERVAL_MS)
+
+    recorder.start()
+    setStatus('recording')
+  }, [release])
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop()
+  }, [])
+
+  // Throw away the recording, or the one in progress
+  const reset = useCallback(() => {
+    discardRef.current = true
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop()
+    } else {
+      release()
+    }
+    setRecording(null)
+    setLevels([])
+    setElapsedMs(0)
+    setError(null)
+    setStatus('idle')
+  }, [release])
+
+  // Never leave the microphone on after unmount
+  useEffect(() => () => {
+    discardRef.current = true
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop()
+    release()
+  }, [release])
+
+  return { status, elapsedMs, levels, recording, error, start, stop, reset }
+}
@@ -7,16 +7,27 @@ import { supabase } from '@/lib/supabaseClient'
 import { usePushNotifications } from '@/lib/usePushNotifications'
 import { hapticTick, clearTextSelection, clearTextSelectionAggressive, setGlobalNoSelect } from '@/lib/haptics'
 import { getThemeForMode, isDarkTheme, getThemeCSSVars, type ChatTheme } from '@/lib/themes'
-import { useParams, useRouter } from 'next/navigation'
+import { SNOOZE_OPTIONS, getSnoozeUntil, isSnoozed } from '@/lib/snooze'
+import { isVideoFile, prepareVideoClip, uploadVideoClip } from '@/lib/videoClip'
+import { createStoragePath, isUploadCancelled, prepareImage, uploadImage, uploadToStorage, type UploadOptions } from '@/lib/mediaUpload'
+import { useUploadTask } from '@/lib/useUploadTask'
+import { blurhashPlaceholderStyle } from '@/lib/blurhash'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import { GroupAvatarMosaic, type GroupMember } from '@/app/components/GroupAvatarMosaic'
 import { StoryRing } from '@/app/components/StoryRing'
+import { UploadProgress } from '@/app/components/UploadProgress'
 import { StoryViewer } from '@/app/components/stories/StoryViewer'
 import { groupStoriesByUser, type Story, type StoryUser } from '@/app/components/stories/types'
 
 // Local imports from extracted modules
-import { useMobileViewport } from './hooks'
-import { formatTimeRemaining, formatTime, getInitials, getDisplayName } from './utils/formatters'
+import { useMobileViewport, useOutbox } from './hooks'
+import { formatTimeRemaining, formatTime, formatShortDate, getInitials, getDisplayName } from './utils/formatters'
 import { stringToColors, getMessageGroupPosition } from './utils/colors'
+import { canEditMessage, canDeleteMessage, getEditableText } from './utils/messageEdits'
+import { getMentionQuery, insertMention, collectMentions, splitMentions } from './utils/mentions'
+import { parseWeeklyRecap } from './utils/recap'
+import { parseMessagePayload, getPhotoTurn, getVoiceNote, getVideoClip, getImagePlaceholder, splitTurnResponse, getMessageImageUrl, getMessagePreviewText } from './utils/messagePayload'
+import { describeSchedule } from './utils/schedule'
 import {
   Avatar,
   MembersButton,
@@ -26,17 +37,42 @@ import {
   PhotoLightbox,
   MessageSelectionOverlay,
   EmojiPickerPortal,
+  TurnManagementPanel,
+  PromptPacksPanel,
+  PromptSuggestionsSheet,
+  MessageSearchPanel,
+  type MessageSearchResult,
+  MentionSuggestions,
+  ProfileDrawer,
+  ThreadPanel,
+  HighlightsPanel,
+  WeeklyRecapCard,
+  PromptScheduleEditor,
+  RoundPanel,
+  HotSeatPanel,
+  PollCard,
+  PollComposer,
+  VoicePlayer,
+  VoiceNoteComposer,
+  VideoClipPlayer,
 } from './components'
 import type {
   Msg,
+  MessageMention,
   Reaction,
   TurnSession,
   UserInfo,
   RoomMember,
   RoomInfo,
   MessageGroupPosition,
+  ThreadSummary,
+  PlayMode,
+  Poll,
+  MessagePayload,
+  ImagePayload,
+  VideoPayload,
 } from './types'
-import { EMOJI_OPTIONS, FREQUENCY_OPTIONS, PROMPT_MODES } from './types'
+import { MESSAGE_PAYLOAD_VERSION, EMOJI_OPTIONS, FREQUENCY_OPTIONS, PROMPT_MODES, PLAY_MODES, ROUND_DEADLINE_OPTIONS, HOT_SEAT_WINDOW_OPTIONS } from './types'
 
 
 // Vote info type
@@ -45,6 +81,44 @@ type VoteInfo = {
   user_vote: 'up' | 'down' | null
 }
 
+// Add messages loaded out of order (jumps, gaps) and keep the list sorted by time
+function mergeMessagesByTime(prev: Msg[], incoming: Msg[]): Msg[] {
+  const existingIds = new Set(prev.map(m => m.id))
+  const added = incoming.filter(m => !existingIds.has(m.id))
+  if (added.length === 0) return prev
+  return [...prev, ...added].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+}
+
+// Send state for a message still in the outbox, shown after its timestamp
+function OutboxState({ message, onRetry, onDiscard }: {
+  message: Msg
+  onRetry?: (msg: Msg) => void
+  onDiscard?: (msg: Msg) => void
+}) {
+  if (message.outbox_status === 'pending') {
+    return <span aria-live="polite"> · Sending...</span>
+  }
+
+  return (
+    <span role="alert" title={message.outbox_error || undefined}>
+      {' · '}
+      <span className="font-semibold text-red-500">Not sent</span>
+      {onRetry && (
+        <>
+          {' · '}
+          <button onClick={() => onRetry(message)} className="font-semibold underline">Retry</button>
+        </>
+      )}
+      {onDiscard && (
+        <>
+          {' · '}
+          <button onClick={() => onDiscard(message)} className="font-semibold underline">Delete</button>
+        </>
+      )}
+    </span>
+  )
+}
+
 // Message bubble component - compact WhatsApp-style
 // Memoized to prevent re-renders when other messages update
 const MessageBubble = memo(function MessageBubble({
@@ -67,6 +141,19 @@ const MessageBubble = memo(function MessageBubble({
   onVisible,
   voteInfo,
   onVote,
+  onEdit,
+  onDelete,
+  onMentionClick,
+  thread,
+  onOpenThread,
+  isPinned = false,
+  onTogglePin,
+  onJumpToMessage,
+  poll,
+  onVotePoll,
+  onClosePoll,
+  onRetrySend,
+  onDiscardSend,
 }: {
   message: Msg
   isMe: boolean
@@ -87,7 +174,22 @@ const MessageBubble = memo(function MessageBubble({
   onVisible?: () => void
   voteInfo?: VoteInfo
   onVote?: (messageId: string, voteType: 'up' | 'down') => void
+  onEdit?: (msg: Msg) => void
+  onDelete?: (msg: Msg) => void
+  onMentionClick?: (userId: string) => void
+  thread?: ThreadSummary
+  onOpenThread?: (msg: Msg) => void
+  isPinned?: boolean
+  onTogglePin?: (msg: Msg) => void
+  onJumpToMessage?: (message: { id: string; created_at: string }) => void
+  poll?: Poll
+  onVotePoll?: (poll: Poll, optionIds: string[]) => Promise<void>
+  onClosePoll?: (poll: Poll) => Promise<void>
+  onRetrySend?: (msg: Msg) => void
+  onDiscardSend?: (msg: Msg) => void
 }) {
+  // Still in the outbox: no reactions, replies or menu until it is sent
+  const isQueued = !!message.outbox_status
   const [showContextMenu, setShowContextMenu] = useState(false)
   const [showReactorsFor, setShowReactorsFor] = useState<string | null>(null)
   const [showLightbox, setShowLightbox] = useState(false)
@@ -137,7 +239,7 @@ const MessageBubble = memo(function MessageBubble({
   // Handle pointer down - start long press detection
   const handlePointerDown = useCallback((e: React.PointerEvent) => {
     // Ignore if clicking on buttons or links (but allow images for gestures)
-    if ((e.target as HTMLElement).closest('button, a')) return
+    if (isQueued || (e.target as HTMLElement).closest('button, a')) return
 
     // Reset gesture triggered state
     setGestureTriggered(false)
@@ -168,7 +270,7 @@ const MessageBubble = memo(function MessageBubble({
         resetGesture()
       }
     }, LONG_PRESS_DURATION)
-  }, [resetGesture])
+  }, [isQueued, resetGesture])
 
   // Handle pointer move - detect swipe or cancel long press
   const handlePointerMove = useCallback((e: React.PointerEvent) => {
@@ -232,9 +334,10 @@ const MessageBubble = memo(function MessageBubble({
 
   // Handle right-click context menu (desktop)
   const handleContextMenu = useCallback((e: React.MouseEvent) => {
+    if (isQueued) return
     e.preventDefault()
     setShowContextMenu(true)
-  }, [])
+  }, [isQueued])
 
   // Prevent native drag (iOS/Android can trigger selection via drag)
   const handleDragStart = useCallback((e: React.DragEvent) => {
@@ -280,7 +383,19 @@ const MessageBubble = memo(function MessageBubble({
   }, [message])
 
   // Determine if this message can be copied (text content only)
-  const canCopy = message.type !== 'image' && !message.content.startsWith('{')
+  const canCopy = message.type !== 'image' && !parseMessagePayload(message)
+
+  // Author-only actions, worked out only while the context menu is open
+  // (the edit window depends on the current time)
+  const editHandler = isMe && onEdit && showContextMenu && canEditMessage(message, reactions.length)
+    ? () => onEdit(message)
+    : undefined
+  const deleteHandler = isMe && onDelete && showContextMenu && canDeleteMessage(message)
+    ? () => onDelete(message)
+    : undefined
+  const pinHandler = onTogglePin && !message.deleted_at
+    ? () => onTogglePin(message)
+    : undefined
 
   // Selected bubble styling (WhatsApp-like lift effect)
   // Also includes haptic pulse fallback animation when vibration is unsupported
@@ -335,29 +450,35 @@ const MessageBubble = memo(function MessageBubble({
   const isSystem = message.type === 'system'
   const isImage = message.type === 'image'
   const isStoryReply = message.type === 'story_reply'
+  const isPoll = message.type === 'poll'
 
   // Grouping-aware flags
   const isFirstInGroup = groupPosition === 'first' || groupPosition === 'single'
   const isLastInGroup = groupPosition === 'last' || groupPosition === 'single'
   const isGrouped = groupPosition !== 'single'
 
-  // Parse turn response content - check for photo turn (JSON) first
+  // Photo turn responses carry their prompt and photo in the payload
   const photoTurnData = useMemo(() => {
-    if (!isTurnResponse) return null
-    try {
-      const parsed = JSON.parse(message.content)
-      if (parsed.kind === 'photo_turn' && parsed.image_url) {
-        return { prompt: parsed.prompt, imageUrl: parsed.image_url }
-      }
-    } catch {
-      // Not JSON, regular text turn response
-    }
-    return null
-  }, [isTurnResponse, message.content])
+    const photoTurn = isTurnResponse ? getPhotoTurn(message) : null
+    return photoTurn ? { prompt: photoTurn.prompt, imageUrl: photoTurn.image_url } : null
+  }, [isTurnResponse, message])
 
   const isPhotoTurn = photoTurnData !== null
-  const hasTurnPrompt = isTurnResponse && !isPhotoTurn && message.content.startsWith('Reply to "')
-  const promptLine = hasTurnPrompt ? message.content.split('\n\n')[0] : null
+  // Size and blurhash of a photo, to hold its place until it loads
+  const imagePlaceholder = useMemo(() => getImagePlaceholder(message), [message])
+  const placeholderStyle = blurhashPlaceholderStyle(imagePlaceholder?.blurhash)
+  const placeholderRatio = imagePlaceholder?.width && imagePlaceholder.height
+    ? imagePlaceholder.width / imagePlaceholder.height
+    : null
+  // Voice notes, and voice answers whose prompt is in the payload
+  const voiceNote = useMemo(() => getVoiceNote(message), [message])
+  // Chat clips, and video answers to photo prompts
+  const videoClip = useMemo(() => getVideoClip(message), [message])
+  const isVideo = message.type === 'video' && videoClip !== null
+  const hasTurnPrompt = isTurnResponse && !isPhotoTurn && (voiceNote ? !!voiceNote.prompt : message.content.startsWith('Reply to "'))
+  const promptLine = hasTurnPrompt
+    ? (voiceNote ? `Reply to "${voiceNote.prompt}"` : message.content.split('\n\n')[0])
+    : null
   const responseContent = hasTurnPrompt
     ? message.content.split('\n\n').slice(1).join('\n\n')
     : message.content
@@ -390,6 +511,17 @@ const MessageBubble = memo(function MessageBubble({
 
   // System messages - refined pill design
   if (isSystem) {
+    const recap = parseWeeklyRecap(message)
+    if (recap) {
+      return (
+        <WeeklyRecapCard
+          recap={recap}
+          users={users}
+          onJumpToMessage={onJumpToMessage}
+          onProfileClick={onProfileClick}
+        />
+      )
+    }
     return (
       <div className="flex justify-center py-3">
         <div className="system-message-pill flex items-center gap-1.5">
@@ -402,6 +534,38 @@ const MessageBubble = memo(function MessageBubble({
     )
   }
 
+  // Hot seat questions - votes happen in the hot seat panel
+  if (message.type === 'hot_seat_question' && !message.deleted_at) {
+    return (
+      <div className="flex justify-center py-1.5">
+        <div className="system-message-pill flex items-center gap-1.5">
+          <span aria-hidden="true">🔥</span>
+          <span className="font-medium">{isMe ? 'You' : user?.displayName ?? 'A member'}</span>
+          <span>asked: {message.content}</span>
+        </div>
+      </div>
+    )
+  }
+
+  // Deleted messages leave a placeholder so the conversation still reads
+  if (message.deleted_at) {
+    return (
+      <div className={`flex ${isMe ? 'flex-row-reverse' : 'flex-row'}`}>
+        <div className={`flex-shrink-0 ${isMe ? 'ml-2' : 'mr-2'}`}>
+          {isLastInGroup ? (
+            <Avatar user={user} size="xs" className="mt-0.5" onClick={user ? () => onProfileClick(user.id) : undefined} />
+          ) : (
+            <div className="w-5 h-5" />
+          )}
+        </div>
+        <div className="px-3.5 py-2 rounded-2xl border border-dashed border-slate-200 dark:border-stone-700 text-[13px] italic text-slate-400 dark:text-stone-500">
+          {isMe ? 'You deleted this message' : 'Message deleted'}
+          <span className="ml-2 text-[10px] not-italic">{formatTime(message.created_at)}</span>
+        </div>
+      </div>
+    )
+  }
+
   // Quoted reply preview component - refined design with image thumbnails
   const QuotedReply = () => {
     if (!replyToMessage) return null
@@ -410,23 +574,12 @@ const MessageBubble = memo(function MessageBubble({
     let imageUrl: string | null = null
     let previewText: string
 
-    if (replyToMessage.type === 'image') {
-      imageUrl = replyToMessage.content
-      previewText = 'Photo'
-    } else if (replyToMessage.type === 'turn_response') {
-      try {
-        const parsed = JSON.parse(replyToMessage.content)
-        if (parsed.kind === 'photo_turn' && parsed.image_url) {
-          imageUrl = parsed.image_url
-          previewText = 'Photo'
-        } else {
-          previewText = replyToMessage.content.slice(0, 60) + (replyToMessage.content.length > 60 ? '...' : '')
-        }
-      } catch {
-        previewText = replyToMessage.content.slice(0, 60) + (replyToMessage.content.length > 60 ? '...' : '')
-      }
+    if (replyToMessage.deleted_at) {
+      previewText = 'Message deleted'
     } else {
-      previewText = replyToMessage.content.slice(0, 60) + (replyToMessage.content.length > 60 ? '...' : '')
+      imageUrl = getMessageImageUrl(replyToMessage)
+      const text = getMessagePreviewText(replyToMessage)
+      previewText = imageUrl ? 'Photo' : text.slice(0, 60) + (text.length > 60 ? '...' : '')
     }
 
     return (
@@ -638,9 +791,32 @@ const MessageBubble = memo(function MessageBubble({
     )
   }
 
+  // Reply count + latest repliers under a turn response; opens its thread
+  const threadFooter = thread && thread.reply_count > 0 && onOpenThread ? (
+    <button
+      onClick={(e) => { e.stopPropagation(); onOpenThread(message) }}
+      className={`flex items-center gap-1.5 mt-1 ${isMe ? 'self-end flex-row-reverse' : 'self-start'} px-2 py-1 rounded-full hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors`}
+      aria-label={`Open thread, ${thread.reply_count} ${thread.reply_count === 1 ? 'reply' : 'replies'}${thread.unread_count > 0 ? `, ${thread.unread_count} unread` : ''}`}
+    >
+      <div className={`flex ${isMe ? 'flex-row-reverse -space-x-reverse' : ''} -space-x-1.5`}>
+        {(thread.recent_repliers ?? []).map(uid => (
+          <Avatar key={uid} user={users.get(uid) ?? null} size="xs" className="ring-2 ring-white dark:ring-stone-900" />
+        ))}
+      </div>
+      <span className="text-[11px] font-semibold text-indigo-500 dark:text-indigo-400">
+        {thread.reply_count} {thread.reply_count === 1 ? 'reply' : 'replies'}
+      </span>
+      {thread.unread_count > 0 && (
+        <span className="min-w-[16px] h-4 px-1 rounded-full bg-indigo-500 text-white text-[10px] font-semibold flex items-center justify-center">
+          {thread.unread_count}
+        </span>
+      )}
+    </button>
+  ) : null
+
   // Desktop hover menu button (accessibility - allows reply/react without gestures)
   const HoverMenuButton = () => {
-    if (!isHovered) return null
+    if (!isHovered || isQueued) return null
 
     return (
       <button
@@ -715,8 +891,8 @@ const MessageBubble = memo(function MessageBubble({
     setShowLightbox(true)
   }, [gestureTriggered])
 
-  // Image messages - modern rounded design
-  if (isImage) {
+  // Image and video messages - modern rounded design
+  if (isImage || isVideo) {
     return (
       <div
         ref={rowRef}
@@ -763,21 +939,41 @@ const MessageBubble = memo(function MessageBubble({
           )}
           <div ref={bubbleRef} className={`relative transition-all duration-150 ${selectedBubbleClass}`} onClick={handleClick}>
             <QuotedReply />
-            <div
-              className={`rounded-2xl overflow-hidden cursor-pointer shadow-sm ${isMe ? '' : 'ring-1 ring-slate-200/80'} ${showContextMenu ? 'ring-0' : ''}`}
-              onClick={handleImageClick}
-            >
-              <img
-                src={message.content}
-                alt="Photo"
-                className="max-w-full max-h-52 object-contain bg-slate-100 select-none pointer-events-none"
-                loading="lazy"
-                draggable={false}
-                style={{ WebkitTouchCallout: 'none', WebkitUserSelect: 'none' }}
-              />
-            </div>
+            {isVideo && videoClip ? (
+              <div className={`rounded-2xl overflow-hidden shadow-sm ${isMe ? '' : 'ring-1 ring-slate-200/80'} ${showContextMenu ? 'ring-0' : ''}`}>
+                <VideoClipPlayer
+                  videoUrl={videoClip.video_url}
+                  posterUrl={videoClip.poster_url}
+                  durationMs={videoClip.duration_ms}
+                />
+              </div>
+            ) : (
+              <div
+                className={`rounded-2xl overflow-hidden cursor-pointer shadow-sm ${isMe ? '' : 'ring-1 ring-slate-200/80'} ${showContextMenu ? 'ring-0' : ''}`}
+                onClick={handleImageClick}
+              >
+                <img
+                  src={message.content}
+                  alt="Photo"
+                  className="max-w-full max-h-52 object-contain bg-slate-100 select-none pointer-events-none"
+                  loading="lazy"
+                  draggable={false}
+                  style={{
+                    WebkitTouchCallout: 'none',
+                    WebkitUserSelect: 'none',
+                    ...placeholderStyle,
+                    // Full height (max-h-52) at the photo's aspect ratio
+                    ...(placeholderRatio && { aspectRatio: placeholderRatio, width: Math.round(208 * placeholderRatio) }),
+                  }}
+                />
+              </div>
+            )}
             <div className={`text-[10px] mt-1 ${isMe ? 'text-right text-slate-400' : 'text-slate-400'}`}>
               {formatTime(message.created_at)}
+              {isPinned && ' · pinned'}
+              {message.outbox_status && (
+                <OutboxState message={message} onRetry={onRetrySend} onDiscard={onDiscardSend} />
+              )}
             </div>
             <HoverMenuButton />
           </div>
@@ -795,6 +991,8 @@ const MessageBubble = memo(function MessageBubble({
             emojis={EMOJI_OPTIONS}
             onReact={(emoji) => onReact(message.id, emoji)}
             onReply={() => onReply(message)}
+            onTogglePin={pinHandler}
+            isPinned={isPinned}
             onClose={() => setShowContextMenu(false)}
             canCopy={false}
           />
@@ -864,7 +1062,7 @@ const MessageBubble = memo(function MessageBubble({
                     <path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
                     <path strokeLinecap="round" strokeLinejoin="round" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
                   </svg>
-                  Photo Turn
+                  {videoClip ? 'Video Turn' : 'Photo Turn'}
                 </div>
                 {photoTurnData.prompt && (
                   <div className={`text-[12px] italic leading-snug ${isMe ? 'text-white/80' : 'text-violet-600'}`}>
@@ -872,26 +1070,41 @@ const MessageBubble = memo(function MessageBubble({
                   </div>
                 )}
               </div>
-              <div
-                className="cursor-pointer"
-                onClick={handleImageClick}
-              >
-                <img
-                  src={photoTurnData.imageUrl}
-                  alt="Photo turn response"
-                  className="w-full max-h-52 object-cover select-none pointer-events-none"
-                  loading="lazy"
-                  draggable={false}
-                  style={{ WebkitTouchCallout: 'none', WebkitUserSelect: 'none' }}
+              {videoClip ? (
+                <VideoClipPlayer
+                  videoUrl={videoClip.video_url}
+                  posterUrl={videoClip.poster_url}
+                  durationMs={videoClip.duration_ms}
                 />
-              </div>
+              ) : (
+                <div
+                  className="cursor-pointer"
+                  onClick={handleImageClick}
+                >
+                  <img
+                    src={photoTurnData.imageUrl}
+                    alt="Photo turn response"
+                    className="w-full max-h-52 object-cover select-none pointer-events-none"
+                    loading="lazy"
+                    draggable={false}
+                    style={{
+                      WebkitTouchCallout: 'none',
+                      WebkitUserSelect: 'none',
+                      ...placeholderStyle,
+                      ...(placeholderRatio && { aspectRatio: placeholderRatio }),
+                    }}
+                  />
+                </div>
+              )}
               <div className={`text-[10px] px-3.5 py-2 ${isMe ? 'text-white/50' : 'text-slate-400'}`}>
                 {formatTime(message.created_at)}
+                {isPinned && ' · pinned'}
               </div>
             </div>
             <HoverMenuButton />
           </div>
           <MetaRow />
+          {threadFooter}
         </div>
         {showLightbox && (
           <PhotoLightbox
@@ -905,6 +1118,8 @@ const MessageBubble = memo(function MessageBubble({
             emojis={EMOJI_OPTIONS}
             onReact={(emoji) => onReact(message.id, emoji)}
             onReply={() => onReply(message)}
+            onTogglePin={pinHandler}
+            isPinned={isPinned}
             onClose={() => setShowContextMenu(false)}
             canCopy={false}
           />
@@ -981,14 +1196,29 @@ const MessageBubble = memo(function MessageBubble({
                   {promptLine}
                 </div>
               )}
-              <span className="msg-text text-[15px] leading-[1.5] whitespace-pre-wrap block">{responseContent}</span>
+              {voiceNote ? (
+                <VoicePlayer
+                  audioUrl={voiceNote.audio_url}
+                  durationMs={voiceNote.duration_ms}
+                  waveform={voiceNote.waveform}
+                  isMe={isMe}
+                />
+              ) : (
+                <span className="msg-text text-[15px] leading-[1.5] whitespace-pre-wrap block">{responseContent}</span>
+              )}
               <div className={`msg-timestamp mt-2 ${isMe ? '' : ''}`}>
                 {formatTime(message.created_at)}
+                {message.edited_at && ' · edited'}
+                {isPinned && ' · pinned'}
+                {message.outbox_status && (
+                  <OutboxState message={message} onRetry={onRetrySend} onDiscard={onDiscardSend} />
+                )}
               </div>
             </div>
             <HoverMenuButton />
           </div>
           <MetaRow />
+          {threadFooter}
         </div>
         {showContextMenu && (
           <MessageSelectionOverlay
@@ -997,6 +1227,9 @@ const MessageBubble = memo(function MessageBubble({
             onReact={(emoji) => onReact(message.id, emoji)}
             onReply={() => onReply(message)}
             onCopy={handleCopy}
+            onEdit={editHandler}
+            onTogglePin={pinHandler}
+            isPinned={isPinned}
             onClose={() => setShowContextMenu(false)}
             canCopy={canCopy}
           />
@@ -1073,9 +1306,53 @@ const MessageBubble = memo(function MessageBubble({
           }`}>
             <QuotedReply />
             <StoryReplyPreview />
-            <span className="msg-text text-[15px] leading-[1.45] whitespace-pre-wrap block">{message.content}</span>
+            {isPoll && onVotePoll && onClosePoll ? (
+              <PollCard
+                message={message}
+                poll={poll}
+                isMe={isMe}
+                currentUserId={currentUserId}
+                users={users}
+                onVote={onVotePoll}
+                onClose={onClosePoll}
+              />
+            ) : voiceNote ? (
+              <VoicePlayer
+                audioUrl={voiceNote.audio_url}
+                durationMs={voiceNote.duration_ms}
+                waveform={voiceNote.waveform}
+                isMe={isMe}
+              />
+            ) : (
+              <span className="msg-text text-[15px] leading-[1.45] whitespace-pre-wrap block">
+                {splitMentions(message.content, message.mentions).map((segment, i) =>
+                  segment.kind === 'mention' ? (
+                    <button
+                      key={i}
+                      onClick={(e) => { e.stopPropagation(); onMentionClick?.(segment.userId) }}
+                      className={`font-semibold rounded px-0.5 -mx-0.5 ${
+                        segment.userId === currentUserId
+                          ? 'bg-amber-200/80 text-amber-900'
+                          : isMe
+                            ? 'bg-white/20 text-white'
+                            : 'bg-indigo-50 text-indigo-600'
+                      }`}
+                    >
+                      {segment.text}
+                    </button>
+                  ) : (
+                    <span key={i}>{segment.text}</span>
+                  )
+                )}
+              </span>
+            )}
             <div className={`msg-timestamp mt-1.5 ${isMe ? 'text-right' : ''}`}>
               {formatTime(message.created_at)}
+              {message.edited_at && ' · edited'}
+              {isPinned && ' · pinned'}
+              {message.outbox_status && (
+                <OutboxState message={message} onRetry={onRetrySend} onDiscard={onDiscardSend} />
+              )}
             </div>
           </div>
           <HoverMenuButton />
@@ -1089,6 +1366,10 @@ const MessageBubble = memo(function MessageBubble({
           onReact={(emoji) => onReact(message.id, emoji)}
           onReply={() => onReply(message)}
           onCopy={handleCopy}
+          onEdit={editHandler}
+          onDelete={deleteHandler}
+          onTogglePin={pinHandler}
+          isPinned={isPinned}
           onClose={() => setShowContextMenu(false)}
           canCopy={canCopy}
         />
@@ -1109,14 +1390,20 @@ function GroupDetailsDrawer({
   members,
   users,
   currentUserId,
+  isHost,
+  turnSession,
   roomFrequency,
   onLeave,
   onUpdateFrequency,
+  onScheduleSaved,
+  onUpdatePlayMode,
   onAddMember,
   onGetInviteLink,
   onUpdateRoomName,
   onUpdatePromptMode,
   onProfileClick,
+  onTurnAdvanced,
+  onTurnOrderSaved,
 }: {
   isOpen: boolean
   onClose: () => void
@@ -1125,14 +1412,20 @@ function GroupDetailsDrawer({
   members: RoomMember[]
   users: Map<string, UserInfo>
   currentUserId: string | null
+  isHost: boolean
+  turnSession: TurnSession | null
   roomFrequency: number
   onLeave: () => void
   onUpdateFrequency: (minutes: number) => void
+  onScheduleSaved: (schedule: { days: number[] | null; times: string[] | null; timezone: string | null }) => void
+  onUpdatePlayMode: (mode: PlayMode, settings: { deadlineHours: number; hotSeatMinutes: number }) => Promise<{ success: boolean; error?: string }>
   onAddMember: (email: string) => Promise<{ success: boolean; error?: string; inviteCode?: string; alreadyMember?: boolean; alreadyInvited?: boolean }>
   onGetInviteLink: () => Promise<string | null>
   onUpdateRoomName: (name: string) => Promise<{ success: boolean; error?: string }>
   onUpdatePromptMode: (mode: 'fun' | 'family' | 'deep' | 'flirty' | 'couple') => void
   onProfileClick: (userId: string) => void
+  onTurnAdvanced: () => void
+  onTurnOrderSaved: (order: string[]) => void
 }) {
   const [copied, setCopied] = useState(false)
   const [copiedInvite, setCopiedInvite] = useState(false)
@@ -1150,6 +1443,14 @@ function GroupDetailsDrawer({
   const [newName, setNewName] = useState('')
   const [savingName, setSavingName] = useState(false)
   const [nameError, setNameError] = useState<string | null>(null)
+  const [showScheduleEditor, setShowScheduleEditor] = useState(false)
+  const [savingPlayMode, setSavingPlayMode] = useState(false)
+  const [playModeError, setPlayModeError] = useState<string | null>(null)
+  const scheduleLabel = describeSchedule(
+    roomInfo?.prompt_schedule_days ?? null,
+    roomInfo?.prompt_schedule_times ?? null,
+    roomInfo?.timezone ?? null
+  )
 
   // Push notifications (for checking if user has enabled notifications)
   const {
@@ -1162,11 +1463,16 @@ function GroupDetailsDrawer({
   const [messageNotifsEnabled, setMessageNotifsEnabled] = useState(true)
   const [messageNotifsLoading, setMessageNotifsLoading] = useState(false)
 
+  // Delivery channels for turn, nudge and invite alerts in this room
+  const [channelPrefs, setChannelPrefs] = useState({ push: true, email: true })
+  const [channelSaving, setChannelSaving] = useState<'push' | 'email' | null>(null)
+
   // Top answers state
   const [topAnswers, setTopAnswers] = useState<{
     message_id: string
     user_id: string
     content: string
+    payload: MessagePayload | null
     created_at: string
     score: number
     user_email: string
@@ -1176,6 +1482,11 @@ function GroupDetailsDrawer({
   const [topAnswersLoading, setTopAnswersLoading] = useState(false)
   const [showTopAnswers, setShowTopAnswers] = useState(false)
 
+  // Snooze state (my own membership)
+  const [snoozeSaving, setSnoozeSaving] = useState(false)
+  const [snoozeError, setSnoozeError] = useState<string | null>(null)
+  const [snoozeNotice, setSnoozeNotice] = useState<string | null>(null)
+
   // Load message notification preference when drawer opens
   useEffect(() => {
     if (isOpen && currentUserId) {
@@ -1183,6 +1494,7 @@ function GroupDetailsDrawer({
         .then(({ data }) => {
           if (data && data.length > 0) {
             setMessageNotifsEnabled(data[0].message_notifs_enabled)
+            setChannelPrefs({ push: data[0].push_enabled, email: data[0].email_enabled })
           }
         })
     }
@@ -1217,6 +1529,39 @@ function GroupDetailsDrawer({
     setMessageNotifsLoading(false)
   }
 
+  const handleToggleChannel = async (channel: 'push' | 'email') => {
+    setChannelSaving(channel)
+    const newValue = !channelPrefs[channel]
+    const { error } = await supabase.rpc('update_notification_prefs', {
+      p_room_id: roomId,
+      [channel === 'push' ? 'p_push_enabled' : 'p_email_enabled']: newValue,
+    })
+    if (!error) {
+      setChannelPrefs(prev => ({ ...prev, [channel]: newValue }))
+    }
+    setChannelSaving(null)
+  }
+
+  const handleSetSnooze = async (until: string | null) => {
+    setSnoozeSaving(true)
+    setSnoozeError(null)
+    setSnoozeNotice(null)
+    const { data, error } = await supabase.rpc('set_snooze', {
+      p_until: until,
+      p_room_id: roomId,
+    })
+    setSnoozeSaving(false)
+
+    if (error || !data?.success) {
+      setSnoozeError(error?.message || data?.error || 'Failed to update snooze')
+      return
+    }
+    if (data.advanced_room_ids?.length > 0) onTurnAdvanced()
+    if (data.paused_room_ids?.length > 0) {
+      setSnoozeNotice('Everyone else is away too, so the game is paused until someone is back')
+    }
+  }
+
   // Body scroll lock when drawer is open
   useEffect(() => {
     if (!isOpen) return
@@ -1229,6 +1574,8 @@ function GroupDetailsDrawer({
 
   if (!isOpen) return null
 
+  const myMember = members.find(m => m.user_id === currentUserId)
+
   const handleCopyRoomId = () => {
     navigator.clipboard.writeText(roomId)
     setCopied(true)
@@ -1299,6 +1646,19 @@ function GroupDetailsDrawer({
     setLoadingInvite(false)
   }
 
+  const handleSetPlayMode = async (mode: PlayMode, settings: { deadlineHours?: number; hotSeatMinutes?: number } = {}) => {
+    setSavingPlayMode(true)
+    setPlayModeError(null)
+    const result = await onUpdatePlayMode(mode, {
+      deadlineHours: settings.deadlineHours ?? roomInfo?.round_deadline_hours ?? 24,
+      hotSeatMinutes: settings.hotSeatMinutes ?? roomInfo?.hot_seat_window_minutes ?? 60,
+    })
+    setSavingPlayMode(false)
+    if (!result.success) {
+      setPlayModeError(result.error || 'Failed to change play mode')
+    }
+  }
+
   const handleStartEditName = () => {
     setNewName(roomInfo?.name ?? '')
     setNameError(null)
@@ -1475,29 +1835,157 @@ function GroupDetailsDrawer({
             </div>
           )}
 
+          {/* Turn management - host only */}
+          {isHost && turnSession && (
+            <TurnManagementPanel
+              roomId={roomId}
+              turnSession={turnSession}
+              members={members}
+              users={users}
+              onTurnAdvanced={onTurnAdvanced}
+              onTurnOrderSaved={onTurnOrderSaved}
+            />
+          )}
+
+          {/* Custom prompt packs - host only */}
+          {isHost && (
+            <PromptPacksPanel roomId={roomId} />
+          )}
+
+          {/* Play mode - host only */}
+          {isHost && (
+            <div className="p-4 border-b border-stone-100 dark:border-stone-800">
+              <h4 className="text-sm font-medium text-stone-700 dark:text-stone-200 mb-2">Play Mode</h4>
+              <p className="text-xs text-stone-500 dark:text-stone-400 mb-3">Who answers each prompt</p>
+              <div className="space-y-1">
+                {PLAY_MODES.map(mode => (
+                  <button
+                    key={mode.value}
+                    onClick={() => handleSetPlayMode(mode.value)}
+                    disabled={savingPlayMode}
+                    className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                      (roomInfo?.play_mode ?? 'turns') === mode.value
+                        ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 ring-1 ring-indigo-200 dark:ring-indigo-700'
+                        : 'hover:bg-stone-50 dark:hover:bg-stone-800 text-stone-700 dark:text-stone-300'
+                    }`}
+                  >
+                    <span className="text-left">
+                      {mode.label}
+                      <span className="block text-xs opacity-75">{mode.description}</span>
+                    </span>
+                    {(roomInfo?.play_mode ?? 'turns') === mode.value && (
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                      </svg>
+                    )}
+                  </button>
+                ))}
+              </div>
+              {roomInfo?.play_mode === 'everyone' && (
+                <div className="mt-3">
+                  <p className="text-xs text-stone-500 dark:text-stone-400 mb-1.5">Reveal answers after</p>
+                  <div className="flex gap-1.5">
+                    {ROUND_DEADLINE_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => handleSetPlayMode('everyone', { deadlineHours: option.value })}
+                        disabled={savingPlayMode}
+                        className={`flex-1 px-2 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 ${
+                          roomInfo.round_deadline_hours === option.value
+                            ? 'bg-indigo-500 text-white'
+                            : 'bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-[11px] text-stone-400 dark:text-stone-500 mt-1.5">or as soon as everyone has answered</p>
+                </div>
+              )}
+              {roomInfo?.play_mode === 'hot_seat' && (
+                <div className="mt-3">
+                  <p className="text-xs text-stone-500 dark:text-stone-400 mb-1.5">Time to ask and vote</p>
+                  <div className="flex gap-1.5">
+                    {HOT_SEAT_WINDOW_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => handleSetPlayMode('hot_seat', { hotSeatMinutes: option.value })}
+                        disabled={savingPlayMode}
+                        className={`flex-1 px-2 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 ${
+                          roomInfo.hot_seat_window_minutes === option.value
+                            ? 'bg-indigo-500 text-white'
+                            : 'bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {playModeError && (
+                <p className="text-xs text-red-600 dark:text-red-400 mt-2">{playModeError}</p>
+              )}
+            </div>
+          )}
+
           {/* Prompt frequency setting - room-wide */}
           <div className="p-4 border-b border-stone-100 dark:border-stone-800">
             <h4 className="text-sm font-medium text-stone-700 dark:text-stone-200 mb-2">Prompt Frequency</h4>
-            <p className="text-xs text-stone-500 dark:text-stone-400 mb-3">Time between prompts (applies to everyone)</p>
+            <p className="text-xs text-stone-500 dark:text-stone-400 mb-3">Time between prompts, or set days and times (applies to everyone)</p>
             <div className="space-y-1">
               {FREQUENCY_OPTIONS.map(option => (
                 <button
                   key={option.value}
-                  onClick={() => onUpdateFrequency(option.value)}
+                  onClick={() => {
+                    setShowScheduleEditor(false)
+                    onUpdateFrequency(option.value)
+                  }}
                   className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition-colors ${
-                    roomFrequency === option.value
+                    !scheduleLabel && roomFrequency === option.value
                       ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 ring-1 ring-indigo-200 dark:ring-indigo-700'
                       : 'hover:bg-stone-50 dark:hover:bg-stone-800 text-stone-700 dark:text-stone-300'
                   }`}
                 >
                   <span>{option.label}</span>
-                  {roomFrequency === option.value && (
+                  {!scheduleLabel && roomFrequency === option.value && (
                     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                       <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
                     </svg>
                   )}
                 </button>
               ))}
+              <button
+                onClick={() => setShowScheduleEditor(v => !v)}
+                className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition-colors ${
+                  scheduleLabel
+                    ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 ring-1 ring-indigo-200 dark:ring-indigo-700'
+                    : 'hover:bg-stone-50 dark:hover:bg-stone-800 text-stone-700 dark:text-stone-300'
+                }`}
+              >
+                <span className="text-left">
+                  On a schedule
+                  {scheduleLabel && <span className="block text-xs opacity-75">{scheduleLabel}</span>}
+                </span>
+                {scheduleLabel && (
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                  </svg>
+                )}
+              </button>
+              {showScheduleEditor && (
+                <PromptScheduleEditor
+                  roomId={roomId}
+                  days={roomInfo?.prompt_schedule_days ?? null}
+                  times={roomInfo?.prompt_schedule_times ?? null}
+                  timezone={roomInfo?.timezone ?? null}
+                  onSaved={(schedule) => {
+                    setShowScheduleEditor(false)
+                    onScheduleSaved(schedule)
+                  }}
+                />
+              )}
             </div>
           </div>
 
@@ -1574,26 +2062,11 @@ function GroupDetailsDrawer({
                 ) : (
                   <div className="space-y-3">
                     {topAnswers.map((answer, index) => {
-                      // Parse content to get prompt and response
-                      let prompt = ''
-                      let response = answer.content
-                      let isPhoto = false
-                      let photoUrl = ''
-
-                      try {
-                        const parsed = JSON.parse(answer.content)
-                        if (parsed.kind === 'photo_turn') {
-                          isPhoto = true
-                          prompt = parsed.prompt
-                          photoUrl = parsed.image_url
-                        }
-                      } catch {
-                        if (answer.content.startsWith('Reply to "')) {
-                          const parts = answer.content.split('\n\n')
-                          prompt = parts[0].replace(/^Reply to "/, '').replace(/"$/, '')
-                          response = parts.slice(1).join('\n\n')
-                        }
-                      }
+                      // Prompt and response (or photo) of the answer
+                      const photoTurn = getPhotoTurn({ type: 'turn_response', ...answer })
+                      const { prompt, answer: response } = photoTurn
+                        ? { prompt: photoTurn.prompt, answer: '' }
+                        : splitTurnResponse(answer.content)
 
                       const displayName = answer.user_display_name || answer.user_email?.split('@')[0] || 'Unknown'
 
@@ -1620,9 +2093,9 @@ function GroupDetailsDrawer({
                                 </p>
                               )}
                               {/* Content */}
-                              {isPhoto ? (
+                              {photoTurn ? (
                                 <div className="w-16 h-16 rounded-lg overflow-hidden mb-2">
-                                  <img src={photoUrl} alt="" className="w-full h-full object-cover" />
+                                  <img src={photoTurn.image_url} alt="" className="w-full h-full object-cover" />
                                 </div>
                               ) : (
                                 <p className="text-sm text-stone-700 dark:text-stone-200 line-clamp-2">
@@ -1680,6 +2153,81 @@ function GroupDetailsDrawer({
             </div>
           )}
 
+          {/* Delivery channels */}
+          <div className="p-4 border-b border-stone-100 dark:border-stone-800">
+            <h4 className="text-sm font-medium text-stone-700 dark:text-stone-200 mb-2">Turn Alerts</h4>
+            <p className="text-xs text-stone-500 dark:text-stone-400 mb-3">How we reach you for turns and nudges in this group</p>
+            <div className="space-y-2">
+              {([
+                { channel: 'push', label: 'Push notifications' },
+                { channel: 'email', label: "Email when push can't reach you" },
+              ] as const).map(({ channel, label }) => (
+                <button
+                  key={channel}
+                  onClick={() => handleToggleChannel(channel)}
+                  disabled={channelSaving !== null}
+                  className={`w-full flex items-center justify-between px-3 py-2.5 rounded-lg text-sm transition-colors ${
+                    channelPrefs[channel]
+                      ? 'bg-emerald-50 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 ring-1 ring-emerald-200 dark:ring-emerald-700'
+                      : 'bg-stone-50 dark:bg-stone-800 text-stone-700 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700'
+                  }`}
+                >
+                  <span>{label}</span>
+                  {channelSaving === channel ? (
+                    <div className="w-4 h-4 border-2 border-stone-300 border-t-stone-600 rounded-full animate-spin" />
+                  ) : channelPrefs[channel] ? (
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                    </svg>
+                  ) : null}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Snooze */}
+          {myMember && (
+            <div className="p-4 border-b border-stone-100 dark:border-stone-800">
+              <h4 className="text-sm font-medium text-stone-700 dark:text-stone-200 mb-2">Snooze</h4>
+              {isSnoozed(myMember.snoozed_until) ? (
+                <div className="flex items-center justify-between px-3 py-2.5 rounded-lg bg-amber-50 dark:bg-amber-900/40 ring-1 ring-amber-200 dark:ring-amber-700">
+                  <span className="text-sm text-amber-700 dark:text-amber-300">
+                    Away until {formatShortDate(myMember.snoozed_until!)}
+                  </span>
+                  <button
+                    onClick={() => handleSetSnooze(null)}
+                    disabled={snoozeSaving}
+                    className="text-xs text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 dark:hover:text-indigo-300 font-medium disabled:opacity-50"
+                  >
+                    {snoozeSaving ? '...' : 'Turn off'}
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <p className="text-xs text-stone-500 dark:text-stone-400 mb-3">Skip your turns and pause nudges in this group for a while</p>
+                  <div className="flex flex-wrap gap-2">
+                    {SNOOZE_OPTIONS.map(option => (
+                      <button
+                        key={option.days}
+                        onClick={() => handleSetSnooze(getSnoozeUntil(option.days))}
+                        disabled={snoozeSaving}
+                        className="px-3 py-1.5 text-sm bg-stone-50 dark:bg-stone-800 text-stone-700 dark:text-stone-300 rounded-lg hover:bg-stone-100 dark:hover:bg-stone-700 disabled:opacity-50"
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+              {snoozeError && (
+                <p className="text-xs text-red-500 dark:text-red-400 mt-2">{snoozeError}</p>
+              )}
+              {snoozeNotice && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 mt-2">{snoozeNotice}</p>
+              )}
+            </div>
+          )}
+
           {/* Add Members section */}
           <div className="p-4 border-b border-stone-100 dark:border-stone-800">
             <div className="flex items-center justify-between mb-3">
@@ -1882,6 +2430,16 @@ function GroupDetailsDrawer({
                       <div className="text-xs text-stone-400 dark:text-stone-500">
                         {user?.email}
                       </div>
+                      {member.excluded_until && new Date(member.excluded_until) > new Date() && (
+                        <div className="text-xs text-amber-600 dark:text-amber-400">
+                          On vacation until {formatShortDate(member.excluded_until)}
+                        </div>
+                      )}
+                      {isSnoozed(member.snoozed_until) && (
+                        <div className="text-xs text-amber-600 dark:text-amber-400">
+                          Snoozed until {formatShortDate(member.snoozed_until!)}
+                        </div>
+                      )}
                     </div>
                   </button>
                 )
@@ -1933,6 +2491,9 @@ export default function RoomPage() {
   const router = useRouter()
   const params = useParams<{ id: string }>()
   const roomId = params.id
+  // ?message=<id> deep link from lobby search
+  const searchParams = useSearchParams()
+  const deepLinkMessageId = searchParams.get('message')
 
   // Set up mobile viewport height via CSS variables (--vvh, --vvo)
   useMobileViewport()
@@ -1947,10 +2508,25 @@ export default function RoomPage() {
   const [hasNewMessages, setHasNewMessages] = useState(false)
   const INITIAL_MESSAGES = 20
   const PAGE_SIZE = 30
+  const JUMP_CONTEXT_SIZE = 20
+  const JUMP_WINDOW_SIZE = 30
+  // Message ids per reactions request, to stay well inside URL length limits
+  const REACTION_CHUNK_SIZE = 100
+  // Loaded messages followed by newer ones that aren't loaded yet (after a jump)
+  const [newerGaps, setNewerGaps] = useState<Set<string>>(new Set())
+  const [loadingNewerAfter, setLoadingNewerAfter] = useState<string | null>(null)
 
   // Vote state for turn responses
   const [votes, setVotes] = useState<Map<string, VoteInfo>>(new Map())
 
+  // Poll results by message id, and the poll messages already requested
+  const [polls, setPolls] = useState<Map<string, Poll>>(new Map())
+  const requestedPollIdsRef = useRef<Set<string>>(new Set())
+  // Where a new poll goes: plain chat, or as the answer to a poll prompt
+  const [pollComposerFor, setPollComposerFor] = useState<'chat' | 'turn' | null>(null)
+  // Same for a voice note: plain chat, or as the answer to a voice prompt
+  const [voiceComposerFor, setVoiceComposerFor] = useState<'chat' | 'turn' | null>(null)
+
   const [chatText, setChatText] = useState('')
   const [turnText, setTurnText] = useState('')
   const [error, setError] = useState<string | null>(null)
@@ -1962,6 +2538,14 @@ export default function RoomPage() {
   const [roomInfo, setRoomInfo] = useState<RoomInfo | null>(null)
   const [copied, setCopied] = useState(false)
   const [showGroupDetails, setShowGroupDetails] = useState(false)
+  const [showPromptSuggestions, setShowPromptSuggestions] = useState(false)
+  const [showSearch, setShowSearch] = useState(false)
+  // Pinned messages (ids, for bubbles) and the pinned/highlights panel
+  const [pinnedIds, setPinnedIds] = useState<Set<string>>(new Set())
+  const [showHighlights, setShowHighlights] = useState(false)
+  const [pinsKey, setPinsKey] = useState(0)
+  // Author of the current prompt when it came from a member suggestion
+  const [promptCredit, setPromptCredit] = useState<{ author_id: string; author_name: string | null } | null>(null)
   const [onlineUsers, setOnlineUsers] = useState<Set<string>>(new Set())
   const [activeStoryUserIds, setActiveStoryUserIds] = useState<Set<string>>(new Set())
 
@@ -2101,12 +2685,46 @@ export default function RoomPage() {
     }
   }, [inputHeight, scrollToBottom])
 
-  const [uploadingImage, setUploadingImage] = useState(false)
+  // Chat photos, clips and photo answers share one upload with progress,
+  // cancel and retry
+  const mediaUpload = useUploadTask()
+  const uploadingImage = mediaUpload.isUploading
+
+  // Chat messages, photos and turn answers wait in the outbox until they are
+  // sent (lib/outbox.ts); rows it sends are added before realtime delivers them
+  const handleOutboxSent = useCallback((message: Msg) => {
+    setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message])
+    // Fire-and-forget: update last seen
+    supabase.rpc('update_last_seen').then(() => {})
+  }, [])
+  const outbox = useOutbox(roomId, userId, handleOutboxSent)
+  const { retry: retryQueued, discard: discardQueued } = outbox
+  const handleRetrySend = useCallback((msg: Msg) => {
+    retryQueued(msg.id)
+  }, [retryQueued])
+  const handleDiscardSend = useCallback((msg: Msg) => {
+    discardQueued(msg.id)
+  }, [discardQueued])
 
   // Reply and reactions state
   const [replyingTo, setReplyingTo] = useState<Msg | null>(null)
+  // Own message being edited in the chat composer
+  const [editingMessage, setEditingMessage] = useState<Msg | null>(null)
+  // @mention autocomplete: the query at the caret, and members picked so far
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null)
+  const [mentionPicks, setMentionPicks] = useState<MessageMention[]>([])
+  // Member whose profile drawer is open (from a mention chip)
+  const [profileDrawerUserId, setProfileDrawerUserId] = useState<string | null>(null)
+  // Reply threads on turn responses, keyed by root message id
+  const [threads, setThreads] = useState<Map<string, ThreadSummary>>(new Map())
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null)
+  // Bumped whenever a reply arrives so summaries and the open thread reload
+  const [threadsKey, setThreadsKey] = useState(0)
   const [reactions, setReactions] = useState<Reaction[]>([])
   const messageRefs = useRef<Map<string, HTMLDivElement>>(new Map())
+  // Search result waiting for its message to render before scrolling to it
+  const pendingJumpRef = useRef<string | null>(null)
+  const handledDeepLinkRef = useRef(false)
 
   // Nudge state (scoped to current turn, not per-day)
   const [hasNudgedThisTurn, setHasNudgedThisTurn] = useState(false)
@@ -2117,6 +2735,8 @@ export default function RoomPage() {
     nudge_count: number
     all_nudged: boolean
     all_nudged_at: string | null
+    away_until: string | null
+    quiet_until: string | null
   } | null>(null)
   const [wasRemoved, setWasRemoved] = useState(false)
 
@@ -2131,6 +2751,19 @@ export default function RoomPage() {
   const seenDebounceRef = useRef<NodeJS.Timeout | null>(null)
 
   const gameActive = turnSession?.is_active ?? false
+  const isPaused = !!turnSession?.paused_at
+  // 'Everyone answers' round in progress instead of a single player's turn
+  const isRoundMode = gameActive && !!turnSession?.current_round_id
+  // Hot seat: the group is still asking questions for this turn
+  const isHotSeatOpen = gameActive && !isRoundMode && !!turnSession?.hot_seat_until
+  const hotSeatQuestionCount = useMemo(() => {
+    if (!isHotSeatOpen) return 0
+    return messages.filter(m => m.type === 'hot_seat_question' && m.hot_seat_turn_id === turnSession?.turn_instance_id).length
+  }, [isHotSeatOpen, messages, turnSession?.turn_instance_id])
+  // Current turn holder is snoozed or on vacation (no nudging)
+  const currentTurnAwayUntil = nudgeStatus?.away_until ?? null
+  // Turn holder is in their quiet hours (nudges are held until it ends)
+  const currentTurnQuietUntil = nudgeStatus?.quiet_until ?? null
 
   // Use current_turn_user_id directly (dynamic turn order from room_members)
   const currentTurnUserId = useMemo(() => {
@@ -2299,19 +2932,26 @@ export default function RoomPage() {
     }
   }, [])
 
+  // Loaded messages followed by our own still waiting in the outbox
+  const listMessages = useMemo(() => {
+    const loadedIds = new Set(messages.map(m => m.id))
+    const queued = outbox.queuedMessages.filter(m => !loadedIds.has(m.id))
+    return queued.length > 0 ? [...messages, ...queued] : messages
+  }, [messages, outbox.queuedMessages])
+
   // Pre-compute message metadata (group positions, seen boundaries) to avoid recalculating in render loop
   const messageMetadata = useMemo(() => {
     const metadata = new Map<string, { groupPosition: MessageGroupPosition; isSeenBoundary: boolean; spacingClass: string }>()
 
-    for (let index = 0; index < messages.length; index++) {
-      const m = messages[index]
-      const groupPosition = getMessageGroupPosition(messages, index)
+    for (let index = 0; index < listMessages.length; index++) {
+      const m = listMessages[index]
+      const groupPosition = getMessageGroupPosition(listMessages, index)
       const isFirstOrSingle = groupPosition === 'first' || groupPosition === 'single'
       const spacingClass = index === 0 ? '' : isFirstOrSingle ? 'mt-2' : 'mt-0.5'
 
       // Compute seen boundary
       const currentSeenCount = seenCounts.get(m.id) ?? 0
-      const nextMessage = messages[index + 1]
+      const nextMessage = listMessages[index + 1]
       const nextSeenCount = nextMessage ? (seenCounts.get(nextMessage.id) ?? 0) : -1
       const isSeenBoundary = nextMessage === undefined || currentSeenCount !== nextSeenCount
 
@@ -2319,7 +2959,22 @@ export default function RoomPage() {
     }
 
     return metadata
-  }, [messages, seenCounts])
+  }, [listMessages, seenCounts])
+
+  // Look up who wrote the current prompt whenever a new one is drawn
+  useEffect(() => {
+    if (!roomId || !turnSession?.prompt_text) return
+    let cancelled = false
+    supabase.rpc('get_prompt_credit', { p_room_id: roomId })
+      .then(({ data }) => {
+        if (!cancelled) setPromptCredit(data ?? null)
+      })
+    return () => { cancelled = true }
+  }, [roomId, turnSession?.prompt_text])
+
+  // Away state of whoever holds the turn - nudge status depends on it too
+  const currentTurnMember = roomMembers.find(m => m.user_id === turnSession?.current_turn_user_id)
+  const currentTurnAwayKey = `${currentTurnMember?.snoozed_until ?? ''}|${currentTurnMember?.excluded_until ?? ''}`
 
   // Check if user has nudged this turn and get nudge status - re-check when turn_instance_id changes
   useEffect(() => {
@@ -2331,18 +2986,28 @@ export default function RoomPage() {
       supabase.rpc('get_nudge_status', { p_room_id: roomId })
     ]).then(([nudgedResult, statusResult]) => {
       setHasNudgedThisTurn(nudgedResult.data === true)
+      // Looking lifted a pause that was waiting on someone who's back now
+      if (statusResult.data?.resumed && statusResult.data.current_turn_user_id !== userId) {
+        fetch('/api/push/notify-turn', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ roomId }),
+        }).catch(() => {})
+      }
       if (statusResult.data?.active) {
         setNudgeStatus({
           eligible_count: statusResult.data.eligible_count,
           nudge_count: statusResult.data.nudge_count,
           all_nudged: statusResult.data.all_nudged,
-          all_nudged_at: statusResult.data.all_nudged_at
+          all_nudged_at: statusResult.data.all_nudged_at,
+          away_until: statusResult.data.away_until ?? null,
+          quiet_until: statusResult.data.quiet_until ?? null
         })
       } else {
         setNudgeStatus(null)
       }
     })
-  }, [userId, roomId, turnSession?.turn_instance_id])
+  }, [userId, roomId, turnSession?.turn_instance_id, currentTurnAwayKey])
 
   // Hide nudge toast after 3 seconds
   useEffect(() => {
@@ -2351,6 +3016,28 @@ export default function RoomPage() {
     return () => clearTimeout(timer)
   }, [nudgeToast])
 
+  // Reactions for messages loaded after the first page, a chunk at a time
+  const loadReactionsFor = useCallback(async (messageIds: string[]) => {
+    for (let i = 0; i < messageIds.length; i += REACTION_CHUNK_SIZE) {
+      const { data: reactionsData, error } = await supabase
+        .from('message_reactions')
+        .select('*')
+        .in('message_id', messageIds.slice(i, i + REACTION_CHUNK_SIZE))
+
+      if (error) {
+        console.error('Error loading reactions:', error)
+        continue
+      }
+
+      if (reactionsData && reactionsData.length > 0) {
+        setReactions(prev => {
+          const existingIds = new Set(prev.map(r => r.id))
+          return [...prev, ...(reactionsData as Reaction[]).filter(r => !existingIds.has(r.id))]
+        })
+      }
+    }
+  }, [])
+
   // Load older messages (pagination)
   const loadOlderMessages = useCallback(async () => {
     if (loadingOlderMessages || !hasMoreMessages || messages.length === 0) return
@@ -2385,15 +3072,7 @@ export default function RoomPage() {
         setHasMoreMessages(olderMsgs.length >= PAGE_SIZE)
 
         // Fetch reactions for older messages
-        const olderMsgIds = sortedOlder.map(m => m.id)
-        const { data: reactionsData } = await supabase
-          .from('message_reactions')
-          .select('*')
-          .in('message_id', olderMsgIds)
-
-        if (reactionsData && reactionsData.length > 0) {
-          setReactions(prev => [...prev, ...reactionsData as Reaction[]])
-        }
+        loadReactionsFor(sortedOlder.map(m => m.id))
 
         // Maintain scroll position after prepending
         requestAnimationFrame(() => {
@@ -2408,41 +3087,160 @@ export default function RoomPage() {
     } finally {
       setLoadingOlderMessages(false)
     }
-  }, [loadingOlderMessages, hasMoreMessages, messages, roomId])
+  }, [loadingOlderMessages, hasMoreMessages, messages, roomId, loadReactionsFor])
 
-  // Throttle ref for scroll handler - prevents excessive checks
-  const scrollThrottleRef = useRef<NodeJS.Timeout | null>(null)
-  const lastScrollCheckRef = useRef(0)
+  // Jump to a search result or deep link. If it isn't loaded, load a window
+  // around it; whatever lies between that window and the loaded messages is
+  // left as a gap with a "Load newer messages" control.
+  const jumpToMessage = async (result: Pick<MessageSearchResult, 'id' | 'created_at'>) => {
+    setShowSearch(false)
+    setShowHighlights(false)
 
-  // Handle scroll for infinite scroll up and tracking position
-  // Throttled to run at most every 100ms for the "load older" check
-  const handleScroll = useCallback(() => {
-    const container = scrollContainerRef.current
-    if (!container) return
+    if (messageRefs.current.has(result.id)) {
+      scrollToMessage(result.id)
+      return
+    }
 
-    // Check if near bottom (within 100px) - always run immediately for UI responsiveness
-    const isNearBottom = container.scrollHeight - container.scrollTop - container.clientHeight < 100
-    isNearBottomRef.current = isNearBottom
+    // Loaded messages on either side of the result bound the window
+    const target = new Date(result.created_at).getTime()
+    const prevLoaded = messages.filter(m => new Date(m.created_at).getTime() < target).pop() ?? null
+    const nextLoaded = messages.find(m => new Date(m.created_at).getTime() > target) ?? null
 
-    // If user scrolled to bottom, clear "new messages" indicator
-    if (isNearBottom) {
-      setHasNewMessages(false)
+    let beforeQuery = supabase
+      .from('messages')
+      .select('*')
+      .eq('room_id', roomId)
+      .lt('created_at', result.created_at)
+      .order('created_at', { ascending: false })
+      .limit(JUMP_CONTEXT_SIZE)
+    if (prevLoaded) beforeQuery = beforeQuery.gt('created_at', prevLoaded.created_at)
+
+    let afterQuery = supabase
+      .from('messages')
+      .select('*')
+      .eq('room_id', roomId)
+      .gte('created_at', result.created_at)
+      .order('created_at', { ascending: true })
+      .limit(JUMP_WINDOW_SIZE)
+    if (nextLoaded) afterQuery = afterQuery.lt('created_at', nextLoaded.created_at)
+
+    const [{ data: beforeData, error: beforeError }, { data: afterData, error: afterError }] =
+      await Promise.all([beforeQuery, afterQuery])
+
+    if (beforeError || afterError) {
+      console.error('Error loading messages around search result:', beforeError || afterError)
+      return
     }
 
-    // Throttle the "load older messages" check to every 100ms
-    const now = Date.now()
-    if (now - lastScrollCheckRef.current < 100) return
-    lastScrollCheckRef.current = now
+    const before = ((beforeData ?? []) as Msg[]).reverse()
+    const after = (afterData ?? []) as Msg[]
+    const loaded = [...before, ...after]
+    if (loaded.length === 0) return
+
+    pendingJumpRef.current = result.id
+    setMessages(prev => mergeMessagesByTime(prev, loaded))
+    setNewerGaps(prev => {
+      const next = new Set(prev)
+      // A full page on either side means more messages sit between the window and its neighbours
+      if (prevLoaded) {
+        if (before.length >= JUMP_CONTEXT_SIZE) next.add(prevLoaded.id)
+        else next.delete(prevLoaded.id)
+      }
+      if (nextLoaded && after.length >= JUMP_WINDOW_SIZE) next.add(loaded[loaded.length - 1].id)
+      return next
+    })
+    if (!prevLoaded) setHasMoreMessages(before.length >= JUMP_CONTEXT_SIZE)
 
-    // Check if near top (within 200px) - trigger loading older messages
-    if (container.scrollTop < 200 && hasMoreMessages && !loadingOlderMessages) {
-      loadOlderMessages()
-    }
-  }, [hasMoreMessages, loadingOlderMessages, loadOlderMessages])
+    loadReactionsFor(loaded.map(m => m.id))
+  }
 
-  const handleNudge = async () => {
-    // Debug logging for nudge
-    if (process.env.NODE_ENV === 'development') {
+  // Fill in a gap left by a jump, a page at a time from its older end
+  const loadNewerMessages = async (afterId: string) => {
+    const index = messages.findIndex(m => m.id === afterId)
+    if (index === -1 || loadingNewerAfter) return
+
+    const from = messages[index]
+    const until = messages[index + 1]
+    setLoadingNewerAfter(afterId)
+
+    try {
+      let query = supabase
+        .from('messages')
+        .select('*')
+        .eq('room_id', roomId)
+        .gt('created_at', from.created_at)
+        .order('created_at', { ascending: true })
+        .limit(PAGE_SIZE)
+      if (until) query = query.lt('created_at', until.created_at)
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error loading newer messages:', error)
+        return
+      }
+
+      const page = (data ?? []) as Msg[]
+      setMessages(prev => mergeMessagesByTime(prev, page))
+      setNewerGaps(prev => {
+        const next = new Set(prev)
+        next.delete(afterId)
+        if (page.length >= PAGE_SIZE) next.add(page[page.length - 1].id)
+        return next
+      })
+
+      loadReactionsFor(page.map(m => m.id))
+    } finally {
+      setLoadingNewerAfter(null)
+    }
+  }
+
+  // Scroll to a jumped-to search result once it has rendered
+  useEffect(() => {
+    const messageId = pendingJumpRef.current
+    if (!messageId) return
+    const el = messageRefs.current.get(messageId)
+    if (!el) return
+
+    pendingJumpRef.current = null
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    el.classList.add('bg-yellow-100')
+    setTimeout(() => el.classList.remove('bg-yellow-100'), 1500)
+  }, [messages])
+
+  // Throttle ref for scroll handler - prevents excessive checks
+  const scrollThrottleRef = useRef<NodeJS.Timeout | null>(null)
+  const lastScrollCheckRef = useRef(0)
+
+  // Handle scroll for infinite scroll up and tracking position
+  // Throttled to run at most every 100ms for the "load older" check
+  const handleScroll = useCallback(() => {
+    const container = scrollContainerRef.current
+    if (!container) return
+
+    // Check if near bottom (within 100px) - always run immediately for UI responsiveness
+    const isNearBottom = container.scrollHeight - container.scrollTop - container.clientHeight < 100
+    isNearBottomRef.current = isNearBottom
+
+    // If user scrolled to bottom, clear "new messages" indicator
+    if (isNearBottom) {
+      setHasNewMessages(false)
+    }
+
+    // Throttle the "load older messages" check to every 100ms
+    const now = Date.now()
+    if (now - lastScrollCheckRef.current < 100) return
+    lastScrollCheckRef.current = now
+
+    // Check if near top (within 200px) - trigger loading older messages
+    if (container.scrollTop < 200 && hasMoreMessages && !loadingOlderMessages) {
+      loadOlderMessages()
+    }
+  }, [hasMoreMessages, loadingOlderMessages, loadOlderMessages])
+
+  const handleNudge = async () => {
+    // Debug logging for nudge
+    if (process.env.NODE_ENV === 'development') {
       console.log('[Nudge] Clicked', {
         userId,
         currentTurnUserId,
@@ -2498,7 +3296,9 @@ export default function RoomPage() {
       if (result.success) {
         setHasNudgedThisTurn(true)
         setNudgeToast({
-          message: result.sent ? 'Nudge sent!' : 'Nudge sent (notifications off)',
+          message: result.deferred_until
+            ? `Nudge sent — they'll get it at ${formatTime(result.deferred_until)} (quiet hours)`
+            : result.sent ? 'Nudge sent!' : 'Nudge sent (notifications off)',
           type: 'success'
         })
         // Refresh nudge status to update the count
@@ -2508,7 +3308,9 @@ export default function RoomPage() {
             eligible_count: statusResult.eligible_count,
             nudge_count: statusResult.nudge_count,
             all_nudged: statusResult.all_nudged,
-            all_nudged_at: statusResult.all_nudged_at
+            all_nudged_at: statusResult.all_nudged_at,
+            away_until: statusResult.away_until ?? null,
+            quiet_until: statusResult.quiet_until ?? null
           })
         }
       } else {
@@ -2572,8 +3374,7 @@ export default function RoomPage() {
   // Fetch initial seen counts when messages load
   useEffect(() => {
     if (messages.length > 0) {
-      const ids = messages.map(m => m.id).filter(id => !id.startsWith('optimistic-'))
-      fetchSeenCounts(ids)
+      fetchSeenCounts(messages.map(m => m.id))
     }
   }, [messages.length, fetchSeenCounts])
 
@@ -2607,7 +3408,7 @@ export default function RoomPage() {
   // Triggers ONCE when: turn becomes mine AND cooldown is done AND it's a new turn instance
   useEffect(() => {
     const currentInstance = turnSession?.turn_instance_id ?? null
-    const shouldTrigger = isMyTurn && !isWaitingForCooldown && gameActive
+    const shouldTrigger = isMyTurn && !isWaitingForCooldown && gameActive && !isPaused
 
     // Only trigger if this is a NEW turn instance that we haven't pulsed for
     if (shouldTrigger && currentInstance && currentInstance !== lastTurnInstanceRef.current) {
@@ -2636,7 +3437,16 @@ export default function RoomPage() {
         clearTimeout(turnPulseTimeoutRef.current)
       }
     }
-  }, [isMyTurn, isWaitingForCooldown, gameActive, turnSession?.turn_instance_id])
+  }, [isMyTurn, isWaitingForCooldown, gameActive, isPaused, turnSession?.turn_instance_id])
+
+  // Apply an edit/delete (ours or from realtime) to loaded messages and the reply preview
+  const applyMessageUpdate = useCallback((updated: Partial<Msg> & { id: string }) => {
+    setMessages(prev => prev.map(m => m.id === updated.id ? { ...m, ...updated } : m))
+    setReplyingTo(prev => {
+      if (!prev || prev.id !== updated.id) return prev
+      return updated.deleted_at ? null : { ...prev, ...updated }
+    })
+  }, [])
 
   useEffect(() => {
     let msgChannel: any = null
@@ -2664,12 +3474,12 @@ export default function RoomPage() {
       const [roomResult, membersResult, sessResult, msgsResult] = await Promise.all([
         supabase
           .from('rooms')
-          .select('id, name, type, prompt_interval_minutes, last_active_at, prompt_mode')
+          .select('id, name, type, prompt_interval_minutes, last_active_at, prompt_mode, prompt_schedule_days, prompt_schedule_times, timezone, play_mode, round_deadline_hours, hot_seat_window_minutes')
           .eq('id', roomId)
           .single(),
         supabase
           .from('room_members')
-          .select('user_id, role, prompt_interval_minutes')
+          .select('user_id, role, prompt_interval_minutes, excluded_until, snoozed_until')
           .eq('room_id', roomId),
         supabase
           .from('turn_sessions')
@@ -2879,7 +3689,7 @@ export default function RoomPage() {
             const newMsg = payload.new as Msg
             console.log('[Realtime] New message received:', newMsg.id, 'from:', newMsg.user_id)
 
-            // Check if message already exists or if there's a matching optimistic message
+            // Our own sends keep their outbox id, so they dedupe by id too
             setMessages((prev) => {
               // Skip if exact ID already exists
               if (prev.some(m => m.id === newMsg.id)) {
@@ -2887,22 +3697,6 @@ export default function RoomPage() {
                 return prev
               }
 
-              // Check for matching optimistic message (same content, user, room)
-              const optimisticIndex = prev.findIndex(m =>
-                m.id.startsWith('optimistic-') &&
-                m.content === newMsg.content &&
-                m.user_id === newMsg.user_id &&
-                m.room_id === newMsg.room_id
-              )
-
-              if (optimisticIndex !== -1) {
-                // Replace optimistic message with real one
-                console.log('[Realtime] Replacing optimistic message with real:', newMsg.id)
-                const next = [...prev]
-                next[optimisticIndex] = newMsg
-                return next
-              }
-
               // Show "new messages" pill if user is scrolled up
               if (!isNearBottomRef.current) {
                 setHasNewMessages(true)
@@ -2911,6 +3705,10 @@ export default function RoomPage() {
               return [...prev, newMsg]
             })
 
+            if (newMsg.reply_to_message_id) {
+              setThreadsKey(k => k + 1)
+            }
+
             // Fetch user profile if unknown (using setUsers callback to avoid stale closure)
             const msgUserId = newMsg.user_id
             if (msgUserId) {
@@ -2952,6 +3750,36 @@ export default function RoomPage() {
             }
           }
         )
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'messages', filter: `room_id=eq.${roomId}` },
+          (payload) => {
+            // Edits and deletes, and payloads filled in after insert (polls)
+            const updated = payload.new as Msg
+            applyMessageUpdate({
+              id: updated.id,
+              content: updated.content,
+              payload: updated.payload,
+              edited_at: updated.edited_at,
+              deleted_at: updated.deleted_at,
+            })
+            if (updated.reply_to_message_id) {
+              setThreadsKey(k => k + 1)
+            }
+          }
+        )
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'polls', filter: `room_id=eq.${roomId}` },
+          (payload) => {
+            // Votes and closes bump the poll row; fetch fresh results
+            const messageId = (payload.new as { message_id: string }).message_id
+            supabase.rpc('get_polls', { p_message_ids: [messageId] }).then(({ data }) => {
+              const poll = (data as Poll[] | null)?.[0]
+              if (poll) setPolls(prev => new Map(prev).set(poll.message_id, poll))
+            })
+          }
+        )
         .subscribe((status, err) => {
           console.log('[Realtime] Messages subscription:', status, 'roomId:', roomId, err ? `error: ${err}` : '')
         })
@@ -3038,6 +3866,14 @@ export default function RoomPage() {
             setRoomMembers(prev => [...prev, newMember])
           }
         )
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'room_members', filter: `room_id=eq.${roomId}` },
+          (payload) => {
+            const updated = payload.new as RoomMember
+            setRoomMembers(prev => prev.map(m => m.user_id === updated.user_id ? { ...m, ...updated } : m))
+          }
+        )
         .on(
           'postgres_changes',
           { event: 'DELETE', schema: 'public', table: 'room_members', filter: `room_id=eq.${roomId}` },
@@ -3100,7 +3936,7 @@ export default function RoomPage() {
       if (membersChannel) supabase.removeChannel(membersChannel)
       if (presenceChannel) supabase.removeChannel(presenceChannel)
     }
-  }, [roomId, router])
+  }, [roomId, router, applyMessageUpdate])
 
   // Check if user is near the bottom of the scroll container
   const isNearBottom = () => {
@@ -3129,10 +3965,105 @@ export default function RoomPage() {
     }
   }, [isLoading, messages.length, scrollToBottom])
 
-  // Scroll to bottom when new messages arrive (realtime updates)
+  // Jump to a deep-linked message once the room has loaded, after the
+  // initial scroll to bottom has settled
+  useEffect(() => {
+    if (isLoading || !deepLinkMessageId || handledDeepLinkRef.current) return
+    handledDeepLinkRef.current = true
+
+    supabase
+      .from('messages')
+      .select('id, created_at')
+      .eq('id', deepLinkMessageId)
+      .eq('room_id', roomId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) setTimeout(() => jumpToMessage(data), 200)
+      })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading, deepLinkMessageId, roomId])
+
+  // Load thread summaries (reply counts, repliers, per-thread unread)
+  useEffect(() => {
+    if (!roomId || !userId) return
+    let cancelled = false
+    supabase.rpc('get_room_threads', { p_room_id: roomId })
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.warn('[room] Failed to load threads:', error)
+          return
+        }
+        setThreads(new Map(((data ?? []) as ThreadSummary[]).map(t => [t.root_message_id, t])))
+      })
+    return () => { cancelled = true }
+  }, [roomId, userId, threadsKey])
+
+  const handleThreadRead = useCallback((rootId: string) => {
+    setThreads(prev => {
+      const thread = prev.get(rootId)
+      if (!thread || thread.unread_count === 0) return prev
+      const next = new Map(prev)
+      next.set(rootId, { ...thread, unread_count: 0 })
+      return next
+    })
+  }, [])
+
+  const handleOpenThread = useCallback((msg: Msg) => {
+    setOpenThreadId(msg.id)
+  }, [])
+
+  // Load which messages are pinned
+  useEffect(() => {
+    if (!roomId || !userId) return
+    let cancelled = false
+    supabase
+      .from('pinned_messages')
+      .select('message_id')
+      .eq('room_id', roomId)
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.warn('[room] Failed to load pins:', error)
+          return
+        }
+        setPinnedIds(new Set((data ?? []).map(row => row.message_id as string)))
+      })
+    return () => { cancelled = true }
+  }, [roomId, userId, pinsKey])
+
+  const handleUnpin = useCallback(async (messageId: string) => {
+    const { data, error } = await supabase.rpc('unpin_message', { p_message_id: messageId })
+    if (error || !data?.success) {
+      setError(error?.message || data?.error || 'Failed to unpin message')
+      return
+    }
+    setPinnedIds(prev => {
+      const next = new Set(prev)
+      next.delete(messageId)
+      return next
+    })
+    setPinsKey(k => k + 1)
+  }, [])
+
+  const handleTogglePin = useCallback(async (msg: Msg) => {
+    if (pinnedIds.has(msg.id)) {
+      handleUnpin(msg.id)
+      return
+    }
+    const { data, error } = await supabase.rpc('pin_message', { p_message_id: msg.id })
+    if (error || !data?.success) {
+      setError(error?.message || data?.error || 'Failed to pin message')
+      return
+    }
+    setPinnedIds(prev => new Set(prev).add(msg.id))
+    setPinsKey(k => k + 1)
+  }, [pinnedIds, handleUnpin])
+
+  // Scroll to bottom when new messages arrive (realtime updates and our own queued sends)
   useEffect(() => {
     // Skip if we haven't done initial scroll yet, or no messages
-    if (!hasInitiallyScrolled.current || messages.length === 0) return
+    if (!hasInitiallyScrolled.current || listMessages.length === 0) return
 
     // Only auto-scroll if user is near the bottom
     if (isNearBottom()) {
@@ -3142,7 +4073,7 @@ export default function RoomPage() {
         scrollToBottom(true)
       })
     }
-  }, [messages.length, scrollToBottom])
+  }, [listMessages.length, scrollToBottom])
 
   // Auto-resize textarea to content (up to max 4 lines ~96px)
   const autoResizeTextarea = useCallback(() => {
@@ -3160,89 +4091,126 @@ export default function RoomPage() {
     if (!userId || !chatText.trim()) return
     setError(null)
 
+    if (editingMessage) {
+      await saveEdit(editingMessage, chatText.trim())
+      return
+    }
+
     const messageContent = chatText.trim()
     const replyToId = replyingTo?.id || null
+    const mentions = collectMentions(messageContent, mentionPicks)
 
-    // Optimistic update: add message immediately
-    const optimisticId = `optimistic-${Date.now()}`
-    const optimisticMsg: Msg = {
-      id: optimisticId,
-      room_id: roomId,
-      user_id: userId,
-      type: 'chat',
-      content: messageContent,
-      created_at: new Date().toISOString(),
-      reply_to_message_id: replyToId,
-    }
-    setMessages(prev => [...prev, optimisticMsg])
     setChatText('')
     setReplyingTo(null)
+    setMentionPicks([])
+    setMentionQuery(null)
     // Reset textarea height to single line
     if (chatInputRef.current) {
       chatInputRef.current.style.height = 'auto'
     }
 
+    // Queued first so it survives going offline; it shows straight away as sending
+    const id = crypto.randomUUID()
+    try {
+      await outbox.enqueue({
+        id,
+        userId,
+        message: { type: 'chat', content: messageContent, reply_to_message_id: replyToId, mentions },
+        request: {
+          table: 'messages',
+          row: {
+            id,
+            room_id: roomId,
+            user_id: userId,
+            type: 'chat',
+            content: messageContent,
+            reply_to_message_id: replyToId,
+            mentions,
+          },
+        },
+        notify: 'message',
+      })
+    } catch (err) {
+      console.error('[outbox] Failed to queue message:', err)
+      setChatText(messageContent)
+      setError('Could not send message')
+      return
+    }
+
     // Scroll to show the new message immediately
     requestAnimationFrame(() => {
       scrollToBottom(true)
     })
+  }
 
-    // Actually insert the message
-    const { data, error } = await supabase
-      .from('messages')
-      .insert({
-        room_id: roomId,
-        user_id: userId,
-        type: 'chat',
-        content: messageContent,
-        reply_to_message_id: replyToId,
-      })
-      .select()
-      .single()
+  const saveEdit = async (msg: Msg, text: string) => {
+    const { data, error } = await supabase.rpc('edit_message', {
+      p_message_id: msg.id,
+      p_content: text,
+    })
+    if (error || !data?.success) {
+      setError(error?.message || data?.error || 'Failed to edit message')
+      return
+    }
 
-    if (error) {
-      // Remove optimistic message on error
-      setMessages(prev => prev.filter(m => m.id !== optimisticId))
-      setError(error.message)
-    } else if (data) {
-      // Replace optimistic message with real one (if it still exists and realtime hasn't already)
-      setMessages(prev => {
-        const hasOptimistic = prev.some(m => m.id === optimisticId)
-        const hasReal = prev.some(m => m.id === (data as Msg).id)
-
-        if (hasReal) {
-          // Realtime already added it, just remove optimistic if still there
-          return hasOptimistic ? prev.filter(m => m.id !== optimisticId) : prev
-        }
-        if (hasOptimistic) {
-          // Replace optimistic with real
-          return prev.map(m => m.id === optimisticId ? data as Msg : m)
-        }
-        // Neither exists (shouldn't happen), add the real one
-        return [...prev, data as Msg]
-      })
+    if (data.edited_at) {
+      applyMessageUpdate({ id: msg.id, content: data.content, edited_at: data.edited_at })
+    }
+    setEditingMessage(null)
+    setChatText('')
+    if (chatInputRef.current) {
+      chatInputRef.current.style.height = 'auto'
+    }
+  }
 
-      // Fire-and-forget: notify other members about the new message
-      fetch('/api/push/notify-message', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          roomId,
-          messageId: (data as Msg).id,
-          senderId: userId,
-        }),
-      }).catch(() => {}) // Ignore errors silently
+  const handleEdit = useCallback((msg: Msg) => {
+    // Focus first for iOS, same as handleReply
+    chatInputRef.current?.focus()
+    setReplyingTo(null)
+    setEditingMessage(msg)
+    setChatText(getEditableText(msg))
+    requestAnimationFrame(autoResizeTextarea)
+  }, [autoResizeTextarea])
 
-      // Fire-and-forget: update last seen
-      supabase.rpc('update_last_seen').then(() => {})
-    }
+  const cancelEdit = () => {
+    setEditingMessage(null)
+    setChatText('')
   }
 
+  const handleSelectMention = (member: UserInfo) => {
+    if (!mentionQuery) return
+    const caret = chatInputRef.current?.selectionStart ?? chatText.length
+    const next = insertMention(chatText, mentionQuery.start, caret, member.displayName)
+    setChatText(next.text)
+    setMentionPicks(prev => [...prev, { user_id: member.id, name: member.displayName }])
+    setMentionQuery(null)
+    requestAnimationFrame(() => {
+      chatInputRef.current?.setSelectionRange(next.caret, next.caret)
+      autoResizeTextarea()
+    })
+  }
+
+  const handleDelete = useCallback(async (msg: Msg) => {
+    if (!confirm('Delete this message for everyone?')) return
+    const { data, error } = await supabase.rpc('delete_message', { p_message_id: msg.id })
+    if (error || !data?.success) {
+      setError(error?.message || data?.error || 'Failed to delete message')
+      return
+    }
+    applyMessageUpdate({ id: msg.id, content: '', deleted_at: data.deleted_at })
+    setReactions(prev => prev.filter(r => r.message_id !== msg.id))
+    if (editingMessage?.id === msg.id) {
+      setEditingMessage(null)
+      setChatText('')
+    }
+  }, [applyMessageUpdate, editingMessage])
+
   const handleReply = (msg: Msg) => {
     // Focus FIRST - must be synchronous to satisfy iOS user gesture requirement
     // The input is always mounted so focus persists through re-render
     chatInputRef.current?.focus()
     // Then set state - input stays focused during re-render
+    if (editingMessage) cancelEdit()
     setReplyingTo(msg)
     // onFocus handler will trigger scroll after keyboard animation starts
   }
@@ -3312,6 +4280,68 @@ export default function RoomPage() {
     }
   }, [userId])
 
+  // Load results for poll messages we haven't asked about yet (first page,
+  // older pages, jumps and new polls from realtime)
+  const pollMessageIds = useMemo(
+    () => messages.filter(m => m.type === 'poll').map(m => m.id).join(','),
+    [messages]
+  )
+
+  useEffect(() => {
+    const missing = pollMessageIds ? pollMessageIds.split(',').filter(id => !requestedPollIdsRef.current.has(id)) : []
+    if (missing.length === 0) return
+    missing.forEach(id => requestedPollIdsRef.current.add(id))
+
+    supabase.rpc('get_polls', { p_message_ids: missing }).then(({ data, error }) => {
+      if (error) {
+        console.warn('[room] Failed to load polls:', error)
+        missing.forEach(id => requestedPollIdsRef.current.delete(id))
+        return
+      }
+      setPolls(prev => {
+        const next = new Map(prev)
+        for (const poll of (data ?? []) as Poll[]) next.set(poll.message_id, poll)
+        return next
+      })
+    })
+  }, [pollMessageIds])
+
+  const handleVotePoll = useCallback(async (poll: Poll, optionIds: string[]) => {
+    const { data, error } = await supabase.rpc('vote_poll', {
+      p_poll_id: poll.id,
+      p_option_ids: optionIds,
+    })
+    if (error || !data?.success) {
+      setError(error?.message || data?.error || 'Failed to vote')
+      return
+    }
+    hapticTick()
+    setPolls(prev => new Map(prev).set(poll.message_id, data.poll as Poll))
+
+    // Fire-and-forget: let the poll's creator know
+    if (optionIds.length > 0 && poll.created_by !== userId) {
+      fetch('/api/push/notify-message', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          roomId,
+          messageId: poll.message_id,
+          senderId: userId,
+          pollVote: true,
+        }),
+      }).catch(() => {})
+    }
+  }, [roomId, userId])
+
+  const handleClosePoll = useCallback(async (poll: Poll) => {
+    const { data, error } = await supabase.rpc('close_poll', { p_poll_id: poll.id })
+    if (error || !data?.success) {
+      setError(error?.message || data?.error || 'Failed to end poll')
+      return
+    }
+    setPolls(prev => new Map(prev).set(poll.message_id, data.poll as Poll))
+  }, [])
+
   const handleStartDM = async (otherUserId: string) => {
     if (!userId) return
     const { data: dmRoomId, error } = await supabase.rpc('get_or_create_dm', {
@@ -3399,82 +4429,103 @@ export default function RoomPage() {
     return reactions.filter(r => r.message_id === messageId)
   }
 
+  // Video clips: upload the clip and its poster frame, then a 'video' message
+  const sendVideo = (file: File) => mediaUpload.run(async ({ signal, onProgress }) => {
+    const clip = await prepareVideoClip(file)
+    const { videoUrl, posterUrl } = await uploadVideoClip('media', `chat/${roomId}`, clip, { signal, onProgress })
+    signal.throwIfAborted()
+
+    const payload: VideoPayload = {
+      v: MESSAGE_PAYLOAD_VERSION,
+      kind: 'video',
+      video_url: videoUrl,
+      poster_url: posterUrl,
+      duration_ms: clip.durationMs,
+    }
+    const { data: msgData, error: msgError } = await supabase.from('messages').insert({
+      room_id: roomId,
+      user_id: userId,
+      type: 'video',
+      content: '🎬 Video',
+      payload,
+    }).select().single()
+
+    if (msgError) throw new Error(msgError.message || 'Failed to save message')
+
+    // Fire-and-forget: notify other members about the new clip
+    fetch('/api/push/notify-message', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ roomId, messageId: msgData.id, senderId: userId }),
+    }).catch(() => {})
+    supabase.rpc('update_last_seen').then(() => {})
+  })
+
+  // Photos are resized and stripped of metadata before upload (lib/mediaUpload.ts)
   const sendImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
+    // Clear the pickers so the same file can be picked again
+    if (imageInputRef.current) imageInputRef.current.value = ''
+    if (cameraInputRef.current) cameraInputRef.current.value = ''
     if (!file || !userId) return
 
-    if (!file.type.startsWith('image/')) {
-      setError('Please select an image file')
+    if (!isVideoFile(file) && !file.type.startsWith('image/')) {
+      setError('Please select a photo or video')
       return
     }
 
-    if (file.size > 10 * 1024 * 1024) {
-      setError('Image must be less than 10MB')
-      return
-    }
-
-    setUploadingImage(true)
     setError(null)
 
-    try {
-      const fileExt = file.name.split('.').pop()
-      const fileName = `chat/${roomId}/${Date.now()}.${fileExt}`
-
-      console.log('Uploading to:', fileName)
-      const { error: uploadError, data: uploadData } = await supabase.storage
-        .from('media')
-        .upload(fileName, file)
-
-      if (uploadError) {
-        console.error('Storage upload error:', uploadError)
-        throw new Error(uploadError.message || 'Failed to upload to storage')
-      }
-
-      console.log('Upload successful:', uploadData)
-
-      const { data: urlData } = supabase.storage
-        .from('media')
-        .getPublicUrl(fileName)
-
-      const imageUrl = urlData.publicUrl
-      console.log('Image URL:', imageUrl)
-
-      const { data: msgData, error: msgError } = await supabase.from('messages').insert({
-        room_id: roomId,
-        user_id: userId,
-        type: 'image',
-        content: imageUrl,
-      }).select().single()
+    if (isVideoFile(file)) {
+      await sendVideo(file)
+      return
+    }
 
-      if (msgError) {
-        console.error('Message insert error:', JSON.stringify(msgError))
-        throw new Error(msgError.message || msgError.details || msgError.hint || 'Failed to save message')
+    // Online, the photo uploads here with progress, cancel and retry, and only
+    // the message goes through the outbox. Offline, the outbox keeps the photo
+    // too and uploads it once the device is back.
+    await mediaUpload.run(async ({ signal, onProgress }) => {
+      const image = await prepareImage(file)
+      signal.throwIfAborted()
+
+      const id = crypto.randomUUID()
+      const path = createStoragePath(`chat/${roomId}`, image.extension)
+      let content = supabase.storage.from('media').getPublicUrl(path).data.publicUrl
+      let upload: { bucket: string; path: string; blob: Blob } | undefined
+      if (navigator.onLine) {
+        try {
+          content = await uploadToStorage('media', path, image.blob, { signal, onProgress })
+        } catch (err) {
+          // Dropped mid-upload: queue it like any other offline photo
+          if (isUploadCancelled(err) || navigator.onLine) throw err
+          upload = { bucket: 'media', path, blob: image.blob }
+        }
+        signal.throwIfAborted()
+      } else {
+        upload = { bucket: 'media', path, blob: image.blob }
       }
-
-      // Fire-and-forget: notify other members about the new image
-      if (msgData) {
-        fetch('/api/push/notify-message', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            roomId,
-            messageId: msgData.id,
-            senderId: userId,
-          }),
-        }).catch(() => {}) // Ignore errors silently
-
-        // Fire-and-forget: update last seen
-        supabase.rpc('update_last_seen').then(() => {})
+      const payload: ImagePayload = {
+        v: MESSAGE_PAYLOAD_VERSION,
+        kind: 'image',
+        width: image.width,
+        height: image.height,
+        blurhash: image.blurhash,
       }
-    } catch (err: any) {
-      console.error('Image upload error:', err)
-      const errorMsg = err?.message || err?.details || err?.hint || 'Failed to upload image'
-      setError(errorMsg)
-    } finally {
-      setUploadingImage(false)
-      if (imageInputRef.current) imageInputRef.current.value = ''
-      if (cameraInputRef.current) cameraInputRef.current.value = ''
-    }
+      await outbox.enqueue({
+        id,
+        userId,
+        message: { type: 'image', content, reply_to_message_id: null, payload },
+        upload,
+        request: {
+          table: 'messages',
+          row: { id, room_id: roomId, user_id: userId, type: 'image', content, payload },
+        },
+        notify: 'message',
+      })
+      requestAnimationFrame(() => {
+        scrollToBottom(true)
+      })
+    })
   }
 
   // Auto-start game when there's no active session and 2+ members
@@ -3511,8 +4562,43 @@ export default function RoomPage() {
       setError(error.message)
     } else {
       // Update local state
-      setRoomInfo(prev => prev ? { ...prev, prompt_interval_minutes: minutes } : prev)
+      setRoomInfo(prev => prev ? { ...prev, prompt_interval_minutes: minutes, prompt_schedule_days: null, prompt_schedule_times: null } : prev)
+    }
+  }
+
+  // waiting_until is re-timed server-side and arrives over the session channel
+  const handleScheduleSaved = (schedule: { days: number[] | null; times: string[] | null; timezone: string | null }) => {
+    setRoomInfo(prev => prev ? {
+      ...prev,
+      prompt_interval_minutes: 0,
+      prompt_schedule_days: schedule.days,
+      prompt_schedule_times: schedule.times,
+      timezone: schedule.timezone,
+    } : prev)
+  }
+
+  // Opening or closing a round arrives over the session channel
+  const updatePlayMode = async (
+    mode: PlayMode,
+    settings: { deadlineHours: number; hotSeatMinutes: number }
+  ): Promise<{ success: boolean; error?: string }> => {
+    const { data, error } = await supabase.rpc('set_play_mode', {
+      p_room_id: roomId,
+      p_mode: mode,
+      p_deadline_hours: settings.deadlineHours,
+      p_hot_seat_minutes: settings.hotSeatMinutes,
+    })
+    if (error || !data?.success) {
+      return { success: false, error: error?.message || data?.error || 'Failed to change play mode' }
     }
+    setRoomInfo(prev => prev ? {
+      ...prev,
+      play_mode: mode,
+      round_deadline_hours: settings.deadlineHours,
+      hot_seat_window_minutes: settings.hotSeatMinutes,
+    } : prev)
+    notifyNextTurn()
+    return { success: true }
   }
 
   const updateRoomName = async (name: string): Promise<{ success: boolean; error?: string }> => {
@@ -3562,6 +4648,22 @@ export default function RoomPage() {
       return { success: true, alreadyMember: true }
     }
 
+    // Let the invitee know by push or email (fire and forget)
+    if (!result.already_invited) {
+      supabase.auth.getSession().then(({ data: sessionData }) => {
+        const accessToken = sessionData?.session?.access_token
+        if (!accessToken) return
+        fetch('/api/push/notify-invite', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify({ roomId, inviteCode: result.code }),
+        }).catch(() => {})
+      })
+    }
+
     return {
       success: true,
       inviteCode: result.code,
@@ -3593,8 +4695,22 @@ export default function RoomPage() {
     }
   }
 
+  // A poll or voice note was posted from its sheet (in chat or as this turn's answer)
+  const handleComposedMessage = (messageId: string, asTurn: boolean) => {
+    fetch('/api/push/notify-message', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ roomId, messageId, senderId: userId }),
+    }).catch(() => {})
+
+    if (asTurn) {
+      notifyNextTurn()
+    }
+    supabase.rpc('update_last_seen').then(() => {})
+  }
+
   const submitTurn = async () => {
-    if (!turnText.trim()) return
+    if (!userId || !turnText.trim() || outbox.hasQueuedTurn) return
     setError(null)
 
     const prompt = turnSession?.prompt_text || ''
@@ -3602,66 +4718,87 @@ export default function RoomPage() {
       ? `Reply to "${prompt}"\n\n${turnText.trim()}`
       : turnText.trim()
 
-    const { error } = await supabase.rpc('submit_turn', {
-      p_room_id: roomId,
-      p_content: content,
-    })
-
-    if (error) {
-      setError(error.message)
-    } else {
+    // Queued like chat messages; submit_turn takes the id so a retry can't answer twice
+    const id = crypto.randomUUID()
+    try {
+      await outbox.enqueue({
+        id,
+        userId,
+        message: { type: 'turn_response', content, reply_to_message_id: null },
+        request: { rpc: 'submit_turn', args: { p_room_id: roomId, p_content: content, p_client_id: id } },
+        notify: 'turn',
+      })
       setTurnText('')
-      // Notify next user about their turn
-      notifyNextTurn()
-      // Fire-and-forget: update last seen
-      supabase.rpc('update_last_seen').then(() => {})
+    } catch (err) {
+      console.error('[outbox] Failed to queue turn:', err)
+      setError('Could not submit your answer')
     }
   }
 
-  // Submit photo for photo-required prompts
-  const submitPhotoTurn = async (file: File) => {
-    if (!userId) return
-    setError(null)
-    setUploadingImage(true)
-
-    try {
-      const fileExt = file.name.split('.').pop()
-      const fileName = `chat/${roomId}/${Date.now()}.${fileExt}`
+  // Upload a photo answer and return its public URL
+  const uploadTurnPhoto = async (file: File): Promise<string> => {
+    const image = await uploadImage('media', `chat/${roomId}`, file)
+    return image.url
+  }
 
-      const { error: uploadError } = await supabase.storage
-        .from('media')
-        .upload(fileName, file)
+  // Photo prompts can also be answered with a short clip
+  const submitVideoTurn = async (file: File, options: UploadOptions) => {
+    const clip = await prepareVideoClip(file)
+    const { videoUrl, posterUrl } = await uploadVideoClip('media', `chat/${roomId}`, clip, options)
+    options.signal?.throwIfAborted()
 
-      if (uploadError) throw new Error(uploadError.message)
+    const { data, error: rpcError } = await supabase.rpc('submit_video_turn', {
+      p_room_id: roomId,
+      p_video_url: videoUrl,
+      p_poster_url: posterUrl,
+      p_duration_ms: clip.durationMs,
+    })
 
-      const { data: urlData } = supabase.storage
-        .from('media')
-        .getPublicUrl(fileName)
+    if (rpcError || !data?.success) throw new Error(rpcError?.message || data?.error || 'Failed to submit video')
+  }
 
-      const imageUrl = urlData.publicUrl
+  // Submit photo (or video) for photo-required prompts
+  const submitPhotoTurn = async (file: File) => {
+    if (!userId) return
+    // Only text answers go through the outbox
+    if (!navigator.onLine) {
+      setError("You're offline. Photo and video answers need a connection.")
+      return
+    }
+    setError(null)
 
-      // Call the photo turn RPC
-      const { error: turnError } = await supabase.rpc('submit_photo_turn', {
-        p_room_id: roomId,
-        p_image_url: imageUrl,
-      })
+    await mediaUpload.run(async ({ signal, onProgress }) => {
+      if (isVideoFile(file)) {
+        await submitVideoTurn(file, { signal, onProgress })
+      } else {
+        const image = await uploadImage('media', `chat/${roomId}`, file, { signal, onProgress })
+        signal.throwIfAborted()
+
+        // Call the photo turn RPC
+        const { error: turnError } = await supabase.rpc('submit_photo_turn', {
+          p_room_id: roomId,
+          p_image_url: image.url,
+          p_blurhash: image.blurhash,
+          p_width: image.width,
+          p_height: image.height,
+        })
 
-      if (turnError) throw new Error(turnError.message)
+        if (turnError) throw new Error(turnError.message)
+      }
 
       // Notify next user about their turn
       notifyNextTurn()
       // Fire-and-forget: update last seen
       supabase.rpc('update_last_seen').then(() => {})
-    } catch (err: unknown) {
-      const error = err as Error
-      setError(error.message || 'Failed to submit photo')
-    } finally {
-      setUploadingImage(false)
-    }
+    })
   }
 
-  // Check if current prompt requires a photo
+  // Check if current prompt requires a photo, or is answered with a poll
   const isPhotoPrompt = turnSession?.current_prompt_type === 'photo'
+  const isPollPrompt = turnSession?.current_prompt_type === 'poll'
+  const isVoicePrompt = turnSession?.current_prompt_type === 'voice'
+  // Only text answers can be queued offline (lib/outbox.ts)
+  const turnNeedsConnection = !outbox.isOnline && (isPhotoPrompt || isPollPrompt || isVoicePrompt)
 
   if (isLoading) return <LoadingState />
 
@@ -3706,14 +4843,76 @@ export default function RoomPage() {
         members={roomMembers}
         users={users}
         currentUserId={userId}
+        isHost={isHost}
+        turnSession={turnSession}
         roomFrequency={roomFrequency}
         onLeave={leaveRoom}
         onUpdateFrequency={updateRoomFrequency}
+        onScheduleSaved={handleScheduleSaved}
+        onUpdatePlayMode={updatePlayMode}
         onAddMember={addMemberByEmail}
         onGetInviteLink={getInviteLink}
         onUpdateRoomName={updateRoomName}
         onUpdatePromptMode={updateRoomPromptMode}
         onProfileClick={handleProfileClick}
+        onTurnAdvanced={notifyNextTurn}
+        onTurnOrderSaved={(order) => setTurnSession(prev => prev ? { ...prev, turn_order: order } : prev)}
+      />
+
+      {/* Message search */}
+      <MessageSearchPanel
+        isOpen={showSearch}
+        onClose={() => setShowSearch(false)}
+        roomId={roomId}
+        members={roomMembers}
+        users={users}
+        onSelectResult={jumpToMessage}
+      />
+
+      {/* Pinned messages and highlights */}
+      <HighlightsPanel
+        isOpen={showHighlights}
+        onClose={() => setShowHighlights(false)}
+        roomId={roomId}
+        currentUserId={userId}
+        isHost={isHost}
+        users={users}
+        refreshKey={pinsKey}
+        onSelect={jumpToMessage}
+        onUnpin={handleUnpin}
+      />
+
+      {/* Prompt suggestions */}
+      <PromptSuggestionsSheet
+        isOpen={showPromptSuggestions}
+        onClose={() => setShowPromptSuggestions(false)}
+        roomId={roomId}
+        currentUserId={userId}
+        isHost={isHost}
+      />
+
+      {/* Replies to one turn response */}
+      {openThreadId && (
+        <ThreadPanel
+          root={messages.find(m => m.id === openThreadId) ?? null}
+          onClose={() => setOpenThreadId(null)}
+          roomId={roomId}
+          currentUserId={userId}
+          users={users}
+          refreshKey={threadsKey}
+          onRead={handleThreadRead}
+        />
+      )}
+
+      {/* Profile drawer (opened from @mention chips) */}
+      <ProfileDrawer
+        isOpen={profileDrawerUserId !== null}
+        onClose={() => setProfileDrawerUserId(null)}
+        user={profileDrawerUserId ? getUserInfo(profileDrawerUserId) : null}
+        currentUserId={userId}
+        onStartDM={handleStartDM}
+        hasActiveStory={profileDrawerUserId ? activeStoryUserIds.has(profileDrawerUserId) : false}
+        onViewStory={handleViewStory}
       />
 
       {/* Story Viewer */}
@@ -3816,20 +5015,67 @@ export default function RoomPage() {
             </button>
           </div>
 
-          {/* Only show members button for groups */}
-          {!isDM && (
-            <MembersButton
-              memberCount={roomMembers.length}
-              onlineCount={onlineUsers.size}
-              onClick={() => setShowGroupDetails(true)}
-            />
-          )}
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowSearch(true)}
+              className={`p-2.5 rounded-xl transition-all duration-200 ${
+                isDM
+                  ? 'text-stone-400 hover:text-stone-700 hover:bg-stone-100/80 active:scale-95'
+                  : 'text-slate-400 hover:text-slate-700 hover:bg-slate-100/80 active:scale-95'
+              }`}
+              aria-label="Search messages"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+              </svg>
+            </button>
+
+            <button
+              onClick={() => setShowHighlights(true)}
+              className={`relative p-2.5 rounded-xl transition-all duration-200 ${
+                isDM
+                  ? 'text-stone-400 hover:text-stone-700 hover:bg-stone-100/80 active:scale-95'
+                  : 'text-slate-400 hover:text-slate-700 hover:bg-slate-100/80 active:scale-95'
+              }`}
+              aria-label={pinnedIds.size > 0 ? `Pinned messages (${pinnedIds.size}) and highlights` : 'Pinned messages and highlights'}
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 3.75V9l2.25 3.75H5.25L7.5 9V3.75m9 0h-9m4.5 9V21" />
+              </svg>
+              {pinnedIds.size > 0 && (
+                <span className="absolute top-1 right-1 min-w-[16px] h-4 px-1 rounded-full bg-amber-500 text-white text-[10px] font-semibold flex items-center justify-center">
+                  {pinnedIds.size}
+                </span>
+              )}
+            </button>
+
+            {/* Only show members button for groups */}
+            {!isDM && (
+              <MembersButton
+                memberCount={roomMembers.length}
+                onlineCount={onlineUsers.size}
+                onClick={() => setShowGroupDetails(true)}
+              />
+            )}
+          </div>
         </div>
 
+        {/* Everyone answers round - replaces the turn status bar */}
+        {isRoundMode && userId && turnSession && (
+          <RoundPanel
+            roomId={roomId}
+            userId={userId}
+            session={turnSession}
+            getUserInfo={getUserInfo}
+            uploadPhoto={uploadTurnPhoto}
+            onRevealed={notifyNextTurn}
+          />
+        )}
+
         {/* Turn status bar - refined, glassy design with theme support */}
-        {gameActive && (
+        {gameActive && !isRoundMode && (
           <div className={`${
-            isMyTurn && !isWaitingForCooldown
+            isMyTurn && !isWaitingForCooldown && !isPaused
               ? isDM
                 ? 'bg-gradient-to-r from-indigo-50/90 via-violet-50/80 to-purple-50/90 border-b border-indigo-200/40'
                 : isFlirtyTheme
@@ -3850,7 +5096,12 @@ export default function RoomPage() {
             <div className="max-w-3xl mx-auto px-4 py-2.5">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2 text-sm">
-                  {isMyTurn ? (
+                  {isPaused ? (
+                    <>
+                      <span className={`w-2 h-2 rounded-full ${isDM ? 'bg-stone-300' : 'bg-slate-300'}`} />
+                      <span className={`font-medium ${isDM ? 'text-stone-600' : 'text-slate-600'}`}>Game paused</span>
+                    </>
+                  ) : isMyTurn ? (
                     isWaitingForCooldown ? (
                       <>
                         <span className="w-2 h-2 rounded-full bg-amber-400 shadow-sm shadow-amber-400/50" />
@@ -3868,7 +5119,7 @@ export default function RoomPage() {
                           <span className={`relative inline-flex rounded-full h-2 w-2 ${isDM ? 'bg-indigo-500 shadow-indigo-500/50' : theme.liveDotColor}`} style={{ boxShadow: isDM ? undefined : `0 1px 3px ${theme.accentGlow}` }}></span>
                         </span>
                         <span className={`font-semibold ${isDM ? 'text-indigo-600' : theme.accentText}`}>
-                          Your turn {isPhotoPrompt ? '— photo required' : '— ready now'}
+                          Your turn {isPhotoPrompt ? '— photo or video required' : isPollPrompt ? '— ask a poll' : isVoicePrompt ? '— record a voice answer' : '— ready now'}
                         </span>
                       </>
                     )
@@ -3881,9 +5132,17 @@ export default function RoomPage() {
                             <span className="font-medium">{currentPlayerInfo?.displayName ?? 'Someone'}</span>&apos;s turn
                             <span className={isDM ? 'text-stone-400' : 'text-slate-400'}> · in {waitingUntil ? formatTimeRemaining(waitingUntil) : '...'}</span>
                           </>
+                        ) : currentTurnAwayUntil ? (
+                          <>
+                            <span className="font-medium">{currentPlayerInfo?.displayName ?? 'Someone'}</span> is away
+                            <span className={isDM ? 'text-stone-400' : 'text-slate-400'}> · until {formatShortDate(currentTurnAwayUntil)}</span>
+                          </>
                         ) : (
                           <>
                             Waiting for <span className="font-medium">{currentPlayerInfo?.displayName ?? 'Someone'}</span>
+                            {currentTurnQuietUntil && (
+                              <span className={isDM ? 'text-stone-400' : 'text-slate-400'}> · 🌙 quiet until {formatTime(currentTurnQuietUntil)}</span>
+                            )}
                           </>
                         )}
                       </span>
@@ -3897,7 +5156,7 @@ export default function RoomPage() {
                   )}
                 </div>
                 {/* Nudge button - refined */}
-                {!isMyTurn && currentTurnUserId && (
+                {!isMyTurn && !isPaused && !currentTurnAwayUntil && currentTurnUserId && (
                   <button
                     onClick={handleNudge}
                     disabled={hasNudgedThisTurn || nudgeLoading || isMyTurn}
@@ -3925,7 +5184,7 @@ export default function RoomPage() {
                 </div>
               )}
               {/* Nudge status */}
-              {!isMyTurn && nudgeStatus && nudgeStatus.eligible_count > 0 && (
+              {!isMyTurn && !isPaused && !currentTurnAwayUntil && nudgeStatus && nudgeStatus.eligible_count > 0 && (
                 <div className={`mt-1.5 text-xs ${isDM ? 'text-stone-400' : 'text-slate-400'}`}>
                   {nudgeStatus.all_nudged ? (
                     <span className="text-amber-600">All nudged — auto-skip in 24h if not completed</span>
@@ -3937,16 +5196,25 @@ export default function RoomPage() {
               {/* Prompt display - refined */}
               <div className={`mt-2 text-sm truncate flex items-center gap-2 ${isDM ? 'text-stone-500' : 'text-slate-500'}`}>
                 <span className="flex items-center gap-1.5">
-                  {isMyTurn && !isWaitingForCooldown && (
+                  {isMyTurn && !isWaitingForCooldown && !isPaused && (
                     <span className="relative flex h-2 w-2 shrink-0">
                       <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75 motion-reduce:animate-none"></span>
                       <span className="relative inline-flex rounded-full h-2 w-2 bg-red-500"></span>
                     </span>
                   )}
                   <span className={isDM ? 'text-stone-400' : 'text-slate-400'}>Prompt:</span>
-                  <span className="font-medium">&ldquo;{turnSession?.prompt_text}&rdquo;</span>
+                  {isHotSeatOpen ? (
+                    <span className="font-medium">the group is picking a question</span>
+                  ) : (
+                    <span className="font-medium">&ldquo;{turnSession?.prompt_text}&rdquo;</span>
+                  )}
+                  {promptCredit && !isHotSeatOpen && (
+                    <span className={`text-xs ${isDM ? 'text-stone-400' : 'text-slate-400'}`}>
+                      · prompt by {promptCredit.author_id === userId ? 'you' : promptCredit.author_name ?? 'a member'}
+                    </span>
+                  )}
                 </span>
-                {isPhotoPrompt && (
+                {isPhotoPrompt && !isHotSeatOpen && (
                   <span className="inline-flex items-center gap-1 text-xs bg-violet-100/80 text-violet-700 px-2 py-0.5 rounded-md font-medium">
                     <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                       <path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
@@ -3954,11 +5222,40 @@ export default function RoomPage() {
                     Photo
                   </span>
                 )}
+                {isPollPrompt && !isHotSeatOpen && (
+                  <span className="inline-flex items-center gap-1 text-xs bg-sky-100/80 text-sky-700 px-2 py-0.5 rounded-md font-medium">
+                    📊 Poll
+                  </span>
+                )}
+                {isVoicePrompt && !isHotSeatOpen && (
+                  <span className="inline-flex items-center gap-1 text-xs bg-rose-100/80 text-rose-700 px-2 py-0.5 rounded-md font-medium">
+                    🎤 Voice
+                  </span>
+                )}
+                <button
+                  onClick={() => setShowPromptSuggestions(true)}
+                  className={`ml-auto shrink-0 text-xs font-medium ${isDM ? 'text-stone-400 hover:text-stone-600' : 'text-slate-400 hover:text-slate-600'}`}
+                >
+                  Suggest
+                </button>
               </div>
             </div>
           </div>
         )}
 
+        {/* Hot seat - the group asks this turn's question */}
+        {isHotSeatOpen && userId && turnSession && (
+          <HotSeatPanel
+            roomId={roomId}
+            userId={userId}
+            isHost={isHost}
+            session={turnSession}
+            questionCount={hotSeatQuestionCount}
+            getUserInfo={getUserInfo}
+            onPicked={notifyNextTurn}
+          />
+        )}
+
       </header>
 
       {/* Messages scroller - the ONLY scrollable area */}
@@ -3999,7 +5296,7 @@ export default function RoomPage() {
                 </div>
               ))}
             </div>
-          ) : messages.length === 0 ? (
+          ) : listMessages.length === 0 ? (
             <EmptyState gameActive={gameActive} isHost={isHost} />
           ) : (
             <>
@@ -4022,7 +5319,7 @@ export default function RoomPage() {
                   </button>
                 </div>
               )}
-              {messages.map((m) => {
+              {listMessages.map((m) => {
               // Use pre-computed metadata for performance
               const meta = messageMetadata.get(m.id)
               const groupPosition = meta?.groupPosition ?? 'single'
@@ -4057,10 +5354,41 @@ export default function RoomPage() {
                     groupPosition={groupPosition}
                     seenCount={currentSeenCount}
                     isSeenBoundary={isSeenBoundary}
-                    onVisible={() => markMessageSeen(m.id)}
+                    onVisible={m.outbox_status ? undefined : () => markMessageSeen(m.id)}
                     voteInfo={m.type === 'turn_response' ? votes.get(m.id) : undefined}
                     onVote={m.type === 'turn_response' ? handleVote : undefined}
+                    onEdit={handleEdit}
+                    onDelete={handleDelete}
+                    onMentionClick={setProfileDrawerUserId}
+                    thread={m.type === 'turn_response' ? threads.get(m.id) : undefined}
+                    onOpenThread={m.type === 'turn_response' ? handleOpenThread : undefined}
+                    isPinned={pinnedIds.has(m.id)}
+                    onTogglePin={handleTogglePin}
+                    onJumpToMessage={m.type === 'system' ? jumpToMessage : undefined}
+                    poll={m.type === 'poll' ? polls.get(m.id) : undefined}
+                    onVotePoll={m.type === 'poll' ? handleVotePoll : undefined}
+                    onClosePoll={m.type === 'poll' ? handleClosePoll : undefined}
+                    onRetrySend={handleRetrySend}
+                    onDiscardSend={handleDiscardSend}
                   />
+                  {newerGaps.has(m.id) && (
+                    <div className="flex justify-center py-2 my-2">
+                      <button
+                        onClick={() => loadNewerMessages(m.id)}
+                        disabled={loadingNewerAfter !== null}
+                        className="px-4 py-2 text-sm text-stone-500 hover:text-stone-700 hover:bg-stone-100 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {loadingNewerAfter === m.id ? (
+                          <span className="flex items-center gap-2">
+                            <div className="w-4 h-4 border-2 border-stone-300 border-t-stone-600 rounded-full animate-spin" />
+                            Loading...
+                          </span>
+                        ) : (
+                          'Load newer messages'
+                        )}
+                      </button>
+                    </div>
+                  )}
                 </div>
               )
             })}
@@ -4107,7 +5435,7 @@ export default function RoomPage() {
             : 'bg-white/85 backdrop-blur-xl border-t border-slate-200/50'
       }`}>
         {/* TURN ANSWER PANEL - Completely distinct from chat input */}
-        {gameActive && isMyTurn && !isWaitingForCooldown && (
+        {gameActive && isMyTurn && !isWaitingForCooldown && !isPaused && (
           <div className="px-3 pt-4 pb-3">
             <div className={`rounded-3xl shadow-xl transition-all duration-300 overflow-hidden animate-turn-panel-enter animate-turn-glow ${
               isDM
@@ -4169,6 +5497,24 @@ export default function RoomPage() {
                     Photo
                   </span>
                 )}
+                {isPollPrompt && (
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                    isFlirtyTheme && !isDM
+                      ? 'bg-rose-500/30 text-rose-300'
+                      : 'bg-sky-200/60 text-sky-700 dark:bg-sky-800/50 dark:text-sky-300'
+                  }`}>
+                    Poll
+                  </span>
+                )}
+                {isVoicePrompt && (
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                    isFlirtyTheme && !isDM
+                      ? 'bg-rose-500/30 text-rose-300'
+                      : 'bg-rose-200/60 text-rose-700 dark:bg-rose-800/50 dark:text-rose-300'
+                  }`}>
+                    Voice
+                  </span>
+                )}
               </div>
 
               {/* Prompt Question - displayed prominently */}
@@ -4198,12 +5544,19 @@ export default function RoomPage() {
 
               {/* Input Area */}
               <div className="p-3">
+                {turnNeedsConnection && (
+                  <p className={`mb-2.5 text-xs text-center ${
+                    isFlirtyTheme && !isDM ? 'text-slate-400' : 'text-stone-500 dark:text-stone-400'
+                  }`}>
+                    You&apos;re offline. {isPhotoPrompt ? 'Photo and video answers' : isPollPrompt ? 'Polls' : 'Voice answers'} need a connection, so answer once you&apos;re back.
+                  </p>
+                )}
                 {isPhotoPrompt ? (
                   <>
                     <input
                       ref={turnCameraInputRef}
                       type="file"
-                      accept="image/*"
+                      accept="image/*,video/*"
                       capture="environment"
                       className="hidden"
                       tabIndex={-1}
@@ -4217,7 +5570,7 @@ export default function RoomPage() {
                     <input
                       ref={turnLibraryInputRef}
                       type="file"
-                      accept="image/*"
+                      accept="image/*,video/*"
                       className="hidden"
                       tabIndex={-1}
                       aria-hidden="true"
@@ -4236,7 +5589,7 @@ export default function RoomPage() {
                     <button
                       type="button"
                       onClick={() => setShowTurnPhotoSheet(true)}
-                      disabled={uploadingImage}
+                      disabled={uploadingImage || turnNeedsConnection}
                       className={`w-full flex items-center justify-center gap-3 py-4 rounded-xl font-semibold text-white transition-all active:scale-[0.98] shadow-md ${
                         isDM
                           ? 'bg-gradient-to-r from-violet-500 to-purple-500 hover:from-violet-600 hover:to-purple-600 shadow-violet-500/25'
@@ -4249,12 +5602,12 @@ export default function RoomPage() {
                                 : theme.mode === 'couple'
                                   ? 'bg-gradient-to-r from-pink-500 to-rose-400 hover:from-pink-600 hover:to-rose-500 shadow-pink-500/25'
                                   : 'bg-gradient-to-r from-indigo-500 to-violet-500 hover:from-indigo-600 hover:to-violet-600 shadow-indigo-500/25'
-                      } ${uploadingImage ? 'opacity-60 pointer-events-none' : ''}`}
+                      } ${uploadingImage ? 'opacity-60 pointer-events-none' : ''} disabled:opacity-40 disabled:cursor-not-allowed`}
                     >
                       {uploadingImage ? (
                         <>
                           <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                          <span>Uploading Photo...</span>
+                          <span>Uploading {Math.round(mediaUpload.progress * 100)}%</span>
                         </>
                       ) : (
                         <>
@@ -4262,11 +5615,39 @@ export default function RoomPage() {
                             <path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
                             <path strokeLinecap="round" strokeLinejoin="round" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
                           </svg>
-                          <span>Upload Your Photo</span>
+                          <span>Upload a Photo or Video</span>
                         </>
                       )}
                     </button>
                   </>
+                ) : isPollPrompt ? (
+                  <button
+                    type="button"
+                    onClick={() => setPollComposerFor('turn')}
+                    disabled={turnNeedsConnection}
+                    className={`w-full flex items-center justify-center gap-2.5 py-4 rounded-2xl font-bold text-white disabled:opacity-40 disabled:cursor-not-allowed transition-all active:scale-[0.98] shadow-lg text-base ${
+                      isFlirtyTheme && !isDM
+                        ? 'bg-gradient-to-r from-rose-500 to-pink-500 hover:from-rose-600 hover:to-pink-600 shadow-rose-500/30'
+                        : 'bg-gradient-to-r from-sky-500 to-indigo-500 hover:from-sky-600 hover:to-indigo-600 shadow-sky-500/30'
+                    }`}
+                  >
+                    <span aria-hidden="true">📊</span>
+                    Ask the group a poll
+                  </button>
+                ) : isVoicePrompt ? (
+                  <button
+                    type="button"
+                    onClick={() => setVoiceComposerFor('turn')}
+                    disabled={turnNeedsConnection}
+                    className={`w-full flex items-center justify-center gap-2.5 py-4 rounded-2xl font-bold text-white disabled:opacity-40 disabled:cursor-not-allowed transition-all active:scale-[0.98] shadow-lg text-base ${
+                      isFlirtyTheme && !isDM
+                        ? 'bg-gradient-to-r from-rose-500 to-pink-500 hover:from-rose-600 hover:to-pink-600 shadow-rose-500/30'
+                        : 'bg-gradient-to-r from-sky-500 to-indigo-500 hover:from-sky-600 hover:to-indigo-600 shadow-sky-500/30'
+                    }`}
+                  >
+                    <span aria-hidden="true">🎤</span>
+                    Record your answer
+                  </button>
                 ) : (
                   <div className="space-y-2.5">
                     <input
@@ -4302,7 +5683,7 @@ export default function RoomPage() {
                     />
                     <button
                       onClick={submitTurn}
-                      disabled={!turnText.trim()}
+                      disabled={!turnText.trim() || outbox.hasQueuedTurn}
                       className={`w-full py-4 font-bold rounded-2xl text-white disabled:opacity-40 disabled:cursor-not-allowed transition-all active:scale-[0.98] shadow-lg flex items-center justify-center gap-2.5 text-base ${
                         isDM
                           ? 'bg-gradient-to-r from-indigo-500 to-violet-500 hover:from-indigo-600 hover:to-violet-600 shadow-indigo-500/30'
@@ -4332,26 +5713,8 @@ export default function RoomPage() {
         {/* Reply preview - refined with image thumbnails */}
         {replyingTo && (() => {
           // Determine if replying to an image
-          let replyImageUrl: string | null = null
-          let replyPreviewText: string
-          if (replyingTo.type === 'image') {
-            replyImageUrl = replyingTo.content
-            replyPreviewText = 'Photo'
-          } else if (replyingTo.type === 'turn_response') {
-            try {
-              const parsed = JSON.parse(replyingTo.content)
-              if (parsed.kind === 'photo_turn' && parsed.image_url) {
-                replyImageUrl = parsed.image_url
-                replyPreviewText = 'Photo'
-              } else {
-                replyPreviewText = replyingTo.content.slice(0, 50)
-              }
-            } catch {
-              replyPreviewText = replyingTo.content.slice(0, 50)
-            }
-          } else {
-            replyPreviewText = replyingTo.content.slice(0, 50)
-          }
+          const replyImageUrl = getMessageImageUrl(replyingTo)
+          const replyPreviewText = replyImageUrl ? 'Photo' : getMessagePreviewText(replyingTo).slice(0, 50)
 
           return (
             <div className={`border-b ${
@@ -4419,6 +5782,54 @@ export default function RoomPage() {
           )
         })()}
 
+        {/* Edit banner */}
+        {editingMessage && (
+          <div className={`border-b ${
+            isDM
+              ? 'border-stone-200/50 bg-stone-50/80'
+              : isFlirtyTheme
+                ? 'border-slate-700/50 bg-slate-800/80'
+                : 'border-slate-200/50 bg-slate-50/80'
+          }`}>
+            <div className="max-w-3xl mx-auto px-safe py-2.5 flex items-center gap-3">
+              <div className={`w-1 h-10 rounded-full ${
+                isFlirtyTheme && !isDM
+                  ? 'bg-gradient-to-b from-rose-400 to-pink-400'
+                  : 'bg-gradient-to-b from-amber-400 to-orange-400'
+              }`} />
+              <div className="flex-1 min-w-0">
+                <div className={`text-xs font-semibold ${isDM ? 'text-indigo-600' : theme.accentText}`}>
+                  Editing {editingMessage.type === 'turn_response' ? 'your answer' : 'message'}
+                </div>
+                <div className={`text-xs truncate ${
+                  isDM
+                    ? 'text-stone-500'
+                    : isFlirtyTheme
+                      ? 'text-slate-400'
+                      : 'text-slate-500'
+                }`}>
+                  {getEditableText(editingMessage).slice(0, 50)}
+                </div>
+              </div>
+              <button
+                onClick={cancelEdit}
+                aria-label="Cancel edit"
+                className={`p-1.5 rounded-lg transition-colors ${
+                  isDM
+                    ? 'text-stone-400 hover:text-stone-600 hover:bg-stone-100'
+                    : isFlirtyTheme
+                      ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'
+                      : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Photo Action Sheet */}
         <PhotoActionSheet
           isOpen={showPhotoSheet}
@@ -4427,8 +5838,39 @@ export default function RoomPage() {
           onChooseLibrary={() => imageInputRef.current?.click()}
         />
 
+        <PollComposer
+          isOpen={pollComposerFor !== null}
+          onClose={() => setPollComposerFor(null)}
+          roomId={roomId}
+          turnPrompt={pollComposerFor === 'turn' ? turnSession?.prompt_text : null}
+          onCreated={(messageId) => handleComposedMessage(messageId, pollComposerFor === 'turn')}
+        />
+
+        <VoiceNoteComposer
+          isOpen={voiceComposerFor !== null}
+          onClose={() => setVoiceComposerFor(null)}
+          roomId={roomId}
+          userId={userId}
+          turnPrompt={voiceComposerFor === 'turn' ? turnSession?.prompt_text : null}
+          onSent={(messageId) => handleComposedMessage(messageId, voiceComposerFor === 'turn')}
+        />
+
+        {/* Photo and video upload progress, with cancel and retry */}
+        {mediaUpload.status !== 'idle' && (
+          <div className="max-w-3xl mx-auto px-4 pt-2">
+            <UploadProgress
+              status={mediaUpload.status}
+              progress={mediaUpload.progress}
+              error={mediaUpload.error}
+              onCancel={mediaUpload.cancel}
+              onRetry={mediaUpload.retry}
+              onDismiss={mediaUpload.dismiss}
+            />
+          </div>
+        )}
+
         {/* CHAT INPUT - Hidden when it's user's turn to answer */}
-        {gameActive && isMyTurn && !isWaitingForCooldown ? (
+        {gameActive && isMyTurn && !isWaitingForCooldown && !isPaused ? (
           /* Disabled state when answering */
           <div className="max-w-3xl mx-auto px-4 py-3">
             <div className={`flex items-center justify-center gap-2 py-3 px-4 rounded-2xl ${
@@ -4452,6 +5894,17 @@ export default function RoomPage() {
           </div>
         ) : (
           /* Normal chat input */
+          <>
+          {mentionQuery && (
+            <MentionSuggestions
+              query={mentionQuery.query}
+              candidates={roomMembers
+                .filter(m => m.user_id !== userId)
+                .map(m => getUserInfo(m.user_id))
+                .filter((u): u is UserInfo => u !== null)}
+              onSelect={handleSelectMention}
+            />
+          )}
           <div className="max-w-3xl mx-auto px-4 py-2.5">
             <div className={`flex items-end gap-1.5 p-1 chat-input-pill transition-all duration-200 ${
               isDM
@@ -4483,10 +5936,42 @@ export default function RoomPage() {
                   </svg>
                 )}
               </button>
+              <button
+                onClick={() => setPollComposerFor('chat')}
+                className={`p-2 rounded-xl transition-all duration-200 self-end mb-0.5 ${
+                  isDM
+                    ? 'text-stone-400 hover:text-stone-600 dark:hover:text-stone-300 hover:bg-white/80 dark:hover:bg-stone-700/80 active:scale-95'
+                    : isFlirtyTheme
+                      ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/80 active:scale-95'
+                      : 'text-slate-400 hover:text-slate-600 dark:hover:text-stone-300 hover:bg-white/80 dark:hover:bg-stone-700/80 active:scale-95'
+                }`}
+                title="Create poll"
+                aria-label="Create poll"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 013 19.875v-6.75zM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V8.625zM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V4.125z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setVoiceComposerFor('chat')}
+                className={`p-2 rounded-xl transition-all duration-200 self-end mb-0.5 ${
+                  isDM
+                    ? 'text-stone-400 hover:text-stone-600 dark:hover:text-stone-300 hover:bg-white/80 dark:hover:bg-stone-700/80 active:scale-95'
+                    : isFlirtyTheme
+                      ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/80 active:scale-95'
+                      : 'text-slate-400 hover:text-slate-600 dark:hover:text-stone-300 hover:bg-white/80 dark:hover:bg-stone-700/80 active:scale-95'
+                }`}
+                title="Record voice note"
+                aria-label="Record voice note"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+                </svg>
+              </button>
               <input
                 ref={cameraInputRef}
                 type="file"
-                accept="image/*"
+                accept="image/*,video/*"
                 capture="environment"
                 onChange={sendImage}
                 className="hidden"
@@ -4496,7 +5981,7 @@ export default function RoomPage() {
               <input
                 ref={imageInputRef}
                 type="file"
-                accept="image/*"
+                accept="image/*,video/*"
                 onChange={sendImage}
                 className="hidden"
                 tabIndex={-1}
@@ -4508,10 +5993,11 @@ export default function RoomPage() {
                 value={chatText}
                 onChange={(e) => {
                   setChatText(e.target.value)
+                  setMentionQuery(editingMessage ? null : getMentionQuery(e.target.value, e.target.selectionStart))
                   autoResizeTextarea()
                 }}
                 rows={1}
-                placeholder="Type a message..."
+                placeholder={editingMessage ? 'Edit message...' : 'Type a message...'}
                 inputMode="text"
                 enterKeyHint="send"
                 autoCorrect="on"
@@ -4538,7 +6024,7 @@ export default function RoomPage() {
                   sendChat()
                 }}
                 disabled={!chatText.trim()}
-                aria-label="Send message"
+                aria-label={editingMessage ? 'Save edit' : 'Send message'}
                 className={`shrink-0 w-9 h-9 flex items-center justify-center text-white self-end mb-0.5 ${
                   chatText.trim()
                     ? isDM
@@ -4555,6 +6041,7 @@ export default function RoomPage() {
               </button>
             </div>
           </div>
+          </>
         )}
       </div>
       )}
@@ -9,16 +9,31 @@ export type StorySnapshot = {
   overlay_text: string | null
 }
 
+export type MessageMention = {
+  user_id: string
+  name: string
+}
+
 export type Msg = {
   id: string
   room_id: string
   user_id: string | null
-  type: 'chat' | 'turn_response' | 'system' | 'image' | 'story_reply'
+  type: 'chat' | 'turn_response' | 'system' | 'image' | 'story_reply' | 'hot_seat_question' | 'poll' | 'voice' | 'video'
   content: string
   created_at: string
   reply_to_message_id: string | null
   story_id?: string | null
   story_snapshot?: StorySnapshot | null
+  edited_at?: string | null
+  deleted_at?: string | null
+  mentions?: MessageMention[] | null
+  // Hot seat questions: the turn_instance_id they were asked for
+  hot_seat_turn_id?: string | null
+  // Structured content (photo answers, recaps, polls); content is the readable fallback
+  payload?: MessagePayload | null
+  // Client only: still waiting in the outbox (lib/outbox.ts)
+  outbox_status?: 'pending' | 'failed'
+  outbox_error?: string | null
 }
 
 export type Reaction = {
@@ -31,13 +46,20 @@ export type Reaction = {
 export type TurnSession = {
   room_id: string
   prompt_text: string
-  current_prompt_type: 'text' | 'photo'
+  current_prompt_type: PromptType
   turn_order: string[]
   current_turn_index: number
   current_turn_user_id: string | null
   turn_instance_id: string | null
   is_active: boolean
   waiting_until: string | null
+  paused_at: string | null
+  // Set while an 'everyone answers' round is open
+  current_round_id: string | null
+  round_answered_count: number
+  // Hot seat: end of the question window, then the question that won
+  hot_seat_until: string | null
+  hot_seat_question_id: string | null
 }
 
 export type UserInfo = {
@@ -56,6 +78,8 @@ export type RoomMember = {
   user_id: string
   role: 'host' | 'member'
   prompt_interval_minutes: number
+  excluded_until: string | null
+  snoozed_until: string | null
 }
 
 export type RoomInfo = {
@@ -65,6 +89,207 @@ export type RoomInfo = {
   prompt_interval_minutes: number
   last_active_at: string | null
   prompt_mode: 'fun' | 'family' | 'deep' | 'flirty' | 'couple'
+  // Weekly schedule, used instead of prompt_interval_minutes when set
+  prompt_schedule_days: number[] | null
+  prompt_schedule_times: string[] | null
+  timezone: string | null
+  play_mode: PlayMode
+  round_deadline_hours: number
+  hot_seat_window_minutes: number
+}
+
+export type PlayMode = 'turns' | 'everyone' | 'hot_seat'
+
+// The open 'everyone answers' round (see get_round_status)
+export type RoundParticipant = {
+  user_id: string
+  answered: boolean
+  nudged_by_me: boolean
+  away_until: string | null
+}
+
+export type RoundStatus = {
+  round_id: string
+  prompt_text: string
+  prompt_type: PromptType
+  opens_at: string
+  deadline_at: string
+  participants: RoundParticipant[]
+  my_answer: string | null
+}
+
+// Questions for the player in the hot seat (see get_hot_seat_status)
+export type HotSeatQuestion = {
+  message_id: string
+  user_id: string
+  content: string
+  created_at: string
+  score: number
+  user_vote: 'up' | 'down' | null
+}
+
+export type HotSeatStatus = {
+  holder_id: string
+  opens_at: string
+  closes_at: string
+  questions: HotSeatQuestion[]
+}
+
+export type PromptType = 'text' | 'photo' | 'poll' | 'voice'
+
+// A poll message's options and results (see get_polls). voter_ids is null
+// for anonymous polls.
+export type PollOption = {
+  id: string
+  label: string
+  vote_count: number
+  voter_ids: string[] | null
+}
+
+export type Poll = {
+  id: string
+  message_id: string
+  created_by: string
+  question: string
+  allow_multiple: boolean
+  is_anonymous: boolean
+  closes_at: string | null
+  closed_at: string | null
+  // Set when the poll answered a turn's poll prompt
+  prompt_text: string | null
+  voter_count: number
+  options: PollOption[]
+  my_option_ids: string[]
+}
+
+export type PromptPackItem = {
+  id: string
+  text: string
+  prompt_type: PromptType
+}
+
+export type PromptPack = {
+  id: string
+  name: string
+  is_active: boolean
+  created_at: string
+  items: PromptPackItem[]
+}
+
+export type PromptSuggestion = {
+  id: string
+  user_id: string
+  author_name: string | null
+  text: string
+  prompt_type: PromptType
+  status: 'pending' | 'approved'
+  score: number
+  user_vote: 'up' | 'down' | null
+  created_at: string
+}
+
+export type ThreadSummary = {
+  root_message_id: string
+  reply_count: number
+  last_reply_at: string
+  recent_repliers: string[] | null
+  unread_count: number
+}
+
+export type PinnedMessage = {
+  message_id: string
+  user_id: string | null
+  type: Msg['type']
+  content: string
+  payload: MessagePayload | null
+  created_at: string
+  pinned_by: string | null
+  pinned_at: string
+}
+
+// Pins and top-voted answers on the highlights board
+export type Highlight = Omit<PinnedMessage, 'pinned_at'> & {
+  score: number
+  pinned_at: string | null
+}
+
+export type HighlightPeriod = 'week' | 'month' | 'all'
+
+// Content of the weekly recap system message (see weekly_recap.sql)
+type RecapMember = { user_id: string; name: string | null }
+type RecapMessage = RecapMember & { message_id: string; created_at: string }
+
+export type WeeklyRecap = {
+  kind: 'weekly_recap'
+  week_start: string
+  week_end: string
+  prompts: (RecapMessage & { prompt: string | null })[]
+  top_answers: (RecapMessage & { prompt: string | null; answer: string | null; image_url: string | null; score: number })[]
+  answered_by: (RecapMember & { count: number })[]
+  skipped: (RecapMember & { count: number })[]
+  top_photos: (RecapMessage & { image_url: string; reactions: number })[]
+  new_members: RecapMember[]
+}
+
+// messages.payload (see message_payloads.sql), one shape per kind
+// A video answer keeps its poster frame in image_url (video_clips.sql)
+export type PhotoTurnPayload = {
+  v: number
+  kind: 'photo_turn'
+  prompt: string | null
+  image_url: string
+  caption?: string | null
+  video_url?: string
+  duration_ms?: number
+  blurhash?: string
+  width?: number
+  height?: number
+}
+
+// Chat photos: content is the URL, the payload its placeholder (image_placeholders.sql)
+export type ImagePayload = {
+  v: number
+  kind: 'image'
+  width: number
+  height: number
+  blurhash: string | null
+}
+
+export type WeeklyRecapPayload = WeeklyRecap & { v: number }
+
+export type PollPayload = {
+  v: number
+  kind: 'poll'
+  poll_id: string
+}
+
+// Voice notes, and voice answers (which also keep the prompt)
+export type VoicePayload = {
+  v: number
+  kind: 'voice'
+  audio_url: string
+  duration_ms: number
+  waveform: number[]
+  prompt?: string | null
+}
+
+// Video clips in chat
+export type VideoPayload = {
+  v: number
+  kind: 'video'
+  video_url: string
+  poster_url: string
+  duration_ms: number
+}
+
+export type MessagePayload = PhotoTurnPayload | ImagePayload | WeeklyRecapPayload | PollPayload | VoicePayload | VideoPayload
+
+// A finished recording, before upload
+export type VoiceRecording = {
+  blob: Blob
+  mimeType: string
+  durationMs: number
+  waveform: number[]
 }
 
 export type MessageGroupPosition = 'single' | 'first' | 'middle' | 'last'
@@ -72,6 +297,18 @@ export type MessageGroupPosition = 'single' | 'first' | 'middle' | 'last'
 // Constants
 export const EMOJI_OPTIONS = ['👍', '❤️', '😂', '😮', '😢'] as const
 
+// How long chat messages stay editable (matches edit_message)
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15
+
+// Newest payload version this client reads; bumped when a kind's shape changes
+export const MESSAGE_PAYLOAD_VERSION = 1
+
+export const HIGHLIGHT_PERIODS: readonly { value: HighlightPeriod; label: string }[] = [
+  { value: 'week', label: 'This week' },
+  { value: 'month', label: 'This month' },
+  { value: 'all', label: 'All time' },
+]
+
 export const FREQUENCY_OPTIONS = [
   { value: 0, label: 'Immediately' },
   { value: 60, label: 'Every hour' },
@@ -80,6 +317,53 @@ export const FREQUENCY_OPTIONS = [
   { value: 1440, label: 'Once a day' },
 ] as const
 
+// ISO day numbers, Monday first (matches set_room_schedule)
+export const SCHEDULE_DAYS = [
+  { value: 1, short: 'M', label: 'Mon' },
+  { value: 2, short: 'T', label: 'Tue' },
+  { value: 3, short: 'W', label: 'Wed' },
+  { value: 4, short: 'T', label: 'Thu' },
+  { value: 5, short: 'F', label: 'Fri' },
+  { value: 6, short: 'S', label: 'Sat' },
+  { value: 7, short: 'S', label: 'Sun' },
+] as const
+
+export const PLAY_MODES: readonly { value: PlayMode; label: string; description: string }[] = [
+  { value: 'turns', label: 'Take turns', description: 'One person answers each prompt' },
+  { value: 'everyone', label: 'Everyone answers', description: 'Answers stay hidden until everyone is in' },
+  { value: 'hot_seat', label: 'Hot seat', description: 'The group asks and votes on each question' },
+]
+
+// How long a round stays open before answers are revealed anyway
+export const ROUND_DEADLINE_OPTIONS = [
+  { value: 12, label: '12h' },
+  { value: 24, label: '1 day' },
+  { value: 48, label: '2 days' },
+  { value: 72, label: '3 days' },
+] as const
+
+// When a new poll stops taking votes (hours from now; null = stays open)
+export const POLL_DURATION_OPTIONS = [
+  { value: null, label: 'No end' },
+  { value: 1, label: '1h' },
+  { value: 24, label: '1 day' },
+  { value: 72, label: '3 days' },
+  { value: 168, label: '1 week' },
+] as const
+
+// Voice notes stop recording at this length (submit_voice_turn allows a little over)
+export const VOICE_NOTE_MAX_SECONDS = 120
+
+export const VOICE_PLAYBACK_RATES = [1, 1.5, 2] as const
+
+// How long the group has to ask and vote in hot seat mode
+export const HOT_SEAT_WINDOW_OPTIONS = [
+  { value: 30, label: '30m' },
+  { value: 60, label: '1h' },
+  { value: 180, label: '3h' },
+  { value: 720, label: '12h' },
+] as const
+
 export const PROMPT_MODES = [
   { value: 'fun', label: 'Fun', description: 'Lighthearted prompts for friends' },
   { value: 'family', label: 'Family', description: 'Warm prompts for family groups' },
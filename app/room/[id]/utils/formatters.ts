@@ -8,6 +8,10 @@ export const formatTimeRemaining = (targetDate: Date): string => {
   const hours = Math.floor(diff / (1000 * 60 * 60))
   const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60))
 
+  // Scheduled rooms can wait several days for the next slot
+  if (hours >= 24) {
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`
+  }
   if (hours > 0) {
     return `${hours}h ${minutes}m`
   }
@@ -39,3 +43,13 @@ export const getDisplayName = (email: string): string => {
     .join(' ')
   return formatted || name
 }
+
+export const formatShortDate = (date: string): string => {
+  return new Date(date).toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+// Clip length as m:ss
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000))
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`
+}
@@ -1,2 +1,8 @@
-export { formatTimeRemaining, formatTime, getInitials, getDisplayName } from './formatters'
+export { formatTimeRemaining, formatTime, formatShortDate, getInitials, getDisplayName, formatDuration } from './formatters'
 export { stringToColors, getMessageGroupPosition } from './colors'
+export { parsePromptList, type ImportedPrompt } from './promptImport'
+export { canEditMessage, canDeleteMessage, getEditableText } from './messageEdits'
+export { getMentionQuery, insertMention, collectMentions, splitMentions, type MentionSegment } from './mentions'
+export { parseWeeklyRecap } from './recap'
+export { formatScheduleTime, describeSchedule } from './schedule'
+export { parseMessagePayload, getPhotoTurn, getVoiceNote, getVideoClip, getImagePlaceholder, splitTurnResponse, getMessageImageUrl, getMessagePreviewText } from './messagePayload'
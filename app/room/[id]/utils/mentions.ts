@@ -0,0 +1,53 @@
+// @mention helpers for the chat composer and message rendering
+
+import type { MessageMention } from '../types'
+
+export type MentionSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'mention'; text: string; userId: string }
+
+/**
+ * The @query being typed at the caret, if any. '@' must start the text or
+ * follow whitespace, and the query can't contain spaces yet.
+ */
+export const getMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret))
+  if (!match) return null
+  return { query: match[2], start: caret - match[2].length - 1 }
+}
+
+/** Replace the @query at start..caret with the full @name */
+export const insertMention = (text: string, start: number, caret: number, name: string) => {
+  const inserted = `@${name} `
+  return {
+    text: text.slice(0, start) + inserted + text.slice(caret),
+    caret: start + inserted.length,
+  }
+}
+
+/** Mentions picked while composing that are still in the final text */
+export const collectMentions = (content: string, picked: MessageMention[]): MessageMention[] => {
+  const seen = new Set<string>()
+  return picked.filter(m => {
+    if (seen.has(m.user_id) || !content.includes(`@${m.name}`)) return false
+    seen.add(m.user_id)
+    return true
+  })
+}
+
+/** Split message text into plain runs and @mention chips */
+export const splitMentions = (content: string, mentions: MessageMention[] | null | undefined): MentionSegment[] => {
+  if (!mentions || mentions.length === 0) return [{ kind: 'text', text: content }]
+
+  // Longest names first so "@Sam Lee" wins over "@Sam"
+  const sorted = [...mentions].sort((a, b) => b.name.length - a.name.length)
+  const escaped = sorted.map(m => `@${m.name}`.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'g')
+
+  return content.split(pattern).filter(part => part !== '').map(part => {
+    const mention = sorted.find(m => `@${m.name}` === part)
+    return mention
+      ? { kind: 'mention', text: part, userId: mention.user_id }
+      : { kind: 'text', text: part }
+  })
+}
@@ -0,0 +1,28 @@
+// Edit/delete rules, mirroring edit_message and delete_message
+
+import { parseMessagePayload, splitTurnResponse } from './messagePayload'
+import { MESSAGE_EDIT_WINDOW_MINUTES, type Msg } from '../types'
+
+/**
+ * Whether the author can still edit a message: chat messages within the
+ * edit window, text turn responses until someone reacts
+ */
+export const canEditMessage = (message: Msg, reactionCount: number): boolean => {
+  if (message.deleted_at || message.id.startsWith('optimistic-')) return false
+  if (message.type === 'chat') {
+    const age = Date.now() - new Date(message.created_at).getTime()
+    return age < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000
+  }
+  if (message.type === 'turn_response') {
+    return !parseMessagePayload(message) && reactionCount === 0
+  }
+  return false
+}
+
+/** Only chat messages can be deleted for everyone */
+export const canDeleteMessage = (message: Msg): boolean =>
+  message.type === 'chat' && !message.deleted_at && !message.id.startsWith('optimistic-')
+
+/** The part of a message the author edits (turn responses drop the prompt line) */
+export const getEditableText = (message: Msg): string =>
+  message.type === 'turn_response' ? splitTurnResponse(message.content).answer : message.content
@@ -0,0 +1,94 @@
+// Structured message payloads, mirroring message_payloads.sql. Rows from
+// before that migration carry the same JSON in content, so both are read.
+
+import { MESSAGE_PAYLOAD_VERSION, type MessagePayload, type Msg, type PhotoTurnPayload, type VideoPayload, type VoicePayload } from '../types'
+
+type PayloadSource = Pick<Msg, 'type' | 'content'> & { payload?: MessagePayload | null }
+
+// The payload kinds each message type can carry (message_payload_kind_allowed)
+const PAYLOAD_KINDS_BY_TYPE: Partial<Record<Msg['type'], MessagePayload['kind'][]>> = {
+  turn_response: ['photo_turn', 'voice'],
+  system: ['weekly_recap'],
+  poll: ['poll'],
+  voice: ['voice'],
+  video: ['video'],
+  image: ['image'],
+}
+
+const readPayload = (type: Msg['type'], value: unknown): MessagePayload | null => {
+  if (!value || typeof value !== 'object') return null
+  const payload = value as Partial<MessagePayload>
+  // Written by a newer client: fall back to the readable content
+  if (typeof payload.v === 'number' && payload.v > MESSAGE_PAYLOAD_VERSION) return null
+  if (!payload.kind || !PAYLOAD_KINDS_BY_TYPE[type]?.includes(payload.kind)) return null
+  if (payload.kind === 'photo_turn' && !payload.image_url) return null
+  if (payload.kind === 'voice' && !payload.audio_url) return null
+  if (payload.kind === 'video' && (!payload.video_url || !payload.poster_url)) return null
+  return { ...payload, v: payload.v ?? 1 } as MessagePayload
+}
+
+/** A message's payload, or null for plain text (and kinds this client doesn't know) */
+export const parseMessagePayload = (message: PayloadSource): MessagePayload | null => {
+  if (message.payload) return readPayload(message.type, message.payload)
+  if (!message.content.startsWith('{')) return null
+  try {
+    return readPayload(message.type, JSON.parse(message.content))
+  } catch {
+    return null
+  }
+}
+
+/** The photo answer in a turn response, if it is one */
+export const getPhotoTurn = (message: PayloadSource): PhotoTurnPayload | null => {
+  const payload = parseMessagePayload(message)
+  return payload?.kind === 'photo_turn' ? payload : null
+}
+
+/** The recording in a voice note or voice answer, if it is one */
+export const getVoiceNote = (message: PayloadSource): VoicePayload | null => {
+  const payload = parseMessagePayload(message)
+  return payload?.kind === 'voice' ? payload : null
+}
+
+/** A video clip in chat, or a video answer to a photo prompt */
+export const getVideoClip = (message: PayloadSource): Pick<VideoPayload, 'video_url' | 'poster_url' | 'duration_ms'> | null => {
+  const payload = parseMessagePayload(message)
+  if (payload?.kind === 'video') return payload
+  if (payload?.kind === 'photo_turn' && payload.video_url) {
+    return { video_url: payload.video_url, poster_url: payload.image_url, duration_ms: payload.duration_ms ?? 0 }
+  }
+  return null
+}
+
+/** Size and blurhash of a chat photo or photo answer, to hold its place while it loads */
+export const getImagePlaceholder = (message: PayloadSource): { blurhash: string | null; width: number | null; height: number | null } | null => {
+  const payload = parseMessagePayload(message)
+  if (payload?.kind !== 'image' && payload?.kind !== 'photo_turn') return null
+  return { blurhash: payload.blurhash ?? null, width: payload.width ?? null, height: payload.height ?? null }
+}
+
+/** Prompt and answer of a text turn response ('Reply to "prompt"\n\nanswer') */
+export const splitTurnResponse = (content: string): { prompt: string | null; answer: string } => {
+  if (!content.startsWith('Reply to "')) return { prompt: null, answer: content }
+  const [promptLine, ...rest] = content.split('\n\n')
+  return { prompt: promptLine.replace(/^Reply to "/, '').replace(/"$/, ''), answer: rest.join('\n\n') }
+}
+
+/** The photo a message shows: chat photos and photo answers (a clip's poster frame) */
+export const getMessageImageUrl = (message: PayloadSource): string | null => {
+  if (message.type === 'image') return message.content
+  return getPhotoTurn(message)?.image_url ?? getVideoClip(message)?.poster_url ?? null
+}
+
+/** Plain-text summary for the lobby, pushes and reply previews */
+export const getMessagePreviewText = (message: PayloadSource): string => {
+  if (message.type === 'image') return 'Sent a photo'
+  if (message.type === 'poll') return `📊 ${message.content}`
+  const payload = parseMessagePayload(message)
+  if (payload?.kind === 'photo_turn') return payload.video_url ? 'Sent a video' : 'Sent a photo'
+  if (payload?.kind === 'video') return '🎬 Video'
+  if (payload?.kind === 'weekly_recap') return '📰 Weekly recap'
+  if (payload?.kind === 'voice') return '🎤 Voice note'
+  if (message.type === 'turn_response') return splitTurnResponse(message.content).answer
+  return message.content
+}
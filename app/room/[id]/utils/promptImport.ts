@@ -0,0 +1,67 @@
+// Parsing for prompt pack imports (pasted text or a .txt/.csv file)
+
+import type { PromptType } from '../types'
+
+export type ImportedPrompt = {
+  text: string
+  prompt_type: PromptType
+}
+
+// Split one CSV line into fields, honouring "quoted, fields" and "" escapes
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields.map(f => f.trim())
+}
+
+// One prompt per line. A CSV line may add a type column ("text", "photo", "poll" or "voice");
+// anything else in the second column is treated as part of the prompt.
+// Lines without a type get defaultType. A "prompt,type" header row is skipped.
+export const parsePromptList = (input: string, defaultType: PromptType = 'text'): ImportedPrompt[] => {
+  const prompts: ImportedPrompt[] = []
+  const seen = new Set<string>()
+
+  for (const rawLine of input.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    // Only treat a line as CSV when it has a comma, so quotes in plain prompts survive
+    const fields = line.includes(',') ? splitCsvLine(line) : [line]
+    const typeField = fields.length === 2 ? fields[1].toLowerCase() : null
+    const hasType = typeField === 'text' || typeField === 'photo' || typeField === 'poll' || typeField === 'voice'
+
+    if (fields.length === 2 && fields[0].toLowerCase() === 'prompt' && typeField === 'type') continue
+
+    const text = (hasType ? fields[0] : fields.length > 1 ? fields.join(', ') : fields[0]).slice(0, 280)
+    const key = text.toLowerCase()
+    if (!text || seen.has(key)) continue
+
+    seen.add(key)
+    prompts.push({ text, prompt_type: hasType ? (typeField as PromptType) : defaultType })
+  }
+
+  return prompts
+}
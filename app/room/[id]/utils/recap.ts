@@ -0,0 +1,10 @@
+// Weekly recap system messages (posted by the weekly-recap cron)
+
+import { parseMessagePayload } from './messagePayload'
+import type { Msg, WeeklyRecap } from '../types'
+
+/** The recap carried by a system message, or null for plain system text */
+export const parseWeeklyRecap = (message: Pick<Msg, 'type' | 'content' | 'payload'>): WeeklyRecap | null => {
+  const payload = parseMessagePayload(message)
+  return payload?.kind === 'weekly_recap' ? payload : null
+}
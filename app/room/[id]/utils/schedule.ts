@@ -0,0 +1,37 @@
+// Prompt schedule helpers (see sql/prompt_schedules.sql)
+
+import { getBrowserTimeZone } from '@/lib/quietHours'
+import { SCHEDULE_DAYS } from '../types'
+
+// '19:00:00' -> '7:00 PM' in the viewer's locale
+export const formatScheduleTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number)
+  const date = new Date()
+  date.setHours(hours, minutes, 0, 0)
+  return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+}
+
+const describeDays = (days: number[]): string => {
+  const set = new Set(days)
+  if (set.size === 7) return 'Every day'
+  if (set.size === 5 && [1, 2, 3, 4, 5].every(d => set.has(d))) return 'Weekdays'
+  if (set.size === 2 && set.has(6) && set.has(7)) return 'Weekends'
+  return SCHEDULE_DAYS.filter(d => set.has(d.value)).map(d => d.label).join(', ')
+}
+
+/**
+ * "Weekdays at 7:00 PM", or null if the room has no schedule. Times are in
+ * the room's timezone, which is named when it isn't the viewer's:
+ * "Weekdays at 7:00 PM (America/New York)"
+ */
+export const describeSchedule = (
+  days: number[] | null,
+  times: string[] | null,
+  timezone: string | null
+): string | null => {
+  if (!days?.length || !times?.length) return null
+  const label = `${describeDays(days)} at ${[...times].sort().map(formatScheduleTime).join(', ')}`
+  return timezone && timezone !== getBrowserTimeZone()
+    ? `${label} (${timezone.replace(/_/g, ' ')})`
+    : label
+}
@@ -11,6 +11,9 @@ import { StoryRing } from '@/app/components/StoryRing'
 import { usePushNotifications } from '@/lib/usePushNotifications'
 import { useThemePreference, type ThemePreference } from '@/lib/useThemePreference'
 import { NotificationCenter, NotificationBell, useNotifications } from '@/app/components/NotificationCenter'
+import { SearchSnippet, markMatches } from '@/app/components/SearchSnippet'
+import { getMessagePreviewText } from '@/app/room/[id]/utils/messagePayload'
+import type { Msg } from '@/app/room/[id]/types'
 
 // Prompt mode options
 const PROMPT_MODES = [
@@ -104,6 +107,15 @@ const formatTime = (date: string | null): string => {
   return d.toLocaleDateString([], { month: 'short', day: 'numeric' })
 }
 
+// "Last push ..." wording: relative while recent, the day after that
+const formatLastPush = (date: string): string => {
+  const time = formatTime(date)
+  if (time === 'now') return 'Last push just now'
+  if (/^\d+[mh]$/.test(time)) return `Last push ${time} ago`
+  if (time === 'Yesterday') return 'Last push yesterday'
+  return `Last push on ${time}`
+}
+
 // Skeleton loading component
 function SkeletonRow() {
   return (
@@ -252,26 +264,10 @@ const RoomListItem = memo(function RoomListItem({
   const lastMessagePreview = useMemo(() => {
     if (!chat.last_message_content) return 'No messages yet'
 
-    let preview = chat.last_message_content
-
-    // Handle photo turn JSON
-    if (chat.last_message_type === 'turn_response') {
-      try {
-        const parsed = JSON.parse(preview)
-        if (parsed.kind === 'photo_turn') {
-          preview = 'Sent a photo'
-        }
-      } catch {
-        if (preview.startsWith('Reply to "')) {
-          const parts = preview.split('\n\n')
-          if (parts.length > 1) {
-            preview = parts.slice(1).join(' ')
-          }
-        }
-      }
-    } else if (chat.last_message_type === 'image') {
-      preview = 'Sent a photo'
-    }
+    let preview = getMessagePreviewText({
+      type: (chat.last_message_type ?? 'chat') as Msg['type'],
+      content: chat.last_message_content,
+    })
 
     // Truncate
     if (preview.length > 45) {
@@ -331,6 +327,112 @@ const RoomListItem = memo(function RoomListItem({
   )
 })
 
+// Row from search_my_rooms
+type SearchHit = {
+  result_type: 'room' | 'member' | 'message'
+  room_id: string
+  user_id: string | null
+  user_name: string | null
+  message_id: string | null
+  message_type: string | null
+  snippet: string
+  created_at: string
+}
+
+// Lobby search results, grouped by room in chat-list order
+function SearchResults({
+  query,
+  hits,
+  chats,
+  searching,
+  currentUserId,
+}: {
+  query: string
+  hits: SearchHit[]
+  chats: ChatItem[]
+  searching: boolean
+  currentUserId: string | null
+}) {
+  const groups = useMemo(() => {
+    const byRoom = new Map<string, SearchHit[]>()
+    for (const hit of hits) {
+      const existing = byRoom.get(hit.room_id) ?? []
+      existing.push(hit)
+      byRoom.set(hit.room_id, existing)
+    }
+    return chats
+      .filter(chat => byRoom.has(chat.id))
+      .map(chat => ({ chat, hits: byRoom.get(chat.id)! }))
+  }, [hits, chats])
+
+  if (groups.length === 0) {
+    return (
+      <div className="px-5 py-12 text-center text-sm text-stone-400 dark:text-stone-500">
+        {searching ? 'Searching...' : `No results for "${query}"`}
+      </div>
+    )
+  }
+
+  return (
+    <div className="divide-y divide-stone-100/50 dark:divide-stone-800/50">
+      {groups.map(({ chat, hits: roomHits }) => {
+        const displayName = chat.type === 'dm' && chat.other_member ? chat.other_member.displayName : chat.name
+        const roomMatched = roomHits.some(h => h.result_type === 'room')
+        const members = roomHits.filter(h => h.result_type === 'member')
+        const messages = roomHits.filter(h => h.result_type === 'message')
+
+        return (
+          <div key={chat.id} className="px-5 py-3">
+            <Link href={`/room/${chat.id}`} className="flex items-center gap-3">
+              <ChatAvatar chat={chat} size="sm" />
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-[15px] font-medium tracking-tight text-stone-800 dark:text-stone-200">
+                  {roomMatched ? <SearchSnippet snippet={markMatches(displayName, query)} /> : displayName}
+                </div>
+                {members.length > 0 && (
+                  <div className="truncate text-[13px] text-stone-500 dark:text-stone-400">
+                    {chat.type === 'dm' ? '' : 'Members: '}
+                    {members.map((m, i) => (
+                      <span key={m.user_id}>
+                        {i > 0 && ', '}
+                        <SearchSnippet snippet={markMatches(m.snippet, query)} />
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </Link>
+
+            {messages.length > 0 && (
+              <div className="mt-2 ml-14 space-y-1">
+                {messages.map(m => (
+                  <Link
+                    key={m.message_id}
+                    href={`/room/${chat.id}?message=${m.message_id}`}
+                    className="block px-3 py-2 rounded-xl bg-stone-50 dark:bg-stone-800/60 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+                  >
+                    <div className="flex items-baseline justify-between gap-3 text-[11px] text-stone-400 dark:text-stone-500">
+                      <span className="truncate font-medium">
+                        {m.user_id === currentUserId ? 'You' : m.user_name ?? 'Unknown'}
+                        {m.message_type === 'turn_response' && ' · answer'}
+                      </span>
+                      <span className="flex-shrink-0 tabular-nums">{formatTime(m.created_at)}</span>
+                    </div>
+                    <SearchSnippet
+                      snippet={m.snippet}
+                      className="block text-[13px] text-stone-600 dark:text-stone-300 line-clamp-2"
+                    />
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
 // Empty state component
 function EmptyState({ onNewChat, onNewGroup }: { onNewChat: () => void; onNewGroup: () => void }) {
   return (
@@ -362,6 +464,126 @@ function EmptyState({ onNewChat, onNewGroup }: { onNewChat: () => void; onNewGro
   )
 }
 
+// Registered push device with delivery health (get_my_push_devices)
+type PushDevice = {
+  id: string
+  endpoint: string
+  user_agent: string | null
+  created_at: string
+  last_attempt_at: string | null
+  last_status: 'sent' | 'expired' | 'failed' | null
+  last_status_code: number | null
+  last_success_at: string | null
+  consecutive_failures: number
+}
+
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device'
+  const os = /iPhone/.test(userAgent) ? 'iPhone'
+    : /iPad/.test(userAgent) ? 'iPad'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'Mac'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Device'
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null
+  return browser ? `${browser} on ${os}` : os
+}
+
+// Push devices panel - shows when each device last got a push and whether it's failing
+function PushDevicesList({ refreshKey }: { refreshKey: boolean }) {
+  const [devices, setDevices] = useState<PushDevice[] | null>(null)
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    supabase.rpc('get_my_push_devices').then(({ data, error }) => {
+      if (cancelled) return
+      if (error) console.error('Error loading push devices:', error)
+      setDevices((data || []) as PushDevice[])
+    })
+
+    // Identify this browser's subscription so it can be labelled
+    if (typeof navigator !== 'undefined' && 'serviceWorker' in navigator) {
+      navigator.serviceWorker.getRegistration()
+        .then(reg => reg?.pushManager.getSubscription())
+        .then(sub => { if (!cancelled) setCurrentEndpoint(sub?.endpoint ?? null) })
+        .catch(() => {})
+    }
+
+    return () => { cancelled = true }
+  }, [refreshKey])
+
+  const handleRemove = async (device: PushDevice) => {
+    setRemovingId(device.id)
+    const { error } = await supabase.rpc('remove_push_subscription', { p_endpoint: device.endpoint })
+    if (error) {
+      console.error('Error removing device:', error)
+    } else {
+      setDevices(prev => prev?.filter(d => d.id !== device.id) ?? null)
+    }
+    setRemovingId(null)
+  }
+
+  if (devices === null) {
+    return <div className="h-12 bg-stone-50 dark:bg-stone-800/50 rounded-lg animate-pulse" />
+  }
+
+  if (devices.length === 0) {
+    return <p className="text-xs text-stone-400 dark:text-stone-500">No devices registered for notifications</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {devices.map(device => {
+        const isCurrent = device.endpoint === currentEndpoint
+        const isFailing = device.last_status === 'failed'
+
+        return (
+          <div
+            key={device.id}
+            className="flex items-center gap-3 px-3 py-2.5 rounded-lg bg-stone-50 dark:bg-stone-800"
+          >
+            <span
+              className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                isFailing ? 'bg-red-500' : device.last_success_at ? 'bg-emerald-500' : 'bg-stone-300 dark:bg-stone-600'
+              }`}
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-stone-700 dark:text-stone-200 truncate">
+                {describeDevice(device.user_agent)}
+                {isCurrent && <span className="text-stone-400 dark:text-stone-500"> · This device</span>}
+              </p>
+              <p className={`text-xs truncate ${isFailing ? 'text-red-600 dark:text-red-400' : 'text-stone-500 dark:text-stone-400'}`}>
+                {isFailing
+                  ? `Failing${device.consecutive_failures > 1 ? ` (${device.consecutive_failures} in a row)` : ''}${device.last_status_code ? ` · error ${device.last_status_code}` : ''}`
+                  : device.last_success_at
+                    ? formatLastPush(device.last_success_at)
+                    : 'No pushes yet'}
+              </p>
+            </div>
+            {!isCurrent && (
+              <button
+                onClick={() => handleRemove(device)}
+                disabled={removingId === device.id}
+                className="text-xs text-stone-400 hover:text-red-600 dark:text-stone-500 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
 // Profile menu component
 function ProfileMenu({
   isOpen,
@@ -390,6 +612,7 @@ function ProfileMenu({
   } = usePushNotifications()
 
   const [testSending, setTestSending] = useState(false)
+  const [testResult, setTestResult] = useState<string | null>(null)
 
   const handleToggleNotifications = async () => {
     if (isSubscribed) {
@@ -401,19 +624,35 @@ function ProfileMenu({
 
   const handleSendTestNotification = async () => {
     setTestSending(true)
+    setTestResult(null)
     try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) throw new Error('Not signed in')
+
       const res = await fetch('/api/push/send', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          title: 'Test Notification',
-          body: 'Push notifications are working!',
-          test: true,
-        }),
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ test: true }),
       })
-      if (!res.ok) throw new Error('Failed to send')
+      const result = await res.json()
+      if (!res.ok) throw new Error(result.error || 'Failed to send')
+
+      if (result.deferredUntil) {
+        const time = new Date(result.deferredUntil).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+        setTestResult(`Quiet hours - it will arrive at ${time}`)
+      } else if (!result.total) {
+        setTestResult('No devices are subscribed')
+      } else if (result.sent === 0) {
+        setTestResult("Couldn't reach your devices")
+      } else {
+        setTestResult(`Sent to ${result.sent} ${result.sent === 1 ? 'device' : 'devices'}`)
+      }
     } catch (err) {
       console.error('Test notification error:', err)
+      setTestResult("Couldn't send a test notification")
     } finally {
       setTestSending(false)
     }
@@ -570,8 +809,14 @@ function ProfileMenu({
                     Send test notification
                   </button>
                 )}
+                {isSubscribed && testResult && (
+                  <p role="status" className="text-xs text-center text-stone-500 dark:text-stone-400">{testResult}</p>
+                )}
               </div>
             )}
+
+            <h5 className="text-xs font-medium text-stone-500 dark:text-stone-400 mt-4 mb-2">Your devices</h5>
+            <PushDevicesList refreshKey={isSubscribed} />
           </div>
 
           {/* Sign out */}
@@ -624,8 +869,39 @@ export default function ChatsPage() {
 
   // Notifications
   const [showNotifications, setShowNotifications] = useState(false)
+
+  // Global search
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([])
+  const [searching, setSearching] = useState(false)
+  const isSearching = searchQuery.trim().length >= 2
   const { unreadCount: notificationCount, refreshCount: refreshNotificationCount } = useNotifications(userId)
 
+  // Debounced global search across all my rooms
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (query.length < 2) return
+    let cancelled = false
+    const timer = setTimeout(() => {
+      setSearching(true)
+      supabase.rpc('search_my_rooms', { p_query: query })
+        .then(({ data, error: rpcError }) => {
+          if (cancelled) return
+          if (rpcError) {
+            console.error('Global search failed:', rpcError)
+            setSearchHits([])
+          } else {
+            setSearchHits((data ?? []) as SearchHit[])
+          }
+          setSearching(false)
+        })
+    }, 300)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchQuery])
+
   const touchStartY = useRef(0)
   const isPulling = useRef(false)
   const PULL_THRESHOLD = 80 // px needed to trigger refresh
@@ -992,6 +1268,33 @@ export default function ChatsPage() {
               </button>
             </div>
           </div>
+
+          {/* Search */}
+          {!loading && chats.length > 0 && (
+            <div className="mt-3 flex items-center gap-2 px-3 py-2 bg-stone-100 dark:bg-stone-800 rounded-xl">
+              <svg className="w-4 h-4 text-stone-400 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+              </svg>
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search chats, people and messages"
+                className="flex-1 min-w-0 bg-transparent text-sm text-stone-800 dark:text-stone-100 placeholder:text-stone-400 focus:outline-none"
+              />
+              {searchQuery && (
+                <button
+                  onClick={() => setSearchQuery('')}
+                  className="p-0.5 text-stone-400 hover:text-stone-600 dark:hover:text-stone-200"
+                  aria-label="Clear search"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </header>
 
@@ -1043,7 +1346,7 @@ export default function ChatsPage() {
 
         <div className="max-w-2xl mx-auto pb-safe">
           {/* Stories Row */}
-          {userId && !loading && (
+          {userId && !loading && !isSearching && (
             <StoriesRow
               ref={storiesRef}
               currentUserId={userId}
@@ -1061,6 +1364,14 @@ export default function ChatsPage() {
                 <SkeletonRow key={i} />
               ))}
             </div>
+          ) : isSearching && chats.length > 0 ? (
+            <SearchResults
+              query={searchQuery.trim()}
+              hits={searchHits}
+              chats={chats}
+              searching={searching}
+              currentUserId={userId}
+            />
           ) : chats.length === 0 ? (
             <EmptyState
               onNewChat={() => setShowNewDM(true)}
@@ -1208,9 +1519,9 @@ export default function ChatsPage() {
           setShowNotifications(false)
           refreshNotificationCount()
         }}
-        onNavigateToRoom={(roomId) => {
+        onNavigateToRoom={(roomId, messageId) => {
           setShowNotifications(false)
-          router.push(`/room/${roomId}`)
+          router.push(messageId ? `/room/${roomId}?message=${messageId}` : `/room/${roomId}`)
         }}
         onNavigateToProfile={(userId) => {
           setShowNotifications(false)
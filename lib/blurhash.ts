@@ -0,0 +1,193 @@
+/**
+ * BlurHash placeholders for uploaded images
+ *
+ * A blurhash is a ~30 character string describing a blurred version of an
+ * image (https://blurha.sh). It is computed in the browser when an image is
+ * uploaded (see lib/mediaUpload.ts), stored next to the image URL, and
+ * decoded into a tiny data URL to show while the real image loads.
+ */
+
+import type { CSSProperties } from 'react'
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~'
+
+type Color = [number, number, number]
+
+const encode83 = (value: number, length: number): string => {
+  let result = ''
+  for (let i = 1; i <= length; i++) {
+    result += DIGITS[Math.floor(value / Math.pow(83, length - i)) % 83]
+  }
+  return result
+}
+
+const decode83 = (str: string): number => {
+  let value = 0
+  for (const char of str) {
+    const digit = DIGITS.indexOf(char)
+    if (digit === -1) return NaN
+    value = value * 83 + digit
+  }
+  return value
+}
+
+const sRGBToLinear = (value: number): number => {
+  const v = value / 255
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+}
+
+const linearToSRGB = (value: number): number => {
+  const v = Math.max(0, Math.min(1, value))
+  return v <= 0.0031308
+    ? Math.trunc(v * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5)
+}
+
+const signPow = (value: number, exp: number): number =>
+  Math.sign(value) * Math.pow(Math.abs(value), exp)
+
+/**
+ * Encode RGBA pixels (as from getImageData) into a blurhash.
+ * Keep the pixel grid small (32px or so); the cost is per pixel per component.
+ */
+export function encodeBlurhash(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  componentsX = 4,
+  componentsY = 3
+): string {
+  const factors: Color[] = []
+  for (let j = 0; j < componentsY; j++) {
+    for (let i = 0; i < componentsX; i++) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2
+      const factor: Color = [0, 0, 0]
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const basis = normalisation * Math.cos((Math.PI * i * x) / width) * Math.cos((Math.PI * j * y) / height)
+          const offset = 4 * (x + y * width)
+          factor[0] += basis * sRGBToLinear(pixels[offset])
+          factor[1] += basis * sRGBToLinear(pixels[offset + 1])
+          factor[2] += basis * sRGBToLinear(pixels[offset + 2])
+        }
+      }
+      const scale = 1 / (width * height)
+      factors.push([factor[0] * scale, factor[1] * scale, factor[2] * scale])
+    }
+  }
+
+  const [dc, ...ac] = factors
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1)
+
+  let maximumValue = 1
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.flatMap(color => color.map(Math.abs)))
+    const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)))
+    maximumValue = (quantisedMaximum + 1) / 166
+    hash += encode83(quantisedMaximum, 1)
+  } else {
+    hash += encode83(0, 1)
+  }
+
+  hash += encode83((linearToSRGB(dc[0]) << 16) + (linearToSRGB(dc[1]) << 8) + linearToSRGB(dc[2]), 4)
+
+  for (const color of ac) {
+    const [r, g, b] = color.map(value =>
+      Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)))
+    )
+    hash += encode83(r * 19 * 19 + g * 19 + b, 2)
+  }
+
+  return hash
+}
+
+/**
+ * Decode a blurhash into RGBA pixels, or null if the hash is malformed
+ */
+export function decodeBlurhash(hash: string, width: number, height: number): Uint8ClampedArray | null {
+  if (!hash || hash.length < 6) return null
+
+  const sizeFlag = decode83(hash[0])
+  const componentsY = Math.floor(sizeFlag / 9) + 1
+  const componentsX = (sizeFlag % 9) + 1
+  if (Number.isNaN(sizeFlag) || hash.length !== 4 + 2 * componentsX * componentsY) return null
+
+  const maximumValue = (decode83(hash[1]) + 1) / 166
+  const colors: Color[] = []
+
+  const dc = decode83(hash.substring(2, 6))
+  colors.push([sRGBToLinear(dc >> 16), sRGBToLinear((dc >> 8) & 255), sRGBToLinear(dc & 255)])
+
+  for (let i = 1; i < componentsX * componentsY; i++) {
+    const value = decode83(hash.substring(4 + i * 2, 6 + i * 2))
+    colors.push([
+      signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue,
+      signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+      signPow(((value % 19) - 9) / 9, 2) * maximumValue,
+    ])
+  }
+  if (colors.some(color => color.some(Number.isNaN))) return null
+
+  const pixels = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0
+      let g = 0
+      let b = 0
+      for (let j = 0; j < componentsY; j++) {
+        for (let i = 0; i < componentsX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height)
+          const color = colors[i + j * componentsX]
+          r += color[0] * basis
+          g += color[1] * basis
+          b += color[2] * basis
+        }
+      }
+      const offset = 4 * (x + y * width)
+      pixels[offset] = linearToSRGB(r)
+      pixels[offset + 1] = linearToSRGB(g)
+      pixels[offset + 2] = linearToSRGB(b)
+      pixels[offset + 3] = 255
+    }
+  }
+  return pixels
+}
+
+// Decoding is cheap but not free, and the same hashes render over and over
+const dataUrlCache = new Map<string, string | null>()
+
+/**
+ * Decode a blurhash into a small PNG data URL for use as a placeholder
+ * (a CSS background or next/image blurDataURL). Null on the server or
+ * for a missing or malformed hash.
+ */
+export function blurhashToDataUrl(hash: string | null | undefined, size = 32): string | null {
+  if (!hash || typeof document === 'undefined') return null
+  const key = `${hash}:${size}`
+  const cached = dataUrlCache.get(key)
+  if (cached !== undefined) return cached
+
+  let url: string | null = null
+  const pixels = decodeBlurhash(hash, size, size)
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')
+  if (pixels && ctx) {
+    const imageData = ctx.createImageData(size, size)
+    imageData.data.set(pixels)
+    ctx.putImageData(imageData, 0, 0)
+    url = canvas.toDataURL('image/png')
+  }
+
+  dataUrlCache.set(key, url)
+  return url
+}
+
+/**
+ * Inline style that shows a blurhash behind an <img> until it has loaded
+ */
+export function blurhashPlaceholderStyle(hash: string | null | undefined): CSSProperties | undefined {
+  const url = blurhashToDataUrl(hash)
+  return url ? { backgroundImage: `url(${url})`, backgroundSize: 'cover', backgroundPosition: 'center' } : undefined
+}
@@ -0,0 +1,227 @@
+/**
+ * Server-side email delivery, the fallback channel for members web push
+ * can't reach (iOS Safari without the installed app, blocked permissions)
+ *
+ * Builds typed emails for turn, nudge and invite events and hands them to a
+ * pluggable transport: SMTP (SMTP_HOST etc.), or a file sink that writes each
+ * email as JSON into EMAIL_SINK_DIR so tests can read what would have gone out.
+ */
+
+import { randomBytes } from 'node:crypto'
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import nodemailer from 'nodemailer'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// ============================================
+// Payloads
+// ============================================
+
+export type EmailPayload =
+  | { type: 'turn'; roomId: string; roomName: string; prompt?: string | null }
+  | { type: 'nudge'; roomId: string; roomName: string }
+  | { type: 'invite'; roomId: string; roomName: string; inviterName: string; inviteCode: string }
+
+export type EmailPayloadType = EmailPayload['type']
+
+export interface EmailContent {
+  subject: string
+  text: string
+  html: string
+}
+
+export interface EmailMessage extends EmailContent {
+  from: string
+  to: string
+}
+
+/** Absolute base URL for links in emails */
+export function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '')
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Shared layout: a line or two of copy and one button
+function renderEmail(lines: string[], action: { label: string; url: string }): { text: string; html: string } {
+  const text = [...lines, '', `${action.label}: ${action.url}`, '', '— Spin the Chat'].join('\n')
+  const html = [
+    '<div style="font-family:-apple-system,BlinkMacSystemFont,Segoe UI,sans-serif;max-width:480px;margin:0 auto;padding:24px;color:#1c1917">',
+    ...lines.map(line => `<p style="font-size:15px;line-height:1.5;margin:0 0 12px">${escapeHtml(line)}</p>`),
+    `<p style="margin:20px 0"><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:10px 18px;border-radius:10px;background:#6366f1;color:#fff;text-decoration:none;font-weight:600">${escapeHtml(action.label)}</a></p>`,
+    '<p style="font-size:12px;color:#a8a29e;margin:24px 0 0">You can turn off email for a group in its settings.</p>',
+    '</div>',
+  ].join('')
+  return { text, html }
+}
+
+/**
+ * Turn a typed payload into the email to send
+ */
+export function buildEmail(payload: EmailPayload, appUrl: string = getAppUrl()): EmailContent {
+  switch (payload.type) {
+    case 'turn':
+      return {
+        subject: `It's your turn in ${payload.roomName}`,
+        ...renderEmail(
+          [
+            `It's your turn in ${payload.roomName}.`,
+            ...(payload.prompt ? [`Your prompt: "${payload.prompt}"`] : []),
+          ],
+          { label: 'Take your turn', url: `${appUrl}/room/${payload.roomId}` }
+        ),
+      }
+    case 'nudge':
+      return {
+        subject: `👀 ${payload.roomName} is waiting on you`,
+        ...renderEmail(
+          [`The group nudged you — it's your turn in ${payload.roomName}.`],
+          { label: 'Take your turn', url: `${appUrl}/room/${payload.roomId}` }
+        ),
+      }
+    case 'invite':
+      return {
+        subject: `${payload.inviterName} invited you to ${payload.roomName}`,
+        ...renderEmail(
+          [`${payload.inviterName} invited you to join ${payload.roomName} on Spin the Chat.`],
+          { label: 'Join the group', url: `${appUrl}/join/${payload.inviteCode}` }
+        ),
+      }
+  }
+}
+
+// ============================================
+// Transports
+// ============================================
+
+/**
+ * Sends one email. Resolves once the message is accepted, throws otherwise.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>
+}
+
+/**
+ * Writes each email as a JSON file - for tests and local development
+ */
+export function createFileSinkTransport(dir: string): EmailTransport {
+  return {
+    async send(message) {
+      await mkdir(dir, { recursive: true })
+      const file = path.join(dir, `${Date.now()}-${randomBytes(4).toString('hex')}.json`)
+      await writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2))
+    },
+  }
+}
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when offered. */
+  secure: boolean
+  user?: string
+  pass?: string
+}
+
+const SMTP_TIMEOUT_MS = 30_000
+
+/**
+ * SMTP through nodemailer
+ */
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user && config.pass ? { user: config.user, pass: config.pass } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  })
+
+  return {
+    async send(message) {
+      await transporter.sendMail(message)
+    },
+  }
+}
+
+/**
+ * File sink when EMAIL_SINK_DIR is set, SMTP when SMTP_HOST is set, otherwise none
+ */
+export function getDefaultEmailTransport(): EmailTransport | null {
+  const sinkDir = process.env.EMAIL_SINK_DIR
+  if (sinkDir) return createFileSinkTransport(sinkDir)
+
+  const host = process.env.SMTP_HOST
+  if (!host) return null
+
+  const port = Number(process.env.SMTP_PORT || 587)
+  return createSmtpTransport({
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+  })
+}
+
+function getFromAddress(): string {
+  return process.env.EMAIL_FROM || 'Spin the Chat <hello@spinthechat.com>'
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+export interface EmailDeliveryResult {
+  status: 'sent' | 'failed'
+  error?: string
+}
+
+export interface EmailDeliveryOptions {
+  transport?: EmailTransport
+}
+
+/**
+ * Send one email and record the attempt in email_delivery_attempts
+ * (sql/email_notifications.sql). Never throws.
+ */
+export async function sendEmail(
+  supabaseAdmin: SupabaseClient,
+  recipient: { email: string; userId: string | null },
+  payload: EmailPayload,
+  options: EmailDeliveryOptions = {}
+): Promise<EmailDeliveryResult> {
+  const transport = options.transport ?? getDefaultEmailTransport()
+  if (!transport) return { status: 'failed', error: 'Email transport not configured' }
+
+  let result: EmailDeliveryResult
+  try {
+    await transport.send({ from: getFromAddress(), to: recipient.email, ...buildEmail(payload) })
+    result = { status: 'sent' }
+  } catch (err) {
+    result = { status: 'failed', error: err instanceof Error ? err.message : String(err) }
+    console.error(`[email] ${payload.type} delivery failed:`, result.error)
+  }
+
+  const { error } = await supabaseAdmin
+    .from('email_delivery_attempts')
+    .insert({
+      user_id: recipient.userId,
+      recipient: recipient.email,
+      payload_type: payload.type,
+      room_id: payload.roomId,
+      status: result.status,
+      error: result.error ?? null,
+    })
+  if (error) console.error('[email] Failed to log delivery attempt:', error)
+
+  return result
+}
@@ -0,0 +1,218 @@
+/**
+ * Shared upload pipeline for photos: chat images, photo turns, avatars,
+ * profile photos and stories
+ *
+ * Images are decoded in the browser, scaled down and re-encoded before
+ * upload, which also drops EXIF metadata such as GPS location. Each image
+ * gets a blurhash placeholder (see lib/blurhash.ts) and a random storage
+ * key. Uploads go over XHR so they can report progress and be cancelled
+ * through an AbortSignal (see lib/useUploadTask.ts).
+ */
+
+import { supabase, supabaseAnonKey, supabaseUrl } from './supabaseClient'
+import { encodeBlurhash } from './blurhash'
+
+// Longest edge for photos; plenty for a phone screen at 3x
+export const IMAGE_MAX_DIMENSION = 2048
+export const AVATAR_MAX_DIMENSION = 512
+
+// Originals are shrunk before upload, so they may be larger than stored photos
+export const IMAGE_MAX_INPUT_BYTES = 25 * 1024 * 1024
+
+const JPEG_QUALITY = 0.85
+// Images are drawn this wide (or tall) to compute their blurhash
+const BLURHASH_SAMPLE_SIZE = 32
+
+export interface PreparedImage {
+  blob: Blob
+  extension: string
+  width: number
+  height: number
+  blurhash: string | null
+}
+
+export interface UploadedImage {
+  url: string
+  path: string
+  width: number
+  height: number
+  blurhash: string | null
+}
+
+export interface UploadOptions {
+  // Fraction of the upload sent so far, 0 to 1
+  onProgress?: (fraction: number) => void
+  signal?: AbortSignal
+}
+
+const UNREADABLE = "Couldn't read that image. Try a different one."
+
+const abortError = () => new DOMException('Upload cancelled', 'AbortError')
+
+/**
+ * True for the error an upload rejects with when its signal is aborted
+ */
+export function isUploadCancelled(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
+
+/**
+ * A storage key that can't collide: `${folder}/${uuid}.${extension}`
+ */
+export function createStoragePath(folder: string, extension: string): string {
+  return `${folder}/${crypto.randomUUID()}.${extension}`
+}
+
+// Browsers apply EXIF orientation when decoding into an <img>
+const loadImage = async (url: string): Promise<HTMLImageElement> => {
+  const img = new Image()
+  img.src = url
+  try {
+    await img.decode()
+  } catch {
+    throw new Error(UNREADABLE)
+  }
+  if (!img.naturalWidth || !img.naturalHeight) throw new Error(UNREADABLE)
+  return img
+}
+
+const computeBlurhash = (source: CanvasImageSource, width: number, height: number): string | null => {
+  const scale = BLURHASH_SAMPLE_SIZE / Math.max(width, height)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+  try {
+    return encodeBlurhash(ctx.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Scale a picked image down to maxDimension and re-encode it, stripping
+ * its metadata. PNGs stay PNG to keep transparency; everything else becomes
+ * JPEG. GIFs go up as they are so they keep animating.
+ * Throws an Error whose message can be shown as is.
+ */
+export async function prepareImage(file: File, maxDimension = IMAGE_MAX_DIMENSION): Promise<PreparedImage> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please select an image file')
+  }
+  if (file.size > IMAGE_MAX_INPUT_BYTES) {
+    throw new Error(`Image must be less than ${IMAGE_MAX_INPUT_BYTES / (1024 * 1024)}MB`)
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const img = await loadImage(url)
+    const blurhash = computeBlurhash(img, img.naturalWidth, img.naturalHeight)
+
+    if (file.type === 'image/gif') {
+      return { blob: file, extension: 'gif', width: img.naturalWidth, height: img.naturalHeight, blurhash }
+    }
+
+    const keepAlpha = file.type === 'image/png'
+    const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(img.naturalWidth * scale)
+    canvas.height = Math.round(img.naturalHeight * scale)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error(UNREADABLE)
+
+    // JPEG has no alpha; transparent areas would otherwise turn black
+    if (!keepAlpha) {
+      ctx.fillStyle = '#ffffff'
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+    }
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+
+    const type = keepAlpha ? 'image/png' : 'image/jpeg'
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, JPEG_QUALITY))
+    if (!blob) throw new Error(UNREADABLE)
+
+    return { blob, extension: keepAlpha ? 'png' : 'jpg', width: canvas.width, height: canvas.height, blurhash }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+const readStorageError = (xhr: XMLHttpRequest): string => {
+  try {
+    const body = JSON.parse(xhr.responseText)
+    if (body?.message) return body.message
+  } catch {
+    // Not JSON; fall through
+  }
+  return `Upload failed (${xhr.status})`
+}
+
+/**
+ * Upload a blob to a storage bucket and return its public URL.
+ * Same request supabase.storage.upload makes, over XHR for progress events.
+ */
+export async function uploadToStorage(
+  bucket: string,
+  path: string,
+  body: Blob,
+  { onProgress, signal }: UploadOptions = {}
+): Promise<string> {
+  if (signal?.aborted) throw abortError()
+  const { data: { session } } = await supabase.auth.getSession()
+  if (signal?.aborted) throw abortError()
+
+  const objectPath = path.split('/').map(encodeURIComponent).join('/')
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    const abort = () => xhr.abort()
+    const settle = (done: () => void) => {
+      signal?.removeEventListener('abort', abort)
+      done()
+    }
+
+    xhr.open('POST', `${supabaseUrl}/storage/v1/object/${bucket}/${objectPath}`)
+    xhr.setRequestHeader('apikey', supabaseAnonKey)
+    xhr.setRequestHeader('Authorization', `Bearer ${session?.access_token ?? supabaseAnonKey}`)
+    xhr.setRequestHeader('Content-Type', body.type || 'application/octet-stream')
+    xhr.setRequestHeader('Cache-Control', 'max-age=3600')
+    xhr.setRequestHeader('x-upsert', 'false')
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total)
+    }
+    xhr.onload = () => settle(() => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(1)
+        resolve()
+      } else {
+        reject(new Error(readStorageError(xhr)))
+      }
+    })
+    xhr.onerror = () => settle(() => reject(new Error('Upload failed. Check your connection and try again.')))
+    xhr.onabort = () => settle(() => reject(abortError()))
+
+    signal?.addEventListener('abort', abort, { once: true })
+    xhr.send(body)
+  })
+
+  return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl
+}
+
+/**
+ * Prepare and upload an image under folder in bucket
+ */
+export async function uploadImage(
+  bucket: string,
+  folder: string,
+  file: File,
+  options: UploadOptions & { maxDimension?: number } = {}
+): Promise<UploadedImage> {
+  const image = await prepareImage(file, options.maxDimension)
+  const path = createStoragePath(folder, image.extension)
+  const url = await uploadToStorage(bucket, path, image.blob, options)
+  return { url, path, width: image.width, height: image.height, blurhash: image.blurhash }
+}
@@ -0,0 +1,411 @@
+/**
+ * Push first, email as the fallback
+ *
+ * Honors the member's per-room channel prefs (get_notification_channels in
+ * sql/email_notifications.sql) and only emails when no push subscription
+ * accepted the notification. During the member's quiet hours both are
+ * queued together (sql/quiet_hours.sql) and sent by deliverDueNotifications
+ * once the window ends. revealDueRounds does the same for round deadlines,
+ * and notifyHotSeatEvents for hot seat questions.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  buildNotification,
+  getDefaultTransport,
+  sendPushToUser,
+  type PushDeliverySummary,
+  type PushPayload,
+  type PushTransport,
+} from './pushDelivery'
+import {
+  getDefaultEmailTransport,
+  sendEmail,
+  type EmailDeliveryResult,
+  type EmailPayload,
+  type EmailTransport,
+} from './emailDelivery'
+
+export interface ChannelTransports {
+  pushTransport?: PushTransport | null
+  emailTransport?: EmailTransport | null
+}
+
+export interface NotifyOptions extends ChannelTransports {
+  /** Send even during the user's quiet hours (used when flushing the queue) */
+  ignoreQuietHours?: boolean
+}
+
+export interface NotifyResult {
+  push: PushDeliverySummary | null
+  email: EmailDeliveryResult | null
+  /** Set when the user was in quiet hours and both channels were queued */
+  deferredUntil?: string
+}
+
+/** Transports configured from the environment; either may be null */
+export function getDefaultChannelTransports(): Required<ChannelTransports> {
+  return { pushTransport: getDefaultTransport(), emailTransport: getDefaultEmailTransport() }
+}
+
+export function hasAnyChannel(transports: ChannelTransports): boolean {
+  return !!transports.pushTransport || !!transports.emailTransport
+}
+
+/**
+ * Notify a user about a room event over push, falling back to email
+ */
+export async function notifyUser(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  roomId: string,
+  payloads: { push: PushPayload; email: EmailPayload },
+  options: NotifyOptions = getDefaultChannelTransports()
+): Promise<NotifyResult> {
+  if (!options.ignoreQuietHours) {
+    const { data: deferredUntil, error: deferError } = await supabaseAdmin.rpc('defer_notification_if_quiet', {
+      p_user_id: userId,
+      p_tag: buildNotification(payloads.push).tag,
+      p_push_payload: payloads.push,
+      p_email_payload: payloads.email,
+      p_room_id: roomId,
+    })
+
+    if (deferError) {
+      console.error('[notify] Error checking quiet hours:', deferError)
+    } else if (deferredUntil) {
+      return { push: null, email: null, deferredUntil }
+    }
+  }
+
+  const { data: channels, error } = await supabaseAdmin
+    .rpc('get_notification_channels', { p_user_id: userId, p_room_id: roomId })
+    .maybeSingle<{ email: string | null; push_enabled: boolean; email_enabled: boolean }>()
+
+  if (error) {
+    console.error('[notify] Error fetching channels:', error)
+    throw error
+  }
+
+  if (!channels) return { push: null, email: null }
+
+  let push: PushDeliverySummary | null = null
+  if (channels.push_enabled && options.pushTransport) {
+    push = await sendPushToUser(supabaseAdmin, userId, payloads.push, {
+      transport: options.pushTransport,
+      ignoreQuietHours: true,
+    }).catch((err) => {
+      console.error('[notify] Push error:', err)
+      return null
+    })
+  }
+
+  if (push && push.sent > 0) return { push, email: null }
+
+  let email: EmailDeliveryResult | null = null
+  if (channels.email_enabled && channels.email && options.emailTransport) {
+    email = await sendEmail(
+      supabaseAdmin,
+      { email: channels.email, userId },
+      payloads.email,
+      { transport: options.emailTransport }
+    )
+  }
+
+  return { push, email }
+}
+
+/**
+ * Tell everyone who hasn't answered the room's open round that it's their
+ * turn too (sql/everyone_answers.sql). Returns how many were reached.
+ */
+export async function notifyRoundParticipants(
+  supabaseAdmin: SupabaseClient,
+  roomId: string,
+  roomName: string,
+  options: NotifyOptions = getDefaultChannelTransports()
+): Promise<number> {
+  const { data: session } = await supabaseAdmin
+    .from('turn_sessions')
+    .select('current_round_id')
+    .eq('room_id', roomId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (!session?.current_round_id) return 0
+
+  const [{ data: round }, { data: answers }] = await Promise.all([
+    supabaseAdmin
+      .from('turn_rounds')
+      .select('prompt_text, participant_ids')
+      .eq('id', session.current_round_id)
+      .single(),
+    supabaseAdmin
+      .from('round_answers')
+      .select('user_id')
+      .eq('round_id', session.current_round_id),
+  ])
+
+  if (!round) return 0
+
+  const answered = new Set((answers ?? []).map((a: { user_id: string }) => a.user_id))
+  let reached = 0
+
+  for (const userId of round.participant_ids as string[]) {
+    if (answered.has(userId)) continue
+    try {
+      const { push, email, deferredUntil } = await notifyUser(supabaseAdmin, userId, roomId, {
+        push: { type: 'turn', roomId, roomName },
+        email: { type: 'turn', roomId, roomName, prompt: round.prompt_text ?? null },
+      }, options)
+      if (deferredUntil || (push?.sent ?? 0) > 0 || email?.status === 'sent') reached++
+    } catch (err) {
+      console.error('[notify] Round notification error:', err)
+    }
+  }
+
+  return reached
+}
+
+export interface RevealedRound {
+  room_id: string
+  round_id: string
+  revealed_count: number
+}
+
+/**
+ * Reveal 'everyone answers' rounds whose deadline has passed, then tell
+ * members about the next round. Returns the rounds revealed.
+ *
+ * Like deliverDueNotifications this runs from the daily auto-skip cron and
+ * after turn and message events; get_round_status also reveals a room's
+ * round when someone opens it. A round in a room nobody touches can stay
+ * past its deadline until the next daily run.
+ */
+export async function revealDueRounds(
+  supabaseAdmin: SupabaseClient,
+  transports: ChannelTransports = getDefaultChannelTransports()
+): Promise<RevealedRound[]> {
+  const { data, error } = await supabaseAdmin.rpc('process_round_deadlines')
+
+  if (error) {
+    console.error('[rounds] Error processing round deadlines:', error)
+    throw error
+  }
+
+  const revealed: RevealedRound[] = data || []
+  if (revealed.length === 0) return revealed
+
+  console.log(`[rounds] Revealed ${revealed.length} rounds:`, revealed)
+
+  if (hasAnyChannel(transports)) {
+    for (const round of revealed) {
+      try {
+        const { data: room } = await supabaseAdmin
+          .from('rooms')
+          .select('name')
+          .eq('id', round.room_id)
+          .single()
+        const reached = await notifyRoundParticipants(supabaseAdmin, round.room_id, room?.name || 'Spin the Chat', transports)
+        console.log(`[rounds] Notified ${reached} members of the next round in room ${round.room_id}`)
+      } catch (notifyErr) {
+        console.error('[rounds] Error sending notification:', notifyErr)
+      }
+    }
+  }
+
+  return revealed
+}
+
+interface HotSeatNotification {
+  room_id: string
+  kind: 'opened' | 'picked'
+  holder_id: string | null
+}
+
+export interface HotSeatNotificationSummary {
+  opened: number
+  picked: number
+}
+
+/**
+ * Send the hot seat notifications that are due (claim_hot_seat_notifications
+ * in sql/hot_seat.sql): the room once the question window opens, the turn
+ * holder once their question is picked. A question is picked either by the
+ * cron or by a member's get_hot_seat_status, so this runs from the daily
+ * auto-skip cron and after turn and message events, and each notification
+ * goes out once from whichever gets there first. Pass roomId to handle just
+ * that room.
+ */
+export async function notifyHotSeatEvents(
+  supabaseAdmin: SupabaseClient,
+  transports: ChannelTransports = getDefaultChannelTransports(),
+  roomId?: string
+): Promise<HotSeatNotificationSummary> {
+  const summary: HotSeatNotificationSummary = { opened: 0, picked: 0 }
+
+  // Leave them pending until a channel is configured
+  if (!hasAnyChannel(transports)) return summary
+
+  const { data, error } = await supabaseAdmin.rpc('claim_hot_seat_notifications', {
+    p_room_id: roomId ?? null,
+  })
+
+  if (error) {
+    console.error('[hot-seat] Error claiming notifications:', error)
+    throw error
+  }
+
+  const due: HotSeatNotification[] = data || []
+
+  for (const item of due) {
+    if (!item.holder_id) continue
+    try {
+      const { data: room } = await supabaseAdmin
+        .from('rooms')
+        .select('name')
+        .eq('id', item.room_id)
+        .single()
+      const roomName = room?.name || 'Spin the Chat'
+
+      if (item.kind === 'picked') {
+        const { data: session } = await supabaseAdmin
+          .from('turn_sessions')
+          .select('prompt_text')
+          .eq('room_id', item.room_id)
+          .eq('is_active', true)
+          .maybeSingle()
+
+        await notifyUser(supabaseAdmin, item.holder_id, item.room_id, {
+          push: { type: 'turn', roomId: item.room_id, roomName, body: "🔥 Your hot seat question is ready — it's your turn!" },
+          email: { type: 'turn', roomId: item.room_id, roomName, prompt: session?.prompt_text ?? null },
+        }, transports)
+        summary.picked++
+        continue
+      }
+
+      // Push only: there's no email for asking questions
+      if (!transports.pushTransport) continue
+
+      const [{ data: holder }, { data: members }] = await Promise.all([
+        supabaseAdmin.from('profiles').select('display_name').eq('id', item.holder_id).maybeSingle(),
+        supabaseAdmin.from('room_members').select('user_id').eq('room_id', item.room_id).neq('user_id', item.holder_id),
+      ])
+      const holderName = holder?.display_name || 'Someone'
+
+      for (const member of (members ?? []) as { user_id: string }[]) {
+        await sendPushToUser(supabaseAdmin, member.user_id, {
+          type: 'hot_seat',
+          roomId: item.room_id,
+          roomName,
+          holderName,
+        }, { transport: transports.pushTransport })
+      }
+      summary.opened++
+    } catch (notifyErr) {
+      console.error('[hot-seat] Error sending notification:', notifyErr)
+    }
+  }
+
+  if (due.length > 0) {
+    console.log(`[hot-seat] ${summary.opened} windows opened, ${summary.picked} questions picked`)
+  }
+
+  return summary
+}
+
+interface DeferredNotification {
+  user_id: string
+  room_id: string | null
+  push_payload: PushPayload
+  email_payload: EmailPayload | null
+}
+
+export interface DeferredDeliverySummary {
+  processed: number
+  sent: number
+  dropped: number
+}
+
+/**
+ * Send notifications held back by quiet hours whose window has ended.
+ *
+ * Crons only run daily on the deployment plan, so this runs from the daily
+ * auto-skip cron and after turn and message events (notify-turn,
+ * notify-message); a quiet room's queue waits for the next daily run.
+ * Claimed rows are removed, so a failed send isn't retried.
+ */
+export async function deliverDueNotifications(
+  supabaseAdmin: SupabaseClient,
+  transports: ChannelTransports = getDefaultChannelTransports()
+): Promise<DeferredDeliverySummary> {
+  // Leave the queue alone until a channel is configured
+  if (!hasAnyChannel(transports)) return { processed: 0, sent: 0, dropped: 0 }
+
+  const { data, error } = await supabaseAdmin.rpc('claim_due_notifications')
+
+  if (error) {
+    console.error('[deferred] Error claiming notifications:', error)
+    throw error
+  }
+
+  const due: DeferredNotification[] = data || []
+  let sent = 0
+  let dropped = 0
+
+  for (const item of due) {
+    try {
+      if (!(await isStillRelevant(supabaseAdmin, item))) {
+        dropped++
+        continue
+      }
+
+      if (item.email_payload && item.room_id) {
+        const { push, email } = await notifyUser(supabaseAdmin, item.user_id, item.room_id, {
+          push: item.push_payload,
+          email: item.email_payload,
+        }, { ...transports, ignoreQuietHours: true })
+        if ((push?.sent ?? 0) > 0 || email?.status === 'sent') sent++
+      } else if (transports.pushTransport) {
+        const push = await sendPushToUser(supabaseAdmin, item.user_id, item.push_payload, {
+          transport: transports.pushTransport,
+          ignoreQuietHours: true,
+        })
+        if (push.sent > 0) sent++
+      }
+    } catch (notifyErr) {
+      console.error('[deferred] Error sending notification:', notifyErr)
+    }
+  }
+
+  if (due.length > 0) {
+    console.log(`[deferred] Processed ${due.length} (${sent} sent, ${dropped} stale)`)
+  }
+
+  return { processed: due.length, sent, dropped }
+}
+
+// "Your turn" and nudges only make sense while it's still that person's turn,
+// or while they still haven't answered the open round
+async function isStillRelevant(supabaseAdmin: SupabaseClient, item: DeferredNotification) {
+  if (item.push_payload.type !== 'turn' && item.push_payload.type !== 'nudge') return true
+
+  const { data: session } = await supabaseAdmin
+    .from('turn_sessions')
+    .select('current_turn_user_id, current_round_id')
+    .eq('room_id', item.push_payload.roomId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (session?.current_round_id) {
+    const { data: answer } = await supabaseAdmin
+      .from('round_answers')
+      .select('user_id')
+      .eq('round_id', session.current_round_id)
+      .eq('user_id', item.user_id)
+      .maybeSingle()
+    return !answer
+  }
+
+  return session?.current_turn_user_id === item.user_id
+}
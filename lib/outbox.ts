@@ -0,0 +1,401 @@
+/**
+ * Offline outbox for chat messages, photos and turn answers
+ *
+ * Anything sent from a room is written to IndexedDB first and sent from
+ * there, so nothing is lost to a dropped connection or a closed tab. Items
+ * that can't be sent yet stay queued: the room page retries them while it
+ * is open (see app/room/[id]/hooks/useOutbox.ts), and public/sw.js sends
+ * them through Background Sync once the device is back online, even with
+ * the app closed, using the session the page last saved (if that has
+ * expired, the items wait for the page). The service worker reads this
+ * same database, so its layout and the retry rules below must stay in
+ * step with sw.js.
+ *
+ * Photos sent while online are uploaded by the page itself, with progress
+ * and cancel, and only their message is queued here. A photo picked while
+ * offline is stored with its item and uploaded when the item is sent.
+ * Turn answers are queued only as text: photo, video, voice and poll
+ * answers need a connection, and the room page says so while offline.
+ *
+ * Each item's id is generated on the client and becomes the message id,
+ * so a retry of something that already arrived is recognised (see
+ * sql/message_outbox.sql) and realtime inserts replace the queued copy.
+ */
+
+import { supabase, supabaseAnonKey, supabaseUrl } from './supabaseClient'
+
+const DB_NAME = 'outbox'
+const DB_VERSION = 1
+const ITEMS_STORE = 'items'
+const META_STORE = 'meta'
+// Key in META_STORE holding what sw.js needs to call Supabase
+const SESSION_KEY = 'session'
+
+export const OUTBOX_SYNC_TAG = 'outbox'
+
+// Server errors (not being offline) before an item is given up on
+const MAX_ATTEMPTS = 5
+const RETRY_BASE_MS = 5_000
+const RETRY_MAX_MS = 5 * 60_000
+// A saved token with less than this left is refreshed before handing over
+// to Background Sync, so sw.js doesn't wake up holding an expired one
+const SESSION_REFRESH_MARGIN_MS = 30 * 60_000
+
+export type OutboxStatus = 'pending' | 'failed'
+
+// Read by sw.js as well
+export interface OutboxItem {
+  // Generated on the client; the message id once sent
+  id: string
+  roomId: string
+  userId: string
+  createdAt: string
+  status: OutboxStatus
+  attempts: number
+  // Not retried before this time (ms since epoch)
+  retryAt: number
+  error: string | null
+  // The message as it shows in the list while queued
+  message: {
+    type: 'chat' | 'image' | 'turn_response'
+    content: string
+    reply_to_message_id: string | null
+    mentions?: unknown
+    payload?: unknown
+  }
+  // Only for photos queued offline. Uploaded first; message content
+  // already points at its public URL
+  upload?: { bucket: string; path: string; blob: Blob }
+  // A row inserted into a table, or an RPC call
+  request: { table: 'messages'; row: Record<string, unknown> } | { rpc: string; args: Record<string, unknown> }
+  // Which push notification to trigger once sent
+  notify: 'message' | 'turn'
+}
+
+export type NewOutboxItem = Pick<OutboxItem, 'id' | 'roomId' | 'userId' | 'message' | 'upload' | 'request' | 'notify'>
+
+export type OutboxEvent =
+  | { type: 'changed' }
+  // Sent from this page; message is the stored row when it could be read back
+  | { type: 'sent'; item: OutboxItem; message: Record<string, unknown> | null }
+
+type SendOutcome = 'sent' | 'offline' | 'retry' | 'failed'
+
+// ============================================
+// IndexedDB
+// ============================================
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openOutbox = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(ITEMS_STORE)) db.createObjectStore(ITEMS_STORE, { keyPath: 'id' })
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }).catch((err) => {
+    dbPromise = null
+    throw err
+  })
+  return dbPromise
+}
+
+// Run one request in its own transaction and resolve once it has committed
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openOutbox()
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode)
+    const request = makeRequest(tx.objectStore(storeName))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+const getAllItems = () => runRequest<OutboxItem[]>(ITEMS_STORE, 'readonly', store => store.getAll())
+const getItem = (id: string) => runRequest<OutboxItem | undefined>(ITEMS_STORE, 'readonly', store => store.get(id))
+const putItem = (item: OutboxItem) => runRequest(ITEMS_STORE, 'readwrite', store => store.put(item))
+const deleteItem = (id: string) => runRequest(ITEMS_STORE, 'readwrite', store => store.delete(id))
+
+// ============================================
+// Change listeners
+// ============================================
+
+const listeners = new Set<(event: OutboxEvent) => void>()
+
+const emit = (event: OutboxEvent) => {
+  listeners.forEach(listener => listener(event))
+}
+
+let listeningToWorker = false
+let watchingSession = false
+
+/**
+ * Listen for changes to the outbox, including items sent by the service worker.
+ * Returns an unsubscribe function.
+ */
+export function subscribeOutbox(listener: (event: OutboxEvent) => void): () => void {
+  listeners.add(listener)
+  if (!listeningToWorker && 'serviceWorker' in navigator) {
+    listeningToWorker = true
+    navigator.serviceWorker.addEventListener('message', (e) => {
+      if (e.data?.type === 'outbox-changed') emit({ type: 'changed' })
+      // The worker's token ran out; the page can refresh it and send
+      if (e.data?.type === 'outbox-unauthorized') flushOutbox()
+    })
+  }
+  if (!watchingSession) {
+    watchingSession = true
+    // Keep the copy sw.js uses in step with the refreshed session
+    supabase.auth.onAuthStateChange((event, session) => {
+      if (session && (event === 'TOKEN_REFRESHED' || event === 'SIGNED_IN')) {
+        saveSession(session.user.id, session.access_token).catch(() => {})
+      }
+    })
+  }
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// ============================================
+// Queue
+// ============================================
+
+/**
+ * True if this browser can keep an outbox
+ */
+export function isOutboxSupported(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+/**
+ * Queued items for a room, oldest first
+ */
+export async function listOutboxItems(roomId: string): Promise<OutboxItem[]> {
+  const items = await getAllItems()
+  return items
+    .filter(item => item.roomId === roomId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/**
+ * Queue an item and start sending it
+ */
+export async function enqueueOutboxItem(item: NewOutboxItem): Promise<void> {
+  await putItem({
+    ...item,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    retryAt: 0,
+    error: null,
+  })
+  emit({ type: 'changed' })
+  flushOutbox()
+}
+
+/**
+ * Send a failed item again, starting its attempts over
+ */
+export async function retryOutboxItem(id: string): Promise<void> {
+  const item = await getItem(id)
+  if (!item) return
+  await putItem({ ...item, status: 'pending', attempts: 0, retryAt: 0, error: null })
+  emit({ type: 'changed' })
+  flushOutbox()
+}
+
+/**
+ * Drop an item without sending it
+ */
+export async function discardOutboxItem(id: string): Promise<void> {
+  await deleteItem(id)
+  emit({ type: 'changed' })
+}
+
+// ============================================
+// Sending
+// ============================================
+
+// Same rules as outboxOutcome in sw.js
+const classifyError = (status: number, code?: string): SendOutcome => {
+  if (status === 0) return 'offline'
+  // The id is already taken: this item arrived on an earlier attempt
+  if (status === 409 || code === '23505') return 'sent'
+  if (status >= 500 || status === 401 || status === 408 || status === 429) return 'retry'
+  return 'failed'
+}
+
+const uploadQueuedFile = async (
+  upload: NonNullable<OutboxItem['upload']>,
+  accessToken: string
+): Promise<{ outcome: SendOutcome; error: string | null }> => {
+  const objectPath = upload.path.split('/').map(encodeURIComponent).join('/')
+  let response: Response
+  try {
+    response = await fetch(`${supabaseUrl}/storage/v1/object/${upload.bucket}/${objectPath}`, {
+      method: 'POST',
+      headers: {
+        apikey: supabaseAnonKey,
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': upload.blob.type || 'application/octet-stream',
+        'Cache-Control': 'max-age=3600',
+        'x-upsert': 'false',
+      },
+      body: upload.blob,
+    })
+  } catch {
+    return { outcome: 'offline', error: null }
+  }
+  if (response.ok) return { outcome: 'sent', error: null }
+
+  const body = await response.json().catch(() => null)
+  // Storage reports an existing object as 409, sometimes inside a 400
+  const status = String(body?.statusCode) === '409' ? 409 : response.status
+  const outcome = classifyError(status)
+  return { outcome: outcome === 'failed' ? 'retry' : outcome, error: body?.message || `Upload failed (${response.status})` }
+}
+
+const sendItem = async (
+  item: OutboxItem,
+  accessToken: string
+): Promise<{ outcome: SendOutcome; error: string | null; message: Record<string, unknown> | null }> => {
+  if (item.upload) {
+    const uploaded = await uploadQueuedFile(item.upload, accessToken)
+    if (uploaded.outcome !== 'sent') return { ...uploaded, message: null }
+  }
+
+  if ('table' in item.request) {
+    const { data, error, status } = await supabase.from(item.request.table).insert(item.request.row).select().single()
+    if (!error) return { outcome: 'sent', error: null, message: data }
+    return { outcome: classifyError(status, error.code), error: error.message, message: null }
+  }
+
+  const { error, status } = await supabase.rpc(item.request.rpc, item.request.args)
+  if (error) return { outcome: classifyError(status, error.code), error: error.message, message: null }
+
+  // The RPC inserts under the item's id (p_client_id); read the row back so it
+  // shows before realtime catches up
+  const { data } = await supabase.from('messages').select('*').eq('id', item.id).maybeSingle()
+  return { outcome: 'sent', error: null, message: data }
+}
+
+const notifySent = (item: OutboxItem) => {
+  const request = item.notify === 'turn'
+    ? { url: '/api/push/notify-turn', body: { roomId: item.roomId } }
+    : { url: '/api/push/notify-message', body: { roomId: item.roomId, messageId: item.id, senderId: item.userId } }
+  fetch(request.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request.body),
+  }).catch(() => {}) // Ignore errors silently
+}
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS)
+
+// Keep a copy of the session where sw.js can reach it
+const saveSession = (userId: string, accessToken: string) =>
+  runRequest(META_STORE, 'readwrite', store =>
+    store.put({ supabaseUrl, anonKey: supabaseAnonKey, userId, accessToken }, SESSION_KEY)
+  )
+
+let flushing: Promise<void> | null = null
+
+const flush = async () => {
+  const items = (await getAllItems()).filter(item => item.status === 'pending')
+  if (items.length === 0) return
+
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) return
+  await saveSession(session.user.id, session.access_token)
+
+  const due = items
+    .filter(item => item.userId === session.user.id && item.retryAt <= Date.now())
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+  for (const item of due) {
+    const result = await sendItem(item, session.access_token)
+
+    // Discarded while it was being sent
+    if (!(await getItem(item.id))) continue
+
+    if (result.outcome === 'sent') {
+      await deleteItem(item.id)
+      notifySent(item)
+      emit({ type: 'sent', item, message: result.message })
+    } else if (result.outcome === 'offline') {
+      // Nothing else will get through either; Background Sync takes over
+      requestBackgroundSync()
+      break
+    } else {
+      const attempts = item.attempts + 1
+      const failed = result.outcome === 'failed' || attempts >= MAX_ATTEMPTS
+      await putItem({
+        ...item,
+        status: failed ? 'failed' : 'pending',
+        attempts,
+        retryAt: Date.now() + retryDelay(attempts),
+        error: result.error,
+      })
+    }
+    emit({ type: 'changed' })
+  }
+}
+
+/**
+ * Try to send every pending item that is due. Safe to call often; calls
+ * made while a flush is running share it.
+ */
+export function flushOutbox(): Promise<void> {
+  flushing ??= flush()
+    .catch((err) => {
+      console.warn('[outbox] Flush failed:', err)
+    })
+    .finally(() => {
+      flushing = null
+    })
+  return flushing
+}
+
+// Save the session for sw.js, refreshing it first if it is about to expire.
+// Fails quietly when offline; sw.js then waits for the page on a 401.
+const saveFreshSession = async () => {
+  let { data: { session } } = await supabase.auth.getSession()
+  if (!session) return
+  if (session.expires_at && session.expires_at * 1000 - Date.now() < SESSION_REFRESH_MARGIN_MS) {
+    const { data } = await supabase.auth.refreshSession()
+    if (data.session) session = data.session
+  }
+  await saveSession(session.user.id, session.access_token)
+}
+
+/**
+ * Ask the service worker to send the outbox when the device is next online.
+ * Browsers without Background Sync rely on the page retrying instead.
+ */
+export async function requestBackgroundSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return
+  try {
+    await saveFreshSession()
+  } catch {
+    // Keep whatever session was saved last
+  }
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration()) ?? (await navigator.serviceWorker.register('/sw.js'))
+    const sync = (registration as ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> }
+    }).sync
+    await sync?.register(OUTBOX_SYNC_TAG)
+  } catch {
+    // Not supported or not allowed here
+  }
+}
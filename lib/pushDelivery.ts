@@ -0,0 +1,524 @@
+/**
+ * Server-side web push delivery shared by the /api/push routes and crons
+ *
+ * Builds typed notification payloads, sends them to every device a user has
+ * registered, retries transient push service failures (429/5xx) with backoff,
+ * and removes subscriptions the push service reports as gone (404/410).
+ *
+ * The transport is pluggable: web-push with VAPID by default, or a plain HTTP
+ * POST to PUSH_TRANSPORT_URL so a local fake push endpoint can receive them.
+ */
+
+import webpush from 'web-push'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// ============================================
+// Payloads
+// ============================================
+
+export type PushPayload =
+  | { type: 'turn'; roomId: string; roomName: string; body?: string }
+  | { type: 'turn_skipped'; roomId: string; roomName: string; removed: boolean }
+  | { type: 'hot_seat'; roomId: string; roomName: string; holderName: string }
+  | { type: 'nudge'; roomId: string; roomName: string }
+  | { type: 'message'; roomId: string; roomName: string; preview: string }
+  | { type: 'mention'; roomId: string; roomName: string; messageId: string; actorName: string; preview: string }
+  | { type: 'poke'; actorId: string; actorName: string }
+  | { type: 'story_reply'; storyId: string; actorName: string; preview: string }
+  | { type: 'upvote'; roomId: string; roomName: string; body: string }
+  | { type: 'recap'; roomId: string; roomName: string; messageId: string }
+  | { type: 'invite'; roomId: string; roomName: string; inviterName: string; inviteCode: string }
+  | { type: 'test' }
+
+export type PushPayloadType = PushPayload['type']
+
+export type PushUrgency = 'very-low' | 'low' | 'normal' | 'high'
+
+/** Shape the service worker (public/sw.js) expects */
+export interface PushNotification {
+  title: string
+  body: string
+  roomId?: string
+  url: string
+  tag: string
+}
+
+/**
+ * Turn a typed payload into the notification the service worker displays
+ */
+export function buildNotification(payload: PushPayload): PushNotification {
+  switch (payload.type) {
+    case 'turn':
+      return {
+        title: payload.roomName,
+        body: payload.body || "It's your turn!",
+        roomId: payload.roomId,
+        url: `/room/${payload.roomId}`,
+        tag: `turn-${payload.roomId}`,
+      }
+    case 'turn_skipped':
+      // Removed users can no longer open the room, so send them to the lobby instead
+      return payload.removed
+        ? {
+            title: payload.roomName,
+            body: 'You were removed from the group due to inactivity',
+            roomId: payload.roomId,
+            url: '/rooms',
+            tag: `removed-${payload.roomId}`,
+          }
+        : {
+            title: payload.roomName,
+            body: 'Your turn was skipped',
+            roomId: payload.roomId,
+            url: `/room/${payload.roomId}`,
+            tag: `turn-${payload.roomId}`,
+          }
+    case 'hot_seat':
+      return {
+        title: payload.roomName,
+        body: `🔥 ${payload.holderName} is in the hot seat — ask them something`,
+        roomId: payload.roomId,
+        url: `/room/${payload.roomId}`,
+        tag: `hot-seat-${payload.roomId}`,
+      }
+    case 'nudge':
+      return {
+        title: payload.roomName,
+        body: "👀 Nudge — it's your turn!",
+        roomId: payload.roomId,
+        url: `/room/${payload.roomId}`,
+        tag: `nudge-${payload.roomId}`,
+      }
+    case 'message':
+      return {
+        title: payload.roomName,
+        body: payload.preview,
+        roomId: payload.roomId,
+        url: `/room/${payload.roomId}`,
+        tag: `message-${payload.roomId}`,
+      }
+    case 'mention':
+      return {
+        title: `${payload.actorName} mentioned you in ${payload.roomName}`,
+        body: payload.preview,
+        roomId: payload.roomId,
+        url: `/room/${payload.roomId}?message=${payload.messageId}`,
+        tag: `mention-${payload.messageId}`,
+      }
+    case 'poke':
+      return {
+        title: 'Spin the Chat',
+        body: `👉 ${payload.actorName} poked you`,
+        url: `/profile/${payload.actorId}`,
+        tag: `poke-${payload.actorId}`,
+      }
+    case 'story_reply':
+      return {
+        title: `${payload.actorName} replied to your story`,
+        body: payload.preview,
+        url: '/rooms',
+        tag: `story-reply-${payload.storyId}`,
+      }
+    case 'upvote':
+      return {
+        title: payload.roomName,
+        body: payload.body,
+        roomId: payload.roomId,
+        url: `/room/${payload.roomId}`,
+        tag: `upvote-${payload.roomId}`,
+      }
+    case 'recap':
+      return {
+        title: payload.roomName,
+        body: '📰 Your weekly recap is here',
+        roomId: payload.roomId,
+        url: `/room/${payload.roomId}?message=${payload.messageId}`,
+        tag: `recap-${payload.roomId}`,
+      }
+    case 'invite':
+      return {
+        title: payload.roomName,
+        body: `${payload.inviterName} invited you to join`,
+        url: `/join/${payload.inviteCode}`,
+        tag: `invite-${payload.roomId}`,
+      }
+    case 'test':
+      return {
+        title: 'Test Notification',
+        body: 'Push notifications are working!',
+        url: '/rooms',
+        tag: 'test',
+      }
+  }
+}
+
+// Turn prompts stay relevant for a day; chat chatter goes stale quickly
+const DEFAULT_DELIVERY: Record<PushPayloadType, { ttl: number; urgency: PushUrgency }> = {
+  turn: { ttl: 24 * 60 * 60, urgency: 'high' },
+  turn_skipped: { ttl: 24 * 60 * 60, urgency: 'normal' },
+  hot_seat: { ttl: 6 * 60 * 60, urgency: 'normal' },
+  nudge: { ttl: 6 * 60 * 60, urgency: 'high' },
+  message: { ttl: 60 * 60, urgency: 'normal' },
+  mention: { ttl: 24 * 60 * 60, urgency: 'high' },
+  poke: { ttl: 24 * 60 * 60, urgency: 'low' },
+  story_reply: { ttl: 24 * 60 * 60, urgency: 'normal' },
+  upvote: { ttl: 24 * 60 * 60, urgency: 'low' },
+  recap: { ttl: 3 * 24 * 60 * 60, urgency: 'low' },
+  invite: { ttl: 7 * 24 * 60 * 60, urgency: 'normal' },
+  test: { ttl: 60, urgency: 'high' },
+}
+
+// ============================================
+// Transports
+// ============================================
+
+export interface PushSubscriptionRow {
+  id: string
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+export interface PushSendOptions {
+  ttl: number
+  urgency: PushUrgency
+  topic?: string
+}
+
+export interface PushTransportResponse {
+  statusCode: number
+  /** Seconds to wait before retrying, from the Retry-After header */
+  retryAfter?: number
+}
+
+/**
+ * Sends one encrypted (or fake) push message. Should resolve with the push
+ * service's status code, and only throw on network-level failures.
+ */
+export interface PushTransport {
+  send(subscription: PushSubscriptionRow, payload: string, options: PushSendOptions): Promise<PushTransportResponse>
+}
+
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return seconds
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) return Math.max(0, (date - Date.now()) / 1000)
+  return undefined
+}
+
+/**
+ * Default transport: web-push with VAPID credentials
+ */
+export function createWebPushTransport(vapid: { subject: string; publicKey: string; privateKey: string }): PushTransport {
+  return {
+    async send(subscription, payload, options) {
+      try {
+        const res = await webpush.sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: {
+              p256dh: subscription.p256dh,
+              auth: subscription.auth,
+            },
+          },
+          payload,
+          {
+            vapidDetails: vapid,
+            TTL: options.ttl,
+            urgency: options.urgency,
+            topic: options.topic,
+          }
+        )
+        return { statusCode: res.statusCode }
+      } catch (err: unknown) {
+        // web-push rejects on non-2xx responses; surface those as status codes
+        if (err instanceof webpush.WebPushError) {
+          return {
+            statusCode: err.statusCode,
+            retryAfter: parseRetryAfter(err.headers?.['retry-after']),
+          }
+        }
+        throw err
+      }
+    },
+  }
+}
+
+/**
+ * Unencrypted JSON POST to a single URL - for local fake push endpoints
+ */
+export function createHttpTransport(url: string): PushTransport {
+  return {
+    async send(subscription, payload, options) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          TTL: String(options.ttl),
+          Urgency: options.urgency,
+          ...(options.topic ? { Topic: options.topic } : {}),
+        },
+        body: JSON.stringify({
+          subscriptionId: subscription.id,
+          endpoint: subscription.endpoint,
+          payload: JSON.parse(payload),
+        }),
+      })
+      return {
+        statusCode: res.status,
+        retryAfter: parseRetryAfter(res.headers.get('retry-after')),
+      }
+    },
+  }
+}
+
+/**
+ * Transport configured from the environment, or null if push is not set up
+ */
+export function getDefaultTransport(): PushTransport | null {
+  const fakeUrl = process.env.PUSH_TRANSPORT_URL
+  if (fakeUrl) return createHttpTransport(fakeUrl)
+
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  const privateKey = process.env.VAPID_PRIVATE_KEY
+  const subject = process.env.VAPID_SUBJECT || 'mailto:hello@spinthechat.com'
+
+  if (!publicKey || !privateKey) return null
+
+  return createWebPushTransport({ subject, publicKey, privateKey })
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+export type PushDeliveryStatus = 'sent' | 'expired' | 'failed'
+
+export interface PushDeliveryResult {
+  subscriptionId: string
+  status: PushDeliveryStatus
+  statusCode?: number
+  attempts: number
+  latencyMs: number
+  error?: string
+}
+
+export interface PushDeliverySummary {
+  sent: number
+  failed: number
+  expired: number
+  total: number
+  results: PushDeliveryResult[]
+  /** Set when the user was in quiet hours and the push was queued instead */
+  deferredUntil?: string
+}
+
+export interface PushDeliveryOptions {
+  transport?: PushTransport
+  ttl?: number
+  urgency?: PushUrgency
+  /** Retries after the first attempt for 429/5xx responses */
+  maxRetries?: number
+  baseDelayMs?: number
+  /** Send even during the user's quiet hours (used when flushing the queue) */
+  ignoreQuietHours?: boolean
+}
+
+const MAX_RETRIES = 2
+const BASE_DELAY_MS = 500
+const MAX_DELAY_MS = 5000
+
+function isRetryable(statusCode: number) {
+  return statusCode === 429 || statusCode >= 500
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+async function deliverToSubscription(
+  transport: PushTransport,
+  subscription: PushSubscriptionRow,
+  payload: string,
+  sendOptions: PushSendOptions,
+  maxRetries: number,
+  baseDelayMs: number
+): Promise<PushDeliveryResult> {
+  const startedAt = Date.now()
+  let attempts = 0
+  let statusCode: number | undefined
+  let error: string | undefined
+
+  while (attempts <= maxRetries) {
+    attempts++
+    let retryAfter: number | undefined
+
+    try {
+      const res = await transport.send(subscription, payload, sendOptions)
+      statusCode = res.statusCode
+      retryAfter = res.retryAfter
+      error = undefined
+
+      if (statusCode >= 200 && statusCode < 300) {
+        return { subscriptionId: subscription.id, status: 'sent', statusCode, attempts, latencyMs: Date.now() - startedAt }
+      }
+      if (statusCode === 404 || statusCode === 410) {
+        return { subscriptionId: subscription.id, status: 'expired', statusCode, attempts, latencyMs: Date.now() - startedAt }
+      }
+      if (!isRetryable(statusCode)) break
+    } catch (err) {
+      // Network failure - treat like a transient server error
+      statusCode = undefined
+      error = err instanceof Error ? err.message : String(err)
+    }
+
+    if (attempts > maxRetries) break
+
+    const backoff = retryAfter !== undefined
+      ? retryAfter * 1000
+      : baseDelayMs * 2 ** (attempts - 1)
+    await sleep(Math.min(backoff, MAX_DELAY_MS))
+  }
+
+  return {
+    subscriptionId: subscription.id,
+    status: 'failed',
+    statusCode,
+    attempts,
+    latencyMs: Date.now() - startedAt,
+    error: error || (statusCode ? `Push service responded ${statusCode}` : undefined),
+  }
+}
+
+// Record attempts in push_delivery_attempts (sql/push_delivery_log.sql).
+// Logging failures never fail the delivery itself.
+async function logDeliveryAttempts(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  payload: PushPayload,
+  results: PushDeliveryResult[]
+) {
+  if (results.length === 0) return
+
+  const roomId = 'roomId' in payload ? payload.roomId : null
+
+  const { error } = await supabaseAdmin
+    .from('push_delivery_attempts')
+    .insert(results.map((r) => ({
+      user_id: userId,
+      subscription_id: r.subscriptionId,
+      payload_type: payload.type,
+      room_id: roomId,
+      status: r.status,
+      status_code: r.statusCode ?? null,
+      attempts: r.attempts,
+      latency_ms: r.latencyMs,
+      error: r.error ?? null,
+    })))
+
+  if (error) console.error('[push] Failed to log delivery attempts:', error)
+}
+
+/**
+ * Send a payload to the given subscriptions and clean up expired ones
+ */
+export async function sendPushToSubscriptions(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  subscriptions: PushSubscriptionRow[],
+  payload: PushPayload,
+  options: PushDeliveryOptions = {}
+): Promise<PushDeliverySummary> {
+  const transport = options.transport ?? getDefaultTransport()
+  if (!transport) throw new Error('Push transport not configured')
+
+  const defaults = DEFAULT_DELIVERY[payload.type]
+  const notification = buildNotification(payload)
+  const sendOptions: PushSendOptions = {
+    ttl: options.ttl ?? defaults.ttl,
+    urgency: options.urgency ?? defaults.urgency,
+  }
+  const body = JSON.stringify(notification)
+
+  const results = await Promise.all(
+    subscriptions.map((sub) =>
+      deliverToSubscription(
+        transport,
+        sub,
+        body,
+        sendOptions,
+        options.maxRetries ?? MAX_RETRIES,
+        options.baseDelayMs ?? BASE_DELAY_MS
+      )
+    )
+  )
+
+  await logDeliveryAttempts(supabaseAdmin, userId, payload, results)
+
+  // Subscription expired or unsubscribed, clean up (after logging, so the
+  // attempt rows keep their subscription reference until the delete nulls it)
+  const expiredIds = results.filter((r) => r.status === 'expired').map((r) => r.subscriptionId)
+  if (expiredIds.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .delete()
+      .in('id', expiredIds)
+    if (error) console.error('[push] Failed to remove expired subscriptions:', error)
+  }
+
+  for (const r of results) {
+    if (r.status === 'failed') {
+      console.error(`[push] ${payload.type} delivery to ${r.subscriptionId} failed after ${r.attempts} attempts:`, r.error)
+    }
+  }
+
+  return {
+    sent: results.filter((r) => r.status === 'sent').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    expired: expiredIds.length,
+    total: results.length,
+    results,
+  }
+}
+
+/**
+ * Send a payload to every device the user has registered
+ */
+export async function sendPushToUser(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  payload: PushPayload,
+  options: PushDeliveryOptions = {}
+): Promise<PushDeliverySummary> {
+  // Queue for later if the user is in quiet hours (sql/quiet_hours.sql)
+  if (!options.ignoreQuietHours) {
+    const { data: deferredUntil, error: deferError } = await supabaseAdmin.rpc('defer_notification_if_quiet', {
+      p_user_id: userId,
+      p_tag: buildNotification(payload).tag,
+      p_push_payload: payload,
+      p_room_id: 'roomId' in payload ? payload.roomId : null,
+    })
+
+    if (deferError) {
+      console.error('[push] Error checking quiet hours:', deferError)
+    } else if (deferredUntil) {
+      return { sent: 0, failed: 0, expired: 0, total: 0, results: [], deferredUntil }
+    }
+  }
+
+  const { data: subscriptions, error } = await supabaseAdmin
+    .rpc('get_user_push_subscriptions', { p_user_id: userId })
+
+  if (error) {
+    console.error('[push] Error fetching subscriptions:', error)
+    throw error
+  }
+
+  if (!subscriptions || subscriptions.length === 0) {
+    return { sent: 0, failed: 0, expired: 0, total: 0, results: [] }
+  }
+
+  return sendPushToSubscriptions(supabaseAdmin, userId, subscriptions as PushSubscriptionRow[], payload, options)
+}
@@ -0,0 +1,30 @@
+/**
+ * Quiet hours helpers for the profile page
+ *
+ * During a member's quiet hours their turns wait, and pushes, nudges and
+ * emails to them are held until the window ends (see sql/quiet_hours.sql).
+ */
+
+export const DEFAULT_QUIET_HOURS = { start: '22:00', end: '08:00' } as const
+
+/**
+ * The browser's IANA timezone, e.g. 'Europe/Berlin'
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+/**
+ * Timezones to choose from, always including the current one
+ */
+export function listTimeZones(current: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : []
+  return zones.includes(current) ? zones : [current, ...zones]
+}
+
+/**
+ * Postgres TIME ('22:00:00') to an <input type="time"> value ('22:00')
+ */
+export function toTimeInput(time: string | null | undefined): string | null {
+  return time ? time.slice(0, 5) : null
+}
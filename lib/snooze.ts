@@ -0,0 +1,46 @@
+/**
+ * Snooze presets shared by the room drawer and the profile page
+ *
+ * A snoozed member is skipped in the rotation and can't be nudged
+ * until snoozed_until passes (see sql/member_snooze.sql).
+ */
+
+export const SNOOZE_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 3, label: '3 days' },
+  { days: 7, label: '1 week' },
+  { days: 14, label: '2 weeks' },
+] as const
+
+/**
+ * End of the day `days` days from now, as an ISO string for set_snooze
+ */
+export function getSnoozeUntil(days: number): string {
+  const until = new Date()
+  until.setDate(until.getDate() + days)
+  until.setHours(23, 59, 59, 0)
+  return until.toISOString()
+}
+
+/**
+ * True if a snoozed_until timestamp is still in the future
+ */
+export function isSnoozed(snoozedUntil: string | null | undefined): boolean {
+  return !!snoozedUntil && new Date(snoozedUntil) > new Date()
+}
+
+/**
+ * Push-notify the next person in each room a snooze handed a turn off in
+ * (fire and forget, like notifyNextTurn in the room page)
+ */
+export async function notifyAdvancedRooms(roomIds: string[]): Promise<void> {
+  await Promise.all(roomIds.map(roomId =>
+    fetch('/api/push/notify-turn', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ roomId }),
+    }).catch(() => {
+      // Silently ignore notification errors
+    })
+  ))
+}
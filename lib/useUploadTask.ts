@@ -0,0 +1,105 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { isUploadCancelled } from './mediaUpload'
+
+export type UploadStatus = 'idle' | 'uploading' | 'failed'
+
+export interface UploadTaskControls {
+  signal: AbortSignal
+  onProgress: (fraction: number) => void
+}
+
+// The whole job: prepare, upload, then save the URL wherever it goes
+export type UploadTask = (controls: UploadTaskControls) => Promise<void>
+
+/**
+ * Hook to run one upload at a time with progress, cancel and retry.
+ *
+ * Because the task covers the whole job, retry simply runs it again.
+ * A failed task keeps its error until it is retried or dismissed; a
+ * cancelled one quietly goes back to idle. Tasks should check
+ * signal.throwIfAborted() before saving anything after the upload.
+ */
+export function useUploadTask() {
+  const [status, setStatus] = useState<UploadStatus>('idle')
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  const taskRef = useRef<UploadTask | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Abort anything still in flight when the component goes away
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  // Resolves true once the task has finished
+  const run = useCallback(async (task: UploadTask): Promise<boolean> => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    taskRef.current = task
+    setStatus('uploading')
+    setProgress(0)
+    setError(null)
+
+    // Progress and results from a cancelled or replaced run are ignored
+    const isCurrent = () => controllerRef.current === controller
+
+    try {
+      await task({
+        signal: controller.signal,
+        onProgress: (fraction) => {
+          if (isCurrent()) setProgress(fraction)
+        },
+      })
+      if (!isCurrent()) return false
+      controllerRef.current = null
+      taskRef.current = null
+      setStatus('idle')
+      setProgress(0)
+      return true
+    } catch (err) {
+      if (!isCurrent()) return false
+      controllerRef.current = null
+      if (isUploadCancelled(err)) {
+        taskRef.current = null
+        setStatus('idle')
+      } else {
+        setStatus('failed')
+        setError(err instanceof Error ? err.message : 'Upload failed')
+      }
+      setProgress(0)
+      return false
+    }
+  }, [])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    taskRef.current = null
+    setStatus('idle')
+    setProgress(0)
+  }, [])
+
+  const retry = useCallback(() => {
+    if (taskRef.current) return run(taskRef.current)
+    return Promise.resolve(false)
+  }, [run])
+
+  const dismiss = useCallback(() => {
+    taskRef.current = null
+    setStatus('idle')
+    setError(null)
+  }, [])
+
+  return {
+    status,
+    progress,
+    error,
+    isUploading: status === 'uploading',
+    run,
+    cancel,
+    retry,
+    dismiss,
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Short video clips shared by chat, photo turns and stories
+ *
+ * Clips are capped in size and length, and each one gets a poster frame
+ * grabbed in the browser, stored wherever a photo would go so photo-only
+ * views still show a still (see sql/video_clips.sql).
+ */
+
+import { createStoragePath, uploadToStorage, type UploadOptions } from './mediaUpload'
+
+export const VIDEO_CLIP_MAX_SECONDS = 30
+export const VIDEO_CLIP_MAX_BYTES = 50 * 1024 * 1024
+
+// Poster frames are scaled down to this width
+const POSTER_MAX_WIDTH = 720
+
+export interface PreparedVideoClip {
+  file: File
+  poster: Blob
+  durationMs: number
+}
+
+const UNREADABLE = "Couldn't read that video. Try a different one."
+
+const waitFor = (video: HTMLVideoElement, event: 'loadeddata' | 'seeked') =>
+  new Promise<void>((resolve, reject) => {
+    video.addEventListener(event, () => resolve(), { once: true })
+    video.addEventListener('error', () => reject(new Error(UNREADABLE)), { once: true })
+  })
+
+/**
+ * True for picked files that should go through the video path
+ */
+export function isVideoFile(file: File): boolean {
+  return file.type.startsWith('video/')
+}
+
+/**
+ * Check a picked clip against the caps and grab its poster frame.
+ * Throws an Error whose message can be shown as is.
+ */
+export async function prepareVideoClip(file: File): Promise<PreparedVideoClip> {
+  if (file.size > VIDEO_CLIP_MAX_BYTES) {
+    throw new Error(`Video must be less than ${VIDEO_CLIP_MAX_BYTES / (1024 * 1024)}MB`)
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const video = document.createElement('video')
+    video.muted = true
+    video.playsInline = true
+    video.preload = 'auto'
+    video.src = url
+    await waitFor(video, 'loadeddata')
+
+    const durationMs = Math.round(video.duration * 1000)
+    if (!Number.isFinite(durationMs) || durationMs <= 0 || !video.videoWidth) {
+      throw new Error(UNREADABLE)
+    }
+    // Allow a little over for container rounding, as submit_video_turn does
+    if (durationMs > VIDEO_CLIP_MAX_SECONDS * 1000 + 500) {
+      throw new Error(`Videos can be up to ${VIDEO_CLIP_MAX_SECONDS} seconds`)
+    }
+
+    // Just past the start skips the black first frame many phones record
+    video.currentTime = Math.min(0.1, video.duration / 2)
+    await waitFor(video, 'seeked')
+
+    const scale = Math.min(1, POSTER_MAX_WIDTH / video.videoWidth)
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(video.videoWidth * scale)
+    canvas.height = Math.round(video.videoHeight * scale)
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height)
+
+    const poster = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8))
+    if (!poster) throw new Error(UNREADABLE)
+
+    return { file, poster, durationMs }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Upload a prepared clip and its poster side by side under folder in bucket,
+ * reporting their combined progress
+ */
+export async function uploadVideoClip(
+  bucket: string,
+  folder: string,
+  clip: PreparedVideoClip,
+  { onProgress, signal }: UploadOptions = {}
+): Promise<{ videoUrl: string; posterUrl: string }> {
+  const fileExt = clip.file.name.split('.').pop()?.toLowerCase() || 'mp4'
+  const videoPath = createStoragePath(folder, fileExt)
+  const posterPath = videoPath.replace(/\.[^.]+$/, '-poster.jpg')
+
+  const total = clip.file.size + clip.poster.size
+  const sent = { video: 0, poster: 0 }
+  const report = (part: keyof typeof sent, size: number) => (fraction: number) => {
+    sent[part] = fraction * size
+    onProgress?.((sent.video + sent.poster) / total)
+  }
+
+  const [videoUrl, posterUrl] = await Promise.all([
+    uploadToStorage(bucket, videoPath, clip.file, { signal, onProgress: report('video', clip.file.size) }),
+    uploadToStorage(bucket, posterPath, clip.poster, { signal, onProgress: report('poster', clip.poster.size) }),
+  ])
+
+  return { videoUrl, posterUrl }
+}
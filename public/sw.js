@@ -57,3 +57,158 @@ self.addEventListener('notificationclick', (event) => {
 self.addEventListener('activate', (event) => {
   event.waitUntil(clients.claim())
 })
+
+// ============================================
+// Offline outbox (see lib/outbox.ts)
+// ============================================
+// Messages and turn answers that couldn't be sent wait in IndexedDB.
+// Background Sync wakes this worker once the device is back online so they
+// go out even if the app is closed. The database layout and retry rules
+// mirror lib/outbox.ts.
+
+const OUTBOX_DB_NAME = 'outbox'
+const OUTBOX_SYNC_TAG = 'outbox'
+const OUTBOX_MAX_ATTEMPTS = 5
+
+const idbResult = (request) => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+const openOutbox = () => {
+  const request = indexedDB.open(OUTBOX_DB_NAME, 1)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    if (!db.objectStoreNames.contains('items')) db.createObjectStore('items', { keyPath: 'id' })
+    if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta')
+  }
+  return idbResult(request)
+}
+
+const outboxStore = (db, name, mode = 'readonly') => db.transaction(name, mode).objectStore(name)
+
+// Same rules as classifyError in lib/outbox.ts. A 401 waits for the app:
+// only the page can refresh the session, so the item stays queued and the
+// page is asked to send it.
+const outboxOutcome = (status, code) => {
+  if (status === 409 || code === '23505') return 'sent'
+  if (status === 401) return 'unauthorized'
+  if (status >= 500 || status === 408 || status === 429) return 'retry'
+  return 'failed'
+}
+
+async function sendOutboxItem(session, item) {
+  const headers = { apikey: session.anonKey, Authorization: `Bearer ${session.accessToken}` }
+
+  if (item.upload) {
+    const { bucket, path, blob } = item.upload
+    const objectPath = path.split('/').map(encodeURIComponent).join('/')
+    const response = await fetch(`${session.supabaseUrl}/storage/v1/object/${bucket}/${objectPath}`, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Content-Type': blob.type || 'application/octet-stream',
+        'Cache-Control': 'max-age=3600',
+        'x-upsert': 'false',
+      },
+      body: blob,
+    })
+    if (!response.ok) {
+      const body = await response.json().catch(() => null)
+      const status = String(body?.statusCode) === '409' ? 409 : response.status
+      const outcome = outboxOutcome(status)
+      if (outcome !== 'sent') {
+        return { outcome: outcome === 'failed' ? 'retry' : outcome, error: body?.message || `Upload failed (${response.status})` }
+      }
+    }
+  }
+
+  const { request } = item
+  const url = request.table
+    ? `${session.supabaseUrl}/rest/v1/${request.table}`
+    : `${session.supabaseUrl}/rest/v1/rpc/${request.rpc}`
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json', Prefer: 'return=minimal' },
+    body: JSON.stringify(request.table ? request.row : request.args),
+  })
+  if (response.ok) return { outcome: 'sent', error: null }
+
+  const body = await response.json().catch(() => null)
+  return { outcome: outboxOutcome(response.status, body?.code), error: body?.message || `Send failed (${response.status})` }
+}
+
+const notifyOutboxSent = (item) => {
+  const request = item.notify === 'turn'
+    ? { url: '/api/push/notify-turn', body: { roomId: item.roomId } }
+    : { url: '/api/push/notify-message', body: { roomId: item.roomId, messageId: item.id, senderId: item.userId } }
+  return fetch(request.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request.body),
+  }).catch(() => {})
+}
+
+// Rejects while anything is left to send so the browser fires the sync again
+// later. A saved token that has expired ends the sync without rejecting:
+// retrying with it can't succeed, so the items wait for the page instead.
+async function drainOutbox() {
+  const db = await openOutbox()
+  const session = await idbResult(outboxStore(db, 'meta').get('session'))
+  if (!session?.accessToken) return
+
+  const items = (await idbResult(outboxStore(db, 'items').getAll()))
+    .filter((item) => item.status === 'pending' && item.userId === session.userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+  let unsent = 0
+  let unauthorized = false
+  try {
+    for (const item of items) {
+      let result
+      try {
+        result = await sendOutboxItem(session, item)
+      } catch {
+        // Offline again; nothing else will get through
+        unsent = items.length
+        break
+      }
+
+      // Discarded or already sent by the page meanwhile
+      if (!(await idbResult(outboxStore(db, 'items').get(item.id)))) continue
+
+      if (result.outcome === 'sent') {
+        await idbResult(outboxStore(db, 'items', 'readwrite').delete(item.id))
+        await notifyOutboxSent(item)
+      } else if (result.outcome === 'unauthorized') {
+        // Left pending as it is, without counting an attempt
+        unauthorized = true
+        break
+      } else {
+        const attempts = item.attempts + 1
+        const failed = result.outcome === 'failed' || attempts >= OUTBOX_MAX_ATTEMPTS
+        if (!failed) unsent++
+        await idbResult(outboxStore(db, 'items', 'readwrite').put({
+          ...item,
+          status: failed ? 'failed' : 'pending',
+          attempts,
+          error: result.error,
+        }))
+      }
+    }
+  } finally {
+    const clientList = await clients.matchAll({ type: 'window', includeUncontrolled: true })
+    clientList.forEach((client) => {
+      client.postMessage({ type: 'outbox-changed' })
+      if (unauthorized) client.postMessage({ type: 'outbox-unauthorized' })
+    })
+  }
+
+  if (unsent > 0) throw new Error(`${unsent} outbox item(s) not sent yet`)
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(drainOutbox())
+  }
+})
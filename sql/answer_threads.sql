@@ -0,0 +1,177 @@
+-- ============================================
+-- ANSWER THREADS
+-- ============================================
+-- Every turn response is the root of a thread made of the replies to it
+-- (and replies to those replies, via reply_to_message_id).
+-- Each member has their own read marker per thread.
+-- Run after replies_and_reactions.sql and message_edits.sql
+
+-- ============================================
+-- PART 1: Per-thread read markers
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS thread_reads (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  root_message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, root_message_id)
+);
+
+ALTER TABLE thread_reads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own thread reads" ON thread_reads;
+CREATE POLICY "Users can view own thread reads"
+ON thread_reads FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+-- ============================================
+-- PART 2: Thread membership
+-- ============================================
+-- All replies under a root, at any depth
+
+CREATE OR REPLACE FUNCTION thread_reply_ids(p_root_id UUID)
+RETURNS TABLE(message_id UUID) AS $$
+  WITH RECURSIVE thread AS (
+    SELECT m.id
+    FROM messages m
+    WHERE m.reply_to_message_id = p_root_id
+    UNION
+    SELECT m.id
+    FROM messages m
+    JOIN thread t ON m.reply_to_message_id = t.id
+  )
+  SELECT id FROM thread;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- PART 3: RPC - Thread summaries for a room
+-- ============================================
+-- One row per turn response that has replies: count, latest repliers
+-- (newest first, up to 3) and how many replies I haven't read.
+
+CREATE OR REPLACE FUNCTION get_room_threads(p_room_id UUID)
+RETURNS TABLE(
+  root_message_id UUID,
+  reply_count INT,
+  last_reply_at TIMESTAMPTZ,
+  recent_repliers UUID[],
+  unread_count INT
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members rm WHERE rm.room_id = p_room_id AND rm.user_id = caller_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE thread AS (
+    SELECT m.id AS root_id, m.id AS message_id
+    FROM messages m
+    WHERE m.room_id = p_room_id AND m.type = 'turn_response'
+    UNION
+    SELECT t.root_id, r.id
+    FROM thread t
+    JOIN messages r ON r.reply_to_message_id = t.message_id
+  ),
+  replies AS (
+    SELECT t.root_id, m.id, m.user_id, m.created_at, m.deleted_at
+    FROM thread t
+    JOIN messages m ON m.id = t.message_id
+    WHERE t.message_id != t.root_id
+  )
+  SELECT
+    r.root_id,
+    COUNT(*) FILTER (WHERE r.deleted_at IS NULL)::INT,
+    MAX(r.created_at),
+    (
+      SELECT ARRAY_AGG(latest.user_id ORDER BY latest.last_at DESC)
+      FROM (
+        SELECT r2.user_id, MAX(r2.created_at) AS last_at
+        FROM replies r2
+        WHERE r2.root_id = r.root_id AND r2.user_id IS NOT NULL AND r2.deleted_at IS NULL
+        GROUP BY r2.user_id
+        ORDER BY last_at DESC
+        LIMIT 3
+      ) latest
+    ),
+    COUNT(*) FILTER (
+      WHERE r.deleted_at IS NULL
+        AND r.user_id IS DISTINCT FROM caller_id
+        AND (tr.last_read_at IS NULL OR r.created_at > tr.last_read_at)
+    )::INT
+  FROM replies r
+  LEFT JOIN thread_reads tr ON tr.root_message_id = r.root_id AND tr.user_id = caller_id
+  GROUP BY r.root_id, tr.last_read_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_room_threads(UUID) TO authenticated;
+
+-- ============================================
+-- PART 4: RPC - Messages in a thread
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_thread_messages(p_root_id UUID)
+RETURNS SETOF messages AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM messages m
+    JOIN room_members rm ON rm.room_id = m.room_id
+    WHERE m.id = p_root_id AND rm.user_id = caller_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.*
+  FROM messages m
+  WHERE m.id IN (SELECT t.message_id FROM thread_reply_ids(p_root_id) t)
+  ORDER BY m.created_at ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_thread_messages(UUID) TO authenticated;
+
+-- ============================================
+-- PART 5: RPC - Mark a thread read
+-- ============================================
+
+CREATE OR REPLACE FUNCTION mark_thread_read(p_root_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM messages m
+    JOIN room_members rm ON rm.room_id = m.room_id
+    WHERE m.id = p_root_id AND rm.user_id = caller_id AND m.type = 'turn_response'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Thread not found');
+  END IF;
+
+  INSERT INTO thread_reads (user_id, root_message_id, last_read_at)
+  VALUES (caller_id, p_root_id, NOW())
+  ON CONFLICT (user_id, root_message_id) DO UPDATE SET last_read_at = NOW();
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION mark_thread_read(UUID) TO authenticated;
@@ -0,0 +1,446 @@
+-- ============================================
+-- CUSTOM PROMPT PACKS
+-- ============================================
+-- Room hosts can write their own prompts, grouped into packs.
+-- Active packs are mixed with the room's built-in mode in the
+-- shuffle bag, or used on their own when built-ins are turned off.
+-- Run after prompt_shuffle_bag.sql
+
+-- ============================================
+-- PART 1: Tables
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS prompt_packs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_packs_room ON prompt_packs(room_id);
+
+CREATE TABLE IF NOT EXISTS prompt_pack_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pack_id UUID NOT NULL REFERENCES prompt_packs(id) ON DELETE CASCADE,
+  text TEXT NOT NULL CHECK (char_length(text) BETWEEN 1 AND 280),
+  prompt_type TEXT NOT NULL DEFAULT 'text' CHECK (prompt_type IN ('text', 'photo')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_pack_items_pack ON prompt_pack_items(pack_id);
+
+-- Rooms can turn the built-in prompts off and use only their packs
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS include_builtin_prompts BOOLEAN NOT NULL DEFAULT true;
+
+-- The shuffle bag tracks custom prompts alongside built-in ones
+ALTER TABLE room_used_prompts ALTER COLUMN prompt_id DROP NOT NULL;
+ALTER TABLE room_used_prompts
+  ADD COLUMN IF NOT EXISTS custom_prompt_id UUID REFERENCES prompt_pack_items(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS room_used_prompts_custom_idx
+  ON room_used_prompts (room_id, mode, custom_prompt_id)
+  WHERE custom_prompt_id IS NOT NULL;
+
+-- ============================================
+-- PART 2: Row Level Security
+-- ============================================
+-- Members can read their room's packs; all writes go through the RPCs below
+
+ALTER TABLE prompt_packs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_pack_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view room prompt packs" ON prompt_packs;
+CREATE POLICY "Members can view room prompt packs"
+  ON prompt_packs FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_members.room_id = prompt_packs.room_id
+      AND room_members.user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Members can view room prompt pack items" ON prompt_pack_items;
+CREATE POLICY "Members can view room prompt pack items"
+  ON prompt_pack_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM prompt_packs pp
+    JOIN room_members rm ON rm.room_id = pp.room_id
+    WHERE pp.id = prompt_pack_items.pack_id
+      AND rm.user_id = auth.uid()
+  ));
+
+-- ============================================
+-- PART 3: get_shuffle_bag_prompt - combined pool
+-- ============================================
+-- Same bag semantics as before (no repeats until the pool is used up),
+-- but the pool is the room's mode prompts plus its active pack prompts.
+
+DROP FUNCTION IF EXISTS get_shuffle_bag_prompt(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION get_shuffle_bag_prompt(
+  p_room_id UUID,
+  p_mode TEXT
+) RETURNS TABLE (prompt_text TEXT, prompt_type TEXT) AS $$
+DECLARE
+  v_use_builtin BOOLEAN;
+  v_builtin_id UUID;
+  v_custom_id UUID;
+  v_selected_text TEXT;
+  v_selected_type TEXT;
+  v_attempt INT;
+BEGIN
+  SELECT COALESCE(include_builtin_prompts, true) INTO v_use_builtin
+  FROM rooms WHERE id = p_room_id;
+
+  -- Custom-only rooms fall back to built-ins until a pack has prompts
+  IF NOT v_use_builtin AND NOT EXISTS (
+    SELECT 1 FROM prompt_pack_items ppi
+    JOIN prompt_packs pp ON pp.id = ppi.pack_id
+    WHERE pp.room_id = p_room_id AND pp.is_active = true
+  ) THEN
+    v_use_builtin := true;
+  END IF;
+
+  -- Second attempt runs after the bag is emptied and reshuffled
+  FOR v_attempt IN 1..2 LOOP
+    SELECT pool.builtin_id, pool.custom_id, pool.text, pool.type
+    INTO v_builtin_id, v_custom_id, v_selected_text, v_selected_type
+    FROM (
+      SELECT p.id AS builtin_id, NULL::UUID AS custom_id, p.text, COALESCE(p.prompt_type, 'text') AS type
+      FROM prompts p
+      WHERE v_use_builtin
+        AND p.mode = p_mode
+        AND NOT EXISTS (
+          SELECT 1 FROM room_used_prompts rup
+          WHERE rup.room_id = p_room_id
+            AND rup.mode = p_mode
+            AND rup.prompt_id = p.id
+        )
+      UNION ALL
+      SELECT NULL::UUID, ppi.id, ppi.text, ppi.prompt_type
+      FROM prompt_pack_items ppi
+      JOIN prompt_packs pp ON pp.id = ppi.pack_id
+      WHERE pp.room_id = p_room_id
+        AND pp.is_active = true
+        AND NOT EXISTS (
+          SELECT 1 FROM room_used_prompts rup
+          WHERE rup.room_id = p_room_id
+            AND rup.mode = p_mode
+            AND rup.custom_prompt_id = ppi.id
+        )
+    ) pool
+    ORDER BY random()
+    LIMIT 1;
+
+    EXIT WHEN FOUND;
+
+    -- All prompts used: clear the bag and reshuffle
+    DELETE FROM room_used_prompts
+    WHERE room_id = p_room_id AND mode = p_mode;
+  END LOOP;
+
+  -- Mark this prompt as used
+  IF v_builtin_id IS NOT NULL THEN
+    INSERT INTO room_used_prompts (room_id, mode, prompt_id)
+    VALUES (p_room_id, p_mode, v_builtin_id)
+    ON CONFLICT DO NOTHING;
+  ELSIF v_custom_id IS NOT NULL THEN
+    INSERT INTO room_used_prompts (room_id, mode, custom_prompt_id)
+    VALUES (p_room_id, p_mode, v_custom_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  prompt_text := v_selected_text;
+  prompt_type := v_selected_type;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: Read packs
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_room_prompt_packs(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = caller_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'include_builtin_prompts', (SELECT include_builtin_prompts FROM rooms WHERE id = p_room_id),
+    'packs', COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', pp.id,
+        'name', pp.name,
+        'is_active', pp.is_active,
+        'created_at', pp.created_at,
+        'items', COALESCE((
+          SELECT json_agg(json_build_object(
+            'id', ppi.id,
+            'text', ppi.text,
+            'prompt_type', ppi.prompt_type
+          ) ORDER BY ppi.created_at, ppi.id)
+          FROM prompt_pack_items ppi
+          WHERE ppi.pack_id = pp.id
+        ), '[]'::json)
+      ) ORDER BY pp.created_at)
+      FROM prompt_packs pp
+      WHERE pp.room_id = p_room_id
+    ), '[]'::json)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: Manage packs (host only)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION create_prompt_pack(p_room_id UUID, p_name TEXT)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_name TEXT := btrim(p_name);
+  v_pack_id UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  IF v_name IS NULL OR char_length(v_name) = 0 OR char_length(v_name) > 60 THEN
+    RETURN json_build_object('success', false, 'error', 'Pack name must be 1-60 characters');
+  END IF;
+
+  INSERT INTO prompt_packs (room_id, name, created_by)
+  VALUES (p_room_id, v_name, caller_id)
+  RETURNING id INTO v_pack_id;
+
+  RETURN json_build_object('success', true, 'pack_id', v_pack_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Rename and/or turn a pack on or off (NULL leaves a field unchanged)
+CREATE OR REPLACE FUNCTION update_prompt_pack(
+  p_pack_id UUID,
+  p_name TEXT DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_name TEXT := btrim(p_name);
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM prompt_packs pp
+    JOIN room_members rm ON rm.room_id = pp.room_id
+    WHERE pp.id = p_pack_id AND rm.user_id = caller_id AND rm.role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  IF v_name IS NOT NULL AND (char_length(v_name) = 0 OR char_length(v_name) > 60) THEN
+    RETURN json_build_object('success', false, 'error', 'Pack name must be 1-60 characters');
+  END IF;
+
+  UPDATE prompt_packs
+  SET name = COALESCE(v_name, name),
+      is_active = COALESCE(p_is_active, is_active)
+  WHERE id = p_pack_id;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION delete_prompt_pack(p_pack_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM prompt_packs pp
+    JOIN room_members rm ON rm.room_id = pp.room_id
+    WHERE pp.id = p_pack_id AND rm.user_id = caller_id AND rm.role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  DELETE FROM prompt_packs WHERE id = p_pack_id;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 6: Manage prompts in a pack (host only)
+-- ============================================
+
+-- Add prompts in bulk: p_items is [{ "text": "...", "prompt_type": "text" | "photo" }].
+-- Blank lines and prompts already in the pack are skipped.
+CREATE OR REPLACE FUNCTION add_prompt_pack_items(p_pack_id UUID, p_items JSONB)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_added INT;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM prompt_packs pp
+    JOIN room_members rm ON rm.room_id = pp.room_id
+    WHERE pp.id = p_pack_id AND rm.user_id = caller_id AND rm.role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) > 500 THEN
+    RETURN json_build_object('success', false, 'error', 'Add up to 500 prompts at a time');
+  END IF;
+
+  INSERT INTO prompt_pack_items (pack_id, text, prompt_type)
+  SELECT DISTINCT ON (lower(item.text)) p_pack_id, item.text, item.prompt_type
+  FROM (
+    SELECT
+      left(btrim(elem->>'text'), 280) AS text,
+      CASE WHEN elem->>'prompt_type' = 'photo' THEN 'photo' ELSE 'text' END AS prompt_type
+    FROM jsonb_array_elements(p_items) elem
+  ) item
+  WHERE item.text IS NOT NULL
+    AND char_length(item.text) > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM prompt_pack_items existing
+      WHERE existing.pack_id = p_pack_id
+        AND lower(existing.text) = lower(item.text)
+    );
+
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  RETURN json_build_object('success', true, 'added', v_added);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_prompt_pack_item(
+  p_item_id UUID,
+  p_text TEXT,
+  p_prompt_type TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_text TEXT := btrim(p_text);
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM prompt_pack_items ppi
+    JOIN prompt_packs pp ON pp.id = ppi.pack_id
+    JOIN room_members rm ON rm.room_id = pp.room_id
+    WHERE ppi.id = p_item_id AND rm.user_id = caller_id AND rm.role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  IF v_text IS NULL OR char_length(v_text) = 0 OR char_length(v_text) > 280 THEN
+    RETURN json_build_object('success', false, 'error', 'Prompts must be 1-280 characters');
+  END IF;
+
+  IF p_prompt_type NOT IN ('text', 'photo') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid prompt type');
+  END IF;
+
+  UPDATE prompt_pack_items
+  SET text = v_text, prompt_type = p_prompt_type
+  WHERE id = p_item_id;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION delete_prompt_pack_item(p_item_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM prompt_pack_items ppi
+    JOIN prompt_packs pp ON pp.id = ppi.pack_id
+    JOIN room_members rm ON rm.room_id = pp.room_id
+    WHERE ppi.id = p_item_id AND rm.user_id = caller_id AND rm.role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  DELETE FROM prompt_pack_items WHERE id = p_item_id;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mix built-in prompts with the packs (true) or use packs only (false)
+CREATE OR REPLACE FUNCTION set_room_builtin_prompts(p_room_id UUID, p_enabled BOOLEAN)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  UPDATE rooms SET include_builtin_prompts = p_enabled WHERE id = p_room_id;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 7: Grant permissions
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION get_shuffle_bag_prompt(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_room_prompt_packs(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_prompt_pack(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_prompt_pack(UUID, TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_prompt_pack(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_prompt_pack_items(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_prompt_pack_item(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_prompt_pack_item(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_room_builtin_prompts(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,136 @@
+-- ============================================
+-- EMAIL NOTIFICATION CHANNEL
+-- ============================================
+-- Turn, nudge and invite events can also go out by email, for members
+-- whose browsers can't receive web push (e.g. iOS without the installed
+-- app). Email is only sent when no push subscription accepted the push.
+-- Each member picks the channels per room in notification_prefs.
+-- Run after message_notifications.sql
+
+-- ============================================
+-- PART 1: Per-room channel preferences
+-- ============================================
+
+ALTER TABLE notification_prefs ADD COLUMN IF NOT EXISTS push_enabled BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE notification_prefs ADD COLUMN IF NOT EXISTS email_enabled BOOLEAN NOT NULL DEFAULT true;
+
+-- Return type changes, so drop first
+DROP FUNCTION IF EXISTS get_notification_prefs(UUID);
+
+-- Same as message_notifications.sql, plus the channel columns
+CREATE OR REPLACE FUNCTION get_notification_prefs(p_room_id UUID)
+RETURNS TABLE(
+  turn_notifs_enabled BOOLEAN,
+  message_notifs_enabled BOOLEAN,
+  push_enabled BOOLEAN,
+  email_enabled BOOLEAN
+) AS $$
+BEGIN
+  -- Insert default prefs if not exists
+  INSERT INTO notification_prefs (user_id, room_id)
+  VALUES (auth.uid(), p_room_id)
+  ON CONFLICT (user_id, room_id) DO NOTHING;
+
+  -- Return the prefs
+  RETURN QUERY
+  SELECT np.turn_notifs_enabled, np.message_notifs_enabled, np.push_enabled, np.email_enabled
+  FROM notification_prefs np
+  WHERE np.user_id = auth.uid() AND np.room_id = p_room_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS update_notification_prefs(UUID, BOOLEAN, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION update_notification_prefs(
+  p_room_id UUID,
+  p_turn_notifs_enabled BOOLEAN DEFAULT NULL,
+  p_message_notifs_enabled BOOLEAN DEFAULT NULL,
+  p_push_enabled BOOLEAN DEFAULT NULL,
+  p_email_enabled BOOLEAN DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Ensure prefs exist
+  INSERT INTO notification_prefs (user_id, room_id)
+  VALUES (auth.uid(), p_room_id)
+  ON CONFLICT (user_id, room_id) DO NOTHING;
+
+  -- Update only provided fields
+  UPDATE notification_prefs
+  SET
+    turn_notifs_enabled = COALESCE(p_turn_notifs_enabled, turn_notifs_enabled),
+    message_notifs_enabled = COALESCE(p_message_notifs_enabled, message_notifs_enabled),
+    push_enabled = COALESCE(p_push_enabled, push_enabled),
+    email_enabled = COALESCE(p_email_enabled, email_enabled),
+    updated_at = NOW()
+  WHERE user_id = auth.uid() AND room_id = p_room_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 2: Channels for one recipient (server-side)
+-- ============================================
+-- Called by the API routes with the service role key. Members without a
+-- prefs row (and people invited to a room they haven't joined) get the
+-- defaults: both channels on.
+
+CREATE OR REPLACE FUNCTION get_notification_channels(p_user_id UUID, p_room_id UUID)
+RETURNS TABLE(
+  email TEXT,
+  push_enabled BOOLEAN,
+  email_enabled BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.email,
+    COALESCE(np.push_enabled, true),
+    COALESCE(np.email_enabled, true)
+  FROM profiles p
+  LEFT JOIN notification_prefs np ON np.user_id = p.id AND np.room_id = p_room_id
+  WHERE p.id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Service role only; exposes email addresses
+REVOKE EXECUTE ON FUNCTION get_notification_channels(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- PART 3: Email delivery log
+-- ============================================
+-- One row per email attempt, like push_delivery_attempts
+
+CREATE TABLE IF NOT EXISTS email_delivery_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient TEXT NOT NULL,
+  payload_type TEXT NOT NULL,
+  room_id UUID REFERENCES rooms(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_delivery_attempts_user ON email_delivery_attempts(user_id, created_at DESC);
+
+-- Service role only: no policies
+ALTER TABLE email_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- PART 4: Invite emails
+-- ============================================
+-- notify-invite records when it last told someone about an invite, so the
+-- same invite can't be used to send them email after email
+
+ALTER TABLE room_invites ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMPTZ;
+
+-- Account for an invited address, ignoring case
+CREATE OR REPLACE FUNCTION get_user_id_by_email(p_email TEXT)
+RETURNS UUID AS $$
+  SELECT id FROM profiles WHERE LOWER(email) = LOWER(TRIM(p_email)) LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Service role only; would reveal who has an account
+REVOKE EXECUTE ON FUNCTION get_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,838 @@
+-- ============================================
+-- EVERYONE ANSWERS ROUNDS
+-- ============================================
+-- A second play mode next to single-player turns. In 'everyone' mode each
+-- prompt is posed to the whole group as a round: every member submits an
+-- answer, answers stay hidden until everyone has answered or the round's
+-- deadline passes, then they're all revealed together as turn_response
+-- messages (so replies, threads and votes work as usual). The next round
+-- waits for the room's schedule or interval like a turn would.
+-- Run after prompt_schedules.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS play_mode TEXT NOT NULL DEFAULT 'turns';
+-- How long a round stays open before answers are revealed anyway
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS round_deadline_hours INT NOT NULL DEFAULT 24;
+
+-- Named so later modes can be added by replacing it
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS valid_play_mode;
+ALTER TABLE rooms ADD CONSTRAINT valid_play_mode CHECK (play_mode IN ('turns', 'everyone'));
+
+CREATE TABLE IF NOT EXISTS turn_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  prompt_text TEXT NOT NULL,
+  prompt_type TEXT NOT NULL DEFAULT 'text',
+  -- Members expected to answer (late joiners are added when they answer)
+  participant_ids UUID[] NOT NULL DEFAULT '{}',
+  opens_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deadline_at TIMESTAMPTZ NOT NULL,
+  revealed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_turn_rounds_room ON turn_rounds(room_id, created_at DESC);
+-- At most one open round per room
+CREATE UNIQUE INDEX IF NOT EXISTS idx_turn_rounds_open
+  ON turn_rounds(room_id) WHERE revealed_at IS NULL;
+
+ALTER TABLE turn_rounds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view room rounds" ON turn_rounds;
+CREATE POLICY "Members can view room rounds"
+ON turn_rounds FOR SELECT TO authenticated
+USING (is_room_member(room_id, auth.uid()));
+
+-- Answers until the reveal. Members only ever see their own.
+CREATE TABLE IF NOT EXISTS round_answers (
+  round_id UUID NOT NULL REFERENCES turn_rounds(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (round_id, user_id)
+);
+
+ALTER TABLE round_answers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own round answers" ON round_answers;
+CREATE POLICY "Users can view own round answers"
+ON round_answers FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+-- The open round, and how many have answered it (drives realtime updates)
+ALTER TABLE turn_sessions ADD COLUMN IF NOT EXISTS current_round_id UUID REFERENCES turn_rounds(id) ON DELETE SET NULL;
+ALTER TABLE turn_sessions ADD COLUMN IF NOT EXISTS round_answered_count INT NOT NULL DEFAULT 0;
+
+-- Revealed answers point back at their round
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS round_id UUID REFERENCES turn_rounds(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_messages_round ON messages(round_id) WHERE round_id IS NOT NULL;
+
+-- In a round several people can be nudged, so the nudge limit is one per
+-- nudger per person per turn (or round) instead of one per turn
+DROP INDEX IF EXISTS nudges_per_turn_instance_idx;
+CREATE UNIQUE INDEX nudges_per_turn_instance_idx
+  ON nudges (room_id, nudger_user_id, nudged_user_id, turn_instance_id)
+  WHERE turn_instance_id IS NOT NULL;
+
+-- ============================================
+-- PART 2: start_round / reveal_round (internal)
+-- ============================================
+
+-- Open a new round with a fresh prompt. With p_wait the round opens at the
+-- next scheduled slot (or after the interval), otherwise right away.
+CREATE OR REPLACE FUNCTION start_round(p_room_id UUID, p_wait BOOLEAN DEFAULT true)
+RETURNS UUID AS $$
+DECLARE
+  v_prompt_mode TEXT;
+  v_interval INT;
+  v_deadline_hours INT;
+  v_room_name TEXT;
+  v_prompt_text TEXT;
+  v_prompt_type TEXT;
+  v_opens_at TIMESTAMPTZ := NOW();
+  v_participants UUID[];
+  v_round_id UUID;
+BEGIN
+  SELECT COALESCE(prompt_mode, 'fun'), COALESCE(prompt_interval_minutes, 0), round_deadline_hours, name
+  INTO v_prompt_mode, v_interval, v_deadline_hours, v_room_name
+  FROM rooms WHERE id = p_room_id;
+
+  IF p_wait THEN
+    v_opens_at := next_schedule_slot(p_room_id);
+    IF v_opens_at IS NULL THEN
+      v_opens_at := NOW() + (v_interval || ' minutes')::INTERVAL;
+    END IF;
+  END IF;
+
+  SELECT prompt_text, prompt_type INTO v_prompt_text, v_prompt_type
+  FROM get_shuffle_bag_prompt(p_room_id, v_prompt_mode);
+
+  -- Everyone who isn't snoozed or on vacation
+  SELECT COALESCE(array_agg(rm.user_id ORDER BY rm.created_at, rm.user_id), '{}')
+  INTO v_participants
+  FROM room_members rm
+  WHERE rm.room_id = p_room_id
+    AND member_away_until(p_room_id, rm.user_id) IS NULL;
+
+  INSERT INTO turn_rounds (room_id, prompt_text, prompt_type, participant_ids, opens_at, deadline_at)
+  VALUES (
+    p_room_id,
+    COALESCE(v_prompt_text, 'What''s on your mind?'),
+    COALESCE(v_prompt_type, 'text'),
+    v_participants,
+    v_opens_at,
+    v_opens_at + (v_deadline_hours || ' hours')::INTERVAL
+  )
+  RETURNING id INTO v_round_id;
+
+  -- Nobody holds the turn during a round; a new turn_instance_id resets nudges
+  UPDATE turn_sessions
+  SET current_round_id = v_round_id,
+      round_answered_count = 0,
+      current_turn_user_id = NULL,
+      turn_instance_id = v_round_id,
+      prompt_text = v_prompt_text,
+      current_prompt_type = v_prompt_type,
+      waiting_until = CASE WHEN v_opens_at > NOW() THEN v_opens_at END,
+      last_turn_completed_at = CASE WHEN p_wait THEN NOW() ELSE last_turn_completed_at END,
+      all_nudged_at = NULL
+  WHERE room_id = p_room_id AND is_active = true;
+
+  INSERT INTO notifications (user_id, type, room_id, metadata)
+  SELECT p.user_id, 'your_turn', p_room_id,
+    jsonb_build_object(
+      'prompt_text', v_prompt_text,
+      'prompt_type', v_prompt_type,
+      'room_name', v_room_name,
+      'round_id', v_round_id
+    )
+  FROM unnest(v_participants) AS p(user_id);
+
+  RETURN v_round_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Post every answer of a round as turn_response messages, then open the
+-- next round if the room is still in 'everyone' mode. Returns how many
+-- answers were revealed.
+CREATE OR REPLACE FUNCTION reveal_round(p_round_id UUID)
+RETURNS INT AS $$
+DECLARE
+  v_round RECORD;
+  v_participant_count INT;
+  v_answer_count INT;
+  v_play_mode TEXT;
+BEGIN
+  SELECT * INTO v_round FROM turn_rounds WHERE id = p_round_id FOR UPDATE;
+
+  IF v_round.id IS NULL OR v_round.revealed_at IS NOT NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE turn_rounds SET revealed_at = NOW() WHERE id = p_round_id;
+
+  SELECT COUNT(*) INTO v_participant_count
+  FROM unnest(v_round.participant_ids) AS p(user_id)
+  JOIN room_members rm ON rm.room_id = v_round.room_id AND rm.user_id = p.user_id;
+
+  SELECT COUNT(*) INTO v_answer_count FROM round_answers WHERE round_id = p_round_id;
+
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (
+    v_round.room_id,
+    NULL,
+    'system',
+    CASE
+      WHEN v_answer_count = 0 THEN 'Nobody answered this round'
+      WHEN v_answer_count >= v_participant_count THEN 'Everyone answered! Here are the answers'
+      ELSE 'Time''s up! ' || v_answer_count || ' of ' || v_participant_count || ' answered'
+    END
+  );
+
+  -- clock_timestamp() keeps the answers in submission order after the notice
+  INSERT INTO messages (room_id, user_id, type, content, round_id, created_at)
+  SELECT v_round.room_id, ra.user_id, 'turn_response', ra.content, p_round_id, clock_timestamp()
+  FROM round_answers ra
+  WHERE ra.round_id = p_round_id
+  ORDER BY ra.created_at;
+
+  -- Answering keeps a member's streak clean, like completing a turn
+  UPDATE room_members rm
+  SET missed_streak = 0
+  FROM round_answers ra
+  WHERE ra.round_id = p_round_id
+    AND rm.room_id = v_round.room_id
+    AND rm.user_id = ra.user_id;
+
+  UPDATE turn_sessions
+  SET current_round_id = NULL, round_answered_count = 0
+  WHERE room_id = v_round.room_id AND is_active = true AND current_round_id = p_round_id;
+
+  SELECT play_mode INTO v_play_mode FROM rooms WHERE id = v_round.room_id;
+
+  IF v_play_mode = 'everyone' AND EXISTS (
+    SELECT 1 FROM turn_sessions WHERE room_id = v_round.room_id AND is_active = true
+  ) THEN
+    PERFORM start_round(v_round.room_id, true);
+  END IF;
+
+  RETURN v_answer_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A session started (or restarted) in 'everyone' mode opens with a round
+CREATE OR REPLACE FUNCTION start_round_on_session_start()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_active AND NEW.current_round_id IS NULL
+     AND (SELECT play_mode FROM rooms WHERE id = NEW.room_id) = 'everyone' THEN
+    PERFORM start_round(NEW.room_id, false);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_start_round_on_session_start ON turn_sessions;
+CREATE TRIGGER trg_start_round_on_session_start
+AFTER INSERT OR UPDATE OF is_active ON turn_sessions
+FOR EACH ROW
+EXECUTE FUNCTION start_round_on_session_start();
+
+-- ============================================
+-- PART 3: RPC - set_play_mode (host only)
+-- ============================================
+-- Switching to 'everyone' opens a round right away. Switching back to
+-- 'turns' reveals the open round and hands the turn to the next member.
+
+CREATE OR REPLACE FUNCTION set_play_mode(
+  p_room_id UUID,
+  p_mode TEXT,
+  p_deadline_hours INT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_old_mode TEXT;
+  v_deadline_hours INT;
+  v_round_id UUID;
+  v_next_user_id UUID;
+  v_name TEXT;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can change the play mode');
+  END IF;
+
+  IF p_mode NOT IN ('turns', 'everyone') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid play mode');
+  END IF;
+
+  IF p_deadline_hours IS NOT NULL AND (p_deadline_hours < 1 OR p_deadline_hours > 168) THEN
+    RETURN json_build_object('success', false, 'error', 'Deadline must be between 1 hour and 7 days');
+  END IF;
+
+  SELECT play_mode, round_deadline_hours INTO v_old_mode, v_deadline_hours
+  FROM rooms WHERE id = p_room_id;
+
+  v_deadline_hours := COALESCE(p_deadline_hours, v_deadline_hours);
+
+  UPDATE rooms
+  SET play_mode = p_mode,
+      round_deadline_hours = v_deadline_hours
+  WHERE id = p_room_id;
+
+  SELECT current_round_id INTO v_round_id
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF p_mode = 'everyone' THEN
+    IF v_round_id IS NULL AND EXISTS (
+      SELECT 1 FROM turn_sessions WHERE room_id = p_room_id AND is_active = true
+    ) THEN
+      PERFORM start_round(p_room_id, false);
+    ELSIF v_round_id IS NOT NULL AND p_deadline_hours IS NOT NULL THEN
+      -- A new deadline applies to the open round too
+      UPDATE turn_rounds
+      SET deadline_at = opens_at + (v_deadline_hours || ' hours')::INTERVAL
+      WHERE id = v_round_id;
+    END IF;
+  ELSIF v_round_id IS NOT NULL THEN
+    -- play_mode is already 'turns', so no new round is started
+    PERFORM reveal_round(v_round_id);
+
+    v_next_user_id := get_next_turn_user(p_room_id, NULL);
+
+    UPDATE turn_sessions
+    SET current_turn_user_id = v_next_user_id,
+        turn_instance_id = gen_random_uuid(),
+        waiting_until = NULL,
+        all_nudged_at = NULL
+    WHERE room_id = p_room_id AND is_active = true;
+  END IF;
+
+  IF v_old_mode IS DISTINCT FROM p_mode THEN
+    v_name := COALESCE(member_display_name(caller_id), 'The host');
+    INSERT INTO messages (room_id, user_id, type, content)
+    VALUES (
+      p_room_id,
+      NULL,
+      'system',
+      CASE p_mode
+        WHEN 'everyone' THEN v_name || ' switched to everyone answers: each prompt goes to the whole group'
+        ELSE v_name || ' switched back to taking turns'
+      END
+    );
+  END IF;
+
+  RETURN json_build_object('success', true, 'play_mode', p_mode, 'round_deadline_hours', v_deadline_hours);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: RPC - submit_round_answer
+-- ============================================
+-- Text answers arrive formatted like submit_turn's; photo answers are
+-- stored in the same photo_turn JSON as submit_photo_turn. Answering again
+-- replaces the earlier answer until the reveal.
+
+CREATE OR REPLACE FUNCTION submit_round_answer(
+  p_room_id UUID,
+  p_content TEXT DEFAULT NULL,
+  p_image_url TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_round_id UUID;
+  v_paused_at TIMESTAMPTZ;
+  v_round RECORD;
+  v_content TEXT;
+  v_answered INT;
+  v_participant_count INT;
+  v_revealed BOOLEAN := false;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_room_member(p_room_id, caller_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  SELECT current_round_id, paused_at INTO v_round_id, v_paused_at
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_round_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No round in progress');
+  END IF;
+
+  IF v_paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused');
+  END IF;
+
+  SELECT * INTO v_round FROM turn_rounds WHERE id = v_round_id FOR UPDATE;
+
+  IF v_round.revealed_at IS NOT NULL OR v_round.deadline_at <= NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'This round is over');
+  END IF;
+
+  IF v_round.opens_at > NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'Still in cooldown period');
+  END IF;
+
+  IF v_round.prompt_type = 'photo' THEN
+    IF COALESCE(p_image_url, '') = '' THEN
+      RETURN json_build_object('success', false, 'error', 'This prompt needs a photo');
+    END IF;
+    v_content := json_build_object(
+      'kind', 'photo_turn',
+      'prompt', v_round.prompt_text,
+      'image_url', p_image_url
+    )::TEXT;
+  ELSE
+    v_content := trim(COALESCE(p_content, ''));
+    IF v_content = '' THEN
+      RETURN json_build_object('success', false, 'error', 'Answer cannot be empty');
+    END IF;
+  END IF;
+
+  -- Late joiners can still answer
+  IF NOT (caller_id = ANY(v_round.participant_ids)) THEN
+    UPDATE turn_rounds
+    SET participant_ids = array_append(participant_ids, caller_id)
+    WHERE id = v_round_id
+    RETURNING * INTO v_round;
+  END IF;
+
+  INSERT INTO round_answers (round_id, user_id, content)
+  VALUES (v_round_id, caller_id, v_content)
+  ON CONFLICT (round_id, user_id)
+  DO UPDATE SET content = EXCLUDED.content, updated_at = NOW();
+
+  -- Only participants who are still in the room count
+  SELECT COUNT(*), COUNT(ra.user_id)
+  INTO v_participant_count, v_answered
+  FROM unnest(v_round.participant_ids) AS p(user_id)
+  JOIN room_members rm ON rm.room_id = p_room_id AND rm.user_id = p.user_id
+  LEFT JOIN round_answers ra ON ra.round_id = v_round_id AND ra.user_id = p.user_id;
+
+  UPDATE turn_sessions
+  SET round_answered_count = v_answered
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_answered >= v_participant_count THEN
+    PERFORM reveal_round(v_round_id);
+    v_revealed := true;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'answered_count', v_answered,
+    'participant_count', v_participant_count,
+    'revealed', v_revealed
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: RPC - get_round_status
+-- ============================================
+-- Who has answered the open round (not what), plus my own answer.
+-- Also reveals a round whose deadline passed before the cron ran.
+
+CREATE OR REPLACE FUNCTION get_round_status(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_session RECORD;
+  v_round RECORD;
+  v_participants JSON;
+  v_my_answer TEXT;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_room_member(p_room_id, caller_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  SELECT ts.current_round_id, ts.paused_at INTO v_session
+  FROM turn_sessions ts
+  WHERE ts.room_id = p_room_id AND ts.is_active = true;
+
+  IF NOT FOUND OR (SELECT play_mode FROM rooms WHERE id = p_room_id) <> 'everyone' THEN
+    RETURN json_build_object('success', true, 'active', false);
+  END IF;
+
+  IF v_session.current_round_id IS NULL THEN
+    RETURN json_build_object('success', true, 'active', false);
+  END IF;
+
+  SELECT * INTO v_round FROM turn_rounds WHERE id = v_session.current_round_id;
+
+  IF v_round.revealed_at IS NULL AND v_round.deadline_at <= NOW() AND v_session.paused_at IS NULL THEN
+    PERFORM reveal_round(v_round.id);
+    SELECT r.* INTO v_round
+    FROM turn_sessions ts
+    JOIN turn_rounds r ON r.id = ts.current_round_id
+    WHERE ts.room_id = p_room_id AND ts.is_active = true;
+
+    IF v_round.id IS NULL THEN
+      RETURN json_build_object('success', true, 'active', false);
+    END IF;
+  END IF;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'user_id', p.user_id,
+    'answered', ra.user_id IS NOT NULL,
+    'nudged_by_me', EXISTS (
+      SELECT 1 FROM nudges n
+      WHERE n.room_id = p_room_id
+        AND n.nudger_user_id = caller_id
+        AND n.nudged_user_id = p.user_id
+        AND n.turn_instance_id = v_round.id
+    ),
+    'away_until', member_away_until(p_room_id, p.user_id)
+  ) ORDER BY p.ord), '[]'::json)
+  INTO v_participants
+  FROM unnest(v_round.participant_ids) WITH ORDINALITY AS p(user_id, ord)
+  JOIN room_members rm ON rm.room_id = p_room_id AND rm.user_id = p.user_id
+  LEFT JOIN round_answers ra ON ra.round_id = v_round.id AND ra.user_id = p.user_id;
+
+  SELECT content INTO v_my_answer
+  FROM round_answers
+  WHERE round_id = v_round.id AND user_id = caller_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'active', true,
+    'round_id', v_round.id,
+    'prompt_text', v_round.prompt_text,
+    'prompt_type', v_round.prompt_type,
+    'opens_at', v_round.opens_at,
+    'deadline_at', v_round.deadline_at,
+    'participants', v_participants,
+    'my_answer', v_my_answer
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 6: RPC - send_round_nudge
+-- ============================================
+-- Nudge one member who hasn't answered the open round yet. Same shape as
+-- send_nudge's result so the push route can handle both.
+
+CREATE OR REPLACE FUNCTION send_round_nudge(p_room_id UUID, p_user_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_round RECORD;
+  v_paused_at TIMESTAMPTZ;
+  v_away_until TIMESTAMPTZ;
+  v_room_name TEXT;
+BEGIN
+  IF caller_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF NOT is_room_member(p_room_id, caller_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  IF p_user_id = caller_id THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot nudge yourself');
+  END IF;
+
+  SELECT r.*, ts.paused_at AS session_paused_at INTO v_round
+  FROM turn_sessions ts
+  JOIN turn_rounds r ON r.id = ts.current_round_id
+  WHERE ts.room_id = p_room_id AND ts.is_active = true;
+
+  IF v_round.id IS NULL OR v_round.revealed_at IS NOT NULL OR v_round.opens_at > NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'No round in progress');
+  END IF;
+
+  v_paused_at := v_round.session_paused_at;
+  IF v_paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused');
+  END IF;
+
+  IF NOT (p_user_id = ANY(v_round.participant_ids)) OR NOT is_room_member(p_room_id, p_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'They''re not in this round');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM round_answers WHERE round_id = v_round.id AND user_id = p_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'They already answered');
+  END IF;
+
+  v_away_until := member_away_until(p_room_id, p_user_id);
+  IF v_away_until IS NOT NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'They''re away until ' || away_until_label(p_room_id, p_user_id, v_away_until),
+      'away_until', v_away_until
+    );
+  END IF;
+
+  SELECT name INTO v_room_name FROM rooms WHERE id = p_room_id;
+
+  BEGIN
+    INSERT INTO nudges (room_id, nudger_user_id, nudged_user_id, turn_instance_id, created_at)
+    VALUES (p_room_id, caller_id, p_user_id, v_round.id, NOW());
+  EXCEPTION WHEN unique_violation THEN
+    RETURN json_build_object('success', false, 'error', 'Already nudged this round');
+  END;
+
+  INSERT INTO notifications (user_id, actor_user_id, type, room_id, metadata)
+  VALUES (
+    p_user_id,
+    caller_id,
+    'nudged_you',
+    p_room_id,
+    jsonb_build_object('prompt_text', v_round.prompt_text, 'room_name', v_room_name, 'round_id', v_round.id)
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'nudged_user_id', p_user_id,
+    'room_name', v_room_name,
+    'all_nudged', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 7: process_round_deadlines (cron)
+-- ============================================
+-- Reveal every open round whose deadline has passed. Returns the rooms so
+-- the caller can push-notify members about the next round. Called by
+-- revealDueRounds (lib/notificationDelivery.ts) from the daily cron and
+-- after turn and message events.
+
+CREATE OR REPLACE FUNCTION process_round_deadlines()
+RETURNS TABLE(room_id UUID, round_id UUID, revealed_count INT) AS $$
+DECLARE
+  v_round RECORD;
+BEGIN
+  FOR v_round IN
+    SELECT r.id, r.room_id
+    FROM turn_rounds r
+    JOIN turn_sessions ts ON ts.current_round_id = r.id AND ts.is_active = true
+    WHERE r.revealed_at IS NULL
+      AND r.deadline_at <= NOW()
+      AND ts.paused_at IS NULL
+  LOOP
+    room_id := v_round.room_id;
+    round_id := v_round.id;
+    revealed_count := reveal_round(v_round.id);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 8: advance_turn - turns stand still during rounds
+-- ============================================
+-- Same as prompt_schedules.sql, plus it refuses while a round is open, so
+-- submit_turn, skips and snoozes can't hand out a turn mid-round
+
+DROP FUNCTION IF EXISTS advance_turn(UUID, TEXT, UUID);
+CREATE OR REPLACE FUNCTION advance_turn(
+  p_room_id UUID,
+  p_reason TEXT DEFAULT 'completed',  -- 'completed', 'auto_skip', 'host_skip', 'host_exclude'
+  p_skipped_user_id UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  sess RECORD;
+  next_user_id UUID;
+  new_prompt_text TEXT;
+  new_prompt_type TEXT;
+  v_prompt_mode TEXT;
+  room_interval INT;
+  next_waiting_until TIMESTAMPTZ;
+  v_quiet_until TIMESTAMPTZ;
+  v_room_name TEXT;
+BEGIN
+  -- Get active session
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active session');
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused');
+  END IF;
+
+  -- In 'everyone' mode the round decides what happens next
+  IF sess.current_round_id IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Everyone is answering this round');
+  END IF;
+
+  -- Get room settings
+  SELECT COALESCE(prompt_interval_minutes, 0), COALESCE(prompt_mode, 'fun'), name
+  INTO room_interval, v_prompt_mode, v_room_name
+  FROM rooms WHERE id = p_room_id;
+
+  -- Get next user
+  next_user_id := get_next_turn_user(p_room_id, COALESCE(p_skipped_user_id, sess.current_turn_user_id));
+
+  IF next_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Could not determine next user');
+  END IF;
+
+  -- Calculate cooldown: the next scheduled slot, else the fixed interval
+  next_waiting_until := next_schedule_slot(p_room_id);
+  IF next_waiting_until IS NULL AND room_interval > 0 THEN
+    next_waiting_until := NOW() + (room_interval || ' minutes')::INTERVAL;
+  END IF;
+
+  -- Get new prompt using shuffle bag
+  SELECT prompt_text, prompt_type INTO new_prompt_text, new_prompt_type
+  FROM get_shuffle_bag_prompt(p_room_id, v_prompt_mode);
+
+  -- Handle missed streak based on reason
+  IF p_reason = 'completed' THEN
+    -- Reset missed_streak for the user who completed
+    UPDATE room_members
+    SET missed_streak = 0
+    WHERE room_id = p_room_id AND user_id = sess.current_turn_user_id;
+  ELSIF p_reason IN ('auto_skip', 'host_skip') AND p_skipped_user_id IS NOT NULL THEN
+    -- Increment missed_streak for skipped user
+    UPDATE room_members
+    SET missed_streak = missed_streak + 1
+    WHERE room_id = p_room_id AND user_id = p_skipped_user_id;
+
+    -- Create notification for skipped user
+    INSERT INTO notifications (user_id, type, room_id, metadata)
+    VALUES (
+      p_skipped_user_id,
+      'turn_skipped',
+      p_room_id,
+      jsonb_build_object('reason', p_reason, 'room_name', v_room_name)
+    );
+
+    -- Check if user should be removed (3+ consecutive misses)
+    IF (SELECT missed_streak FROM room_members WHERE room_id = p_room_id AND user_id = p_skipped_user_id) >= 3 THEN
+      -- Remove the member
+      DELETE FROM room_members WHERE room_id = p_room_id AND user_id = p_skipped_user_id;
+
+      -- Post system message
+      INSERT INTO messages (room_id, user_id, type, content)
+      VALUES (p_room_id, NULL, 'system', 'A member was removed due to inactivity');
+
+      -- Recalculate next user after removal
+      next_user_id := get_next_turn_user(p_room_id, sess.current_turn_user_id);
+    END IF;
+  END IF;
+
+  -- Don't hand the turn over in the middle of the next player's night:
+  -- the turn waits until their quiet hours end (after any cooldown)
+  v_quiet_until := quiet_hours_end_at(next_user_id, COALESCE(next_waiting_until, NOW()));
+  IF v_quiet_until IS NOT NULL THEN
+    next_waiting_until := v_quiet_until;
+  END IF;
+
+  -- Update session with new turn
+  -- CRITICAL: Generate new turn_instance_id to reset nudge eligibility
+  UPDATE turn_sessions
+  SET current_turn_user_id = next_user_id,
+      current_turn_index = current_turn_index + 1,
+      turn_instance_id = gen_random_uuid(),  -- Resets nudge eligibility for ALL users
+      prompt_text = new_prompt_text,
+      current_prompt_type = new_prompt_type,
+      waiting_until = next_waiting_until,
+      last_turn_completed_at = NOW(),
+      all_nudged_at = NULL  -- Reset for new turn
+  WHERE room_id = p_room_id AND is_active = true;
+
+  -- Create notification for the next user (their turn now)
+  IF next_user_id IS DISTINCT FROM sess.current_turn_user_id THEN
+    INSERT INTO notifications (user_id, type, room_id, metadata)
+    VALUES (
+      next_user_id,
+      'your_turn',
+      p_room_id,
+      jsonb_build_object(
+        'prompt_text', new_prompt_text,
+        'prompt_type', new_prompt_type,
+        'room_name', v_room_name
+      )
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'next_user_id', next_user_id,
+    'reason', p_reason
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 9: unpause_turn_session - rounds wait out the pause too
+-- ============================================
+-- Same as member_snooze.sql, plus the open round's deadline (and its
+-- opening, if it hadn't opened yet) moves on by the length of the pause.
+-- resume_turn_session and the automatic resume both go through here.
+
+CREATE OR REPLACE FUNCTION unpause_turn_session(p_room_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_round_id UUID;
+  v_paused_for INTERVAL;
+BEGIN
+  SELECT current_round_id, NOW() - paused_at INTO v_round_id, v_paused_for
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true AND paused_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE turn_sessions
+  SET waiting_until = waiting_until + v_paused_for,
+      all_nudged_at = all_nudged_at + v_paused_for,
+      paused_at = NULL,
+      away_paused = false
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_round_id IS NOT NULL THEN
+    UPDATE turn_rounds
+    SET deadline_at = deadline_at + v_paused_for,
+        opens_at = CASE WHEN opens_at > NOW() - v_paused_for THEN opens_at + v_paused_for ELSE opens_at END
+    WHERE id = v_round_id AND revealed_at IS NULL;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 10: Grant permissions
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION set_play_mode(UUID, TEXT, INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_round_answer(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_round_status(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION send_round_nudge(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION advance_turn(UUID, TEXT, UUID) TO authenticated;
+
+-- Internal / cron only
+REVOKE EXECUTE ON FUNCTION start_round(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reveal_round(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_round_deadlines() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION unpause_turn_session(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,94 @@
+-- ============================================
+-- GLOBAL SEARCH (CHATS LOBBY)
+-- ============================================
+-- One query across every room I'm in: group names, members and
+-- messages. The client groups rows by room.
+-- Run after message_search.sql (uses messages.search_vector) and
+-- host_turn_management.sql (member_display_name)
+
+-- ============================================
+-- PART 1: RPC - Search all my rooms
+-- ============================================
+-- result_type is 'room', 'member' or 'message'.
+-- Message snippets mark matches with [[ and ]] like search_room_messages;
+-- room and member snippets are the matched name (highlighted client-side).
+-- p_per_room caps message hits per room (newest first).
+
+CREATE OR REPLACE FUNCTION search_my_rooms(p_query TEXT, p_per_room INT DEFAULT 3)
+RETURNS TABLE(
+  result_type TEXT,
+  room_id UUID,
+  user_id UUID,
+  user_name TEXT,
+  message_id UUID,
+  message_type TEXT,
+  snippet TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_query TEXT := btrim(COALESCE(p_query, ''));
+  v_pattern TEXT;
+  v_tsquery TSQUERY;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF char_length(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  -- Escape LIKE wildcards so they match literally
+  v_pattern := '%' || replace(replace(replace(v_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  v_tsquery := websearch_to_tsquery('english', v_query);
+
+  -- Group names (DMs are found through their member instead)
+  RETURN QUERY
+  SELECT 'room'::TEXT, r.id, NULL::UUID, NULL::TEXT, NULL::UUID, NULL::TEXT, r.name, r.created_at
+  FROM rooms r
+  JOIN room_members me ON me.room_id = r.id AND me.user_id = caller_id
+  WHERE r.type = 'group'
+    AND r.name ILIKE v_pattern
+  LIMIT 20;
+
+  -- Members by display name or email
+  RETURN QUERY
+  SELECT 'member'::TEXT, rm.room_id, p.id, COALESCE(NULLIF(p.display_name, ''), split_part(p.email, '@', 1)),
+         NULL::UUID, NULL::TEXT,
+         CASE WHEN p.display_name ILIKE v_pattern THEN p.display_name ELSE p.email END,
+         rm.created_at
+  FROM room_members me
+  JOIN room_members rm ON rm.room_id = me.room_id AND rm.user_id != caller_id
+  JOIN profiles p ON p.id = rm.user_id
+  WHERE me.user_id = caller_id
+    AND (p.display_name ILIKE v_pattern OR p.email ILIKE v_pattern)
+  LIMIT 50;
+
+  -- Messages, newest few per room
+  IF numnode(v_tsquery) > 0 THEN
+    RETURN QUERY
+    SELECT 'message'::TEXT, hit.room_id, hit.user_id, member_display_name(hit.user_id), hit.id, hit.type,
+           ts_headline(
+             'english',
+             message_search_text(hit.type, hit.content),
+             v_tsquery,
+             'StartSel=[[, StopSel=]], MaxWords=20, MinWords=8, MaxFragments=1'
+           ),
+           hit.created_at
+    FROM (
+      SELECT m.id, m.room_id, m.user_id, m.type, m.content, m.created_at,
+             ROW_NUMBER() OVER (PARTITION BY m.room_id ORDER BY m.created_at DESC) AS rn
+      FROM messages m
+      JOIN room_members me ON me.room_id = m.room_id AND me.user_id = caller_id
+      WHERE m.type IN ('chat', 'turn_response', 'story_reply')
+        AND m.search_vector @@ v_tsquery
+    ) hit
+    WHERE hit.rn <= LEAST(GREATEST(COALESCE(p_per_room, 3), 1), 10)
+    ORDER BY hit.created_at DESC
+    LIMIT 100;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_my_rooms(TEXT, INT) TO authenticated;
@@ -0,0 +1,685 @@
+-- ============================================
+-- HOST TURN MANAGEMENT
+-- ============================================
+-- Lets the host run the rotation from Group Info:
+-- 1. Skip the current person (advance_turn with 'host_skip')
+-- 2. Reorder turn_order (drag to reorder)
+-- 3. Exclude a member "on vacation until..."
+-- 4. Pause / resume the turn session
+-- Every action posts a system message so the group knows what happened.
+-- Run after nudge_system_consolidated.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+-- Members the host has taken out of the rotation until a date
+ALTER TABLE room_members ADD COLUMN IF NOT EXISTS excluded_until TIMESTAMPTZ;
+
+-- Paused sessions stay active but nothing advances until resumed
+ALTER TABLE turn_sessions ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
+
+-- ============================================
+-- PART 2: get_next_turn_user - respect turn_order and exclusions
+-- ============================================
+-- Members are ordered by their position in the session's turn_order;
+-- members not in it yet (joined after the order was set) go last,
+-- in join order. Excluded members are passed over. If everyone else is
+-- excluded the turn stays with the current user, so a finished answer
+-- isn't lost; NULL only when they're excluded too (or gone).
+
+CREATE OR REPLACE FUNCTION get_next_turn_user(p_room_id UUID, p_current_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_turn_order UUID[];
+  all_members UUID[];
+  member_count INT;
+  current_idx INT;
+  candidate UUID;
+  i INT;
+BEGIN
+  SELECT turn_order INTO v_turn_order
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  -- Current members in rotation order (the current user is kept even if
+  -- excluded so we can find our place in the order)
+  SELECT array_agg(rm.user_id ORDER BY
+    COALESCE(array_position(v_turn_order, rm.user_id), 2147483647),
+    rm.created_at,
+    rm.user_id
+  ) INTO all_members
+  FROM room_members rm
+  WHERE rm.room_id = p_room_id;
+
+  member_count := COALESCE(array_length(all_members, 1), 0);
+
+  IF member_count < 2 THEN
+    RETURN NULL;
+  END IF;
+
+  current_idx := COALESCE(array_position(all_members, p_current_user_id), 0);
+
+  -- Walk forward from the current user, skipping excluded members
+  FOR i IN 1..member_count LOOP
+    candidate := all_members[(current_idx + i - 1) % member_count + 1];
+
+    IF candidate IS DISTINCT FROM p_current_user_id AND NOT EXISTS (
+      SELECT 1 FROM room_members
+      WHERE room_id = p_room_id
+        AND user_id = candidate
+        AND excluded_until IS NOT NULL
+        AND excluded_until > NOW()
+    ) THEN
+      RETURN candidate;
+    END IF;
+  END LOOP;
+
+  -- Everyone else is away: keep the turn where it is
+  IF p_current_user_id = ANY(all_members) AND NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id
+      AND user_id = p_current_user_id
+      AND excluded_until IS NOT NULL
+      AND excluded_until > NOW()
+  ) THEN
+    RETURN p_current_user_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 3: advance_turn - refuse to advance paused sessions
+-- ============================================
+-- Same as nudge_system_consolidated.sql, plus:
+-- - paused sessions return an error (submit_turn raises it, auto-skip ignores it)
+-- - 'host_exclude' advances without touching anyone's missed_streak
+
+DROP FUNCTION IF EXISTS advance_turn(UUID, TEXT, UUID);
+CREATE OR REPLACE FUNCTION advance_turn(
+  p_room_id UUID,
+  p_reason TEXT DEFAULT 'completed',  -- 'completed', 'auto_skip', 'host_skip', 'host_exclude'
+  p_skipped_user_id UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  sess RECORD;
+  next_user_id UUID;
+  new_prompt_text TEXT;
+  new_prompt_type TEXT;
+  v_prompt_mode TEXT;
+  room_interval INT;
+  next_waiting_until TIMESTAMPTZ;
+  v_room_name TEXT;
+BEGIN
+  -- Get active session
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active session');
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused');
+  END IF;
+
+  -- Get room settings
+  SELECT COALESCE(prompt_interval_minutes, 0), COALESCE(prompt_mode, 'fun'), name
+  INTO room_interval, v_prompt_mode, v_room_name
+  FROM rooms WHERE id = p_room_id;
+
+  -- Get next user
+  next_user_id := get_next_turn_user(p_room_id, COALESCE(p_skipped_user_id, sess.current_turn_user_id));
+
+  IF next_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Could not determine next user');
+  END IF;
+
+  -- Calculate cooldown
+  IF room_interval > 0 THEN
+    next_waiting_until := NOW() + (room_interval || ' minutes')::INTERVAL;
+  ELSE
+    next_waiting_until := NULL;
+  END IF;
+
+  -- Get new prompt using shuffle bag
+  SELECT prompt_text, prompt_type INTO new_prompt_text, new_prompt_type
+  FROM get_shuffle_bag_prompt(p_room_id, v_prompt_mode);
+
+  -- Handle missed streak based on reason
+  IF p_reason = 'completed' THEN
+    -- Reset missed_streak for the user who completed
+    UPDATE room_members
+    SET missed_streak = 0
+    WHERE room_id = p_room_id AND user_id = sess.current_turn_user_id;
+  ELSIF p_reason IN ('auto_skip', 'host_skip') AND p_skipped_user_id IS NOT NULL THEN
+    -- Increment missed_streak for skipped user
+    UPDATE room_members
+    SET missed_streak = missed_streak + 1
+    WHERE room_id = p_room_id AND user_id = p_skipped_user_id;
+
+    -- Create notification for skipped user
+    INSERT INTO notifications (user_id, type, room_id, metadata)
+    VALUES (
+      p_skipped_user_id,
+      'turn_skipped',
+      p_room_id,
+      jsonb_build_object('reason', p_reason, 'room_name', v_room_name)
+    );
+
+    -- Check if user should be removed (3+ consecutive misses)
+    IF (SELECT missed_streak FROM room_members WHERE room_id = p_room_id AND user_id = p_skipped_user_id) >= 3 THEN
+      -- Remove the member
+      DELETE FROM room_members WHERE room_id = p_room_id AND user_id = p_skipped_user_id;
+
+      -- Post system message
+      INSERT INTO messages (room_id, user_id, type, content)
+      VALUES (p_room_id, NULL, 'system', 'A member was removed due to inactivity');
+
+      -- Recalculate next user after removal
+      next_user_id := get_next_turn_user(p_room_id, sess.current_turn_user_id);
+    END IF;
+  END IF;
+
+  -- Update session with new turn
+  -- CRITICAL: Generate new turn_instance_id to reset nudge eligibility
+  UPDATE turn_sessions
+  SET current_turn_user_id = next_user_id,
+      current_turn_index = current_turn_index + 1,
+      turn_instance_id = gen_random_uuid(),  -- Resets nudge eligibility for ALL users
+      prompt_text = new_prompt_text,
+      current_prompt_type = new_prompt_type,
+      waiting_until = next_waiting_until,
+      last_turn_completed_at = NOW(),
+      all_nudged_at = NULL  -- Reset for new turn
+  WHERE room_id = p_room_id AND is_active = true;
+
+  -- Create notification for the next user (their turn now)
+  IF next_user_id IS DISTINCT FROM sess.current_turn_user_id THEN
+    INSERT INTO notifications (user_id, type, room_id, metadata)
+    VALUES (
+      next_user_id,
+      'your_turn',
+      p_room_id,
+      jsonb_build_object(
+        'prompt_text', new_prompt_text,
+        'prompt_type', new_prompt_type,
+        'room_name', v_room_name
+      )
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'next_user_id', next_user_id,
+    'reason', p_reason
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: send_nudge - no nudges while paused
+-- ============================================
+-- Same as nudge_system_consolidated.sql plus the paused check
+
+DROP FUNCTION IF EXISTS send_nudge(UUID);
+CREATE OR REPLACE FUNCTION send_nudge(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_current_turn_user_id UUID;
+  v_turn_instance_id UUID;
+  v_paused_at TIMESTAMPTZ;
+  v_room_name TEXT;
+  v_prompt_text TEXT;
+  v_is_member BOOLEAN;
+  v_all_nudged BOOLEAN;
+BEGIN
+  -- Check authentication
+  IF caller_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Check caller is a member of the room
+  SELECT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = caller_id
+  ) INTO v_is_member;
+
+  IF NOT v_is_member THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  -- Get current turn user, turn_instance_id, and prompt from active session
+  SELECT current_turn_user_id, turn_instance_id, prompt_text, paused_at
+  INTO v_current_turn_user_id, v_turn_instance_id, v_prompt_text, v_paused_at
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_current_turn_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active turn session');
+  END IF;
+
+  IF v_paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused');
+  END IF;
+
+  -- If turn_instance_id is null (legacy session), generate one now
+  IF v_turn_instance_id IS NULL THEN
+    v_turn_instance_id := gen_random_uuid();
+    UPDATE turn_sessions
+    SET turn_instance_id = v_turn_instance_id
+    WHERE room_id = p_room_id AND is_active = true;
+  END IF;
+
+  -- Block self-nudge
+  IF v_current_turn_user_id = caller_id THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot nudge yourself');
+  END IF;
+
+  -- Get room name for notification
+  SELECT name INTO v_room_name FROM rooms WHERE id = p_room_id;
+
+  -- Try to insert the nudge (unique per turn_instance_id)
+  BEGIN
+    INSERT INTO nudges (room_id, nudger_user_id, nudged_user_id, turn_instance_id, created_at)
+    VALUES (p_room_id, caller_id, v_current_turn_user_id, v_turn_instance_id, NOW());
+  EXCEPTION WHEN unique_violation THEN
+    RETURN json_build_object('success', false, 'error', 'Already nudged this turn');
+  END;
+
+  -- Create notification for the nudged user
+  INSERT INTO notifications (user_id, actor_user_id, type, room_id, metadata)
+  VALUES (
+    v_current_turn_user_id,
+    caller_id,
+    'nudged_you',
+    p_room_id,
+    jsonb_build_object('prompt_text', v_prompt_text, 'room_name', v_room_name)
+  );
+
+  -- Check if all members have now nudged
+  v_all_nudged := check_all_nudged(p_room_id);
+
+  -- If all nudged and not already set, record the timestamp for auto-skip logic
+  IF v_all_nudged THEN
+    UPDATE turn_sessions
+    SET all_nudged_at = COALESCE(all_nudged_at, NOW())
+    WHERE room_id = p_room_id AND is_active = true AND all_nudged_at IS NULL;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'nudged_user_id', v_current_turn_user_id,
+    'room_name', v_room_name,
+    'all_nudged', v_all_nudged
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: Host actions
+-- ============================================
+
+-- Display name used in system messages
+CREATE OR REPLACE FUNCTION member_display_name(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(NULLIF(p.display_name, ''), split_part(p.email, '@', 1), 'A member')
+  FROM profiles p
+  WHERE p.id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Skip whoever's turn it is
+CREATE OR REPLACE FUNCTION host_skip_turn(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_skipped_user_id UUID;
+  v_skipped_name TEXT;
+  v_result JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can skip turns');
+  END IF;
+
+  SELECT current_turn_user_id INTO v_skipped_user_id
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_skipped_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active turn session');
+  END IF;
+
+  v_skipped_name := COALESCE(member_display_name(v_skipped_user_id), 'A member');
+
+  v_result := advance_turn(p_room_id, 'host_skip', v_skipped_user_id);
+
+  IF (v_result->>'success')::boolean THEN
+    INSERT INTO messages (room_id, user_id, type, content)
+    VALUES (p_room_id, NULL, 'system', v_skipped_name || '''s turn was skipped by the host');
+  END IF;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the rotation order. p_user_ids must contain every current member once.
+CREATE OR REPLACE FUNCTION update_turn_order(p_room_id UUID, p_user_ids UUID[])
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_member_ids UUID[];
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can change the turn order');
+  END IF;
+
+  SELECT array_agg(user_id ORDER BY user_id) INTO v_member_ids
+  FROM room_members WHERE room_id = p_room_id;
+
+  IF v_member_ids IS DISTINCT FROM (SELECT array_agg(u ORDER BY u) FROM unnest(p_user_ids) u) THEN
+    RETURN json_build_object('success', false, 'error', 'Turn order must include every member exactly once');
+  END IF;
+
+  UPDATE turn_sessions
+  SET turn_order = p_user_ids
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'No active turn session');
+  END IF;
+
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (p_room_id, NULL, 'system', 'The host changed the turn order');
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Take a member out of the rotation until p_until (NULL brings them back).
+-- If it's currently their turn, the turn passes on without counting as a miss.
+CREATE OR REPLACE FUNCTION set_member_excluded_until(
+  p_room_id UUID,
+  p_user_id UUID,
+  p_until TIMESTAMPTZ
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_name TEXT;
+  v_current_turn_user_id UUID;
+  v_advanced BOOLEAN := false;
+  v_result JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage the rotation');
+  END IF;
+
+  IF p_until IS NOT NULL AND p_until <= NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'Pick a date in the future');
+  END IF;
+
+  UPDATE room_members
+  SET excluded_until = p_until
+  WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  v_name := COALESCE(member_display_name(p_user_id), 'A member');
+
+  IF p_until IS NOT NULL THEN
+    INSERT INTO messages (room_id, user_id, type, content)
+    VALUES (p_room_id, NULL, 'system', v_name || ' is on vacation until ' || to_char(p_until, 'Mon FMDD'));
+
+    -- Pass the turn on if it's theirs right now
+    SELECT current_turn_user_id INTO v_current_turn_user_id
+    FROM turn_sessions
+    WHERE room_id = p_room_id AND is_active = true AND paused_at IS NULL;
+
+    IF v_current_turn_user_id = p_user_id THEN
+      IF get_next_turn_user(p_room_id, p_user_id) IS NULL THEN
+        -- Nobody left to take it: pause rather than wait on someone away
+        UPDATE turn_sessions
+        SET paused_at = NOW()
+        WHERE room_id = p_room_id AND is_active = true AND paused_at IS NULL;
+
+        INSERT INTO messages (room_id, user_id, type, content)
+        VALUES (p_room_id, NULL, 'system', 'Nobody else is around to take the turn — game paused');
+      ELSE
+        v_result := advance_turn(p_room_id, 'host_exclude', NULL);
+        v_advanced := COALESCE((v_result->>'success')::boolean, false);
+      END IF;
+    END IF;
+  ELSE
+    INSERT INTO messages (room_id, user_id, type, content)
+    VALUES (p_room_id, NULL, 'system', v_name || ' is back in the rotation');
+  END IF;
+
+  RETURN json_build_object('success', true, 'turn_advanced', v_advanced);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pause the game: no turns, nudges or auto-skips until resumed
+CREATE OR REPLACE FUNCTION pause_turn_session(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can pause the game');
+  END IF;
+
+  UPDATE turn_sessions
+  SET paused_at = NOW()
+  WHERE room_id = p_room_id AND is_active = true AND paused_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'No running session to pause');
+  END IF;
+
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (p_room_id, NULL, 'system', 'The host paused the game');
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Resume: the cooldown and auto-skip clocks pick up where they left off
+CREATE OR REPLACE FUNCTION resume_turn_session(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can resume the game');
+  END IF;
+
+  UPDATE turn_sessions
+  SET waiting_until = waiting_until + (NOW() - paused_at),
+      all_nudged_at = all_nudged_at + (NOW() - paused_at),
+      paused_at = NULL
+  WHERE room_id = p_room_id AND is_active = true AND paused_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'The game is not paused');
+  END IF;
+
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (p_room_id, NULL, 'system', 'The host resumed the game');
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 6: Submitting while paused
+-- ============================================
+-- advance_turn refuses while paused, which would roll back the answer with
+-- a bare error. Check up front instead, before anything is inserted.
+
+-- Same as anti_stall.sql, plus the paused check
+CREATE OR REPLACE FUNCTION submit_turn(p_room_id UUID, p_content TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  sess RECORD;
+  curr_turn_user UUID;
+  v_result JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Get active session
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RAISE EXCEPTION 'No active session';
+  END IF;
+
+  -- Determine whose turn it is
+  curr_turn_user := COALESCE(sess.current_turn_user_id, sess.turn_order[sess.current_turn_index + 1]);
+
+  IF curr_turn_user != caller_id THEN
+    RAISE EXCEPTION 'Not your turn';
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The game is paused. You can answer once it resumes.';
+  END IF;
+
+  IF sess.waiting_until IS NOT NULL AND sess.waiting_until > NOW() THEN
+    RAISE EXCEPTION 'Still in cooldown period';
+  END IF;
+
+  -- Check prompt type
+  IF sess.current_prompt_type = 'photo' THEN
+    RAISE EXCEPTION 'This prompt requires a photo.';
+  END IF;
+
+  -- Insert turn response
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (p_room_id, caller_id, 'turn_response', p_content);
+
+  -- Advance turn using canonical function
+  v_result := advance_turn(p_room_id, 'completed', NULL);
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as fix_photo_turn_prompt.sql, plus the paused check
+CREATE OR REPLACE FUNCTION submit_photo_turn(p_room_id UUID, p_image_url TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  sess RECORD;
+  curr_turn_user UUID;
+  v_result JSON;
+  photo_turn_content TEXT;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RAISE EXCEPTION 'No active session';
+  END IF;
+
+  curr_turn_user := COALESCE(sess.current_turn_user_id, sess.turn_order[sess.current_turn_index + 1]);
+  IF curr_turn_user != caller_id THEN
+    RAISE EXCEPTION 'Not your turn';
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The game is paused. You can answer once it resumes.';
+  END IF;
+
+  IF sess.waiting_until IS NOT NULL AND sess.waiting_until > NOW() THEN
+    RAISE EXCEPTION 'Still in cooldown period';
+  END IF;
+
+  IF sess.current_prompt_type != 'photo' THEN
+    RAISE EXCEPTION 'Current prompt does not require a photo';
+  END IF;
+
+  IF p_image_url IS NULL OR p_image_url = '' THEN
+    RAISE EXCEPTION 'Photo URL is required';
+  END IF;
+
+  -- Build JSON content for photo turn response (stores prompt snapshot)
+  photo_turn_content := json_build_object(
+    'kind', 'photo_turn',
+    'prompt', sess.prompt_text,
+    'image_url', p_image_url
+  )::TEXT;
+
+  -- Insert as turn_response with JSON content (NOT 'image' type)
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (p_room_id, caller_id, 'turn_response', photo_turn_content);
+
+  -- Advance turn using canonical function
+  v_result := advance_turn(p_room_id, 'completed', NULL);
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 7: Grant permissions
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION advance_turn(UUID, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION send_nudge(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION host_skip_turn(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_turn_order(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_member_excluded_until(UUID, UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION pause_turn_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION resume_turn_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_turn(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_photo_turn(UUID, TEXT) TO authenticated;
@@ -0,0 +1,652 @@
+-- ============================================
+-- HOT SEAT MODE
+-- ============================================
+-- A turn variant where the group asks the questions. When the turn passes
+-- to someone, the other members get a window to submit questions for them
+-- (hot_seat_question messages) and vote on them with message_votes. When
+-- the window ends, the top-voted question becomes the turn's prompt_text.
+-- With no questions the drawn shuffle-bag prompt is used as usual.
+-- The window is part of the turn's cooldown (waiting_until), so the turn
+-- holder can't answer before the question is picked.
+-- Run after everyone_answers.sql and upvote_notifications.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS valid_play_mode;
+ALTER TABLE rooms ADD CONSTRAINT valid_play_mode CHECK (play_mode IN ('turns', 'everyone', 'hot_seat'));
+
+-- How long members have to submit and vote on questions
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS hot_seat_window_minutes INT NOT NULL DEFAULT 60;
+
+-- End of the question window (NULL once a question is picked)
+ALTER TABLE turn_sessions ADD COLUMN IF NOT EXISTS hot_seat_until TIMESTAMPTZ;
+-- The question that became prompt_text
+ALTER TABLE turn_sessions ADD COLUMN IF NOT EXISTS hot_seat_question_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+-- Notifications still to send (claim_hot_seat_notifications): the room
+-- once the window opens, the turn holder once the question is picked
+ALTER TABLE turn_sessions ADD COLUMN IF NOT EXISTS hot_seat_open_pending BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE turn_sessions ADD COLUMN IF NOT EXISTS hot_seat_pick_pending BOOLEAN NOT NULL DEFAULT false;
+
+-- Questions belong to one turn (its turn_instance_id)
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS hot_seat_turn_id UUID;
+CREATE INDEX IF NOT EXISTS idx_messages_hot_seat_turn ON messages(hot_seat_turn_id) WHERE hot_seat_turn_id IS NOT NULL;
+
+-- ============================================
+-- PART 2: Open the question window for each new turn
+-- ============================================
+-- advance_turn bumps current_turn_index; set_play_mode and start_session
+-- set current_turn_user_id. The window starts once any cooldown (and the
+-- new holder's quiet hours) is over.
+
+CREATE OR REPLACE FUNCTION open_hot_seat_questions()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_play_mode TEXT;
+  v_window INT;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.current_turn_index IS NOT DISTINCT FROM OLD.current_turn_index
+     AND NEW.current_turn_user_id IS NOT DISTINCT FROM OLD.current_turn_user_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT play_mode, hot_seat_window_minutes INTO v_play_mode, v_window
+  FROM rooms WHERE id = NEW.room_id;
+
+  IF v_play_mode = 'hot_seat' AND NEW.is_active
+     AND NEW.current_turn_user_id IS NOT NULL AND NEW.current_round_id IS NULL THEN
+    NEW.turn_instance_id := COALESCE(NEW.turn_instance_id, gen_random_uuid());
+    NEW.hot_seat_until := GREATEST(COALESCE(NEW.waiting_until, NOW()), NOW()) + (v_window || ' minutes')::INTERVAL;
+    NEW.waiting_until := NEW.hot_seat_until;
+    NEW.hot_seat_open_pending := true;
+  ELSE
+    NEW.hot_seat_until := NULL;
+    NEW.hot_seat_open_pending := false;
+  END IF;
+
+  NEW.hot_seat_question_id := NULL;
+  NEW.hot_seat_pick_pending := false;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_open_hot_seat_questions ON turn_sessions;
+CREATE TRIGGER trg_open_hot_seat_questions
+BEFORE INSERT OR UPDATE OF current_turn_index, current_turn_user_id ON turn_sessions
+FOR EACH ROW
+EXECUTE FUNCTION open_hot_seat_questions();
+
+-- ============================================
+-- PART 3: RPC - ask_hot_seat_question
+-- ============================================
+-- Anyone but the turn holder, up to 3 questions per turn
+
+CREATE OR REPLACE FUNCTION ask_hot_seat_question(p_room_id UUID, p_question TEXT)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_session RECORD;
+  v_question TEXT := trim(COALESCE(p_question, ''));
+  v_message_id UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_room_member(p_room_id, caller_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  SELECT current_turn_user_id, turn_instance_id, hot_seat_until, paused_at INTO v_session
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_session.hot_seat_until IS NULL OR v_session.hot_seat_until <= NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'Questions are closed for this turn');
+  END IF;
+
+  IF v_session.paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused');
+  END IF;
+
+  IF v_session.current_turn_user_id = caller_id THEN
+    RETURN json_build_object('success', false, 'error', 'You''re in the hot seat!');
+  END IF;
+
+  IF v_question = '' OR length(v_question) > 300 THEN
+    RETURN json_build_object('success', false, 'error', 'Questions must be 1-300 characters');
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM messages
+    WHERE hot_seat_turn_id = v_session.turn_instance_id
+      AND user_id = caller_id
+      AND deleted_at IS NULL
+  ) >= 3 THEN
+    RETURN json_build_object('success', false, 'error', 'You can ask up to 3 questions per turn');
+  END IF;
+
+  INSERT INTO messages (room_id, user_id, type, content, hot_seat_turn_id)
+  VALUES (p_room_id, caller_id, 'hot_seat_question', v_question, v_session.turn_instance_id)
+  RETURNING id INTO v_message_id;
+
+  RETURN json_build_object('success', true, 'message_id', v_message_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: pick_hot_seat_question (internal)
+-- ============================================
+-- Top score wins, the earliest question breaks ties. Returns the picked
+-- message id, or NULL if nobody asked (the drawn prompt stays). Either way
+-- the turn holder is due a notification (claim_hot_seat_notifications).
+
+CREATE OR REPLACE FUNCTION pick_hot_seat_question(p_room_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_session RECORD;
+  v_question RECORD;
+  v_holder_name TEXT;
+BEGIN
+  SELECT current_turn_user_id, turn_instance_id, hot_seat_until INTO v_session
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true
+  FOR UPDATE;
+
+  IF v_session.hot_seat_until IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT m.id, m.user_id, m.content INTO v_question
+  FROM messages m
+  LEFT JOIN message_votes mv ON mv.message_id = m.id
+  WHERE m.hot_seat_turn_id = v_session.turn_instance_id
+    AND m.type = 'hot_seat_question'
+    AND m.deleted_at IS NULL
+  GROUP BY m.id
+  ORDER BY COALESCE(SUM(CASE WHEN mv.vote_type = 'up' THEN 1 WHEN mv.vote_type = 'down' THEN -1 ELSE 0 END), 0) DESC,
+    m.created_at
+  LIMIT 1;
+
+  v_holder_name := COALESCE(member_display_name(v_session.current_turn_user_id), 'the hot seat');
+
+  -- waiting_until was the end of the window; the turn is ready now
+  UPDATE turn_sessions
+  SET hot_seat_until = NULL,
+      waiting_until = NULL,
+      hot_seat_open_pending = false,
+      hot_seat_pick_pending = true,
+      hot_seat_question_id = v_question.id,
+      prompt_text = COALESCE(v_question.content, prompt_text),
+      current_prompt_type = CASE WHEN v_question.id IS NOT NULL THEN 'text' ELSE current_prompt_type END
+  WHERE room_id = p_room_id AND is_active = true;
+
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (
+    p_room_id,
+    NULL,
+    'system',
+    CASE
+      WHEN v_question.id IS NULL THEN 'No questions for ' || v_holder_name || ', so a regular prompt it is'
+      ELSE COALESCE(member_display_name(v_question.user_id), 'A member') || '''s question for ' || v_holder_name || ' won the vote'
+    END
+  );
+
+  RETURN v_question.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: RPC - close_hot_seat_questions
+-- ============================================
+-- The turn holder or a host can take the top question early, but not
+-- before the turn's own cooldown is over.
+
+CREATE OR REPLACE FUNCTION close_hot_seat_questions(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_session RECORD;
+  v_window INT;
+  v_question_id UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT current_turn_user_id, hot_seat_until INTO v_session
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_session.hot_seat_until IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No questions are open');
+  END IF;
+
+  IF v_session.current_turn_user_id IS DISTINCT FROM caller_id AND NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the player in the hot seat or the host can close questions');
+  END IF;
+
+  SELECT hot_seat_window_minutes INTO v_window FROM rooms WHERE id = p_room_id;
+
+  IF v_session.hot_seat_until - (v_window || ' minutes')::INTERVAL > NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'Still in cooldown period');
+  END IF;
+
+  v_question_id := pick_hot_seat_question(p_room_id);
+
+  RETURN json_build_object('success', true, 'question_id', v_question_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 6: RPC - get_hot_seat_status
+-- ============================================
+-- The open questions with their scores and my vote. Picks the winner if
+-- the window ended before the cron ran ('picked' is then true).
+
+CREATE OR REPLACE FUNCTION get_hot_seat_status(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_session RECORD;
+  v_window INT;
+  v_questions JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_room_member(p_room_id, caller_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  SELECT current_turn_user_id, turn_instance_id, hot_seat_until, paused_at INTO v_session
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_session.hot_seat_until IS NULL THEN
+    RETURN json_build_object('success', true, 'active', false, 'picked', false);
+  END IF;
+
+  IF v_session.hot_seat_until <= NOW() AND v_session.paused_at IS NULL THEN
+    PERFORM pick_hot_seat_question(p_room_id);
+    RETURN json_build_object('success', true, 'active', false, 'picked', true);
+  END IF;
+
+  SELECT hot_seat_window_minutes INTO v_window FROM rooms WHERE id = p_room_id;
+
+  SELECT COALESCE(json_agg(q ORDER BY q.score DESC, q.created_at), '[]'::json) INTO v_questions
+  FROM (
+    SELECT
+      m.id AS message_id,
+      m.user_id,
+      m.content,
+      m.created_at,
+      COALESCE(SUM(CASE WHEN mv.vote_type = 'up' THEN 1 WHEN mv.vote_type = 'down' THEN -1 ELSE 0 END), 0)::INT AS score,
+      MAX(CASE WHEN mv.user_id = caller_id THEN mv.vote_type END) AS user_vote
+    FROM messages m
+    LEFT JOIN message_votes mv ON mv.message_id = m.id
+    WHERE m.hot_seat_turn_id = v_session.turn_instance_id
+      AND m.type = 'hot_seat_question'
+      AND m.deleted_at IS NULL
+    GROUP BY m.id
+  ) q;
+
+  RETURN json_build_object(
+    'success', true,
+    'active', true,
+    'picked', false,
+    'holder_id', v_session.current_turn_user_id,
+    'opens_at', v_session.hot_seat_until - (v_window || ' minutes')::INTERVAL,
+    'closes_at', v_session.hot_seat_until,
+    'questions', v_questions
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 7: process_hot_seat_questions (cron) and notifications
+-- ============================================
+-- Pick the winning question wherever the window has ended. Returns the
+-- rooms picked; the turn holders are told through
+-- claim_hot_seat_notifications like any other pick.
+
+CREATE OR REPLACE FUNCTION process_hot_seat_questions()
+RETURNS TABLE(room_id UUID, user_id UUID) AS $$
+DECLARE
+  sess RECORD;
+BEGIN
+  FOR sess IN
+    SELECT ts.room_id, ts.current_turn_user_id
+    FROM turn_sessions ts
+    WHERE ts.is_active = true
+      AND ts.paused_at IS NULL
+      AND ts.hot_seat_until IS NOT NULL
+      AND ts.hot_seat_until <= NOW()
+  LOOP
+    PERFORM pick_hot_seat_question(sess.room_id);
+    room_id := sess.room_id;
+    user_id := sess.current_turn_user_id;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Hands out the notifications that are due, each once, to whoever asks
+-- first: the cron after process_hot_seat_questions, or notify-turn and
+-- notify-message after a member's get_hot_seat_status picked the question
+-- (lib/notificationDelivery.ts, notifyHotSeatEvents).
+-- 'opened': the window has opened (after any cooldown); tell the room
+-- 'picked': the question is the prompt; tell the turn holder
+CREATE OR REPLACE FUNCTION claim_hot_seat_notifications(p_room_id UUID DEFAULT NULL)
+RETURNS TABLE(room_id UUID, kind TEXT, holder_id UUID) AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE turn_sessions ts
+  SET hot_seat_pick_pending = false
+  WHERE ts.hot_seat_pick_pending
+    AND ts.is_active = true
+    AND (p_room_id IS NULL OR ts.room_id = p_room_id)
+  RETURNING ts.room_id, 'picked'::TEXT, ts.current_turn_user_id;
+
+  RETURN QUERY
+  UPDATE turn_sessions ts
+  SET hot_seat_open_pending = false
+  FROM rooms r
+  WHERE r.id = ts.room_id
+    AND ts.hot_seat_open_pending
+    AND ts.is_active = true
+    AND ts.paused_at IS NULL
+    AND ts.hot_seat_until > NOW()
+    AND ts.hot_seat_until - (r.hot_seat_window_minutes || ' minutes')::INTERVAL <= NOW()
+    AND (p_room_id IS NULL OR ts.room_id = p_room_id)
+  RETURNING ts.room_id, 'opened'::TEXT, ts.current_turn_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 8: vote_on_message - questions can be voted on
+-- ============================================
+-- Same as upvote_notifications.sql, plus hot_seat_question messages can be
+-- voted on (without upvote notifications) while their window is open
+
+CREATE OR REPLACE FUNCTION vote_on_message(
+  p_message_id UUID,
+  p_vote_type TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_message RECORD;
+  v_existing_vote TEXT;
+  v_new_user_vote TEXT := NULL;
+  v_score BIGINT;
+  v_was_new_upvote BOOLEAN := FALSE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_vote_type NOT IN ('up', 'down') THEN
+    RAISE EXCEPTION 'Invalid vote type';
+  END IF;
+
+  -- Verify message exists and is a turn_response or an open hot seat question
+  SELECT id, user_id, type, room_id, hot_seat_turn_id INTO v_message
+  FROM messages
+  WHERE id = p_message_id;
+
+  IF v_message IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.type = 'hot_seat_question' THEN
+    IF NOT is_room_member(v_message.room_id, v_user_id) THEN
+      RAISE EXCEPTION 'Not a member of this room';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM turn_sessions
+      WHERE room_id = v_message.room_id
+        AND is_active = true
+        AND turn_instance_id = v_message.hot_seat_turn_id
+        AND hot_seat_until > NOW()
+    ) THEN
+      RAISE EXCEPTION 'Voting on this question has closed';
+    END IF;
+  ELSIF v_message.type != 'turn_response' THEN
+    RAISE EXCEPTION 'Can only vote on turn responses';
+  END IF;
+
+  -- Cannot vote on own messages
+  IF v_message.user_id = v_user_id THEN
+    RAISE EXCEPTION 'Cannot vote on your own message';
+  END IF;
+
+  -- Check existing vote
+  SELECT vote_type INTO v_existing_vote
+  FROM message_votes
+  WHERE message_id = p_message_id AND user_id = v_user_id;
+
+  IF v_existing_vote IS NULL THEN
+    -- No existing vote, create new
+    INSERT INTO message_votes (message_id, user_id, vote_type)
+    VALUES (p_message_id, v_user_id, p_vote_type);
+    v_new_user_vote := p_vote_type;
+    -- Track if this is a new upvote
+    v_was_new_upvote := (p_vote_type = 'up');
+  ELSIF v_existing_vote = p_vote_type THEN
+    -- Same vote, remove it (toggle off)
+    DELETE FROM message_votes
+    WHERE message_id = p_message_id AND user_id = v_user_id;
+    v_new_user_vote := NULL;
+  ELSE
+    -- Different vote, switch it
+    UPDATE message_votes
+    SET vote_type = p_vote_type, created_at = now()
+    WHERE message_id = p_message_id AND user_id = v_user_id;
+    v_new_user_vote := p_vote_type;
+    -- Track if this is a switch to upvote
+    v_was_new_upvote := (p_vote_type = 'up');
+  END IF;
+
+  -- Calculate new score
+  SELECT COALESCE(SUM(CASE WHEN vote_type = 'up' THEN 1 ELSE -1 END), 0)
+  INTO v_score
+  FROM message_votes
+  WHERE message_id = p_message_id;
+
+  -- Cap score at -99
+  IF v_score < -99 THEN
+    v_score := -99;
+  END IF;
+
+  -- Process notifications (only for upvotes on answers, not removals or downvotes)
+  IF v_was_new_upvote AND v_message.type = 'turn_response' THEN
+    PERFORM process_upvote_notification(p_message_id, v_user_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'user_vote', v_new_user_vote
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 9: set_play_mode - add 'hot_seat'
+-- ============================================
+-- Same as everyone_answers.sql, plus 'hot_seat' and its question window
+-- (p_hot_seat_minutes). Leaving hot seat mid-window picks the question now.
+
+DROP FUNCTION IF EXISTS set_play_mode(UUID, TEXT, INT);
+CREATE OR REPLACE FUNCTION set_play_mode(
+  p_room_id UUID,
+  p_mode TEXT,
+  p_deadline_hours INT DEFAULT NULL,
+  p_hot_seat_minutes INT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_old_mode TEXT;
+  v_deadline_hours INT;
+  v_hot_seat_minutes INT;
+  v_round_id UUID;
+  v_next_user_id UUID;
+  v_name TEXT;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can change the play mode');
+  END IF;
+
+  IF p_mode NOT IN ('turns', 'everyone', 'hot_seat') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid play mode');
+  END IF;
+
+  IF p_deadline_hours IS NOT NULL AND (p_deadline_hours < 1 OR p_deadline_hours > 168) THEN
+    RETURN json_build_object('success', false, 'error', 'Deadline must be between 1 hour and 7 days');
+  END IF;
+
+  IF p_hot_seat_minutes IS NOT NULL AND (p_hot_seat_minutes < 5 OR p_hot_seat_minutes > 1440) THEN
+    RETURN json_build_object('success', false, 'error', 'Question time must be between 5 minutes and 1 day');
+  END IF;
+
+  SELECT play_mode, round_deadline_hours, hot_seat_window_minutes
+  INTO v_old_mode, v_deadline_hours, v_hot_seat_minutes
+  FROM rooms WHERE id = p_room_id;
+
+  v_deadline_hours := COALESCE(p_deadline_hours, v_deadline_hours);
+  v_hot_seat_minutes := COALESCE(p_hot_seat_minutes, v_hot_seat_minutes);
+
+  -- Leaving hot seat: settle the open question window first
+  IF v_old_mode = 'hot_seat' AND p_mode <> 'hot_seat' THEN
+    PERFORM pick_hot_seat_question(p_room_id);
+  END IF;
+
+  UPDATE rooms
+  SET play_mode = p_mode,
+      round_deadline_hours = v_deadline_hours,
+      hot_seat_window_minutes = v_hot_seat_minutes
+  WHERE id = p_room_id;
+
+  SELECT current_round_id INTO v_round_id
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF p_mode = 'everyone' THEN
+    IF v_round_id IS NULL AND EXISTS (
+      SELECT 1 FROM turn_sessions WHERE room_id = p_room_id AND is_active = true
+    ) THEN
+      PERFORM start_round(p_room_id, false);
+    ELSIF v_round_id IS NOT NULL AND p_deadline_hours IS NOT NULL THEN
+      -- A new deadline applies to the open round too
+      UPDATE turn_rounds
+      SET deadline_at = opens_at + (v_deadline_hours || ' hours')::INTERVAL
+      WHERE id = v_round_id;
+    END IF;
+  ELSIF v_round_id IS NOT NULL THEN
+    -- play_mode is no longer 'everyone', so no new round is started
+    PERFORM reveal_round(v_round_id);
+
+    v_next_user_id := get_next_turn_user(p_room_id, NULL);
+
+    -- In hot seat mode this opens the question window for them
+    UPDATE turn_sessions
+    SET current_turn_user_id = v_next_user_id,
+        turn_instance_id = gen_random_uuid(),
+        waiting_until = NULL,
+        all_nudged_at = NULL
+    WHERE room_id = p_room_id AND is_active = true;
+  END IF;
+
+  IF v_old_mode IS DISTINCT FROM p_mode THEN
+    v_name := COALESCE(member_display_name(caller_id), 'The host');
+    INSERT INTO messages (room_id, user_id, type, content)
+    VALUES (
+      p_room_id,
+      NULL,
+      'system',
+      CASE p_mode
+        WHEN 'everyone' THEN v_name || ' switched to everyone answers: each prompt goes to the whole group'
+        WHEN 'hot_seat' THEN v_name || ' switched to hot seat: from the next turn, the group asks the questions'
+        ELSE v_name || ' switched back to taking turns'
+      END
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'play_mode', p_mode,
+    'round_deadline_hours', v_deadline_hours,
+    'hot_seat_window_minutes', v_hot_seat_minutes
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 10: unpause_turn_session - the question window waits too
+-- ============================================
+-- Same as everyone_answers.sql, plus hot_seat_until moves on by the
+-- length of the pause, so the group gets back the asking time it lost.
+
+CREATE OR REPLACE FUNCTION unpause_turn_session(p_room_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_round_id UUID;
+  v_paused_for INTERVAL;
+BEGIN
+  SELECT current_round_id, NOW() - paused_at INTO v_round_id, v_paused_for
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true AND paused_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE turn_sessions
+  SET waiting_until = waiting_until + v_paused_for,
+      all_nudged_at = all_nudged_at + v_paused_for,
+      hot_seat_until = hot_seat_until + v_paused_for,
+      paused_at = NULL,
+      away_paused = false
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_round_id IS NOT NULL THEN
+    UPDATE turn_rounds
+    SET deadline_at = deadline_at + v_paused_for,
+        opens_at = CASE WHEN opens_at > NOW() - v_paused_for THEN opens_at + v_paused_for ELSE opens_at END
+    WHERE id = v_round_id AND revealed_at IS NULL;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 11: Grant permissions
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION ask_hot_seat_question(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION close_hot_seat_questions(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_hot_seat_status(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION vote_on_message(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_play_mode(UUID, TEXT, INT, INT) TO authenticated;
+
+-- Internal / cron only
+REVOKE EXECUTE ON FUNCTION pick_hot_seat_question(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_hot_seat_questions() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_hot_seat_notifications(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION unpause_turn_session(UUID) FROM PUBLIC, anon, authenticated;
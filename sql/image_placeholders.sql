@@ -0,0 +1,278 @@
+-- ============================================
+-- IMAGE PLACEHOLDERS
+-- ============================================
+-- Photos are now resized, re-encoded and stripped of metadata in the
+-- browser before upload (lib/mediaUpload.ts), which also computes a
+-- blurhash: a short string clients decode into a blurred placeholder
+-- while the real image loads. It's stored next to each photo:
+--   chat       'image' message, payload
+--              { "v": 1, "kind": "image", "width", "height", "blurhash" }
+--              (content stays the image URL)
+--   turns      photo_turn payload gains width, height and blurhash
+--              (see submit_photo_turn)
+--   stories    stories.blurhash
+--   profiles   profile_photos.blurhash
+-- Run after video_clips.sql
+
+-- ============================================
+-- PART 1: The 'image' payload kind
+-- ============================================
+-- Same as video_clips.sql, plus 'image' on image messages.
+-- message_payload_text has no case for it, so content keeps the URL.
+
+CREATE OR REPLACE FUNCTION message_payload_kind_allowed(p_type TEXT, p_kind TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(CASE p_type
+    WHEN 'turn_response' THEN p_kind IN ('photo_turn', 'voice')
+    WHEN 'system' THEN p_kind = 'weekly_recap'
+    WHEN 'poll' THEN p_kind = 'poll'
+    WHEN 'voice' THEN p_kind = 'voice'
+    WHEN 'video' THEN p_kind = 'video'
+    WHEN 'image' THEN p_kind = 'image'
+  END, false);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- PART 2: RPC - Photo turns with a placeholder
+-- ============================================
+-- Same as fix_photo_turn_prompt.sql, plus optional blurhash and size,
+-- and the payload written directly. Older clients calling with two
+-- arguments still match through the defaults. Refuses while the game
+-- is paused instead of failing in advance_turn.
+
+DROP FUNCTION IF EXISTS submit_photo_turn(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION submit_photo_turn(
+  p_room_id UUID,
+  p_image_url TEXT,
+  p_blurhash TEXT DEFAULT NULL,
+  p_width INT DEFAULT NULL,
+  p_height INT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  sess RECORD;
+  curr_turn_user UUID;
+  v_result JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RAISE EXCEPTION 'No active session';
+  END IF;
+
+  curr_turn_user := COALESCE(sess.current_turn_user_id, sess.turn_order[sess.current_turn_index + 1]);
+  IF curr_turn_user != caller_id THEN
+    RAISE EXCEPTION 'Not your turn';
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The game is paused. You can answer once it resumes.';
+  END IF;
+
+  IF sess.waiting_until IS NOT NULL AND sess.waiting_until > NOW() THEN
+    RAISE EXCEPTION 'Still in cooldown period';
+  END IF;
+
+  IF sess.current_prompt_type != 'photo' THEN
+    RAISE EXCEPTION 'Current prompt does not require a photo';
+  END IF;
+
+  IF p_image_url IS NULL OR p_image_url = '' THEN
+    RAISE EXCEPTION 'Photo URL is required';
+  END IF;
+
+  INSERT INTO messages (room_id, user_id, type, content, payload)
+  VALUES (
+    p_room_id,
+    caller_id,
+    'turn_response',
+    'Sent a photo',
+    jsonb_build_object(
+      'v', 1,
+      'kind', 'photo_turn',
+      'prompt', sess.prompt_text,
+      'image_url', p_image_url
+    ) || jsonb_strip_nulls(jsonb_build_object(
+      'blurhash', left(p_blurhash, 100),
+      'width', p_width,
+      'height', p_height
+    ))
+  );
+
+  v_result := advance_turn(p_room_id, 'completed', NULL);
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 3: Story placeholders
+-- ============================================
+
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS blurhash TEXT;
+
+ALTER TABLE stories DROP CONSTRAINT IF EXISTS stories_blurhash_length;
+ALTER TABLE stories ADD CONSTRAINT stories_blurhash_length CHECK (
+  blurhash IS NULL OR length(blurhash) <= 100
+);
+
+-- Same as video_clips.sql, plus blurhash
+DROP FUNCTION IF EXISTS get_stories_feed(UUID);
+
+CREATE OR REPLACE FUNCTION get_stories_feed(for_user_id UUID)
+RETURNS TABLE(
+  story_id UUID,
+  story_user_id UUID,
+  image_url TEXT,
+  created_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  user_email TEXT,
+  user_display_name TEXT,
+  user_avatar_url TEXT,
+  is_viewed BOOLEAN,
+  view_count BIGINT,
+  overlays JSONB,
+  video_url TEXT,
+  duration_ms INT,
+  blurhash TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.id as story_id,
+    s.user_id as story_user_id,
+    s.image_url,
+    s.created_at,
+    s.expires_at,
+    p.email as user_email,
+    p.display_name as user_display_name,
+    p.avatar_url as user_avatar_url,
+    EXISTS (
+      SELECT 1 FROM story_views sv
+      WHERE sv.story_id = s.id AND sv.viewer_user_id = for_user_id
+    ) as is_viewed,
+    (SELECT COUNT(*) FROM story_views sv WHERE sv.story_id = s.id) as view_count,
+    s.overlays,
+    s.video_url,
+    s.duration_ms,
+    s.blurhash
+  FROM stories s
+  JOIN profiles p ON p.id = s.user_id
+  WHERE s.expires_at > now()
+    AND (
+      s.user_id = for_user_id  -- Own stories always visible
+      OR (
+        -- Not manually unfollowed
+        NOT is_manually_unfollowed(for_user_id, s.user_id)
+        AND (
+          -- Explicit follow
+          EXISTS (SELECT 1 FROM follows WHERE follower_id = for_user_id AND following_id = s.user_id)
+          -- Or implicit auto-follow
+          OR is_implicit_follow(for_user_id, s.user_id)
+        )
+      )
+    )
+  ORDER BY
+    -- Own stories first
+    CASE WHEN s.user_id = for_user_id THEN 0 ELSE 1 END,
+    -- Then by unseen first
+    CASE WHEN EXISTS (
+      SELECT 1 FROM story_views sv
+      WHERE sv.story_id = s.id AND sv.viewer_user_id = for_user_id
+    ) THEN 1 ELSE 0 END,
+    -- Then by newest
+    s.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: Profile photo placeholders
+-- ============================================
+
+ALTER TABLE profile_photos ADD COLUMN IF NOT EXISTS blurhash TEXT;
+
+-- Same as profile_gallery_flashbox.sql, plus blurhash
+DROP FUNCTION IF EXISTS get_profile_photos(UUID);
+
+CREATE OR REPLACE FUNCTION get_profile_photos(p_user_id UUID)
+RETURNS TABLE (
+  id UUID,
+  url TEXT,
+  storage_path TEXT,
+  "position" INTEGER,
+  created_at TIMESTAMPTZ,
+  blurhash TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT pp.id, pp.url, pp.storage_path, pp."position", pp.created_at, pp.blurhash
+  FROM profile_photos pp
+  WHERE pp.user_id = p_user_id
+  ORDER BY pp."position" ASC, pp.created_at ASC
+  LIMIT 16;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as profile_gallery_flashbox.sql, plus an optional blurhash
+DROP FUNCTION IF EXISTS add_profile_photo(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION add_profile_photo(
+  p_url TEXT,
+  p_storage_path TEXT,
+  p_blurhash TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_count INTEGER;
+  v_next_position INTEGER;
+  v_new_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Check current count
+  SELECT COUNT(*) INTO v_count
+  FROM profile_photos
+  WHERE user_id = v_user_id;
+
+  IF v_count >= 16 THEN
+    RETURN json_build_object('success', false, 'error', 'Maximum 16 photos allowed');
+  END IF;
+
+  -- Get next position
+  SELECT COALESCE(MAX("position"), -1) + 1 INTO v_next_position
+  FROM profile_photos
+  WHERE user_id = v_user_id;
+
+  -- Insert the photo
+  INSERT INTO profile_photos (user_id, url, storage_path, "position", blurhash)
+  VALUES (v_user_id, p_url, p_storage_path, v_next_position, left(p_blurhash, 100))
+  RETURNING id INTO v_new_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'photo_id', v_new_id,
+    'position', v_next_position
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: Grants
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION submit_photo_turn(UUID, TEXT, TEXT, INT, INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_stories_feed(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_profile_photos(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_profile_photo(TEXT, TEXT, TEXT) TO authenticated;
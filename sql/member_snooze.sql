@@ -0,0 +1,637 @@
+-- ============================================
+-- MEMBER SNOOZE
+-- ============================================
+-- Members can snooze themselves until a date, in one room or in all
+-- their rooms at once (from the profile page). While snoozed:
+-- - get_next_turn_user passes over them
+-- - nudges to them are blocked
+-- - get_nudge_status reports "away until ..."
+-- Host-set vacations (excluded_until) behave the same way. When the turn
+-- holder goes away and nobody else is around, the game pauses itself and
+-- picks up again once someone is back.
+-- Run after host_turn_management.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+ALTER TABLE room_members ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ;
+
+-- Paused because nobody was around to take the turn (not by the host)
+ALTER TABLE turn_sessions ADD COLUMN IF NOT EXISTS away_paused BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================
+-- PART 2: Away helper
+-- ============================================
+-- When a member is out of the rotation (snoozed or host-excluded),
+-- or NULL if they're around
+
+CREATE OR REPLACE FUNCTION member_away_until(p_room_id UUID, p_user_id UUID)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT NULLIF(GREATEST(
+    COALESCE(rm.snoozed_until, '-infinity'::TIMESTAMPTZ),
+    COALESCE(rm.excluded_until, '-infinity'::TIMESTAMPTZ)
+  ), '-infinity'::TIMESTAMPTZ)
+  FROM room_members rm
+  WHERE rm.room_id = p_room_id
+    AND rm.user_id = p_user_id
+    AND (rm.snoozed_until > NOW() OR rm.excluded_until > NOW());
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- "Mar 14" for messages about p_user_id being away. Rooms and members
+-- have no timezone yet, so this is the UTC date; prompt_schedules.sql
+-- redefines it once they do.
+CREATE OR REPLACE FUNCTION away_until_label(p_room_id UUID, p_user_id UUID, p_until TIMESTAMPTZ)
+RETURNS TEXT AS $$
+  SELECT to_char(p_until AT TIME ZONE 'UTC', 'Mon FMDD');
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- PART 3: get_next_turn_user - skip snoozed members too
+-- ============================================
+-- If everyone else is away the turn stays with the current user, so a
+-- finished answer isn't lost; NULL only when they're away too (or gone).
+
+CREATE OR REPLACE FUNCTION get_next_turn_user(p_room_id UUID, p_current_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_turn_order UUID[];
+  all_members UUID[];
+  member_count INT;
+  current_idx INT;
+  candidate UUID;
+  i INT;
+BEGIN
+  SELECT turn_order INTO v_turn_order
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  -- Current members in rotation order (turn_order first, newer members last)
+  SELECT array_agg(rm.user_id ORDER BY
+    COALESCE(array_position(v_turn_order, rm.user_id), 2147483647),
+    rm.created_at,
+    rm.user_id
+  ) INTO all_members
+  FROM room_members rm
+  WHERE rm.room_id = p_room_id;
+
+  member_count := COALESCE(array_length(all_members, 1), 0);
+
+  IF member_count < 2 THEN
+    RETURN NULL;
+  END IF;
+
+  current_idx := COALESCE(array_position(all_members, p_current_user_id), 0);
+
+  -- Walk forward from the current user, skipping anyone who's away
+  FOR i IN 1..member_count LOOP
+    candidate := all_members[(current_idx + i - 1) % member_count + 1];
+
+    IF candidate IS DISTINCT FROM p_current_user_id
+       AND member_away_until(p_room_id, candidate) IS NULL THEN
+      RETURN candidate;
+    END IF;
+  END LOOP;
+
+  -- Everyone else is away: keep the turn where it is
+  IF p_current_user_id = ANY(all_members)
+     AND member_away_until(p_room_id, p_current_user_id) IS NULL THEN
+    RETURN p_current_user_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: Away pauses
+-- ============================================
+
+-- Lifts a pause, moving the cooldown and auto-skip clocks on by however
+-- long the game was paused. Shared by the host's resume and the automatic
+-- one below.
+CREATE OR REPLACE FUNCTION unpause_turn_session(p_room_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE turn_sessions
+  SET waiting_until = waiting_until + (NOW() - paused_at),
+      all_nudged_at = all_nudged_at + (NOW() - paused_at),
+      paused_at = NULL,
+      away_paused = false
+  WHERE room_id = p_room_id AND is_active = true AND paused_at IS NOT NULL;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as host_turn_management.sql, with the clocks moved by
+-- unpause_turn_session
+CREATE OR REPLACE FUNCTION resume_turn_session(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can resume the game');
+  END IF;
+
+  IF NOT unpause_turn_session(p_room_id) THEN
+    RETURN json_build_object('success', false, 'error', 'The game is not paused');
+  END IF;
+
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (p_room_id, NULL, 'system', 'The host resumed the game');
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A game that paused itself because nobody was around picks up again once
+-- someone is: with the turn holder if they're back, otherwise with the next
+-- member who is. Returns who has the turn now, or NULL if it's still paused
+-- (or wasn't paused this way).
+CREATE OR REPLACE FUNCTION resume_away_pause(p_room_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_holder UUID;
+  v_next UUID;
+BEGIN
+  SELECT current_turn_user_id INTO v_holder
+  FROM turn_sessions
+  WHERE room_id = p_room_id
+    AND is_active = true
+    AND paused_at IS NOT NULL
+    AND away_paused
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_holder)
+     AND member_away_until(p_room_id, v_holder) IS NULL THEN
+    v_next := v_holder;
+  ELSE
+    v_next := get_next_turn_user(p_room_id, v_holder);
+    IF v_next IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  PERFORM unpause_turn_session(p_room_id);
+
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (
+    p_room_id, NULL, 'system',
+    COALESCE(member_display_name(v_next), 'A member') || ' is back — game resumed'
+  );
+
+  -- The holder is still away: pass it on without counting a miss
+  IF v_next IS DISTINCT FROM v_holder THEN
+    PERFORM advance_turn(p_room_id, 'snoozed', NULL);
+  END IF;
+
+  RETURN v_next;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cron sweep for away pauses nobody has come back to lift by hand
+-- (snoozes and vacations that simply ran out)
+CREATE OR REPLACE FUNCTION process_away_pauses()
+RETURNS TABLE(room_id UUID, next_user_id UUID) AS $$
+DECLARE
+  v_room_id UUID;
+  v_next UUID;
+BEGIN
+  FOR v_room_id IN
+    SELECT ts.room_id
+    FROM turn_sessions ts
+    WHERE ts.is_active = true
+      AND ts.paused_at IS NOT NULL
+      AND ts.away_paused
+  LOOP
+    v_next := resume_away_pause(v_room_id);
+
+    IF v_next IS NOT NULL THEN
+      room_id := v_room_id;
+      next_user_id := v_next;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as host_turn_management.sql, plus its pause is an away pause, and
+-- bringing someone back can lift one
+CREATE OR REPLACE FUNCTION set_member_excluded_until(
+  p_room_id UUID,
+  p_user_id UUID,
+  p_until TIMESTAMPTZ
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_name TEXT;
+  v_current_turn_user_id UUID;
+  v_advanced BOOLEAN := false;
+  v_result JSON;
+  v_next UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage the rotation');
+  END IF;
+
+  IF p_until IS NOT NULL AND p_until <= NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'Pick a date in the future');
+  END IF;
+
+  UPDATE room_members
+  SET excluded_until = p_until
+  WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  v_name := COALESCE(member_display_name(p_user_id), 'A member');
+
+  IF p_until IS NOT NULL THEN
+    INSERT INTO messages (room_id, user_id, type, content)
+    VALUES (p_room_id, NULL, 'system', v_name || ' is on vacation until ' || away_until_label(p_room_id, p_user_id, p_until));
+
+    -- Pass the turn on if it's theirs right now
+    SELECT current_turn_user_id INTO v_current_turn_user_id
+    FROM turn_sessions
+    WHERE room_id = p_room_id AND is_active = true AND paused_at IS NULL;
+
+    IF v_current_turn_user_id = p_user_id THEN
+      IF get_next_turn_user(p_room_id, p_user_id) IS NULL THEN
+        -- Nobody left to take it: pause until someone's back
+        UPDATE turn_sessions
+        SET paused_at = NOW(), away_paused = true
+        WHERE room_id = p_room_id AND is_active = true AND paused_at IS NULL;
+
+        INSERT INTO messages (room_id, user_id, type, content)
+        VALUES (p_room_id, NULL, 'system', 'Nobody else is around to take the turn — game paused');
+      ELSE
+        v_result := advance_turn(p_room_id, 'host_exclude', NULL);
+        v_advanced := COALESCE((v_result->>'success')::boolean, false);
+      END IF;
+    END IF;
+  ELSE
+    INSERT INTO messages (room_id, user_id, type, content)
+    VALUES (p_room_id, NULL, 'system', v_name || ' is back in the rotation');
+
+    v_next := resume_away_pause(p_room_id);
+    v_advanced := v_next IS NOT NULL AND v_next <> caller_id;
+  END IF;
+
+  RETURN json_build_object('success', true, 'turn_advanced', v_advanced);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: set_snooze - snooze one room or all rooms
+-- ============================================
+-- p_until NULL clears the snooze. p_room_id NULL applies to every room
+-- the caller is in. If it's the caller's turn somewhere, the turn passes
+-- on without counting as a miss; those room ids are returned so the
+-- client can push-notify the next person. Where everyone else is away
+-- too there's nobody to pass it to, so the game is paused instead of
+-- waiting on someone who can't be nudged; those room ids are returned
+-- as paused_room_ids. Clearing a snooze lifts such pauses where the
+-- caller is now the one around (resumed_room_ids; the ones handed to
+-- someone else are in advanced_room_ids too).
+
+CREATE OR REPLACE FUNCTION set_snooze(p_until TIMESTAMPTZ, p_room_id UUID DEFAULT NULL)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_updated INT;
+  v_room RECORD;
+  v_result JSON;
+  v_advanced UUID[] := ARRAY[]::UUID[];
+  v_paused UUID[] := ARRAY[]::UUID[];
+  v_resumed UUID[] := ARRAY[]::UUID[];
+  v_next UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_until IS NOT NULL AND p_until <= NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'Pick a time in the future');
+  END IF;
+
+  UPDATE room_members
+  SET snoozed_until = p_until
+  WHERE user_id = caller_id
+    AND (p_room_id IS NULL OR room_id = p_room_id);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  IF p_room_id IS NOT NULL AND v_updated = 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  -- Hand off any turn the caller is currently holding
+  IF p_until IS NOT NULL THEN
+    FOR v_room IN
+      SELECT ts.room_id
+      FROM turn_sessions ts
+      WHERE ts.is_active = true
+        AND ts.paused_at IS NULL
+        AND ts.current_turn_user_id = caller_id
+        AND (p_room_id IS NULL OR ts.room_id = p_room_id)
+    LOOP
+      -- Nobody left to take the turn
+      IF get_next_turn_user(v_room.room_id, caller_id) IS NULL THEN
+        UPDATE turn_sessions
+        SET paused_at = NOW(), away_paused = true
+        WHERE room_id = v_room.room_id AND is_active = true AND paused_at IS NULL;
+
+        v_paused := array_append(v_paused, v_room.room_id);
+
+        INSERT INTO messages (room_id, user_id, type, content)
+        VALUES (
+          v_room.room_id, NULL, 'system',
+          COALESCE(member_display_name(caller_id), 'A member')
+            || ' is away until ' || away_until_label(v_room.room_id, caller_id, p_until)
+            || ' and nobody else is around to take the turn — game paused'
+        );
+        CONTINUE;
+      END IF;
+
+      v_result := advance_turn(v_room.room_id, 'snoozed', NULL);
+      IF (v_result->>'success')::boolean THEN
+        v_advanced := array_append(v_advanced, v_room.room_id);
+
+        INSERT INTO messages (room_id, user_id, type, content)
+        VALUES (
+          v_room.room_id, NULL, 'system',
+          COALESCE(member_display_name(caller_id), 'A member')
+            || ' is away until ' || away_until_label(v_room.room_id, caller_id, p_until) || ' — turn passed on'
+        );
+      END IF;
+    END LOOP;
+  ELSE
+    -- Back: pick up games that paused for want of anyone around
+    FOR v_room IN
+      SELECT ts.room_id
+      FROM turn_sessions ts
+      JOIN room_members rm ON rm.room_id = ts.room_id AND rm.user_id = caller_id
+      WHERE ts.is_active = true
+        AND ts.paused_at IS NOT NULL
+        AND ts.away_paused
+        AND (p_room_id IS NULL OR ts.room_id = p_room_id)
+    LOOP
+      v_next := resume_away_pause(v_room.room_id);
+      IF v_next IS NOT NULL THEN
+        v_resumed := array_append(v_resumed, v_room.room_id);
+        IF v_next <> caller_id THEN
+          v_advanced := array_append(v_advanced, v_room.room_id);
+        END IF;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'rooms_updated', v_updated,
+    'advanced_room_ids', v_advanced,
+    'paused_room_ids', v_paused,
+    'resumed_room_ids', v_resumed
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Snooze state across all my rooms (profile page)
+CREATE OR REPLACE FUNCTION get_my_snooze_status()
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_total INT;
+  v_snoozed INT;
+  v_until TIMESTAMPTZ;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE snoozed_until > NOW()),
+    MAX(snoozed_until) FILTER (WHERE snoozed_until > NOW())
+  INTO v_total, v_snoozed, v_until
+  FROM room_members
+  WHERE user_id = caller_id;
+
+  RETURN json_build_object(
+    'total_rooms', v_total,
+    'snoozed_rooms', v_snoozed,
+    'snoozed_until', v_until
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 6: send_nudge - block nudges to members who are away
+-- ============================================
+-- Same as host_turn_management.sql plus the away check
+
+DROP FUNCTION IF EXISTS send_nudge(UUID);
+CREATE OR REPLACE FUNCTION send_nudge(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_current_turn_user_id UUID;
+  v_turn_instance_id UUID;
+  v_paused_at TIMESTAMPTZ;
+  v_away_until TIMESTAMPTZ;
+  v_room_name TEXT;
+  v_prompt_text TEXT;
+  v_is_member BOOLEAN;
+  v_all_nudged BOOLEAN;
+BEGIN
+  -- Check authentication
+  IF caller_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Check caller is a member of the room
+  SELECT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = caller_id
+  ) INTO v_is_member;
+
+  IF NOT v_is_member THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  -- Get current turn user, turn_instance_id, and prompt from active session
+  SELECT current_turn_user_id, turn_instance_id, prompt_text, paused_at
+  INTO v_current_turn_user_id, v_turn_instance_id, v_prompt_text, v_paused_at
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_current_turn_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active turn session');
+  END IF;
+
+  IF v_paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused');
+  END IF;
+
+  -- Don't nudge people who are snoozed or on vacation
+  v_away_until := member_away_until(p_room_id, v_current_turn_user_id);
+  IF v_away_until IS NOT NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'They''re away until ' || away_until_label(p_room_id, v_current_turn_user_id, v_away_until),
+      'away_until', v_away_until
+    );
+  END IF;
+
+  -- If turn_instance_id is null (legacy session), generate one now
+  IF v_turn_instance_id IS NULL THEN
+    v_turn_instance_id := gen_random_uuid();
+    UPDATE turn_sessions
+    SET turn_instance_id = v_turn_instance_id
+    WHERE room_id = p_room_id AND is_active = true;
+  END IF;
+
+  -- Block self-nudge
+  IF v_current_turn_user_id = caller_id THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot nudge yourself');
+  END IF;
+
+  -- Get room name for notification
+  SELECT name INTO v_room_name FROM rooms WHERE id = p_room_id;
+
+  -- Try to insert the nudge (unique per turn_instance_id)
+  BEGIN
+    INSERT INTO nudges (room_id, nudger_user_id, nudged_user_id, turn_instance_id, created_at)
+    VALUES (p_room_id, caller_id, v_current_turn_user_id, v_turn_instance_id, NOW());
+  EXCEPTION WHEN unique_violation THEN
+    RETURN json_build_object('success', false, 'error', 'Already nudged this turn');
+  END;
+
+  -- Create notification for the nudged user
+  INSERT INTO notifications (user_id, actor_user_id, type, room_id, metadata)
+  VALUES (
+    v_current_turn_user_id,
+    caller_id,
+    'nudged_you',
+    p_room_id,
+    jsonb_build_object('prompt_text', v_prompt_text, 'room_name', v_room_name)
+  );
+
+  -- Check if all members have now nudged
+  v_all_nudged := check_all_nudged(p_room_id);
+
+  -- If all nudged and not already set, record the timestamp for auto-skip logic
+  IF v_all_nudged THEN
+    UPDATE turn_sessions
+    SET all_nudged_at = COALESCE(all_nudged_at, NOW())
+    WHERE room_id = p_room_id AND is_active = true AND all_nudged_at IS NULL;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'nudged_user_id', v_current_turn_user_id,
+    'room_name', v_room_name,
+    'all_nudged', v_all_nudged
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 7: get_nudge_status - include away_until
+-- ============================================
+-- Also lifts an away pause if someone is back ('resumed': the client
+-- lets the turn holder know)
+
+DROP FUNCTION IF EXISTS get_nudge_status(UUID);
+CREATE OR REPLACE FUNCTION get_nudge_status(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_turn_instance_id UUID;
+  v_current_turn_user_id UUID;
+  v_all_nudged_at TIMESTAMPTZ;
+  v_eligible_count INTEGER;
+  v_nudge_count INTEGER;
+  v_user_has_nudged BOOLEAN;
+  v_resumed BOOLEAN;
+BEGIN
+  v_resumed := resume_away_pause(p_room_id) IS NOT NULL;
+
+  -- Get current turn info
+  SELECT turn_instance_id, current_turn_user_id, all_nudged_at
+  INTO v_turn_instance_id, v_current_turn_user_id, v_all_nudged_at
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_turn_instance_id IS NULL THEN
+    RETURN json_build_object('active', false);
+  END IF;
+
+  -- Count eligible members (everyone except current turn holder)
+  SELECT COUNT(*) INTO v_eligible_count
+  FROM room_members
+  WHERE room_id = p_room_id AND user_id != v_current_turn_user_id;
+
+  -- Count nudges for this turn instance
+  SELECT COUNT(DISTINCT nudger_user_id) INTO v_nudge_count
+  FROM nudges
+  WHERE room_id = p_room_id AND turn_instance_id = v_turn_instance_id;
+
+  -- Check if current user has nudged this turn
+  v_user_has_nudged := EXISTS (
+    SELECT 1 FROM nudges
+    WHERE room_id = p_room_id
+      AND turn_instance_id = v_turn_instance_id
+      AND nudger_user_id = auth.uid()
+  );
+
+  RETURN json_build_object(
+    'active', true,
+    'eligible_count', v_eligible_count,
+    'nudge_count', v_nudge_count,
+    'all_nudged', v_nudge_count >= v_eligible_count AND v_eligible_count > 0,
+    'all_nudged_at', v_all_nudged_at,
+    'user_has_nudged', v_user_has_nudged,
+    'current_turn_user_id', v_current_turn_user_id,
+    'away_until', member_away_until(p_room_id, v_current_turn_user_id),
+    'resumed', v_resumed
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 8: Grant permissions
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION set_snooze(TIMESTAMPTZ, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_snooze_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION send_nudge(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_nudge_status(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION resume_turn_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_member_excluded_until(UUID, UUID, TIMESTAMPTZ) TO authenticated;
+
+-- Service role only
+REVOKE EXECUTE ON FUNCTION unpause_turn_session(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resume_away_pause(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_away_pauses() FROM PUBLIC, anon, authenticated;
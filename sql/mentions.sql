@@ -0,0 +1,167 @@
+-- ============================================
+-- @MENTIONS
+-- ============================================
+-- Chat messages carry the members they mention as structured data:
+--   messages.mentions = [{ "user_id": "...", "name": "Sam" }, ...]
+-- where name is the text that follows '@' in the content.
+-- Mentioned members get a 'mentioned_you' notification; the push route
+-- sends them a push that skips message rate limiting.
+-- Run after message_notifications.sql, pokes.sql and upvote_notifications.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS mentions JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- ============================================
+-- PART 2: Keep mentions to room members
+-- ============================================
+-- Clients insert messages directly, so drop anything that isn't another
+-- member of the room, duplicates, and names that don't appear in the text.
+
+CREATE OR REPLACE FUNCTION sanitize_message_mentions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.mentions IS NULL OR jsonb_typeof(NEW.mentions) != 'array' OR NEW.type != 'chat' THEN
+    NEW.mentions := '[]'::JSONB;
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('user_id', m.user_id, 'name', m.name)), '[]'::JSONB)
+  INTO NEW.mentions
+  FROM (
+    SELECT DISTINCT ON (rm.user_id) rm.user_id, left(btrim(e->>'name'), 60) AS name
+    FROM jsonb_array_elements(NEW.mentions) e
+    JOIN room_members rm
+      ON rm.room_id = NEW.room_id
+     AND rm.user_id::TEXT = e->>'user_id'
+    WHERE rm.user_id IS DISTINCT FROM NEW.user_id
+      AND btrim(COALESCE(e->>'name', '')) != ''
+      AND position('@' || btrim(e->>'name') IN NEW.content) > 0
+    LIMIT 20
+  ) m;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_sanitize_message_mentions ON messages;
+CREATE TRIGGER trg_sanitize_message_mentions
+  BEFORE INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION sanitize_message_mentions();
+
+-- ============================================
+-- PART 3: 'mentioned_you' notifications
+-- ============================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS valid_notification_type;
+ALTER TABLE notifications ADD CONSTRAINT valid_notification_type CHECK (type IN (
+  'followed_you',
+  'unfollowed_you',
+  'group_invite',
+  'added_to_group',
+  'removed_from_group',
+  'your_turn',
+  'nudged_you',
+  'turn_skipped',
+  'turn_completed',
+  'story_reply',
+  'story_view_milestone',
+  'upvote_milestone',
+  'upvote_whole_group',
+  'poked_you',
+  'mentioned_you'
+));
+
+CREATE OR REPLACE FUNCTION notify_message_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_mention JSONB;
+BEGIN
+  FOR v_mention IN SELECT * FROM jsonb_array_elements(NEW.mentions)
+  LOOP
+    PERFORM create_notification(
+      (v_mention->>'user_id')::UUID,
+      'mentioned_you',
+      NEW.user_id,
+      NEW.room_id,
+      NULL,
+      NEW.id,
+      jsonb_build_object('message_preview', left(NEW.content, 100))
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_notify_message_mentions ON messages;
+CREATE TRIGGER trg_notify_message_mentions
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  WHEN (NEW.mentions != '[]'::JSONB)
+  EXECUTE FUNCTION notify_message_mentions();
+
+-- ============================================
+-- PART 4: Mentions in the Social filter
+-- ============================================
+-- Same as upvote_notifications.sql, plus 'poked_you' and 'mentioned_you'
+
+CREATE OR REPLACE FUNCTION get_notifications(
+  p_limit INT DEFAULT 50,
+  p_offset INT DEFAULT 0,
+  p_filter TEXT DEFAULT 'all'
+)
+RETURNS TABLE(
+  id UUID,
+  type TEXT,
+  actor_user_id UUID,
+  actor_email TEXT,
+  actor_display_name TEXT,
+  actor_avatar_url TEXT,
+  room_id UUID,
+  room_name TEXT,
+  story_id UUID,
+  message_id UUID,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  read_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    n.id,
+    n.type,
+    n.actor_user_id,
+    p.email as actor_email,
+    p.display_name as actor_display_name,
+    p.avatar_url as actor_avatar_url,
+    n.room_id,
+    r.name as room_name,
+    n.story_id,
+    n.message_id,
+    n.metadata,
+    n.created_at,
+    n.read_at
+  FROM notifications n
+  LEFT JOIN profiles p ON p.id = n.actor_user_id
+  LEFT JOIN rooms r ON r.id = n.room_id
+  WHERE n.user_id = v_user_id
+    AND (
+      p_filter = 'all'
+      OR (p_filter = 'social' AND n.type IN ('followed_you', 'unfollowed_you', 'story_reply', 'story_view_milestone', 'upvote_milestone', 'upvote_whole_group', 'poked_you', 'mentioned_you'))
+      OR (p_filter = 'turns' AND n.type IN ('your_turn', 'nudged_you', 'turn_skipped', 'turn_completed'))
+      OR (p_filter = 'groups' AND n.type IN ('group_invite', 'added_to_group', 'removed_from_group'))
+    )
+  ORDER BY n.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
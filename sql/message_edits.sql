@@ -0,0 +1,332 @@
+-- ============================================
+-- MESSAGE EDITS AND DELETES
+-- ============================================
+-- Authors can edit a chat message for a short window after sending,
+-- edit a text turn response until someone reacts to it, and delete
+-- their chat messages for everyone. Every change keeps the previous
+-- content in message_edits so there's an audit trail.
+-- Changes reach clients as UPDATE events on the messages table.
+-- Run after message_search.sql and room_unread.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS message_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete')),
+  previous_content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_edits_message ON message_edits(message_id, created_at);
+
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Authors see their own history; hosts see the history for their room.
+-- Rows are only written by the RPCs below.
+DROP POLICY IF EXISTS "Authors and hosts can view message edits" ON message_edits;
+CREATE POLICY "Authors and hosts can view message edits"
+ON message_edits FOR SELECT TO authenticated
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM messages m
+    JOIN room_members rm ON rm.room_id = m.room_id
+    WHERE m.id = message_edits.message_id
+      AND rm.user_id = auth.uid()
+      AND rm.role = 'host'
+  )
+);
+
+-- ============================================
+-- PART 2: RPC - Edit a message
+-- ============================================
+-- Chat messages: within 15 minutes of sending.
+-- Text turn responses: until anyone reacts. p_content is just the answer;
+-- the 'Reply to "prompt"' line is kept.
+
+CREATE OR REPLACE FUNCTION edit_message(p_message_id UUID, p_content TEXT)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_edit_window CONSTANT INTERVAL := INTERVAL '15 minutes';
+  v_message RECORD;
+  v_content TEXT := btrim(COALESCE(p_content, ''));
+  v_new_content TEXT;
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_content = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Message cannot be empty');
+  END IF;
+
+  SELECT m.id, m.user_id, m.type, m.content, m.created_at, m.deleted_at
+  INTO v_message
+  FROM messages m
+  WHERE m.id = p_message_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_message.user_id IS DISTINCT FROM caller_id THEN
+    RETURN json_build_object('success', false, 'error', 'You can only edit your own messages');
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'This message was deleted');
+  END IF;
+
+  IF v_message.type = 'chat' THEN
+    IF v_message.created_at < v_now - v_edit_window THEN
+      RETURN json_build_object('success', false, 'error', 'Messages can only be edited for 15 minutes');
+    END IF;
+    v_new_content := v_content;
+
+  ELSIF v_message.type = 'turn_response' THEN
+    IF left(v_message.content, 1) = '{' THEN
+      RETURN json_build_object('success', false, 'error', 'Photo answers cannot be edited');
+    END IF;
+    IF EXISTS (SELECT 1 FROM message_reactions r WHERE r.message_id = p_message_id) THEN
+      RETURN json_build_object('success', false, 'error', 'Someone already reacted to this answer');
+    END IF;
+
+    IF v_message.content LIKE 'Reply to "%' AND position(E'\n\n' IN v_message.content) > 0 THEN
+      v_new_content := split_part(v_message.content, E'\n\n', 1) || E'\n\n' || v_content;
+    ELSE
+      v_new_content := v_content;
+    END IF;
+
+  ELSE
+    RETURN json_build_object('success', false, 'error', 'This message cannot be edited');
+  END IF;
+
+  IF v_new_content = v_message.content THEN
+    RETURN json_build_object('success', true, 'content', v_message.content, 'edited_at', NULL);
+  END IF;
+
+  INSERT INTO message_edits (message_id, user_id, action, previous_content)
+  VALUES (p_message_id, caller_id, 'edit', v_message.content);
+
+  UPDATE messages
+  SET content = v_new_content, edited_at = v_now
+  WHERE id = p_message_id;
+
+  RETURN json_build_object('success', true, 'content', v_new_content, 'edited_at', v_now);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION edit_message(UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- PART 3: RPC - Delete a message for everyone
+-- ============================================
+-- The row stays so replies keep their target; the content is cleared
+-- (and with it the search index) and reactions are removed.
+
+CREATE OR REPLACE FUNCTION delete_message(p_message_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_message RECORD;
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT m.id, m.user_id, m.type, m.content, m.deleted_at
+  INTO v_message
+  FROM messages m
+  WHERE m.id = p_message_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_message.user_id IS DISTINCT FROM caller_id THEN
+    RETURN json_build_object('success', false, 'error', 'You can only delete your own messages');
+  END IF;
+
+  IF v_message.type != 'chat' THEN
+    RETURN json_build_object('success', false, 'error', 'This message cannot be deleted');
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RETURN json_build_object('success', true, 'deleted_at', v_message.deleted_at);
+  END IF;
+
+  INSERT INTO message_edits (message_id, user_id, action, previous_content)
+  VALUES (p_message_id, caller_id, 'delete', v_message.content);
+
+  DELETE FROM message_reactions WHERE message_id = p_message_id;
+
+  UPDATE messages
+  SET content = '', deleted_at = v_now
+  WHERE id = p_message_id;
+
+  RETURN json_build_object('success', true, 'deleted_at', v_now);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION delete_message(UUID) TO authenticated;
+
+-- ============================================
+-- PART 4: Skip deleted messages in search
+-- ============================================
+-- Same as message_search.sql, plus the deleted_at filter (filter-only
+-- searches would otherwise list deleted messages with empty snippets)
+
+CREATE OR REPLACE FUNCTION search_room_messages(
+  p_room_id UUID,
+  p_query TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_before TIMESTAMPTZ DEFAULT NULL,
+  p_limit INT DEFAULT 30
+)
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  type TEXT,
+  content TEXT,
+  created_at TIMESTAMPTZ,
+  snippet TEXT,
+  rank REAL
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_query TSQUERY;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members rm WHERE rm.room_id = p_room_id AND rm.user_id = caller_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF p_type IS NOT NULL AND p_type NOT IN ('chat', 'turn_response', 'image', 'story_reply') THEN
+    RAISE EXCEPTION 'Invalid message type';
+  END IF;
+
+  v_query := websearch_to_tsquery('english', COALESCE(p_query, ''));
+
+  -- An empty query is allowed when filtering (e.g. all photos from one person)
+  IF numnode(v_query) = 0 AND p_user_id IS NULL AND p_type IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.user_id,
+    m.type,
+    m.content,
+    m.created_at,
+    CASE
+      WHEN numnode(v_query) = 0 THEN left(message_search_text(m.type, m.content), 160)
+      ELSE ts_headline(
+        'english',
+        message_search_text(m.type, m.content),
+        v_query,
+        'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    END AS snippet,
+    CASE WHEN numnode(v_query) = 0 THEN 0 ELSE ts_rank(m.search_vector, v_query) END AS rank
+  FROM messages m
+  WHERE m.room_id = p_room_id
+    AND m.type IN ('chat', 'turn_response', 'image', 'story_reply')
+    AND m.deleted_at IS NULL
+    AND (numnode(v_query) = 0 OR m.search_vector @@ v_query)
+    AND (p_user_id IS NULL OR m.user_id = p_user_id)
+    AND (p_type IS NULL OR m.type = p_type)
+    AND (p_from IS NULL OR m.created_at >= p_from)
+    AND (p_to IS NULL OR m.created_at < p_to)
+    AND (p_before IS NULL OR m.created_at < p_before)
+  ORDER BY m.created_at DESC
+  LIMIT LEAST(COALESCE(p_limit, 30), 100);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: Lobby ignores deleted messages
+-- ============================================
+-- Same as room_unread.sql, but the preview falls back to the latest
+-- message that wasn't deleted, and deleted messages aren't unread
+
+CREATE OR REPLACE FUNCTION get_rooms_with_unread()
+RETURNS TABLE (
+  room_id UUID,
+  room_name TEXT,
+  room_type TEXT,
+  member_count BIGINT,
+  last_message_at TIMESTAMPTZ,
+  last_message_content TEXT,
+  last_message_type TEXT,
+  last_message_user_id UUID,
+  unread_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH user_rooms AS (
+    SELECT rm.room_id
+    FROM room_members rm
+    WHERE rm.user_id = auth.uid()
+  ),
+  room_member_counts AS (
+    SELECT rm.room_id, COUNT(*)::BIGINT as member_count
+    FROM room_members rm
+    WHERE rm.room_id IN (SELECT ur.room_id FROM user_rooms ur)
+    GROUP BY rm.room_id
+  ),
+  last_messages AS (
+    SELECT DISTINCT ON (m.room_id)
+      m.room_id,
+      m.created_at,
+      m.content,
+      m.type,
+      m.user_id
+    FROM messages m
+    WHERE m.room_id IN (SELECT ur.room_id FROM user_rooms ur)
+      AND m.deleted_at IS NULL
+    ORDER BY m.room_id, m.created_at DESC
+  ),
+  unread_counts AS (
+    SELECT
+      ur.room_id,
+      COUNT(m.id)::BIGINT as unread_count
+    FROM user_rooms ur
+    LEFT JOIN room_reads rr ON rr.room_id = ur.room_id AND rr.user_id = auth.uid()
+    LEFT JOIN messages m ON m.room_id = ur.room_id
+      AND m.type != 'system'
+      AND m.deleted_at IS NULL
+      AND m.user_id IS DISTINCT FROM auth.uid()
+      AND (rr.last_read_at IS NULL OR m.created_at > rr.last_read_at)
+    GROUP BY ur.room_id
+  )
+  SELECT
+    r.id as room_id,
+    r.name as room_name,
+    COALESCE(r.type, 'group')::TEXT as room_type,
+    COALESCE(rmc.member_count, 0) as member_count,
+    COALESCE(lm.created_at, r.created_at) as last_message_at,
+    lm.content as last_message_content,
+    lm.type as last_message_type,
+    lm.user_id as last_message_user_id,
+    COALESCE(uc.unread_count, 0) as unread_count
+  FROM user_rooms ur
+  JOIN rooms r ON r.id = ur.room_id
+  LEFT JOIN room_member_counts rmc ON rmc.room_id = ur.room_id
+  LEFT JOIN last_messages lm ON lm.room_id = ur.room_id
+  LEFT JOIN unread_counts uc ON uc.room_id = ur.room_id
+  ORDER BY COALESCE(lm.created_at, r.created_at) DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,100 @@
+-- ============================================
+-- MESSAGE OUTBOX
+-- ============================================
+-- Chat messages, photos and turn answers are queued on the device
+-- (lib/outbox.ts) and sent from there, retrying until they get through,
+-- including from the service worker via Background Sync. Each one gets its
+-- id on the client up front, so a retry of something that already arrived
+-- is recognised rather than sent twice:
+--   chat, photos   inserted with that id; a repeat fails on the primary key
+--   turn answers   submit_turn takes it as p_client_id (below)
+-- Run after image_placeholders.sql
+
+-- ============================================
+-- PART 1: RPC - submit_turn with a client id
+-- ============================================
+-- Same as voice_notes.sql, plus an optional p_client_id used as the new
+-- message id. If the caller already sent a message with that id, the turn
+-- went through on an earlier attempt and this one succeeds without doing
+-- anything. Older clients calling with two arguments still match.
+
+DROP FUNCTION IF EXISTS submit_turn(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION submit_turn(
+  p_room_id UUID,
+  p_content TEXT,
+  p_client_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  sess RECORD;
+  curr_turn_user UUID;
+  v_result JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Already sent on an earlier attempt
+  IF p_client_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM messages
+    WHERE id = p_client_id AND room_id = p_room_id AND user_id = caller_id
+  ) THEN
+    RETURN TRUE;
+  END IF;
+
+  -- Get active session
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RAISE EXCEPTION 'No active session';
+  END IF;
+
+  -- Determine whose turn it is
+  curr_turn_user := COALESCE(sess.current_turn_user_id, sess.turn_order[sess.current_turn_index + 1]);
+
+  IF curr_turn_user != caller_id THEN
+    RAISE EXCEPTION 'Not your turn';
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The game is paused. You can answer once it resumes.';
+  END IF;
+
+  IF sess.waiting_until IS NOT NULL AND sess.waiting_until > NOW() THEN
+    RAISE EXCEPTION 'Still in cooldown period';
+  END IF;
+
+  -- Check prompt type
+  IF sess.current_prompt_type = 'photo' THEN
+    RAISE EXCEPTION 'This prompt requires a photo.';
+  END IF;
+
+  IF sess.current_prompt_type = 'poll' THEN
+    RAISE EXCEPTION 'This prompt asks for a poll.';
+  END IF;
+
+  IF sess.current_prompt_type = 'voice' THEN
+    RAISE EXCEPTION 'This prompt asks for a voice answer.';
+  END IF;
+
+  -- Insert turn response
+  INSERT INTO messages (id, room_id, user_id, type, content)
+  VALUES (COALESCE(p_client_id, gen_random_uuid()), p_room_id, caller_id, 'turn_response', p_content);
+
+  -- Advance turn using canonical function
+  v_result := advance_turn(p_room_id, 'completed', NULL);
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 2: Grants
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION submit_turn(UUID, TEXT, UUID) TO authenticated;
@@ -0,0 +1,765 @@
+-- ============================================
+-- STRUCTURED MESSAGE PAYLOADS
+-- ============================================
+-- Messages that are more than text carry a typed payload in
+-- messages.payload (JSONB) instead of JSON packed into content:
+--   { "v": 1, "kind": "photo_turn", "prompt", "image_url" }   turn_response
+--   { "v": 1, "kind": "weekly_recap", "week_start", ... }      system
+--   { "v": 1, "kind": "poll", "poll_id" }                      poll
+-- "v" is the payload version; clients that don't know a version or kind
+-- show content, which is now always readable text ("Sent a photo").
+-- Existing rows are migrated here, and older writers that still put JSON
+-- in content (submit_photo_turn, reveal_round, the weekly recap) are
+-- normalized on insert, so they keep working unchanged.
+-- The client mirrors the parser in app/room/[id]/utils/messagePayload.ts.
+-- Run after polls.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS payload JSONB;
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_payload_shape;
+ALTER TABLE messages ADD CONSTRAINT messages_payload_shape CHECK (
+  payload IS NULL
+  OR (jsonb_typeof(payload) = 'object' AND payload ? 'v' AND payload ? 'kind')
+);
+
+-- ============================================
+-- PART 2: Parser
+-- ============================================
+
+-- Which payload kind each message type can carry
+CREATE OR REPLACE FUNCTION message_payload_kind_allowed(p_type TEXT, p_kind TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(p_kind = CASE p_type
+    WHEN 'turn_response' THEN 'photo_turn'
+    WHEN 'system' THEN 'weekly_recap'
+    WHEN 'poll' THEN 'poll'
+  END, false);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Payload from legacy JSON content, or NULL when the content is plain text
+CREATE OR REPLACE FUNCTION message_payload_from_content(p_type TEXT, p_content TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_parsed JSONB;
+BEGIN
+  IF p_type NOT IN ('turn_response', 'system') OR left(COALESCE(p_content, ''), 1) != '{' THEN
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    v_parsed := p_content::JSONB;
+  EXCEPTION WHEN others THEN
+    RETURN NULL;
+  END;
+
+  IF jsonb_typeof(v_parsed) != 'object' OR NOT message_payload_kind_allowed(p_type, v_parsed->>'kind') THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_parsed->>'kind' = 'photo_turn' AND v_parsed->>'image_url' IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object('v', 1) || (v_parsed - 'v');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Readable content for a payload (NULL keeps the content as written;
+-- a poll's content is already its question)
+CREATE OR REPLACE FUNCTION message_payload_text(p_payload JSONB)
+RETURNS TEXT AS $$
+  SELECT CASE p_payload->>'kind'
+    WHEN 'photo_turn' THEN 'Sent a photo'
+    WHEN 'weekly_recap' THEN '📰 Weekly recap'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- PART 3: Normalize new messages
+-- ============================================
+-- Legacy JSON content becomes a payload; payloads sent directly must be
+-- versioned and match the message type.
+
+CREATE OR REPLACE FUNCTION normalize_message_payload()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payload IS NULL THEN
+    NEW.payload := message_payload_from_content(NEW.type, NEW.content);
+  ELSIF jsonb_typeof(NEW.payload) != 'object'
+     OR jsonb_typeof(NEW.payload->'v') != 'number'
+     OR NOT message_payload_kind_allowed(NEW.type, NEW.payload->>'kind') THEN
+    RAISE EXCEPTION 'Invalid message payload';
+  END IF;
+
+  IF NEW.payload IS NOT NULL THEN
+    NEW.content := COALESCE(message_payload_text(NEW.payload), NEW.content);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_normalize_message_payload ON messages;
+CREATE TRIGGER trg_normalize_message_payload
+  BEFORE INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION normalize_message_payload();
+
+-- create_poll inserts the message before the poll, so the poll fills it in
+CREATE OR REPLACE FUNCTION set_poll_message_payload()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE messages
+  SET payload = jsonb_build_object('v', 1, 'kind', 'poll', 'poll_id', NEW.id)
+  WHERE id = NEW.message_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_set_poll_message_payload ON polls;
+CREATE TRIGGER trg_set_poll_message_payload
+  AFTER INSERT ON polls
+  FOR EACH ROW EXECUTE FUNCTION set_poll_message_payload();
+
+-- ============================================
+-- PART 4: Search reads the payload
+-- ============================================
+-- The generated column can only see its own row, so it's rebuilt on top of
+-- a payload-aware message_search_text. Dropping it first also means the
+-- migration below doesn't recompute it row by row.
+
+ALTER TABLE messages DROP COLUMN IF EXISTS search_vector;
+DROP FUNCTION IF EXISTS message_search_text(TEXT, TEXT);
+
+-- Text to index for a message (must be IMMUTABLE for the generated column)
+CREATE OR REPLACE FUNCTION message_search_text(p_type TEXT, p_content TEXT, p_payload JSONB)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_type = 'image' OR p_content IS NULL THEN ''
+    WHEN p_payload->>'kind' = 'photo_turn' THEN concat_ws(' ', p_payload->>'prompt', p_payload->>'caption')
+    ELSE p_content
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- PART 5: Migrate existing rows
+-- ============================================
+
+UPDATE messages m
+SET payload = parsed.payload,
+    content = COALESCE(message_payload_text(parsed.payload), m.content)
+FROM (
+  SELECT id, message_payload_from_content(type, content) AS payload
+  FROM messages
+  WHERE payload IS NULL
+    AND type IN ('turn_response', 'system')
+    AND left(content, 1) = '{'
+) parsed
+WHERE parsed.id = m.id
+  AND parsed.payload IS NOT NULL;
+
+UPDATE messages m
+SET payload = jsonb_build_object('v', 1, 'kind', 'poll', 'poll_id', p.id)
+FROM polls p
+WHERE p.message_id = m.id
+  AND m.payload IS NULL;
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', message_search_text(type, content, payload))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector
+  ON messages USING GIN (search_vector);
+
+-- ============================================
+-- PART 6: RPC - Room search returns payloads
+-- ============================================
+-- Same as message_edits.sql, plus the payload column (photo results)
+
+DROP FUNCTION IF EXISTS search_room_messages(UUID, TEXT, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ, INT);
+
+CREATE OR REPLACE FUNCTION search_room_messages(
+  p_room_id UUID,
+  p_query TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_before TIMESTAMPTZ DEFAULT NULL,
+  p_limit INT DEFAULT 30
+)
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  type TEXT,
+  content TEXT,
+  payload JSONB,
+  created_at TIMESTAMPTZ,
+  snippet TEXT,
+  rank REAL
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_query TSQUERY;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members rm WHERE rm.room_id = p_room_id AND rm.user_id = caller_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF p_type IS NOT NULL AND p_type NOT IN ('chat', 'turn_response', 'image', 'story_reply') THEN
+    RAISE EXCEPTION 'Invalid message type';
+  END IF;
+
+  v_query := websearch_to_tsquery('english', COALESCE(p_query, ''));
+
+  -- An empty query is allowed when filtering (e.g. all photos from one person)
+  IF numnode(v_query) = 0 AND p_user_id IS NULL AND p_type IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.user_id,
+    m.type,
+    m.content,
+    m.payload,
+    m.created_at,
+    CASE
+      WHEN numnode(v_query) = 0 THEN left(message_search_text(m.type, m.content, m.payload), 160)
+      ELSE ts_headline(
+        'english',
+        message_search_text(m.type, m.content, m.payload),
+        v_query,
+        'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    END AS snippet,
+    CASE WHEN numnode(v_query) = 0 THEN 0 ELSE ts_rank(m.search_vector, v_query) END AS rank
+  FROM messages m
+  WHERE m.room_id = p_room_id
+    AND m.type IN ('chat', 'turn_response', 'image', 'story_reply')
+    AND m.deleted_at IS NULL
+    AND (numnode(v_query) = 0 OR m.search_vector @@ v_query)
+    AND (p_user_id IS NULL OR m.user_id = p_user_id)
+    AND (p_type IS NULL OR m.type = p_type)
+    AND (p_from IS NULL OR m.created_at >= p_from)
+    AND (p_to IS NULL OR m.created_at < p_to)
+    AND (p_before IS NULL OR m.created_at < p_before)
+  ORDER BY m.created_at DESC
+  LIMIT LEAST(COALESCE(p_limit, 30), 100);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_room_messages(UUID, TEXT, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ, INT) TO authenticated;
+
+-- ============================================
+-- PART 7: RPC - Lobby search snippets
+-- ============================================
+-- Same as global_search.sql, with the payload-aware message_search_text
+
+CREATE OR REPLACE FUNCTION search_my_rooms(p_query TEXT, p_per_room INT DEFAULT 3)
+RETURNS TABLE(
+  result_type TEXT,
+  room_id UUID,
+  user_id UUID,
+  user_name TEXT,
+  message_id UUID,
+  message_type TEXT,
+  snippet TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_query TEXT := btrim(COALESCE(p_query, ''));
+  v_pattern TEXT;
+  v_tsquery TSQUERY;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF char_length(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  -- Escape LIKE wildcards so they match literally
+  v_pattern := '%' || replace(replace(replace(v_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  v_tsquery := websearch_to_tsquery('english', v_query);
+
+  -- Group names (DMs are found through their member instead)
+  RETURN QUERY
+  SELECT 'room'::TEXT, r.id, NULL::UUID, NULL::TEXT, NULL::UUID, NULL::TEXT, r.name, r.created_at
+  FROM rooms r
+  JOIN room_members me ON me.room_id = r.id AND me.user_id = caller_id
+  WHERE r.type = 'group'
+    AND r.name ILIKE v_pattern
+  LIMIT 20;
+
+  -- Members by display name or email
+  RETURN QUERY
+  SELECT 'member'::TEXT, rm.room_id, p.id, COALESCE(NULLIF(p.display_name, ''), split_part(p.email, '@', 1)),
+         NULL::UUID, NULL::TEXT,
+         CASE WHEN p.display_name ILIKE v_pattern THEN p.display_name ELSE p.email END,
+         rm.created_at
+  FROM room_members me
+  JOIN room_members rm ON rm.room_id = me.room_id AND rm.user_id != caller_id
+  JOIN profiles p ON p.id = rm.user_id
+  WHERE me.user_id = caller_id
+    AND (p.display_name ILIKE v_pattern OR p.email ILIKE v_pattern)
+  LIMIT 50;
+
+  -- Messages, newest few per room
+  IF numnode(v_tsquery) > 0 THEN
+    RETURN QUERY
+    SELECT 'message'::TEXT, hit.room_id, hit.user_id, member_display_name(hit.user_id), hit.id, hit.type,
+           ts_headline(
+             'english',
+             message_search_text(hit.type, hit.content, hit.payload),
+             v_tsquery,
+             'StartSel=[[, StopSel=]], MaxWords=20, MinWords=8, MaxFragments=1'
+           ),
+           hit.created_at
+    FROM (
+      SELECT m.id, m.room_id, m.user_id, m.type, m.content, m.payload, m.created_at,
+             ROW_NUMBER() OVER (PARTITION BY m.room_id ORDER BY m.created_at DESC) AS rn
+      FROM messages m
+      JOIN room_members me ON me.room_id = m.room_id AND me.user_id = caller_id
+      WHERE m.type IN ('chat', 'turn_response', 'story_reply')
+        AND m.search_vector @@ v_tsquery
+    ) hit
+    WHERE hit.rn <= LEAST(GREATEST(COALESCE(p_per_room, 3), 1), 10)
+    ORDER BY hit.created_at DESC
+    LIMIT 100;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_my_rooms(TEXT, INT) TO authenticated;
+
+-- ============================================
+-- PART 8: Edits check the payload
+-- ============================================
+-- Same as message_edits.sql, but photo answers are recognized by their
+-- payload instead of a leading '{'
+
+CREATE OR REPLACE FUNCTION edit_message(p_message_id UUID, p_content TEXT)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_edit_window CONSTANT INTERVAL := INTERVAL '15 minutes';
+  v_message RECORD;
+  v_content TEXT := btrim(COALESCE(p_content, ''));
+  v_new_content TEXT;
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_content = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Message cannot be empty');
+  END IF;
+
+  SELECT m.id, m.user_id, m.type, m.content, m.payload, m.created_at, m.deleted_at
+  INTO v_message
+  FROM messages m
+  WHERE m.id = p_message_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_message.user_id IS DISTINCT FROM caller_id THEN
+    RETURN json_build_object('success', false, 'error', 'You can only edit your own messages');
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'This message was deleted');
+  END IF;
+
+  IF v_message.type = 'chat' THEN
+    IF v_message.created_at < v_now - v_edit_window THEN
+      RETURN json_build_object('success', false, 'error', 'Messages can only be edited for 15 minutes');
+    END IF;
+    v_new_content := v_content;
+
+  ELSIF v_message.type = 'turn_response' THEN
+    IF v_message.payload IS NOT NULL THEN
+      RETURN json_build_object('success', false, 'error', 'Photo answers cannot be edited');
+    END IF;
+    IF EXISTS (SELECT 1 FROM message_reactions r WHERE r.message_id = p_message_id) THEN
+      RETURN json_build_object('success', false, 'error', 'Someone already reacted to this answer');
+    END IF;
+
+    IF v_message.content LIKE 'Reply to "%' AND position(E'\n\n' IN v_message.content) > 0 THEN
+      v_new_content := split_part(v_message.content, E'\n\n', 1) || E'\n\n' || v_content;
+    ELSE
+      v_new_content := v_content;
+    END IF;
+
+  ELSE
+    RETURN json_build_object('success', false, 'error', 'This message cannot be edited');
+  END IF;
+
+  IF v_new_content = v_message.content THEN
+    RETURN json_build_object('success', true, 'content', v_message.content, 'edited_at', NULL);
+  END IF;
+
+  INSERT INTO message_edits (message_id, user_id, action, previous_content)
+  VALUES (p_message_id, caller_id, 'edit', v_message.content);
+
+  UPDATE messages
+  SET content = v_new_content, edited_at = v_now
+  WHERE id = p_message_id;
+
+  RETURN json_build_object('success', true, 'content', v_new_content, 'edited_at', v_now);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION edit_message(UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- PART 9: RPCs - Pins, highlights and top answers return payloads
+-- ============================================
+-- Same as pinned_messages.sql and message_votes.sql, plus the payload
+-- column so photo answers show their photo
+
+DROP FUNCTION IF EXISTS get_pinned_messages(UUID);
+
+CREATE OR REPLACE FUNCTION get_pinned_messages(p_room_id UUID)
+RETURNS TABLE(
+  message_id UUID,
+  user_id UUID,
+  type TEXT,
+  content TEXT,
+  payload JSONB,
+  created_at TIMESTAMPTZ,
+  pinned_by UUID,
+  pinned_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members rm WHERE rm.room_id = p_room_id AND rm.user_id = caller_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.user_id, m.type, m.content, m.payload, m.created_at, pm.pinned_by, pm.created_at
+  FROM pinned_messages pm
+  JOIN messages m ON m.id = pm.message_id
+  WHERE pm.room_id = p_room_id
+    AND m.deleted_at IS NULL
+  ORDER BY pm.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_pinned_messages(UUID) TO authenticated;
+
+DROP FUNCTION IF EXISTS get_room_highlights(UUID, TEXT, INT);
+
+CREATE OR REPLACE FUNCTION get_room_highlights(
+  p_room_id UUID,
+  p_period TEXT DEFAULT 'all',
+  p_limit INT DEFAULT 30
+)
+RETURNS TABLE(
+  message_id UUID,
+  user_id UUID,
+  type TEXT,
+  content TEXT,
+  payload JSONB,
+  created_at TIMESTAMPTZ,
+  score BIGINT,
+  pinned_by UUID,
+  pinned_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_since TIMESTAMPTZ;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members rm WHERE rm.room_id = p_room_id AND rm.user_id = caller_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  v_since := CASE p_period
+    WHEN 'week' THEN NOW() - INTERVAL '7 days'
+    WHEN 'month' THEN NOW() - INTERVAL '30 days'
+    ELSE NULL
+  END;
+
+  RETURN QUERY
+  WITH scored AS (
+    SELECT mv.message_id AS id,
+      SUM(CASE WHEN mv.vote_type = 'up' THEN 1 ELSE -1 END)::BIGINT AS score
+    FROM message_votes mv
+    JOIN messages m ON m.id = mv.message_id
+    WHERE m.room_id = p_room_id
+      AND m.type = 'turn_response'
+      AND (v_since IS NULL OR m.created_at >= v_since)
+    GROUP BY mv.message_id
+  )
+  SELECT
+    m.id,
+    m.user_id,
+    m.type,
+    m.content,
+    m.payload,
+    m.created_at,
+    COALESCE(s.score, 0),
+    pm.pinned_by,
+    pm.created_at
+  FROM messages m
+  LEFT JOIN scored s ON s.id = m.id
+  LEFT JOIN pinned_messages pm ON pm.message_id = m.id
+  WHERE m.room_id = p_room_id
+    AND m.deleted_at IS NULL
+    AND (v_since IS NULL OR m.created_at >= v_since)
+    AND (pm.id IS NOT NULL OR s.score >= 1)
+  ORDER BY COALESCE(s.score, 0) DESC, m.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_room_highlights(UUID, TEXT, INT) TO authenticated;
+
+DROP FUNCTION IF EXISTS get_top_answers(UUID, INT, INT);
+
+CREATE OR REPLACE FUNCTION get_top_answers(
+  p_room_id UUID,
+  p_min_score INT DEFAULT 3,
+  p_limit INT DEFAULT 20
+)
+RETURNS TABLE(
+  message_id UUID,
+  user_id UUID,
+  content TEXT,
+  payload JSONB,
+  created_at TIMESTAMPTZ,
+  score BIGINT,
+  user_email TEXT,
+  user_display_name TEXT,
+  user_avatar_url TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id as message_id,
+    m.user_id,
+    m.content,
+    m.payload,
+    m.created_at,
+    COALESCE(SUM(CASE WHEN mv.vote_type = 'up' THEN 1 WHEN mv.vote_type = 'down' THEN -1 ELSE 0 END), 0)::BIGINT as score,
+    p.email as user_email,
+    p.display_name as user_display_name,
+    p.avatar_url as user_avatar_url
+  FROM messages m
+  LEFT JOIN message_votes mv ON mv.message_id = m.id
+  LEFT JOIN profiles p ON p.id = m.user_id
+  WHERE m.room_id = p_room_id
+    AND m.type = 'turn_response'
+  GROUP BY m.id, m.user_id, m.content, m.payload, m.created_at, p.email, p.display_name, p.avatar_url
+  HAVING COALESCE(SUM(CASE WHEN mv.vote_type = 'up' THEN 1 WHEN mv.vote_type = 'down' THEN -1 ELSE 0 END), 0) >= p_min_score
+  ORDER BY score DESC, m.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 10: Weekly recaps read the payload
+-- ============================================
+-- Text answers are still 'Reply to "prompt"\n\nanswer'; photo answers
+-- are their photo_turn payload.
+
+DROP FUNCTION IF EXISTS parse_turn_content(TEXT);
+
+CREATE OR REPLACE FUNCTION parse_turn_content(p_content TEXT, p_payload JSONB)
+RETURNS JSONB AS $$
+BEGIN
+  IF p_payload->>'kind' = 'photo_turn' THEN
+    RETURN jsonb_build_object('prompt', p_payload->>'prompt', 'answer', NULL, 'image_url', p_payload->>'image_url');
+  END IF;
+
+  IF p_content LIKE 'Reply to "%' THEN
+    RETURN jsonb_build_object(
+      'prompt', substring(split_part(p_content, E'\n\n', 1) FROM '^Reply to "(.*)"$'),
+      'answer', substring(p_content FROM position(E'\n\n' IN p_content) + 2),
+      'image_url', NULL
+    );
+  END IF;
+
+  RETURN jsonb_build_object('prompt', NULL, 'answer', p_content, 'image_url', NULL);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Same as weekly_recap.sql, with parse_turn_content reading the payload
+CREATE OR REPLACE FUNCTION build_room_recap(
+  p_room_id UUID,
+  p_since TIMESTAMPTZ,
+  p_until TIMESTAMPTZ
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_prompts JSONB;
+  v_top_answers JSONB;
+  v_answered_by JSONB;
+  v_skipped JSONB;
+  v_top_photos JSONB;
+  v_new_members JSONB;
+BEGIN
+  -- Prompts answered this week, in order
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'message_id', m.id,
+    'created_at', m.created_at,
+    'user_id', m.user_id,
+    'name', COALESCE(p.display_name, split_part(p.email, '@', 1)),
+    'prompt', parse_turn_content(m.content, m.payload)->>'prompt'
+  ) ORDER BY m.created_at), '[]'::JSONB)
+  INTO v_prompts
+  FROM messages m
+  LEFT JOIN profiles p ON p.id = m.user_id
+  WHERE m.room_id = p_room_id
+    AND m.type = 'turn_response'
+    AND m.deleted_at IS NULL
+    AND m.created_at >= p_since AND m.created_at < p_until;
+
+  -- Top 3 answers by vote score
+  SELECT COALESCE(jsonb_agg(t.item ORDER BY t.score DESC, t.created_at DESC), '[]'::JSONB)
+  INTO v_top_answers
+  FROM (
+    SELECT
+      v.score,
+      m.created_at,
+      jsonb_build_object(
+        'message_id', m.id,
+        'created_at', m.created_at,
+        'user_id', m.user_id,
+        'name', COALESCE(p.display_name, split_part(p.email, '@', 1)),
+        'score', v.score
+      ) || parse_turn_content(m.content, m.payload) AS item
+    FROM messages m
+    JOIN (
+      SELECT mv.message_id, SUM(CASE WHEN mv.vote_type = 'up' THEN 1 ELSE -1 END)::INT AS score
+      FROM message_votes mv
+      GROUP BY mv.message_id
+    ) v ON v.message_id = m.id
+    LEFT JOIN profiles p ON p.id = m.user_id
+    WHERE m.room_id = p_room_id
+      AND m.type = 'turn_response'
+      AND m.deleted_at IS NULL
+      AND m.created_at >= p_since AND m.created_at < p_until
+      AND v.score >= 1
+    ORDER BY v.score DESC, m.created_at DESC
+    LIMIT 3
+  ) t;
+
+  -- Who answered, and how often
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'user_id', a.user_id,
+    'name', COALESCE(p.display_name, split_part(p.email, '@', 1)),
+    'count', a.answers
+  ) ORDER BY a.answers DESC), '[]'::JSONB)
+  INTO v_answered_by
+  FROM (
+    SELECT m.user_id, COUNT(*)::INT AS answers
+    FROM messages m
+    WHERE m.room_id = p_room_id
+      AND m.type = 'turn_response'
+      AND m.deleted_at IS NULL
+      AND m.user_id IS NOT NULL
+      AND m.created_at >= p_since AND m.created_at < p_until
+    GROUP BY m.user_id
+  ) a
+  LEFT JOIN profiles p ON p.id = a.user_id;
+
+  -- Who got skipped (host or auto skips leave a turn_skipped notification)
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'user_id', s.user_id,
+    'name', COALESCE(p.display_name, split_part(p.email, '@', 1)),
+    'count', s.skips
+  ) ORDER BY s.skips DESC), '[]'::JSONB)
+  INTO v_skipped
+  FROM (
+    SELECT n.user_id, COUNT(*)::INT AS skips
+    FROM notifications n
+    WHERE n.room_id = p_room_id
+      AND n.type = 'turn_skipped'
+      AND n.created_at >= p_since AND n.created_at < p_until
+    GROUP BY n.user_id
+  ) s
+  LEFT JOIN profiles p ON p.id = s.user_id;
+
+  -- Top 3 photos (chat photos and photo answers) by reactions
+  SELECT COALESCE(jsonb_agg(t.item ORDER BY t.reactions DESC, t.created_at DESC), '[]'::JSONB)
+  INTO v_top_photos
+  FROM (
+    SELECT
+      r.reactions,
+      m.created_at,
+      jsonb_build_object(
+        'message_id', m.id,
+        'created_at', m.created_at,
+        'user_id', m.user_id,
+        'name', COALESCE(p.display_name, split_part(p.email, '@', 1)),
+        'image_url', CASE WHEN m.type = 'image' THEN m.content ELSE parse_turn_content(m.content, m.payload)->>'image_url' END,
+        'reactions', r.reactions
+      ) AS item
+    FROM messages m
+    JOIN (
+      SELECT mr.message_id, COUNT(*)::INT AS reactions
+      FROM message_reactions mr
+      GROUP BY mr.message_id
+    ) r ON r.message_id = m.id
+    LEFT JOIN profiles p ON p.id = m.user_id
+    WHERE m.room_id = p_room_id
+      AND m.deleted_at IS NULL
+      AND m.created_at >= p_since AND m.created_at < p_until
+      AND (
+        m.type = 'image'
+        OR (m.type = 'turn_response' AND parse_turn_content(m.content, m.payload)->>'image_url' IS NOT NULL)
+      )
+    ORDER BY r.reactions DESC, m.created_at DESC
+    LIMIT 3
+  ) t;
+
+  -- New members
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'user_id', rm.user_id,
+    'name', COALESCE(p.display_name, split_part(p.email, '@', 1))
+  ) ORDER BY rm.joined_at), '[]'::JSONB)
+  INTO v_new_members
+  FROM room_members rm
+  LEFT JOIN profiles p ON p.id = rm.user_id
+  WHERE rm.room_id = p_room_id
+    AND rm.joined_at >= p_since AND rm.joined_at < p_until;
+
+  RETURN jsonb_build_object(
+    'kind', 'weekly_recap',
+    'week_start', p_since,
+    'week_end', p_until,
+    'prompts', v_prompts,
+    'top_answers', v_top_answers,
+    'answered_by', v_answered_by,
+    'skipped', v_skipped,
+    'top_photos', v_top_photos,
+    'new_members', v_new_members
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,127 @@
+-- ============================================
+-- MESSAGE SEARCH
+-- ============================================
+-- Full-text search over a room's message history.
+-- Photo turn responses store JSON, so their prompt is pulled out
+-- before indexing; image messages only hold a URL and aren't indexed.
+-- Run after message_votes.sql
+
+-- ============================================
+-- PART 1: Searchable text + index
+-- ============================================
+
+-- Text to index for a message (must be IMMUTABLE for the generated column)
+CREATE OR REPLACE FUNCTION message_search_text(p_type TEXT, p_content TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_parsed JSONB;
+BEGIN
+  IF p_type = 'image' OR p_content IS NULL THEN
+    RETURN '';
+  END IF;
+
+  IF p_type = 'turn_response' AND left(p_content, 1) = '{' THEN
+    BEGIN
+      v_parsed := p_content::JSONB;
+      IF v_parsed->>'kind' = 'photo_turn' THEN
+        RETURN concat_ws(' ', v_parsed->>'prompt', v_parsed->>'caption');
+      END IF;
+    EXCEPTION WHEN others THEN
+      -- Not JSON after all, index as plain text
+      NULL;
+    END;
+  END IF;
+
+  RETURN p_content;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', message_search_text(type, content))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector
+  ON messages USING GIN (search_vector);
+
+-- ============================================
+-- PART 2: RPC - Search a room
+-- ============================================
+-- p_query uses web search syntax ("exact phrase", -exclude, or).
+-- Snippets mark matches with [[ and ]] for the client to highlight.
+-- Page with p_before = created_at of the last result.
+
+CREATE OR REPLACE FUNCTION search_room_messages(
+  p_room_id UUID,
+  p_query TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_before TIMESTAMPTZ DEFAULT NULL,
+  p_limit INT DEFAULT 30
+)
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  type TEXT,
+  content TEXT,
+  created_at TIMESTAMPTZ,
+  snippet TEXT,
+  rank REAL
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_query TSQUERY;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members rm WHERE rm.room_id = p_room_id AND rm.user_id = caller_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF p_type IS NOT NULL AND p_type NOT IN ('chat', 'turn_response', 'image', 'story_reply') THEN
+    RAISE EXCEPTION 'Invalid message type';
+  END IF;
+
+  v_query := websearch_to_tsquery('english', COALESCE(p_query, ''));
+
+  -- An empty query is allowed when filtering (e.g. all photos from one person)
+  IF numnode(v_query) = 0 AND p_user_id IS NULL AND p_type IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.user_id,
+    m.type,
+    m.content,
+    m.created_at,
+    CASE
+      WHEN numnode(v_query) = 0 THEN left(message_search_text(m.type, m.content), 160)
+      ELSE ts_headline(
+        'english',
+        message_search_text(m.type, m.content),
+        v_query,
+        'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    END AS snippet,
+    CASE WHEN numnode(v_query) = 0 THEN 0 ELSE ts_rank(m.search_vector, v_query) END AS rank
+  FROM messages m
+  WHERE m.room_id = p_room_id
+    AND m.type IN ('chat', 'turn_response', 'image', 'story_reply')
+    AND (numnode(v_query) = 0 OR m.search_vector @@ v_query)
+    AND (p_user_id IS NULL OR m.user_id = p_user_id)
+    AND (p_type IS NULL OR m.type = p_type)
+    AND (p_from IS NULL OR m.created_at >= p_from)
+    AND (p_to IS NULL OR m.created_at < p_to)
+    AND (p_before IS NULL OR m.created_at < p_before)
+  ORDER BY m.created_at DESC
+  LIMIT LEAST(COALESCE(p_limit, 30), 100);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_room_messages(UUID, TEXT, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ, INT) TO authenticated;
@@ -0,0 +1,245 @@
+-- ============================================
+-- PINNED MESSAGES & HIGHLIGHTS
+-- ============================================
+-- Any member can pin any message (chat, image or turn response) to the
+-- room's pinned list. The highlights board combines pins with the room's
+-- top-voted answers, filtered by period ('week', 'month' or 'all').
+-- Run after message_votes.sql and message_edits.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS pinned_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  pinned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (room_id, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pinned_messages_room ON pinned_messages(room_id, created_at DESC);
+
+ALTER TABLE pinned_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view room pins" ON pinned_messages;
+CREATE POLICY "Members can view room pins"
+ON pinned_messages FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM room_members rm
+    WHERE rm.room_id = pinned_messages.room_id AND rm.user_id = auth.uid()
+  )
+);
+
+-- ============================================
+-- PART 2: RPC - Pin / unpin
+-- ============================================
+-- Any member can pin. The pinner or a host can unpin.
+
+CREATE OR REPLACE FUNCTION pin_message(p_message_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_message RECORD;
+  v_pin_count INT;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT m.id, m.room_id, m.type, m.deleted_at INTO v_message
+  FROM messages m
+  JOIN room_members rm ON rm.room_id = m.room_id AND rm.user_id = caller_id
+  WHERE m.id = p_message_id;
+
+  IF v_message.id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Message not found');
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'This message was deleted');
+  END IF;
+
+  IF v_message.type NOT IN ('chat', 'image', 'turn_response') THEN
+    RETURN json_build_object('success', false, 'error', 'This message can''t be pinned');
+  END IF;
+
+  SELECT COUNT(*) INTO v_pin_count FROM pinned_messages WHERE room_id = v_message.room_id;
+  IF v_pin_count >= 50 THEN
+    RETURN json_build_object('success', false, 'error', 'This room already has 50 pins');
+  END IF;
+
+  INSERT INTO pinned_messages (room_id, message_id, pinned_by)
+  VALUES (v_message.room_id, p_message_id, caller_id)
+  ON CONFLICT (room_id, message_id) DO NOTHING;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION pin_message(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION unpin_message(p_message_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_pin RECORD;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT pm.id, pm.room_id, pm.pinned_by INTO v_pin
+  FROM pinned_messages pm
+  WHERE pm.message_id = p_message_id;
+
+  IF v_pin.id IS NULL THEN
+    RETURN json_build_object('success', true);
+  END IF;
+
+  IF v_pin.pinned_by IS DISTINCT FROM caller_id AND NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = v_pin.room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the person who pinned this or a host can unpin it');
+  END IF;
+
+  DELETE FROM pinned_messages WHERE id = v_pin.id;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION unpin_message(UUID) TO authenticated;
+
+-- Deleting a message for everyone also unpins it
+CREATE OR REPLACE FUNCTION unpin_deleted_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM pinned_messages WHERE message_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_unpin_deleted_message ON messages;
+CREATE TRIGGER trg_unpin_deleted_message
+  AFTER UPDATE OF deleted_at ON messages
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION unpin_deleted_message();
+
+-- ============================================
+-- PART 3: RPC - Pinned list (room header)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_pinned_messages(p_room_id UUID)
+RETURNS TABLE(
+  message_id UUID,
+  user_id UUID,
+  type TEXT,
+  content TEXT,
+  created_at TIMESTAMPTZ,
+  pinned_by UUID,
+  pinned_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members rm WHERE rm.room_id = p_room_id AND rm.user_id = caller_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.user_id, m.type, m.content, m.created_at, pm.pinned_by, pm.created_at
+  FROM pinned_messages pm
+  JOIN messages m ON m.id = pm.message_id
+  WHERE pm.room_id = p_room_id
+    AND m.deleted_at IS NULL
+  ORDER BY pm.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_pinned_messages(UUID) TO authenticated;
+
+-- ============================================
+-- PART 4: RPC - Highlights board
+-- ============================================
+-- Pins plus answers with a positive score, sent within the period.
+-- Ordered by score, then newest; pins without votes come after.
+
+CREATE OR REPLACE FUNCTION get_room_highlights(
+  p_room_id UUID,
+  p_period TEXT DEFAULT 'all',
+  p_limit INT DEFAULT 30
+)
+RETURNS TABLE(
+  message_id UUID,
+  user_id UUID,
+  type TEXT,
+  content TEXT,
+  created_at TIMESTAMPTZ,
+  score BIGINT,
+  pinned_by UUID,
+  pinned_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_since TIMESTAMPTZ;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members rm WHERE rm.room_id = p_room_id AND rm.user_id = caller_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  v_since := CASE p_period
+    WHEN 'week' THEN NOW() - INTERVAL '7 days'
+    WHEN 'month' THEN NOW() - INTERVAL '30 days'
+    ELSE NULL
+  END;
+
+  RETURN QUERY
+  WITH scored AS (
+    SELECT mv.message_id AS id,
+      SUM(CASE WHEN mv.vote_type = 'up' THEN 1 ELSE -1 END)::BIGINT AS score
+    FROM message_votes mv
+    JOIN messages m ON m.id = mv.message_id
+    WHERE m.room_id = p_room_id
+      AND m.type = 'turn_response'
+      AND (v_since IS NULL OR m.created_at >= v_since)
+    GROUP BY mv.message_id
+  )
+  SELECT
+    m.id,
+    m.user_id,
+    m.type,
+    m.content,
+    m.created_at,
+    COALESCE(s.score, 0),
+    pm.pinned_by,
+    pm.created_at
+  FROM messages m
+  LEFT JOIN scored s ON s.id = m.id
+  LEFT JOIN pinned_messages pm ON pm.message_id = m.id
+  WHERE m.room_id = p_room_id
+    AND m.deleted_at IS NULL
+    AND (v_since IS NULL OR m.created_at >= v_since)
+    AND (pm.id IS NOT NULL OR s.score >= 1)
+  ORDER BY COALESCE(s.score, 0) DESC, m.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_room_highlights(UUID, TEXT, INT) TO authenticated;
@@ -0,0 +1,516 @@
+-- ============================================
+-- POLLS
+-- ============================================
+-- A 'poll' message type: a question with 2-10 options, single or multiple
+-- choice, named or anonymous votes, and an optional close time. The
+-- message's content is the question; options and votes live in their own
+-- tables. Votes are private rows, results come from get_polls, and each
+-- vote touches polls.updated_at so members get a realtime update.
+-- Polls are also a prompt type: on a 'poll' prompt the turn is answered by
+-- asking the group a poll (create_poll with p_as_turn).
+-- Run after hot_seat.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS polls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL UNIQUE REFERENCES messages(id) ON DELETE CASCADE,
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question TEXT NOT NULL CHECK (char_length(question) BETWEEN 1 AND 300),
+  allow_multiple BOOLEAN NOT NULL DEFAULT false,
+  is_anonymous BOOLEAN NOT NULL DEFAULT false,
+  closes_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  -- The turn prompt this poll answered, if it was a poll turn
+  prompt_text TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Bumped on every vote so realtime subscribers refetch results
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_polls_room ON polls(room_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS poll_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  position INT NOT NULL,
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS poll_votes (
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (option_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll ON poll_votes(poll_id, user_id);
+
+ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view room polls" ON polls;
+CREATE POLICY "Members can view room polls"
+ON polls FOR SELECT TO authenticated
+USING (is_room_member(room_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Members can view poll options" ON poll_options;
+CREATE POLICY "Members can view poll options"
+ON poll_options FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM polls p WHERE p.id = poll_options.poll_id AND is_room_member(p.room_id, auth.uid())
+));
+
+-- Anonymous polls must not leak voters, so members only see their own votes
+DROP POLICY IF EXISTS "Users can view own poll votes" ON poll_votes;
+CREATE POLICY "Users can view own poll votes"
+ON poll_votes FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE polls;
+
+-- ============================================
+-- PART 2: Poll prompts
+-- ============================================
+
+ALTER TABLE prompts DROP CONSTRAINT IF EXISTS prompts_type_check;
+ALTER TABLE prompts ADD CONSTRAINT prompts_type_check CHECK (prompt_type IN ('text', 'photo', 'poll'));
+
+ALTER TABLE prompt_pack_items DROP CONSTRAINT IF EXISTS prompt_pack_items_prompt_type_check;
+ALTER TABLE prompt_pack_items ADD CONSTRAINT prompt_pack_items_prompt_type_check
+  CHECK (prompt_type IN ('text', 'photo', 'poll'));
+
+INSERT INTO prompts (text, prompt_type, mode) VALUES
+  ('Poll the group: where should the next hangout be?', 'poll', 'fun'),
+  ('Poll the group: the best snack of all time', 'poll', 'fun'),
+  ('Poll the group: which movie should everyone watch this week?', 'poll', 'fun'),
+  ('Poll the group: settle a debate you''ve been having', 'poll', 'fun'),
+  ('Poll the group: pick the theme for the next get-together', 'poll', 'family'),
+  ('Poll the group: what should be on the menu at the next family meal?', 'poll', 'family'),
+  ('Poll the group: which family tradition should never end?', 'poll', 'family');
+
+-- ============================================
+-- PART 3: poll_json (internal)
+-- ============================================
+-- One poll with per-option counts, as seen by p_viewer_id. Voter ids are
+-- only included for named polls.
+
+CREATE OR REPLACE FUNCTION poll_json(p_poll_id UUID, p_viewer_id UUID)
+RETURNS JSON AS $$
+  SELECT json_build_object(
+    'id', p.id,
+    'message_id', p.message_id,
+    'created_by', p.created_by,
+    'question', p.question,
+    'allow_multiple', p.allow_multiple,
+    'is_anonymous', p.is_anonymous,
+    'closes_at', p.closes_at,
+    'closed_at', p.closed_at,
+    'prompt_text', p.prompt_text,
+    'voter_count', (SELECT COUNT(DISTINCT v.user_id) FROM poll_votes v WHERE v.poll_id = p.id),
+    'options', COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', o.id,
+        'label', o.label,
+        'vote_count', (SELECT COUNT(*) FROM poll_votes v WHERE v.option_id = o.id),
+        'voter_ids', CASE WHEN p.is_anonymous THEN NULL ELSE (
+          SELECT COALESCE(array_agg(v.user_id ORDER BY v.created_at), '{}')
+          FROM poll_votes v WHERE v.option_id = o.id
+        ) END
+      ) ORDER BY o.position)
+      FROM poll_options o WHERE o.poll_id = p.id
+    ), '[]'::JSON),
+    'my_option_ids', (
+      SELECT COALESCE(array_agg(v.option_id), '{}')
+      FROM poll_votes v WHERE v.poll_id = p.id AND v.user_id = p_viewer_id
+    )
+  )
+  FROM polls p
+  WHERE p.id = p_poll_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: create_poll
+-- ============================================
+-- With p_as_turn the caller answers their 'poll' prompt with this poll and
+-- the turn moves on, like submit_turn does for text prompts.
+
+CREATE OR REPLACE FUNCTION create_poll(
+  p_room_id UUID,
+  p_question TEXT,
+  p_options TEXT[],
+  p_allow_multiple BOOLEAN DEFAULT false,
+  p_is_anonymous BOOLEAN DEFAULT false,
+  p_closes_at TIMESTAMPTZ DEFAULT NULL,
+  p_as_turn BOOLEAN DEFAULT false
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_question TEXT := btrim(p_question);
+  v_options TEXT[];
+  v_sess RECORD;
+  v_prompt_text TEXT;
+  v_message_id UUID;
+  v_poll_id UUID;
+  v_result JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_room_member(p_room_id, caller_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  IF v_question IS NULL OR char_length(v_question) = 0 OR char_length(v_question) > 300 THEN
+    RETURN json_build_object('success', false, 'error', 'Questions must be 1-300 characters');
+  END IF;
+
+  -- Trimmed, non-blank, first occurrence of each option in order
+  SELECT COALESCE(array_agg(label ORDER BY pos), '{}') INTO v_options
+  FROM (
+    SELECT DISTINCT ON (lower(btrim(opt))) btrim(opt) AS label, pos
+    FROM unnest(p_options) WITH ORDINALITY AS t(opt, pos)
+    WHERE btrim(opt) <> ''
+    ORDER BY lower(btrim(opt)), pos
+  ) deduped;
+
+  IF array_length(v_options, 1) IS NULL OR array_length(v_options, 1) < 2 OR array_length(v_options, 1) > 10 THEN
+    RETURN json_build_object('success', false, 'error', 'Polls need 2-10 different options');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(v_options) opt WHERE char_length(opt) > 100) THEN
+    RETURN json_build_object('success', false, 'error', 'Options must be 100 characters or less');
+  END IF;
+
+  IF p_closes_at IS NOT NULL AND (p_closes_at <= NOW() OR p_closes_at > NOW() + INTERVAL '30 days') THEN
+    RETURN json_build_object('success', false, 'error', 'Polls can close up to 30 days from now');
+  END IF;
+
+  IF p_as_turn THEN
+    SELECT * INTO v_sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+    IF v_sess IS NULL THEN
+      RETURN json_build_object('success', false, 'error', 'No active session');
+    END IF;
+
+    IF COALESCE(v_sess.current_turn_user_id, v_sess.turn_order[v_sess.current_turn_index + 1]) IS DISTINCT FROM caller_id THEN
+      RETURN json_build_object('success', false, 'error', 'Not your turn');
+    END IF;
+
+    IF v_sess.paused_at IS NOT NULL THEN
+      RETURN json_build_object('success', false, 'error', 'The game is paused. You can answer once it resumes.');
+    END IF;
+
+    IF v_sess.waiting_until IS NOT NULL AND v_sess.waiting_until > NOW() THEN
+      RETURN json_build_object('success', false, 'error', 'Still in cooldown period');
+    END IF;
+
+    IF v_sess.current_prompt_type IS DISTINCT FROM 'poll' THEN
+      RETURN json_build_object('success', false, 'error', 'Current prompt does not ask for a poll');
+    END IF;
+
+    v_prompt_text := v_sess.prompt_text;
+  END IF;
+
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (p_room_id, caller_id, 'poll', v_question)
+  RETURNING id INTO v_message_id;
+
+  INSERT INTO polls (message_id, room_id, created_by, question, allow_multiple, is_anonymous, closes_at, prompt_text)
+  VALUES (v_message_id, p_room_id, caller_id, v_question, p_allow_multiple, p_is_anonymous, p_closes_at, v_prompt_text)
+  RETURNING id INTO v_poll_id;
+
+  INSERT INTO poll_options (poll_id, position, label)
+  SELECT v_poll_id, pos, opt
+  FROM unnest(v_options) WITH ORDINALITY AS t(opt, pos);
+
+  IF p_as_turn THEN
+    v_result := advance_turn(p_room_id, 'completed', NULL);
+
+    -- Undo the poll too, so a failed turn can be retried
+    IF NOT (v_result->>'success')::boolean THEN
+      RAISE EXCEPTION '%', v_result->>'error';
+    END IF;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'message_id', v_message_id,
+    'poll_id', v_poll_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: vote_poll / close_poll
+-- ============================================
+
+-- Replaces the caller's votes with p_option_ids (empty clears them)
+CREATE OR REPLACE FUNCTION vote_poll(p_poll_id UUID, p_option_ids UUID[])
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_poll RECORD;
+  v_option_ids UUID[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_option_ids, '{}')));
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_poll FROM polls WHERE id = p_poll_id;
+  IF v_poll IS NULL OR NOT is_room_member(v_poll.room_id, caller_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Poll not found');
+  END IF;
+
+  IF v_poll.closed_at IS NOT NULL OR (v_poll.closes_at IS NOT NULL AND v_poll.closes_at <= NOW()) THEN
+    RETURN json_build_object('success', false, 'error', 'This poll is closed');
+  END IF;
+
+  IF NOT v_poll.allow_multiple AND cardinality(v_option_ids) > 1 THEN
+    RETURN json_build_object('success', false, 'error', 'Pick one option');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_option_ids) opt
+    WHERE NOT EXISTS (SELECT 1 FROM poll_options o WHERE o.id = opt AND o.poll_id = p_poll_id)
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid option');
+  END IF;
+
+  DELETE FROM poll_votes WHERE poll_id = p_poll_id AND user_id = caller_id;
+
+  INSERT INTO poll_votes (poll_id, option_id, user_id)
+  SELECT p_poll_id, opt, caller_id FROM unnest(v_option_ids) opt;
+
+  UPDATE polls SET updated_at = NOW() WHERE id = p_poll_id;
+
+  RETURN json_build_object('success', true, 'poll', poll_json(p_poll_id, caller_id));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The creator or a host can end a poll early
+CREATE OR REPLACE FUNCTION close_poll(p_poll_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_poll RECORD;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_poll FROM polls WHERE id = p_poll_id;
+  IF v_poll IS NULL OR NOT is_room_member(v_poll.room_id, caller_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Poll not found');
+  END IF;
+
+  IF v_poll.created_by != caller_id AND NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = v_poll.room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the poll creator or a host can close it');
+  END IF;
+
+  UPDATE polls
+  SET closed_at = COALESCE(closed_at, NOW()), updated_at = NOW()
+  WHERE id = p_poll_id;
+
+  RETURN json_build_object('success', true, 'poll', poll_json(p_poll_id, caller_id));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 6: get_polls
+-- ============================================
+
+-- Results for the poll messages in p_message_ids the caller can see
+CREATE OR REPLACE FUNCTION get_polls(p_message_ids UUID[])
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT json_agg(poll_json(p.id, caller_id))
+    FROM polls p
+    WHERE p.message_id = ANY(p_message_ids)
+      AND is_room_member(p.room_id, caller_id)
+  ), '[]'::JSON);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 7: Prompt packs accept poll prompts
+-- ============================================
+-- Same as custom_prompt_packs.sql, plus 'poll' as a prompt type
+
+CREATE OR REPLACE FUNCTION add_prompt_pack_items(p_pack_id UUID, p_items JSONB)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_added INT;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM prompt_packs pp
+    JOIN room_members rm ON rm.room_id = pp.room_id
+    WHERE pp.id = p_pack_id AND rm.user_id = caller_id AND rm.role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) > 500 THEN
+    RETURN json_build_object('success', false, 'error', 'Add up to 500 prompts at a time');
+  END IF;
+
+  INSERT INTO prompt_pack_items (pack_id, text, prompt_type)
+  SELECT DISTINCT ON (lower(item.text)) p_pack_id, item.text, item.prompt_type
+  FROM (
+    SELECT
+      left(btrim(elem->>'text'), 280) AS text,
+      CASE WHEN elem->>'prompt_type' IN ('photo', 'poll') THEN elem->>'prompt_type' ELSE 'text' END AS prompt_type
+    FROM jsonb_array_elements(p_items) elem
+  ) item
+  WHERE item.text IS NOT NULL
+    AND char_length(item.text) > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM prompt_pack_items existing
+      WHERE existing.pack_id = p_pack_id
+        AND lower(existing.text) = lower(item.text)
+    );
+
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  RETURN json_build_object('success', true, 'added', v_added);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_prompt_pack_item(
+  p_item_id UUID,
+  p_text TEXT,
+  p_prompt_type TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_text TEXT := btrim(p_text);
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM prompt_pack_items ppi
+    JOIN prompt_packs pp ON pp.id = ppi.pack_id
+    JOIN room_members rm ON rm.room_id = pp.room_id
+    WHERE ppi.id = p_item_id AND rm.user_id = caller_id AND rm.role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  IF v_text IS NULL OR char_length(v_text) = 0 OR char_length(v_text) > 280 THEN
+    RETURN json_build_object('success', false, 'error', 'Prompts must be 1-280 characters');
+  END IF;
+
+  IF p_prompt_type NOT IN ('text', 'photo', 'poll') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid prompt type');
+  END IF;
+
+  UPDATE prompt_pack_items
+  SET text = v_text, prompt_type = p_prompt_type
+  WHERE id = p_item_id;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 8: submit_turn - poll prompts are answered with create_poll
+-- ============================================
+-- Same as anti_stall.sql, plus the 'poll' prompt check, and it refuses
+-- while the game is paused instead of failing in advance_turn
+
+CREATE OR REPLACE FUNCTION submit_turn(p_room_id UUID, p_content TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  sess RECORD;
+  curr_turn_user UUID;
+  v_result JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Get active session
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RAISE EXCEPTION 'No active session';
+  END IF;
+
+  -- Determine whose turn it is
+  curr_turn_user := COALESCE(sess.current_turn_user_id, sess.turn_order[sess.current_turn_index + 1]);
+
+  IF curr_turn_user != caller_id THEN
+    RAISE EXCEPTION 'Not your turn';
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The game is paused. You can answer once it resumes.';
+  END IF;
+
+  IF sess.waiting_until IS NOT NULL AND sess.waiting_until > NOW() THEN
+    RAISE EXCEPTION 'Still in cooldown period';
+  END IF;
+
+  -- Check prompt type
+  IF sess.current_prompt_type = 'photo' THEN
+    RAISE EXCEPTION 'This prompt requires a photo.';
+  END IF;
+
+  IF sess.current_prompt_type = 'poll' THEN
+    RAISE EXCEPTION 'This prompt asks for a poll.';
+  END IF;
+
+  -- Insert turn response
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (p_room_id, caller_id, 'turn_response', p_content);
+
+  -- Advance turn using canonical function
+  v_result := advance_turn(p_room_id, 'completed', NULL);
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 9: Grant permissions
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION create_poll(UUID, TEXT, TEXT[], BOOLEAN, BOOLEAN, TIMESTAMPTZ, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION vote_poll(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION close_poll(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_polls(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_prompt_pack_items(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_prompt_pack_item(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_turn(UUID, TEXT) TO authenticated;
+
+-- Internal only
+REVOKE EXECUTE ON FUNCTION poll_json(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,479 @@
+-- ============================================
+-- PROMPT CREDIT BY SUGGESTION ID
+-- ============================================
+-- get_prompt_credit used to find the author by matching the current
+-- prompt's text against approved suggestions, which credited the wrong
+-- person whenever a built-in or pack prompt had the same wording. The
+-- suggestion a prompt was drawn from is now stored on the session when it
+-- is drawn, and the credit is looked up by that id. Only members of the
+-- room can read it.
+-- Run after message_outbox.sql
+
+-- ============================================
+-- PART 1: Columns
+-- ============================================
+
+-- The approved suggestion the current prompt came from, if any
+ALTER TABLE turn_sessions
+  ADD COLUMN IF NOT EXISTS current_suggestion_id UUID REFERENCES prompt_suggestions(id) ON DELETE SET NULL;
+
+-- ============================================
+-- PART 2: get_shuffle_bag_prompt - return the suggestion id
+-- ============================================
+-- Same as prompt_suggestions.sql, plus a suggestion_id column (NULL for
+-- built-in and pack prompts). Callers select columns by name, so the ones
+-- that don't need it are unaffected.
+
+DROP FUNCTION IF EXISTS get_shuffle_bag_prompt(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION get_shuffle_bag_prompt(
+  p_room_id UUID,
+  p_mode TEXT
+) RETURNS TABLE (prompt_text TEXT, prompt_type TEXT, suggestion_id UUID) AS $$
+DECLARE
+  v_use_builtin BOOLEAN;
+  v_builtin_id UUID;
+  v_custom_id UUID;
+  v_suggestion_id UUID;
+  v_selected_text TEXT;
+  v_selected_type TEXT;
+  v_attempt INT;
+BEGIN
+  SELECT COALESCE(include_builtin_prompts, true) INTO v_use_builtin
+  FROM rooms WHERE id = p_room_id;
+
+  -- Custom-only rooms fall back to built-ins until they have their own prompts
+  IF NOT v_use_builtin AND NOT EXISTS (
+    SELECT 1 FROM prompt_pack_items ppi
+    JOIN prompt_packs pp ON pp.id = ppi.pack_id
+    WHERE pp.room_id = p_room_id AND pp.is_active = true
+  ) AND NOT EXISTS (
+    SELECT 1 FROM prompt_suggestions
+    WHERE room_id = p_room_id AND status = 'approved'
+  ) THEN
+    v_use_builtin := true;
+  END IF;
+
+  -- Second attempt runs after the bag is emptied and reshuffled
+  FOR v_attempt IN 1..2 LOOP
+    SELECT pool.builtin_id, pool.custom_id, pool.suggestion_id, pool.text, pool.type
+    INTO v_builtin_id, v_custom_id, v_suggestion_id, v_selected_text, v_selected_type
+    FROM (
+      SELECT p.id AS builtin_id, NULL::UUID AS custom_id, NULL::UUID AS suggestion_id,
+             p.text, COALESCE(p.prompt_type, 'text') AS type
+      FROM prompts p
+      WHERE v_use_builtin
+        AND p.mode = p_mode
+        AND NOT EXISTS (
+          SELECT 1 FROM room_used_prompts rup
+          WHERE rup.room_id = p_room_id
+            AND rup.mode = p_mode
+            AND rup.prompt_id = p.id
+        )
+      UNION ALL
+      SELECT NULL::UUID, ppi.id, NULL::UUID, ppi.text, ppi.prompt_type
+      FROM prompt_pack_items ppi
+      JOIN prompt_packs pp ON pp.id = ppi.pack_id
+      WHERE pp.room_id = p_room_id
+        AND pp.is_active = true
+        AND NOT EXISTS (
+          SELECT 1 FROM room_used_prompts rup
+          WHERE rup.room_id = p_room_id
+            AND rup.mode = p_mode
+            AND rup.custom_prompt_id = ppi.id
+        )
+      UNION ALL
+      SELECT NULL::UUID, NULL::UUID, ps.id, ps.text, ps.prompt_type
+      FROM prompt_suggestions ps
+      WHERE ps.room_id = p_room_id
+        AND ps.status = 'approved'
+        AND NOT EXISTS (
+          SELECT 1 FROM room_used_prompts rup
+          WHERE rup.room_id = p_room_id
+            AND rup.mode = p_mode
+            AND rup.suggestion_id = ps.id
+        )
+    ) pool
+    ORDER BY random()
+    LIMIT 1;
+
+    EXIT WHEN FOUND;
+
+    -- All prompts used: clear the bag and reshuffle
+    DELETE FROM room_used_prompts
+    WHERE room_id = p_room_id AND mode = p_mode;
+  END LOOP;
+
+  -- Mark this prompt as used
+  IF v_builtin_id IS NOT NULL THEN
+    INSERT INTO room_used_prompts (room_id, mode, prompt_id)
+    VALUES (p_room_id, p_mode, v_builtin_id)
+    ON CONFLICT DO NOTHING;
+  ELSIF v_custom_id IS NOT NULL THEN
+    INSERT INTO room_used_prompts (room_id, mode, custom_prompt_id)
+    VALUES (p_room_id, p_mode, v_custom_id)
+    ON CONFLICT DO NOTHING;
+  ELSIF v_suggestion_id IS NOT NULL THEN
+    INSERT INTO room_used_prompts (room_id, mode, suggestion_id)
+    VALUES (p_room_id, p_mode, v_suggestion_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  prompt_text := v_selected_text;
+  prompt_type := v_selected_type;
+  suggestion_id := v_suggestion_id;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 3: Store the drawn suggestion on the session
+-- ============================================
+-- Same as prompt_shuffle_bag.sql, plus current_suggestion_id
+
+CREATE OR REPLACE FUNCTION start_session(p_room_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  member_ids UUID[];
+  first_user_id UUID;
+  first_prompt_text TEXT;
+  first_prompt_type TEXT;
+  first_suggestion_id UUID;
+  v_prompt_mode TEXT;
+  v_prompt_id UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify caller is host
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RAISE EXCEPTION 'Only the host can start a session';
+  END IF;
+
+  -- End any existing session
+  UPDATE turn_sessions SET is_active = false WHERE room_id = p_room_id AND is_active = true;
+
+  -- Get room's prompt mode
+  SELECT prompt_mode INTO v_prompt_mode FROM rooms WHERE id = p_room_id;
+  v_prompt_mode := COALESCE(v_prompt_mode, 'fun');
+
+  -- Get ALL current members ordered by user_id
+  SELECT array_agg(user_id ORDER BY user_id) INTO member_ids
+  FROM room_members WHERE room_id = p_room_id;
+
+  IF array_length(member_ids, 1) < 2 THEN
+    RAISE EXCEPTION 'Need at least 2 members to start';
+  END IF;
+
+  first_user_id := member_ids[1];
+
+  -- Pick a random prompt using shuffle-bag algorithm
+  SELECT sbp.prompt_text, sbp.prompt_type, sbp.suggestion_id
+  INTO first_prompt_text, first_prompt_type, first_suggestion_id
+  FROM get_shuffle_bag_prompt(p_room_id, v_prompt_mode) sbp;
+
+  -- Delete old session if exists (handle unique constraint)
+  DELETE FROM turn_sessions WHERE room_id = p_room_id;
+
+  -- Create session with current_turn_user_id set
+  INSERT INTO turn_sessions (
+    room_id,
+    prompt_text,
+    current_prompt_type,
+    current_suggestion_id,
+    turn_order,
+    current_turn_index,
+    current_turn_user_id,
+    is_active,
+    waiting_until
+  )
+  VALUES (
+    p_room_id,
+    first_prompt_text,
+    first_prompt_type,
+    first_suggestion_id,
+    member_ids,
+    0,
+    first_user_id,
+    true,
+    NULL
+  );
+
+  -- System message
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (p_room_id, NULL, 'system', 'Game started!');
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as everyone_answers.sql, plus current_suggestion_id
+
+CREATE OR REPLACE FUNCTION start_round(p_room_id UUID, p_wait BOOLEAN DEFAULT true)
+RETURNS UUID AS $$
+DECLARE
+  v_prompt_mode TEXT;
+  v_interval INT;
+  v_deadline_hours INT;
+  v_room_name TEXT;
+  v_prompt_text TEXT;
+  v_prompt_type TEXT;
+  v_suggestion_id UUID;
+  v_opens_at TIMESTAMPTZ := NOW();
+  v_participants UUID[];
+  v_round_id UUID;
+BEGIN
+  SELECT COALESCE(prompt_mode, 'fun'), COALESCE(prompt_interval_minutes, 0), round_deadline_hours, name
+  INTO v_prompt_mode, v_interval, v_deadline_hours, v_room_name
+  FROM rooms WHERE id = p_room_id;
+
+  IF p_wait THEN
+    v_opens_at := next_schedule_slot(p_room_id);
+    IF v_opens_at IS NULL THEN
+      v_opens_at := NOW() + (v_interval || ' minutes')::INTERVAL;
+    END IF;
+  END IF;
+
+  SELECT prompt_text, prompt_type, suggestion_id INTO v_prompt_text, v_prompt_type, v_suggestion_id
+  FROM get_shuffle_bag_prompt(p_room_id, v_prompt_mode);
+
+  -- Everyone who isn't snoozed or on vacation
+  SELECT COALESCE(array_agg(rm.user_id ORDER BY rm.created_at, rm.user_id), '{}')
+  INTO v_participants
+  FROM room_members rm
+  WHERE rm.room_id = p_room_id
+    AND member_away_until(p_room_id, rm.user_id) IS NULL;
+
+  INSERT INTO turn_rounds (room_id, prompt_text, prompt_type, participant_ids, opens_at, deadline_at)
+  VALUES (
+    p_room_id,
+    COALESCE(v_prompt_text, 'What''s on your mind?'),
+    COALESCE(v_prompt_type, 'text'),
+    v_participants,
+    v_opens_at,
+    v_opens_at + (v_deadline_hours || ' hours')::INTERVAL
+  )
+  RETURNING id INTO v_round_id;
+
+  -- Nobody holds the turn during a round; a new turn_instance_id resets nudges
+  UPDATE turn_sessions
+  SET current_round_id = v_round_id,
+      round_answered_count = 0,
+      current_turn_user_id = NULL,
+      turn_instance_id = v_round_id,
+      prompt_text = v_prompt_text,
+      current_prompt_type = v_prompt_type,
+      current_suggestion_id = v_suggestion_id,
+      waiting_until = CASE WHEN v_opens_at > NOW() THEN v_opens_at END,
+      last_turn_completed_at = CASE WHEN p_wait THEN NOW() ELSE last_turn_completed_at END,
+      all_nudged_at = NULL
+  WHERE room_id = p_room_id AND is_active = true;
+
+  INSERT INTO notifications (user_id, type, room_id, metadata)
+  SELECT p.user_id, 'your_turn', p_room_id,
+    jsonb_build_object(
+      'prompt_text', v_prompt_text,
+      'prompt_type', v_prompt_type,
+      'room_name', v_room_name,
+      'round_id', v_round_id
+    )
+  FROM unnest(v_participants) AS p(user_id);
+
+  RETURN v_round_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as everyone_answers.sql, plus current_suggestion_id
+
+DROP FUNCTION IF EXISTS advance_turn(UUID, TEXT, UUID);
+CREATE OR REPLACE FUNCTION advance_turn(
+  p_room_id UUID,
+  p_reason TEXT DEFAULT 'completed',  -- 'completed', 'auto_skip', 'host_skip', 'host_exclude'
+  p_skipped_user_id UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  sess RECORD;
+  next_user_id UUID;
+  new_prompt_text TEXT;
+  new_prompt_type TEXT;
+  new_suggestion_id UUID;
+  v_prompt_mode TEXT;
+  room_interval INT;
+  next_waiting_until TIMESTAMPTZ;
+  v_quiet_until TIMESTAMPTZ;
+  v_room_name TEXT;
+BEGIN
+  -- Get active session
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active session');
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused');
+  END IF;
+
+  -- In 'everyone' mode the round decides what happens next
+  IF sess.current_round_id IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Everyone is answering this round');
+  END IF;
+
+  -- Get room settings
+  SELECT COALESCE(prompt_interval_minutes, 0), COALESCE(prompt_mode, 'fun'), name
+  INTO room_interval, v_prompt_mode, v_room_name
+  FROM rooms WHERE id = p_room_id;
+
+  -- Get next user
+  next_user_id := get_next_turn_user(p_room_id, COALESCE(p_skipped_user_id, sess.current_turn_user_id));
+
+  IF next_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Could not determine next user');
+  END IF;
+
+  -- Calculate cooldown: the next scheduled slot, else the fixed interval
+  next_waiting_until := next_schedule_slot(p_room_id);
+  IF next_waiting_until IS NULL AND room_interval > 0 THEN
+    next_waiting_until := NOW() + (room_interval || ' minutes')::INTERVAL;
+  END IF;
+
+  -- Get new prompt using shuffle bag
+  SELECT prompt_text, prompt_type, suggestion_id INTO new_prompt_text, new_prompt_type, new_suggestion_id
+  FROM get_shuffle_bag_prompt(p_room_id, v_prompt_mode);
+
+  -- Handle missed streak based on reason
+  IF p_reason = 'completed' THEN
+    -- Reset missed_streak for the user who completed
+    UPDATE room_members
+    SET missed_streak = 0
+    WHERE room_id = p_room_id AND user_id = sess.current_turn_user_id;
+  ELSIF p_reason IN ('auto_skip', 'host_skip') AND p_skipped_user_id IS NOT NULL THEN
+    -- Increment missed_streak for skipped user
+    UPDATE room_members
+    SET missed_streak = missed_streak + 1
+    WHERE room_id = p_room_id AND user_id = p_skipped_user_id;
+
+    -- Create notification for skipped user
+    INSERT INTO notifications (user_id, type, room_id, metadata)
+    VALUES (
+      p_skipped_user_id,
+      'turn_skipped',
+      p_room_id,
+      jsonb_build_object('reason', p_reason, 'room_name', v_room_name)
+    );
+
+    -- Check if user should be removed (3+ consecutive misses)
+    IF (SELECT missed_streak FROM room_members WHERE room_id = p_room_id AND user_id = p_skipped_user_id) >= 3 THEN
+      -- Remove the member
+      DELETE FROM room_members WHERE room_id = p_room_id AND user_id = p_skipped_user_id;
+
+      -- Post system message
+      INSERT INTO messages (room_id, user_id, type, content)
+      VALUES (p_room_id, NULL, 'system', 'A member was removed due to inactivity');
+
+      -- Recalculate next user after removal
+      next_user_id := get_next_turn_user(p_room_id, sess.current_turn_user_id);
+    END IF;
+  END IF;
+
+  -- Don't hand the turn over in the middle of the next player's night:
+  -- the turn waits until their quiet hours end (after any cooldown)
+  v_quiet_until := quiet_hours_end_at(next_user_id, COALESCE(next_waiting_until, NOW()));
+  IF v_quiet_until IS NOT NULL THEN
+    next_waiting_until := v_quiet_until;
+  END IF;
+
+  -- Update session with new turn
+  -- CRITICAL: Generate new turn_instance_id to reset nudge eligibility
+  UPDATE turn_sessions
+  SET current_turn_user_id = next_user_id,
+      current_turn_index = current_turn_index + 1,
+      turn_instance_id = gen_random_uuid(),  -- Resets nudge eligibility for ALL users
+      prompt_text = new_prompt_text,
+      current_prompt_type = new_prompt_type,
+      current_suggestion_id = new_suggestion_id,
+      waiting_until = next_waiting_until,
+      last_turn_completed_at = NOW(),
+      all_nudged_at = NULL  -- Reset for new turn
+  WHERE room_id = p_room_id AND is_active = true;
+
+  -- Create notification for the next user (their turn now)
+  IF next_user_id IS DISTINCT FROM sess.current_turn_user_id THEN
+    INSERT INTO notifications (user_id, type, room_id, metadata)
+    VALUES (
+      next_user_id,
+      'your_turn',
+      p_room_id,
+      jsonb_build_object(
+        'prompt_text', new_prompt_text,
+        'prompt_type', new_prompt_type,
+        'room_name', v_room_name
+      )
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'next_user_id', next_user_id,
+    'reason', p_reason
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: get_prompt_credit - by id, members only
+-- ============================================
+-- The text still has to match, so a prompt replaced after it was drawn
+-- (a hot seat question) isn't credited to the suggestion's author
+
+CREATE OR REPLACE FUNCTION get_prompt_credit(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_author_id UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = caller_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT ps.user_id INTO v_author_id
+  FROM turn_sessions ts
+  JOIN prompt_suggestions ps
+    ON ps.id = ts.current_suggestion_id
+   AND ps.room_id = ts.room_id
+   AND ps.text = ts.prompt_text
+  WHERE ts.room_id = p_room_id AND ts.is_active = true;
+
+  IF v_author_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN json_build_object(
+    'author_id', v_author_id,
+    'author_name', member_display_name(v_author_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: Grants
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION get_shuffle_bag_prompt(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION advance_turn(UUID, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_prompt_credit(UUID) TO authenticated;
+
+-- Internal / cron only
+REVOKE EXECUTE ON FUNCTION start_round(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,321 @@
+-- ============================================
+-- SCHEDULED PROMPT TIMES
+-- ============================================
+-- Instead of a fixed interval (prompt_interval_minutes), a room can run on
+-- a weekly schedule: days of the week plus times of day, in the room's
+-- timezone ("weekdays at 19:00"). After each turn, waiting_until is set to
+-- the next scheduled slot. Setting a schedule clears the interval and
+-- choosing an interval clears the schedule.
+-- Run after quiet_hours.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+-- ISO days of the week (1 = Monday ... 7 = Sunday)
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS prompt_schedule_days SMALLINT[];
+-- Local times of day, e.g. {'19:00'}
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS prompt_schedule_times TIME[];
+-- IANA timezone the schedule is in. NULL is treated as UTC.
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+-- ============================================
+-- PART 2: next_schedule_slot
+-- ============================================
+-- First scheduled time after p_at, or NULL if the room has no schedule
+
+CREATE OR REPLACE FUNCTION next_schedule_slot(p_room_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_days SMALLINT[];
+  v_times TIME[];
+  v_tz TEXT;
+  v_local_date DATE;
+  v_slot TIMESTAMPTZ;
+BEGIN
+  SELECT prompt_schedule_days, prompt_schedule_times, COALESCE(timezone, 'UTC')
+  INTO v_days, v_times, v_tz
+  FROM rooms WHERE id = p_room_id;
+
+  IF COALESCE(cardinality(v_days), 0) = 0 OR COALESCE(cardinality(v_times), 0) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_local_date := (p_at AT TIME ZONE v_tz)::DATE;
+
+  -- Today through a week from today always contains the next slot
+  SELECT MIN((v_local_date + d + t) AT TIME ZONE v_tz)
+  INTO v_slot
+  FROM generate_series(0, 7) AS d
+  CROSS JOIN unnest(v_times) AS t
+  WHERE EXTRACT(ISODOW FROM v_local_date + d)::SMALLINT = ANY(v_days)
+    AND (v_local_date + d + t) AT TIME ZONE v_tz > p_at;
+
+  RETURN v_slot;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- PART 3: set_room_schedule (any member, like the frequency)
+-- ============================================
+-- Pass empty/NULL days or times to go back to "Immediately"
+
+CREATE OR REPLACE FUNCTION set_room_schedule(
+  p_room_id UUID,
+  p_days SMALLINT[],
+  p_times TIME[],
+  p_timezone TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_clear BOOLEAN := COALESCE(cardinality(p_days), 0) = 0 OR COALESCE(cardinality(p_times), 0) = 0;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_room_member(p_room_id, caller_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  IF NOT v_clear THEN
+    IF p_timezone IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+      RETURN json_build_object('success', false, 'error', 'Unknown timezone');
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM unnest(p_days) AS d WHERE d IS NULL OR d < 1 OR d > 7) THEN
+      RETURN json_build_object('success', false, 'error', 'Invalid day of the week');
+    END IF;
+
+    IF cardinality(p_times) > 6 OR array_position(p_times, NULL) IS NOT NULL THEN
+      RETURN json_build_object('success', false, 'error', 'Pick up to 6 times a day');
+    END IF;
+  END IF;
+
+  UPDATE rooms
+  SET prompt_schedule_days = CASE WHEN v_clear THEN NULL
+        ELSE (SELECT array_agg(DISTINCT d ORDER BY d) FROM unnest(p_days) AS d) END,
+      prompt_schedule_times = CASE WHEN v_clear THEN NULL
+        ELSE (SELECT array_agg(DISTINCT t ORDER BY t) FROM unnest(p_times) AS t) END,
+      timezone = COALESCE(p_timezone, timezone),
+      prompt_interval_minutes = 0
+  WHERE id = p_room_id;
+
+  -- Re-time the current wait from the last completed turn
+  UPDATE turn_sessions
+  SET waiting_until = CASE
+    WHEN last_turn_completed_at IS NOT NULL THEN next_schedule_slot(p_room_id, last_turn_completed_at)
+    ELSE NULL
+  END
+  WHERE room_id = p_room_id AND is_active = true;
+
+  RETURN json_build_object(
+    'success', true,
+    'next_slot', next_schedule_slot(p_room_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: update_room_frequency - clears the schedule
+-- ============================================
+-- Same as room_wide_frequency.sql, plus picking an interval turns the
+-- schedule off
+
+CREATE OR REPLACE FUNCTION update_room_frequency(p_room_id UUID, p_interval_minutes INT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Verify caller is a member
+  IF NOT is_room_member(p_room_id, caller_id) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF p_interval_minutes NOT IN (0, 60, 180, 360, 1440) THEN
+    RAISE EXCEPTION 'Invalid interval. Must be 0, 60, 180, 360, or 1440 minutes';
+  END IF;
+
+  UPDATE rooms
+  SET prompt_interval_minutes = p_interval_minutes,
+      prompt_schedule_days = NULL,
+      prompt_schedule_times = NULL
+  WHERE id = p_room_id;
+
+  -- Also update waiting_until for active session if needed
+  UPDATE turn_sessions
+  SET waiting_until = CASE
+    WHEN p_interval_minutes = 0 THEN NULL
+    WHEN last_turn_completed_at IS NOT NULL THEN last_turn_completed_at + (p_interval_minutes || ' minutes')::INTERVAL
+    ELSE NULL
+  END
+  WHERE room_id = p_room_id AND is_active = true;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: advance_turn - wait for the next scheduled slot
+-- ============================================
+-- Same as quiet_hours.sql, plus scheduled rooms wait for next_schedule_slot
+-- instead of prompt_interval_minutes
+
+DROP FUNCTION IF EXISTS advance_turn(UUID, TEXT, UUID);
+CREATE OR REPLACE FUNCTION advance_turn(
+  p_room_id UUID,
+  p_reason TEXT DEFAULT 'completed',  -- 'completed', 'auto_skip', 'host_skip', 'host_exclude'
+  p_skipped_user_id UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  sess RECORD;
+  next_user_id UUID;
+  new_prompt_text TEXT;
+  new_prompt_type TEXT;
+  v_prompt_mode TEXT;
+  room_interval INT;
+  next_waiting_until TIMESTAMPTZ;
+  v_quiet_until TIMESTAMPTZ;
+  v_room_name TEXT;
+BEGIN
+  -- Get active session
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active session');
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused');
+  END IF;
+
+  -- Get room settings
+  SELECT COALESCE(prompt_interval_minutes, 0), COALESCE(prompt_mode, 'fun'), name
+  INTO room_interval, v_prompt_mode, v_room_name
+  FROM rooms WHERE id = p_room_id;
+
+  -- Get next user
+  next_user_id := get_next_turn_user(p_room_id, COALESCE(p_skipped_user_id, sess.current_turn_user_id));
+
+  IF next_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Could not determine next user');
+  END IF;
+
+  -- Calculate cooldown: the next scheduled slot, else the fixed interval
+  next_waiting_until := next_schedule_slot(p_room_id);
+  IF next_waiting_until IS NULL AND room_interval > 0 THEN
+    next_waiting_until := NOW() + (room_interval || ' minutes')::INTERVAL;
+  END IF;
+
+  -- Get new prompt using shuffle bag
+  SELECT prompt_text, prompt_type INTO new_prompt_text, new_prompt_type
+  FROM get_shuffle_bag_prompt(p_room_id, v_prompt_mode);
+
+  -- Handle missed streak based on reason
+  IF p_reason = 'completed' THEN
+    -- Reset missed_streak for the user who completed
+    UPDATE room_members
+    SET missed_streak = 0
+    WHERE room_id = p_room_id AND user_id = sess.current_turn_user_id;
+  ELSIF p_reason IN ('auto_skip', 'host_skip') AND p_skipped_user_id IS NOT NULL THEN
+    -- Increment missed_streak for skipped user
+    UPDATE room_members
+    SET missed_streak = missed_streak + 1
+    WHERE room_id = p_room_id AND user_id = p_skipped_user_id;
+
+    -- Create notification for skipped user
+    INSERT INTO notifications (user_id, type, room_id, metadata)
+    VALUES (
+      p_skipped_user_id,
+      'turn_skipped',
+      p_room_id,
+      jsonb_build_object('reason', p_reason, 'room_name', v_room_name)
+    );
+
+    -- Check if user should be removed (3+ consecutive misses)
+    IF (SELECT missed_streak FROM room_members WHERE room_id = p_room_id AND user_id = p_skipped_user_id) >= 3 THEN
+      -- Remove the member
+      DELETE FROM room_members WHERE room_id = p_room_id AND user_id = p_skipped_user_id;
+
+      -- Post system message
+      INSERT INTO messages (room_id, user_id, type, content)
+      VALUES (p_room_id, NULL, 'system', 'A member was removed due to inactivity');
+
+      -- Recalculate next user after removal
+      next_user_id := get_next_turn_user(p_room_id, sess.current_turn_user_id);
+    END IF;
+  END IF;
+
+  -- Don't hand the turn over in the middle of the next player's night:
+  -- the turn waits until their quiet hours end (after any cooldown)
+  v_quiet_until := quiet_hours_end_at(next_user_id, COALESCE(next_waiting_until, NOW()));
+  IF v_quiet_until IS NOT NULL THEN
+    next_waiting_until := v_quiet_until;
+  END IF;
+
+  -- Update session with new turn
+  -- CRITICAL: Generate new turn_instance_id to reset nudge eligibility
+  UPDATE turn_sessions
+  SET current_turn_user_id = next_user_id,
+      current_turn_index = current_turn_index + 1,
+      turn_instance_id = gen_random_uuid(),  -- Resets nudge eligibility for ALL users
+      prompt_text = new_prompt_text,
+      current_prompt_type = new_prompt_type,
+      waiting_until = next_waiting_until,
+      last_turn_completed_at = NOW(),
+      all_nudged_at = NULL  -- Reset for new turn
+  WHERE room_id = p_room_id AND is_active = true;
+
+  -- Create notification for the next user (their turn now)
+  IF next_user_id IS DISTINCT FROM sess.current_turn_user_id THEN
+    INSERT INTO notifications (user_id, type, room_id, metadata)
+    VALUES (
+      next_user_id,
+      'your_turn',
+      p_room_id,
+      jsonb_build_object(
+        'prompt_text', new_prompt_text,
+        'prompt_type', new_prompt_type,
+        'room_name', v_room_name
+      )
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'next_user_id', next_user_id,
+    'reason', p_reason
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 6: away_until_label - in the room's timezone
+-- ============================================
+-- Same as member_snooze.sql, but the date is the one in the room's
+-- timezone, else the away member's own, else UTC
+
+CREATE OR REPLACE FUNCTION away_until_label(p_room_id UUID, p_user_id UUID, p_until TIMESTAMPTZ)
+RETURNS TEXT AS $$
+  SELECT to_char(
+    p_until AT TIME ZONE COALESCE(
+      (SELECT timezone FROM rooms WHERE id = p_room_id),
+      (SELECT timezone FROM profiles WHERE id = p_user_id),
+      'UTC'
+    ),
+    'Mon FMDD'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- PART 7: Grant permissions
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION set_room_schedule(UUID, SMALLINT[], TIME[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_room_frequency(UUID, INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION advance_turn(UUID, TEXT, UUID) TO authenticated;
@@ -0,0 +1,470 @@
+-- ============================================
+-- MEMBER PROMPT SUGGESTIONS
+-- ============================================
+-- Any member can suggest a prompt. Other members vote on it
+-- (same up/down toggle rules as message_votes), and once its score
+-- reaches the room's threshold it joins the shuffle bag.
+-- When an approved suggestion is drawn, the room credits its author.
+-- Run after custom_prompt_packs.sql
+
+-- ============================================
+-- PART 1: Tables
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS prompt_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  text TEXT NOT NULL CHECK (char_length(text) BETWEEN 1 AND 280),
+  prompt_type TEXT NOT NULL DEFAULT 'text' CHECK (prompt_type IN ('text', 'photo')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved')),
+  approved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_suggestions_room
+  ON prompt_suggestions(room_id, status);
+
+CREATE TABLE IF NOT EXISTS prompt_suggestion_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  suggestion_id UUID NOT NULL REFERENCES prompt_suggestions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  vote_type TEXT NOT NULL CHECK (vote_type IN ('up', 'down')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- One vote per user per suggestion
+  UNIQUE (suggestion_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_suggestion_votes_suggestion
+  ON prompt_suggestion_votes(suggestion_id);
+
+-- Approved suggestions are tracked in the shuffle bag like pack prompts
+ALTER TABLE room_used_prompts
+  ADD COLUMN IF NOT EXISTS suggestion_id UUID REFERENCES prompt_suggestions(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS room_used_prompts_suggestion_idx
+  ON room_used_prompts (room_id, mode, suggestion_id)
+  WHERE suggestion_id IS NOT NULL;
+
+-- ============================================
+-- PART 2: Row Level Security
+-- ============================================
+-- Members can read their room's suggestions; writes go through the RPCs
+
+ALTER TABLE prompt_suggestions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_suggestion_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view room prompt suggestions" ON prompt_suggestions;
+CREATE POLICY "Members can view room prompt suggestions"
+  ON prompt_suggestions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_members.room_id = prompt_suggestions.room_id
+      AND room_members.user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Members can view prompt suggestion votes" ON prompt_suggestion_votes;
+CREATE POLICY "Members can view prompt suggestion votes"
+  ON prompt_suggestion_votes FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM prompt_suggestions ps
+    JOIN room_members rm ON rm.room_id = ps.room_id
+    WHERE ps.id = prompt_suggestion_votes.suggestion_id
+      AND rm.user_id = auth.uid()
+  ));
+
+-- ============================================
+-- PART 3: Threshold + score helpers
+-- ============================================
+
+-- Votes needed to approve: half of the other members, between 1 and 3
+CREATE OR REPLACE FUNCTION prompt_suggestion_threshold(p_room_id UUID)
+RETURNS INT AS $$
+  SELECT GREATEST(1, LEAST(3, CEIL((COUNT(*) - 1) / 2.0)::INT))
+  FROM room_members
+  WHERE room_id = p_room_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION prompt_suggestion_score(p_suggestion_id UUID)
+RETURNS INT AS $$
+  SELECT COALESCE(SUM(CASE WHEN vote_type = 'up' THEN 1 ELSE -1 END), 0)::INT
+  FROM prompt_suggestion_votes
+  WHERE suggestion_id = p_suggestion_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: Suggest a prompt
+-- ============================================
+
+CREATE OR REPLACE FUNCTION suggest_prompt(
+  p_room_id UUID,
+  p_text TEXT,
+  p_prompt_type TEXT DEFAULT 'text'
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_text TEXT := btrim(p_text);
+  v_suggestion_id UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = caller_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  IF v_text IS NULL OR char_length(v_text) = 0 OR char_length(v_text) > 280 THEN
+    RETURN json_build_object('success', false, 'error', 'Prompts must be 1-280 characters');
+  END IF;
+
+  IF p_prompt_type NOT IN ('text', 'photo') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid prompt type');
+  END IF;
+
+  -- Keep the queue manageable
+  IF (
+    SELECT COUNT(*) FROM prompt_suggestions
+    WHERE room_id = p_room_id AND user_id = caller_id AND status = 'pending'
+  ) >= 5 THEN
+    RETURN json_build_object('success', false, 'error', 'You already have 5 suggestions waiting for votes');
+  END IF;
+
+  -- No duplicates of existing suggestions, built-in or pack prompts
+  IF EXISTS (
+    SELECT 1 FROM prompt_suggestions
+    WHERE room_id = p_room_id AND lower(text) = lower(v_text)
+  ) OR EXISTS (
+    SELECT 1 FROM prompts WHERE lower(text) = lower(v_text)
+  ) OR EXISTS (
+    SELECT 1 FROM prompt_pack_items ppi
+    JOIN prompt_packs pp ON pp.id = ppi.pack_id
+    WHERE pp.room_id = p_room_id AND lower(ppi.text) = lower(v_text)
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'That prompt is already in the deck');
+  END IF;
+
+  INSERT INTO prompt_suggestions (room_id, user_id, text, prompt_type)
+  VALUES (p_room_id, caller_id, v_text, p_prompt_type)
+  RETURNING id INTO v_suggestion_id;
+
+  RETURN json_build_object('success', true, 'suggestion_id', v_suggestion_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: Vote on a suggestion
+-- ============================================
+-- Same toggle/switch behaviour as vote_on_message. Crossing the
+-- threshold approves the suggestion and announces it in the room.
+
+CREATE OR REPLACE FUNCTION vote_on_prompt_suggestion(
+  p_suggestion_id UUID,
+  p_vote_type TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_suggestion RECORD;
+  v_existing_vote TEXT;
+  v_new_user_vote TEXT := NULL;
+  v_score INT;
+  v_approved BOOLEAN := false;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_vote_type NOT IN ('up', 'down') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid vote type');
+  END IF;
+
+  SELECT * INTO v_suggestion FROM prompt_suggestions WHERE id = p_suggestion_id;
+
+  IF v_suggestion IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Suggestion not found');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = v_suggestion.room_id AND user_id = caller_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  IF v_suggestion.user_id = caller_id THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot vote on your own suggestion');
+  END IF;
+
+  IF v_suggestion.status = 'approved' THEN
+    RETURN json_build_object('success', false, 'error', 'This prompt is already in the deck');
+  END IF;
+
+  -- Check existing vote
+  SELECT vote_type INTO v_existing_vote
+  FROM prompt_suggestion_votes
+  WHERE suggestion_id = p_suggestion_id AND user_id = caller_id;
+
+  IF v_existing_vote IS NULL THEN
+    INSERT INTO prompt_suggestion_votes (suggestion_id, user_id, vote_type)
+    VALUES (p_suggestion_id, caller_id, p_vote_type);
+    v_new_user_vote := p_vote_type;
+  ELSIF v_existing_vote = p_vote_type THEN
+    -- Same vote, remove it (toggle off)
+    DELETE FROM prompt_suggestion_votes
+    WHERE suggestion_id = p_suggestion_id AND user_id = caller_id;
+  ELSE
+    -- Different vote, switch it
+    UPDATE prompt_suggestion_votes
+    SET vote_type = p_vote_type, created_at = NOW()
+    WHERE suggestion_id = p_suggestion_id AND user_id = caller_id;
+    v_new_user_vote := p_vote_type;
+  END IF;
+
+  v_score := prompt_suggestion_score(p_suggestion_id);
+
+  IF v_score >= prompt_suggestion_threshold(v_suggestion.room_id) THEN
+    UPDATE prompt_suggestions
+    SET status = 'approved', approved_at = NOW()
+    WHERE id = p_suggestion_id AND status = 'pending';
+
+    IF FOUND THEN
+      v_approved := true;
+
+      INSERT INTO messages (room_id, user_id, type, content)
+      VALUES (
+        v_suggestion.room_id, NULL, 'system',
+        COALESCE(member_display_name(v_suggestion.user_id), 'A member')
+          || '''s prompt made it into the deck: "' || v_suggestion.text || '"'
+      );
+    END IF;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'score', v_score,
+    'user_vote', v_new_user_vote,
+    'approved', v_approved
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Authors can withdraw their own suggestions; hosts can remove any
+CREATE OR REPLACE FUNCTION delete_prompt_suggestion(p_suggestion_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_suggestion RECORD;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_suggestion FROM prompt_suggestions WHERE id = p_suggestion_id;
+
+  IF v_suggestion IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Suggestion not found');
+  END IF;
+
+  IF v_suggestion.user_id != caller_id AND NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = v_suggestion.room_id AND user_id = caller_id AND role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the author or host can remove this');
+  END IF;
+
+  DELETE FROM prompt_suggestions WHERE id = p_suggestion_id;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 6: Read suggestions + credit
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_prompt_suggestions(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = caller_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this room');
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'threshold', prompt_suggestion_threshold(p_room_id),
+    'suggestions', COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', ps.id,
+        'user_id', ps.user_id,
+        'author_name', member_display_name(ps.user_id),
+        'text', ps.text,
+        'prompt_type', ps.prompt_type,
+        'status', ps.status,
+        'score', prompt_suggestion_score(ps.id),
+        'user_vote', (
+          SELECT psv.vote_type FROM prompt_suggestion_votes psv
+          WHERE psv.suggestion_id = ps.id AND psv.user_id = caller_id
+        ),
+        'created_at', ps.created_at
+      ) ORDER BY ps.status DESC, ps.created_at DESC)
+      FROM prompt_suggestions ps
+      WHERE ps.room_id = p_room_id
+    ), '[]'::json)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Who wrote the room's current prompt, if it came from a suggestion
+CREATE OR REPLACE FUNCTION get_prompt_credit(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_author_id UUID;
+BEGIN
+  SELECT ps.user_id INTO v_author_id
+  FROM turn_sessions ts
+  JOIN prompt_suggestions ps
+    ON ps.room_id = ts.room_id
+   AND ps.status = 'approved'
+   AND ps.text = ts.prompt_text
+  WHERE ts.room_id = p_room_id AND ts.is_active = true
+  LIMIT 1;
+
+  IF v_author_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN json_build_object(
+    'author_id', v_author_id,
+    'author_name', member_display_name(v_author_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 7: get_shuffle_bag_prompt - add approved suggestions
+-- ============================================
+-- Same as custom_prompt_packs.sql plus a third source in the pool
+
+DROP FUNCTION IF EXISTS get_shuffle_bag_prompt(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION get_shuffle_bag_prompt(
+  p_room_id UUID,
+  p_mode TEXT
+) RETURNS TABLE (prompt_text TEXT, prompt_type TEXT) AS $$
+DECLARE
+  v_use_builtin BOOLEAN;
+  v_builtin_id UUID;
+  v_custom_id UUID;
+  v_suggestion_id UUID;
+  v_selected_text TEXT;
+  v_selected_type TEXT;
+  v_attempt INT;
+BEGIN
+  SELECT COALESCE(include_builtin_prompts, true) INTO v_use_builtin
+  FROM rooms WHERE id = p_room_id;
+
+  -- Custom-only rooms fall back to built-ins until they have their own prompts
+  IF NOT v_use_builtin AND NOT EXISTS (
+    SELECT 1 FROM prompt_pack_items ppi
+    JOIN prompt_packs pp ON pp.id = ppi.pack_id
+    WHERE pp.room_id = p_room_id AND pp.is_active = true
+  ) AND NOT EXISTS (
+    SELECT 1 FROM prompt_suggestions
+    WHERE room_id = p_room_id AND status = 'approved'
+  ) THEN
+    v_use_builtin := true;
+  END IF;
+
+  -- Second attempt runs after the bag is emptied and reshuffled
+  FOR v_attempt IN 1..2 LOOP
+    SELECT pool.builtin_id, pool.custom_id, pool.suggestion_id, pool.text, pool.type
+    INTO v_builtin_id, v_custom_id, v_suggestion_id, v_selected_text, v_selected_type
+    FROM (
+      SELECT p.id AS builtin_id, NULL::UUID AS custom_id, NULL::UUID AS suggestion_id,
+             p.text, COALESCE(p.prompt_type, 'text') AS type
+      FROM prompts p
+      WHERE v_use_builtin
+        AND p.mode = p_mode
+        AND NOT EXISTS (
+          SELECT 1 FROM room_used_prompts rup
+          WHERE rup.room_id = p_room_id
+            AND rup.mode = p_mode
+            AND rup.prompt_id = p.id
+        )
+      UNION ALL
+      SELECT NULL::UUID, ppi.id, NULL::UUID, ppi.text, ppi.prompt_type
+      FROM prompt_pack_items ppi
+      JOIN prompt_packs pp ON pp.id = ppi.pack_id
+      WHERE pp.room_id = p_room_id
+        AND pp.is_active = true
+        AND NOT EXISTS (
+          SELECT 1 FROM room_used_prompts rup
+          WHERE rup.room_id = p_room_id
+            AND rup.mode = p_mode
+            AND rup.custom_prompt_id = ppi.id
+        )
+      UNION ALL
+      SELECT NULL::UUID, NULL::UUID, ps.id, ps.text, ps.prompt_type
+      FROM prompt_suggestions ps
+      WHERE ps.room_id = p_room_id
+        AND ps.status = 'approved'
+        AND NOT EXISTS (
+          SELECT 1 FROM room_used_prompts rup
+          WHERE rup.room_id = p_room_id
+            AND rup.mode = p_mode
+            AND rup.suggestion_id = ps.id
+        )
+    ) pool
+    ORDER BY random()
+    LIMIT 1;
+
+    EXIT WHEN FOUND;
+
+    -- All prompts used: clear the bag and reshuffle
+    DELETE FROM room_used_prompts
+    WHERE room_id = p_room_id AND mode = p_mode;
+  END LOOP;
+
+  -- Mark this prompt as used
+  IF v_builtin_id IS NOT NULL THEN
+    INSERT INTO room_used_prompts (room_id, mode, prompt_id)
+    VALUES (p_room_id, p_mode, v_builtin_id)
+    ON CONFLICT DO NOTHING;
+  ELSIF v_custom_id IS NOT NULL THEN
+    INSERT INTO room_used_prompts (room_id, mode, custom_prompt_id)
+    VALUES (p_room_id, p_mode, v_custom_id)
+    ON CONFLICT DO NOTHING;
+  ELSIF v_suggestion_id IS NOT NULL THEN
+    INSERT INTO room_used_prompts (room_id, mode, suggestion_id)
+    VALUES (p_room_id, p_mode, v_suggestion_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  prompt_text := v_selected_text;
+  prompt_type := v_selected_type;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 8: Grant permissions
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION get_shuffle_bag_prompt(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION suggest_prompt(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION vote_on_prompt_suggestion(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_prompt_suggestion(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_prompt_suggestions(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_prompt_credit(UUID) TO authenticated;
@@ -0,0 +1,112 @@
+-- ============================================
+-- PUSH DELIVERY LOG + DEVICE HEALTH
+-- ============================================
+-- Records every push delivery attempt made by lib/pushDelivery.ts
+-- so users can see which of their devices are actually receiving pushes.
+-- Run after push_subscriptions.sql
+
+-- ============================================
+-- PART 1: Delivery attempts table
+-- ============================================
+-- One row per subscription per push (retries are folded into `attempts`).
+-- subscription_id is nulled when an expired subscription is cleaned up,
+-- so the history of what happened to it is kept.
+
+CREATE TABLE IF NOT EXISTS push_delivery_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subscription_id UUID REFERENCES push_subscriptions(id) ON DELETE SET NULL,
+  payload_type TEXT NOT NULL,
+  room_id UUID REFERENCES rooms(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'expired', 'failed')),
+  status_code INT,
+  attempts INT NOT NULL DEFAULT 1,
+  latency_ms INT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Latest attempts per device (health lookups)
+CREATE INDEX IF NOT EXISTS idx_push_delivery_attempts_subscription
+  ON push_delivery_attempts(subscription_id, created_at DESC);
+
+-- Per-user history
+CREATE INDEX IF NOT EXISTS idx_push_delivery_attempts_user
+  ON push_delivery_attempts(user_id, created_at DESC);
+
+-- ============================================
+-- PART 2: Row Level Security
+-- ============================================
+-- Inserts come from server routes using the service role key
+
+ALTER TABLE push_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own push delivery attempts" ON push_delivery_attempts;
+CREATE POLICY "Users can view own push delivery attempts"
+  ON push_delivery_attempts FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- PART 3: RPC - My devices with delivery health
+-- ============================================
+-- consecutive_failures counts failed attempts since the last success;
+-- a device is failing when its most recent attempt failed.
+
+CREATE OR REPLACE FUNCTION get_my_push_devices()
+RETURNS TABLE(
+  id UUID,
+  endpoint TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ,
+  last_attempt_at TIMESTAMPTZ,
+  last_status TEXT,
+  last_status_code INT,
+  last_success_at TIMESTAMPTZ,
+  consecutive_failures INT
+) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ps.id,
+    ps.endpoint,
+    ps.user_agent,
+    ps.created_at,
+    latest.created_at AS last_attempt_at,
+    latest.status AS last_status,
+    latest.status_code AS last_status_code,
+    success.created_at AS last_success_at,
+    (
+      SELECT COUNT(*)::INT
+      FROM push_delivery_attempts pda
+      WHERE pda.subscription_id = ps.id
+        AND pda.status = 'failed'
+        AND pda.created_at > COALESCE(success.created_at, '-infinity'::TIMESTAMPTZ)
+    ) AS consecutive_failures
+  FROM push_subscriptions ps
+  LEFT JOIN LATERAL (
+    SELECT pda.created_at, pda.status, pda.status_code
+    FROM push_delivery_attempts pda
+    WHERE pda.subscription_id = ps.id
+    ORDER BY pda.created_at DESC
+    LIMIT 1
+  ) latest ON true
+  LEFT JOIN LATERAL (
+    SELECT pda.created_at
+    FROM push_delivery_attempts pda
+    WHERE pda.subscription_id = ps.id AND pda.status = 'sent'
+    ORDER BY pda.created_at DESC
+    LIMIT 1
+  ) success ON true
+  WHERE ps.user_id = caller_id
+  ORDER BY ps.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_my_push_devices() TO authenticated;
+
@@ -0,0 +1,474 @@
+-- ============================================
+-- QUIET HOURS
+-- ============================================
+-- Each member can set a timezone and a nightly quiet-hours window on their
+-- profile. During someone's quiet hours:
+-- - advance_turn holds their turn (waiting_until) until the window ends
+-- - pushes and emails to them are queued in deferred_notifications and
+--   sent once the window ends by the daily auto-skip cron or the next
+--   turn or message event (deliverDueNotifications in lib/notificationDelivery.ts)
+-- - the anti-stall timer in process_stalled_turns doesn't run
+-- Run after member_snooze.sql and email_notifications.sql
+
+-- ============================================
+-- PART 1: Schema
+-- ============================================
+
+-- IANA timezone name, e.g. 'Europe/Berlin'. NULL is treated as UTC.
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+-- Local wall-clock window; may wrap past midnight (22:00 -> 08:00).
+-- NULL means no quiet hours.
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS quiet_hours_start TIME;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS quiet_hours_end TIME;
+
+-- ============================================
+-- PART 2: Quiet-hours helpers
+-- ============================================
+
+-- When the user's current quiet hours end, or NULL if p_at isn't in them
+CREATE OR REPLACE FUNCTION quiet_hours_end_at(p_user_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_tz TEXT;
+  v_start TIME;
+  v_end TIME;
+  v_local TIMESTAMP;
+BEGIN
+  SELECT COALESCE(timezone, 'UTC'), quiet_hours_start, quiet_hours_end
+  INTO v_tz, v_start, v_end
+  FROM profiles WHERE id = p_user_id;
+
+  IF v_start IS NULL OR v_end IS NULL OR v_start = v_end THEN
+    RETURN NULL;
+  END IF;
+
+  v_local := p_at AT TIME ZONE v_tz;
+
+  IF v_start < v_end THEN
+    -- Same-day window, e.g. 13:00 -> 15:00
+    IF v_local::TIME >= v_start AND v_local::TIME < v_end THEN
+      RETURN (v_local::DATE + v_end) AT TIME ZONE v_tz;
+    END IF;
+  ELSIF v_local::TIME >= v_start THEN
+    -- Overnight window, evening side: ends tomorrow morning
+    RETURN (v_local::DATE + 1 + v_end) AT TIME ZONE v_tz;
+  ELSIF v_local::TIME < v_end THEN
+    -- Overnight window, morning side: ends this morning
+    RETURN (v_local::DATE + v_end) AT TIME ZONE v_tz;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- How much of [p_from, p_to) fell inside the user's quiet hours
+CREATE OR REPLACE FUNCTION quiet_hours_overlap(p_user_id UUID, p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS INTERVAL AS $$
+DECLARE
+  v_tz TEXT;
+  v_start TIME;
+  v_end TIME;
+  v_total INTERVAL;
+BEGIN
+  SELECT COALESCE(timezone, 'UTC'), quiet_hours_start, quiet_hours_end
+  INTO v_tz, v_start, v_end
+  FROM profiles WHERE id = p_user_id;
+
+  IF v_start IS NULL OR v_end IS NULL OR v_start = v_end OR p_to <= p_from THEN
+    RETURN INTERVAL '0';
+  END IF;
+
+  -- One window per local day, starting the day before p_from so an
+  -- overnight window that began yesterday is counted too
+  SELECT COALESCE(SUM(GREATEST(LEAST(w.win_end, p_to) - GREATEST(w.win_start, p_from), INTERVAL '0')), INTERVAL '0')
+  INTO v_total
+  FROM (
+    SELECT
+      (d::DATE + v_start) AT TIME ZONE v_tz AS win_start,
+      (d::DATE + CASE WHEN v_end > v_start THEN 0 ELSE 1 END + v_end) AT TIME ZONE v_tz AS win_end
+    FROM generate_series(
+      (p_from AT TIME ZONE v_tz)::DATE - 1,
+      (p_to AT TIME ZONE v_tz)::DATE,
+      INTERVAL '1 day'
+    ) AS d
+  ) w;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- PART 3: Settings
+-- ============================================
+
+-- Pass NULL start/end to turn quiet hours off; the timezone is kept either way
+CREATE OR REPLACE FUNCTION set_quiet_hours(
+  p_timezone TEXT,
+  p_start TIME DEFAULT NULL,
+  p_end TIME DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_timezone IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown timezone');
+  END IF;
+
+  IF (p_start IS NULL) <> (p_end IS NULL) THEN
+    RETURN json_build_object('success', false, 'error', 'Quiet hours need a start and an end');
+  END IF;
+
+  IF p_start IS NOT NULL AND p_start = p_end THEN
+    RETURN json_build_object('success', false, 'error', 'Quiet hours can''t start and end at the same time');
+  END IF;
+
+  UPDATE profiles
+  SET timezone = p_timezone,
+      quiet_hours_start = p_start,
+      quiet_hours_end = p_end
+  WHERE id = caller_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'quiet_until', quiet_hours_end_at(caller_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: advance_turn - hold handoffs during quiet hours
+-- ============================================
+-- Same as host_turn_management.sql, plus waiting_until is pushed back to
+-- the end of the next player's quiet hours
+
+DROP FUNCTION IF EXISTS advance_turn(UUID, TEXT, UUID);
+CREATE OR REPLACE FUNCTION advance_turn(
+  p_room_id UUID,
+  p_reason TEXT DEFAULT 'completed',  -- 'completed', 'auto_skip', 'host_skip', 'host_exclude'
+  p_skipped_user_id UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  sess RECORD;
+  next_user_id UUID;
+  new_prompt_text TEXT;
+  new_prompt_type TEXT;
+  v_prompt_mode TEXT;
+  room_interval INT;
+  next_waiting_until TIMESTAMPTZ;
+  v_quiet_until TIMESTAMPTZ;
+  v_room_name TEXT;
+BEGIN
+  -- Get active session
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active session');
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused');
+  END IF;
+
+  -- Get room settings
+  SELECT COALESCE(prompt_interval_minutes, 0), COALESCE(prompt_mode, 'fun'), name
+  INTO room_interval, v_prompt_mode, v_room_name
+  FROM rooms WHERE id = p_room_id;
+
+  -- Get next user
+  next_user_id := get_next_turn_user(p_room_id, COALESCE(p_skipped_user_id, sess.current_turn_user_id));
+
+  IF next_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Could not determine next user');
+  END IF;
+
+  -- Calculate cooldown
+  IF room_interval > 0 THEN
+    next_waiting_until := NOW() + (room_interval || ' minutes')::INTERVAL;
+  ELSE
+    next_waiting_until := NULL;
+  END IF;
+
+  -- Get new prompt using shuffle bag
+  SELECT prompt_text, prompt_type INTO new_prompt_text, new_prompt_type
+  FROM get_shuffle_bag_prompt(p_room_id, v_prompt_mode);
+
+  -- Handle missed streak based on reason
+  IF p_reason = 'completed' THEN
+    -- Reset missed_streak for the user who completed
+    UPDATE room_members
+    SET missed_streak = 0
+    WHERE room_id = p_room_id AND user_id = sess.current_turn_user_id;
+  ELSIF p_reason IN ('auto_skip', 'host_skip') AND p_skipped_user_id IS NOT NULL THEN
+    -- Increment missed_streak for skipped user
+    UPDATE room_members
+    SET missed_streak = missed_streak + 1
+    WHERE room_id = p_room_id AND user_id = p_skipped_user_id;
+
+    -- Create notification for skipped user
+    INSERT INTO notifications (user_id, type, room_id, metadata)
+    VALUES (
+      p_skipped_user_id,
+      'turn_skipped',
+      p_room_id,
+      jsonb_build_object('reason', p_reason, 'room_name', v_room_name)
+    );
+
+    -- Check if user should be removed (3+ consecutive misses)
+    IF (SELECT missed_streak FROM room_members WHERE room_id = p_room_id AND user_id = p_skipped_user_id) >= 3 THEN
+      -- Remove the member
+      DELETE FROM room_members WHERE room_id = p_room_id AND user_id = p_skipped_user_id;
+
+      -- Post system message
+      INSERT INTO messages (room_id, user_id, type, content)
+      VALUES (p_room_id, NULL, 'system', 'A member was removed due to inactivity');
+
+      -- Recalculate next user after removal
+      next_user_id := get_next_turn_user(p_room_id, sess.current_turn_user_id);
+    END IF;
+  END IF;
+
+  -- Don't hand the turn over in the middle of the next player's night:
+  -- the turn waits until their quiet hours end (after any cooldown)
+  v_quiet_until := quiet_hours_end_at(next_user_id, COALESCE(next_waiting_until, NOW()));
+  IF v_quiet_until IS NOT NULL THEN
+    next_waiting_until := v_quiet_until;
+  END IF;
+
+  -- Update session with new turn
+  -- CRITICAL: Generate new turn_instance_id to reset nudge eligibility
+  UPDATE turn_sessions
+  SET current_turn_user_id = next_user_id,
+      current_turn_index = current_turn_index + 1,
+      turn_instance_id = gen_random_uuid(),  -- Resets nudge eligibility for ALL users
+      prompt_text = new_prompt_text,
+      current_prompt_type = new_prompt_type,
+      waiting_until = next_waiting_until,
+      last_turn_completed_at = NOW(),
+      all_nudged_at = NULL  -- Reset for new turn
+  WHERE room_id = p_room_id AND is_active = true;
+
+  -- Create notification for the next user (their turn now)
+  IF next_user_id IS DISTINCT FROM sess.current_turn_user_id THEN
+    INSERT INTO notifications (user_id, type, room_id, metadata)
+    VALUES (
+      next_user_id,
+      'your_turn',
+      p_room_id,
+      jsonb_build_object(
+        'prompt_text', new_prompt_text,
+        'prompt_type', new_prompt_type,
+        'room_name', v_room_name
+      )
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'next_user_id', next_user_id,
+    'reason', p_reason
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: get_nudge_status - include quiet_until
+-- ============================================
+-- Same as member_snooze.sql, plus quiet_until for the turn holder
+
+DROP FUNCTION IF EXISTS get_nudge_status(UUID);
+CREATE OR REPLACE FUNCTION get_nudge_status(p_room_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_turn_instance_id UUID;
+  v_current_turn_user_id UUID;
+  v_all_nudged_at TIMESTAMPTZ;
+  v_eligible_count INTEGER;
+  v_nudge_count INTEGER;
+  v_user_has_nudged BOOLEAN;
+  v_resumed BOOLEAN;
+BEGIN
+  v_resumed := resume_away_pause(p_room_id) IS NOT NULL;
+
+  -- Get current turn info
+  SELECT turn_instance_id, current_turn_user_id, all_nudged_at
+  INTO v_turn_instance_id, v_current_turn_user_id, v_all_nudged_at
+  FROM turn_sessions
+  WHERE room_id = p_room_id AND is_active = true;
+
+  IF v_turn_instance_id IS NULL THEN
+    RETURN json_build_object('active', false);
+  END IF;
+
+  -- Count eligible members (everyone except current turn holder)
+  SELECT COUNT(*) INTO v_eligible_count
+  FROM room_members
+  WHERE room_id = p_room_id AND user_id != v_current_turn_user_id;
+
+  -- Count nudges for this turn instance
+  SELECT COUNT(DISTINCT nudger_user_id) INTO v_nudge_count
+  FROM nudges
+  WHERE room_id = p_room_id AND turn_instance_id = v_turn_instance_id;
+
+  -- Check if current user has nudged this turn
+  v_user_has_nudged := EXISTS (
+    SELECT 1 FROM nudges
+    WHERE room_id = p_room_id
+      AND turn_instance_id = v_turn_instance_id
+      AND nudger_user_id = auth.uid()
+  );
+
+  RETURN json_build_object(
+    'active', true,
+    'eligible_count', v_eligible_count,
+    'nudge_count', v_nudge_count,
+    'all_nudged', v_nudge_count >= v_eligible_count AND v_eligible_count > 0,
+    'all_nudged_at', v_all_nudged_at,
+    'user_has_nudged', v_user_has_nudged,
+    'current_turn_user_id', v_current_turn_user_id,
+    'away_until', member_away_until(p_room_id, v_current_turn_user_id),
+    'quiet_until', quiet_hours_end_at(v_current_turn_user_id),
+    'resumed', v_resumed
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 6: process_stalled_turns - quiet hours don't count
+-- ============================================
+-- Same as anti_stall.sql, except the 24 hours after everyone nudged are
+-- counted without the turn holder's quiet hours
+
+CREATE OR REPLACE FUNCTION process_stalled_turns()
+RETURNS TABLE(room_id UUID, skipped_user_id UUID, removed BOOLEAN) AS $$
+DECLARE
+  sess RECORD;
+  v_result JSON;
+  v_removed BOOLEAN;
+BEGIN
+  -- Find all sessions where:
+  -- - all_nudged_at is set
+  -- - 24 waking hours have passed since all_nudged_at
+  -- - turn is still active (not completed)
+  FOR sess IN
+    SELECT ts.room_id, ts.current_turn_user_id, ts.all_nudged_at
+    FROM turn_sessions ts
+    WHERE ts.is_active = true
+      AND ts.all_nudged_at IS NOT NULL
+      AND ts.all_nudged_at <= NOW() - INTERVAL '24 hours'
+      AND NOW() - ts.all_nudged_at
+        - quiet_hours_overlap(ts.current_turn_user_id, ts.all_nudged_at, NOW()) >= INTERVAL '24 hours'
+  LOOP
+    -- Check if user is about to be removed
+    v_removed := (
+      SELECT missed_streak >= 2  -- Will be 3 after increment
+      FROM room_members
+      WHERE room_members.room_id = sess.room_id
+        AND room_members.user_id = sess.current_turn_user_id
+    );
+
+    -- Auto-skip this turn
+    v_result := advance_turn(sess.room_id, 'auto_skip', sess.current_turn_user_id);
+
+    IF (v_result->>'success')::boolean THEN
+      room_id := sess.room_id;
+      skipped_user_id := sess.current_turn_user_id;
+      removed := COALESCE(v_removed, false);
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 7: Deferred push/email queue (server-side)
+-- ============================================
+-- One pending notification per user and tag: a newer push with the same
+-- tag replaces the queued one, the way the service worker collapses them.
+
+CREATE TABLE IF NOT EXISTS deferred_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL,
+  push_payload JSONB NOT NULL,
+  email_payload JSONB,
+  deliver_after TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deferred_notifications_due ON deferred_notifications(deliver_after);
+
+-- Service role only: no policies
+ALTER TABLE deferred_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Queues the notification if the user is in quiet hours.
+-- Returns when it will go out, or NULL if it should be sent now.
+CREATE OR REPLACE FUNCTION defer_notification_if_quiet(
+  p_user_id UUID,
+  p_tag TEXT,
+  p_push_payload JSONB,
+  p_email_payload JSONB DEFAULT NULL,
+  p_room_id UUID DEFAULT NULL
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_quiet_until TIMESTAMPTZ;
+BEGIN
+  v_quiet_until := quiet_hours_end_at(p_user_id);
+  IF v_quiet_until IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO deferred_notifications (user_id, room_id, tag, push_payload, email_payload, deliver_after)
+  VALUES (p_user_id, p_room_id, p_tag, p_push_payload, p_email_payload, v_quiet_until)
+  ON CONFLICT (user_id, tag) DO UPDATE
+  SET room_id = EXCLUDED.room_id,
+      push_payload = EXCLUDED.push_payload,
+      email_payload = EXCLUDED.email_payload,
+      deliver_after = EXCLUDED.deliver_after,
+      created_at = NOW();
+
+  RETURN v_quiet_until;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Removes and returns the notifications that are due
+CREATE OR REPLACE FUNCTION claim_due_notifications(p_limit INT DEFAULT 200)
+RETURNS TABLE(
+  user_id UUID,
+  room_id UUID,
+  push_payload JSONB,
+  email_payload JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  DELETE FROM deferred_notifications dn
+  WHERE dn.id IN (
+    SELECT d.id FROM deferred_notifications d
+    WHERE d.deliver_after <= NOW()
+    ORDER BY d.deliver_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING dn.user_id, dn.room_id, dn.push_payload, dn.email_payload;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 8: Grant permissions
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION set_quiet_hours(TEXT, TIME, TIME) TO authenticated;
+GRANT EXECUTE ON FUNCTION advance_turn(UUID, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_nudge_status(UUID) TO authenticated;
+
+-- Service role only
+REVOKE EXECUTE ON FUNCTION defer_notification_if_quiet(UUID, TEXT, JSONB, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_due_notifications(INT) FROM PUBLIC, anon, authenticated;
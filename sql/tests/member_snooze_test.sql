@@ -0,0 +1,120 @@
+-- ============================================
+-- TEST: turns when everyone else is away
+-- ============================================
+-- Run against a database with every migration applied, e.g.
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f sql/tests/member_snooze_test.sql
+-- Everything happens in one transaction that is rolled back at the end.
+-- A failed ASSERT aborts the run with its message.
+
+BEGIN;
+
+DO $$
+DECLARE
+  v_a UUID := gen_random_uuid();
+  v_b UUID := gen_random_uuid();
+  v_room UUID;
+  v_sess RECORD;
+BEGIN
+  INSERT INTO auth.users (id, email)
+  VALUES (v_a, v_a || '@test.local'), (v_b, v_b || '@test.local');
+
+  INSERT INTO rooms (name, type, created_by, prompt_mode)
+  VALUES ('Snooze test', 'group', v_a, 'fun')
+  RETURNING id INTO v_room;
+
+  INSERT INTO room_members (room_id, user_id, role)
+  VALUES (v_room, v_a, 'host'), (v_room, v_b, 'member');
+
+  INSERT INTO turn_sessions (
+    room_id, prompt_text, current_prompt_type, turn_order,
+    current_turn_index, is_active, current_turn_user_id, turn_instance_id
+  )
+  VALUES (v_room, 'Test prompt', 'text', ARRAY[v_a, v_b], 0, true, v_a, gen_random_uuid());
+
+  -- Act as A from here on
+  PERFORM set_config('request.jwt.claims', json_build_object('sub', v_a, 'role', 'authenticated')::text, true);
+
+  -- Nobody away: the turn goes to B
+  ASSERT get_next_turn_user(v_room, v_a) = v_b, 'next turn should be B';
+
+  -- B snoozes: the turn stays with A
+  UPDATE room_members SET snoozed_until = NOW() + INTERVAL '3 days'
+  WHERE room_id = v_room AND user_id = v_b;
+
+  ASSERT get_next_turn_user(v_room, v_a) = v_a, 'turn should stay with A while B is snoozed';
+
+  -- A can still answer, and the answer is kept
+  PERFORM submit_turn(v_room, 'Answer while B is away');
+
+  ASSERT EXISTS (
+    SELECT 1 FROM messages
+    WHERE room_id = v_room AND user_id = v_a AND type = 'turn_response'
+  ), 'the answer should be saved';
+
+  SELECT * INTO v_sess FROM turn_sessions WHERE room_id = v_room AND is_active = true;
+  ASSERT v_sess.current_turn_user_id = v_a, 'A should keep the turn';
+  ASSERT v_sess.paused_at IS NULL, 'the game should not be paused';
+
+  -- Same with a host vacation instead of a snooze
+  UPDATE room_members SET snoozed_until = NULL, excluded_until = NOW() + INTERVAL '3 days'
+  WHERE room_id = v_room AND user_id = v_b;
+
+  ASSERT get_next_turn_user(v_room, v_a) = v_a, 'turn should stay with A while B is on vacation';
+
+  -- A away as well: nobody can take it
+  UPDATE room_members SET snoozed_until = NOW() + INTERVAL '1 day'
+  WHERE room_id = v_room AND user_id = v_a;
+
+  ASSERT get_next_turn_user(v_room, v_a) IS NULL, 'nobody should be available';
+END;
+$$;
+
+-- The game pauses itself when the last one around snoozes, and picks up
+-- again once someone is back
+DO $$
+DECLARE
+  v_a UUID := gen_random_uuid();
+  v_b UUID := gen_random_uuid();
+  v_room UUID;
+  v_result JSON;
+  v_sess RECORD;
+BEGIN
+  INSERT INTO auth.users (id, email)
+  VALUES (v_a, v_a || '@test.local'), (v_b, v_b || '@test.local');
+
+  INSERT INTO rooms (name, type, created_by, prompt_mode)
+  VALUES ('Away pause test', 'group', v_a, 'fun')
+  RETURNING id INTO v_room;
+
+  INSERT INTO room_members (room_id, user_id, role, snoozed_until)
+  VALUES (v_room, v_a, 'host', NULL), (v_room, v_b, 'member', NOW() + INTERVAL '3 days');
+
+  INSERT INTO turn_sessions (
+    room_id, prompt_text, current_prompt_type, turn_order,
+    current_turn_index, is_active, current_turn_user_id, turn_instance_id
+  )
+  VALUES (v_room, 'Test prompt', 'text', ARRAY[v_a, v_b], 0, true, v_a, gen_random_uuid());
+
+  -- A snoozes while holding the turn: nobody to pass it to
+  PERFORM set_config('request.jwt.claims', json_build_object('sub', v_a, 'role', 'authenticated')::text, true);
+  v_result := set_snooze(NOW() + INTERVAL '1 day', v_room);
+
+  ASSERT (v_result->>'success')::boolean, 'snoozing should succeed';
+  SELECT * INTO v_sess FROM turn_sessions WHERE room_id = v_room AND is_active = true;
+  ASSERT v_sess.paused_at IS NOT NULL AND v_sess.away_paused, 'the game should pause itself';
+
+  -- Still nobody around: stays paused
+  ASSERT resume_away_pause(v_room) IS NULL, 'nobody is back yet';
+
+  -- B comes back: the game resumes with the turn passed to B
+  PERFORM set_config('request.jwt.claims', json_build_object('sub', v_b, 'role', 'authenticated')::text, true);
+  v_result := set_snooze(NULL, v_room);
+
+  ASSERT (v_result->'resumed_room_ids')::jsonb @> jsonb_build_array(v_room), 'the room should be reported resumed';
+  SELECT * INTO v_sess FROM turn_sessions WHERE room_id = v_room AND is_active = true;
+  ASSERT v_sess.paused_at IS NULL AND NOT v_sess.away_paused, 'the game should resume';
+  ASSERT v_sess.current_turn_user_id = v_b, 'B should have the turn';
+END;
+$$;
+
+ROLLBACK;
@@ -0,0 +1,211 @@
+-- ============================================
+-- VIDEO CLIPS
+-- ============================================
+-- Short video clips (up to 30 seconds) in chat, as answers to photo
+-- prompts, and as stories. Every clip comes with a poster frame captured
+-- in the browser, stored wherever a photo would go, so anything that only
+-- knows about photos (older clients, story thumbnails, reply previews)
+-- still shows a still image:
+--   chat       'video' message, payload
+--              { "v": 1, "kind": "video", "video_url", "poster_url", "duration_ms" }
+--   turns      photo_turn payload with image_url = poster, plus video_url
+--              and duration_ms (see submit_video_turn)
+--   stories    image_url = poster, plus video_url and duration_ms
+-- The clips live in the media and stories storage buckets next to photos.
+-- Run after voice_notes.sql
+
+-- ============================================
+-- PART 1: The 'video' payload kind
+-- ============================================
+-- Same as voice_notes.sql, plus 'video' on video messages
+
+CREATE OR REPLACE FUNCTION message_payload_kind_allowed(p_type TEXT, p_kind TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(CASE p_type
+    WHEN 'turn_response' THEN p_kind IN ('photo_turn', 'voice')
+    WHEN 'system' THEN p_kind = 'weekly_recap'
+    WHEN 'poll' THEN p_kind = 'poll'
+    WHEN 'voice' THEN p_kind = 'voice'
+    WHEN 'video' THEN p_kind = 'video'
+  END, false);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Same as voice_notes.sql, plus video clips and video answers
+CREATE OR REPLACE FUNCTION message_payload_text(p_payload JSONB)
+RETURNS TEXT AS $$
+  SELECT CASE p_payload->>'kind'
+    WHEN 'photo_turn' THEN CASE WHEN p_payload ? 'video_url' THEN 'Sent a video' ELSE 'Sent a photo' END
+    WHEN 'weekly_recap' THEN '📰 Weekly recap'
+    WHEN 'voice' THEN '🎤 Voice note'
+    WHEN 'video' THEN '🎬 Video'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- PART 2: RPC - Answer a photo prompt with a clip
+-- ============================================
+-- Same checks as submit_photo_turn; the poster stands in for the photo.
+
+CREATE OR REPLACE FUNCTION submit_video_turn(
+  p_room_id UUID,
+  p_video_url TEXT,
+  p_poster_url TEXT,
+  p_duration_ms INT
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  sess RECORD;
+  curr_turn_user UUID;
+  v_message_id UUID;
+  v_result JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active session');
+  END IF;
+
+  curr_turn_user := COALESCE(sess.current_turn_user_id, sess.turn_order[sess.current_turn_index + 1]);
+  IF curr_turn_user IS DISTINCT FROM caller_id THEN
+    RETURN json_build_object('success', false, 'error', 'Not your turn');
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused. You can answer once it resumes.');
+  END IF;
+
+  IF sess.waiting_until IS NOT NULL AND sess.waiting_until > NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'Still in cooldown period');
+  END IF;
+
+  IF sess.current_prompt_type IS DISTINCT FROM 'photo' THEN
+    RETURN json_build_object('success', false, 'error', 'Current prompt does not ask for a photo or video');
+  END IF;
+
+  IF COALESCE(p_video_url, '') = '' OR COALESCE(p_poster_url, '') = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Video is required');
+  END IF;
+
+  -- Clips are capped at 30 seconds; leave a little room for container rounding
+  IF p_duration_ms IS NULL OR p_duration_ms <= 0 OR p_duration_ms > 31000 THEN
+    RETURN json_build_object('success', false, 'error', 'Videos can be up to 30 seconds');
+  END IF;
+
+  INSERT INTO messages (room_id, user_id, type, content, payload)
+  VALUES (
+    p_room_id,
+    caller_id,
+    'turn_response',
+    'Sent a video',
+    jsonb_build_object(
+      'v', 1,
+      'kind', 'photo_turn',
+      'prompt', sess.prompt_text,
+      'image_url', p_poster_url,
+      'video_url', p_video_url,
+      'duration_ms', p_duration_ms
+    )
+  )
+  RETURNING id INTO v_message_id;
+
+  v_result := advance_turn(p_room_id, 'completed', NULL);
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  RETURN json_build_object('success', true, 'message_id', v_message_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 3: Video stories
+-- ============================================
+
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS video_url TEXT;
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS duration_ms INT;
+
+COMMENT ON COLUMN stories.video_url IS 'Clip for a video story; image_url is then its poster frame';
+
+ALTER TABLE stories DROP CONSTRAINT IF EXISTS stories_video_duration;
+ALTER TABLE stories ADD CONSTRAINT stories_video_duration CHECK (
+  video_url IS NULL OR (duration_ms > 0 AND duration_ms <= 31000)
+);
+
+-- Same as follows_v2.sql, plus video_url and duration_ms
+DROP FUNCTION IF EXISTS get_stories_feed(UUID);
+
+CREATE OR REPLACE FUNCTION get_stories_feed(for_user_id UUID)
+RETURNS TABLE(
+  story_id UUID,
+  story_user_id UUID,
+  image_url TEXT,
+  created_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  user_email TEXT,
+  user_display_name TEXT,
+  user_avatar_url TEXT,
+  is_viewed BOOLEAN,
+  view_count BIGINT,
+  overlays JSONB,
+  video_url TEXT,
+  duration_ms INT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.id as story_id,
+    s.user_id as story_user_id,
+    s.image_url,
+    s.created_at,
+    s.expires_at,
+    p.email as user_email,
+    p.display_name as user_display_name,
+    p.avatar_url as user_avatar_url,
+    EXISTS (
+      SELECT 1 FROM story_views sv
+      WHERE sv.story_id = s.id AND sv.viewer_user_id = for_user_id
+    ) as is_viewed,
+    (SELECT COUNT(*) FROM story_views sv WHERE sv.story_id = s.id) as view_count,
+    s.overlays,
+    s.video_url,
+    s.duration_ms
+  FROM stories s
+  JOIN profiles p ON p.id = s.user_id
+  WHERE s.expires_at > now()
+    AND (
+      s.user_id = for_user_id  -- Own stories always visible
+      OR (
+        -- Not manually unfollowed
+        NOT is_manually_unfollowed(for_user_id, s.user_id)
+        AND (
+          -- Explicit follow
+          EXISTS (SELECT 1 FROM follows WHERE follower_id = for_user_id AND following_id = s.user_id)
+          -- Or implicit auto-follow
+          OR is_implicit_follow(for_user_id, s.user_id)
+        )
+      )
+    )
+  ORDER BY
+    -- Own stories first
+    CASE WHEN s.user_id = for_user_id THEN 0 ELSE 1 END,
+    -- Then by unseen first
+    CASE WHEN EXISTS (
+      SELECT 1 FROM story_views sv
+      WHERE sv.story_id = s.id AND sv.viewer_user_id = for_user_id
+    ) THEN 1 ELSE 0 END,
+    -- Then by newest
+    s.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: Grants
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION submit_video_turn(UUID, TEXT, TEXT, INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_stories_feed(UUID) TO authenticated;
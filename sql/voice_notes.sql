@@ -0,0 +1,332 @@
+-- ============================================
+-- VOICE NOTES
+-- ============================================
+-- A 'voice' message type for recorded voice notes in chat, and a 'voice'
+-- prompt type whose turn is answered by recording one. The audio lives in
+-- the media storage bucket; the message carries a payload (see
+-- message_payloads.sql):
+--   { "v": 1, "kind": "voice", "audio_url", "duration_ms", "waveform", "prompt" }
+-- waveform is up to 64 levels (0-100) drawn by the player; prompt is only
+-- set on voice turn responses. Chat voice notes are inserted by the client
+-- like photos; voice turns go through submit_voice_turn.
+-- Voice prompts are served by get_shuffle_bag_prompt like any other type.
+-- Run after message_payloads.sql
+
+-- ============================================
+-- PART 1: The 'voice' payload kind
+-- ============================================
+-- Same as message_payloads.sql, plus 'voice' on voice notes and on turn
+-- responses
+
+CREATE OR REPLACE FUNCTION message_payload_kind_allowed(p_type TEXT, p_kind TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(CASE p_type
+    WHEN 'turn_response' THEN p_kind IN ('photo_turn', 'voice')
+    WHEN 'system' THEN p_kind = 'weekly_recap'
+    WHEN 'poll' THEN p_kind = 'poll'
+    WHEN 'voice' THEN p_kind = 'voice'
+  END, false);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION message_payload_text(p_payload JSONB)
+RETURNS TEXT AS $$
+  SELECT CASE p_payload->>'kind'
+    WHEN 'photo_turn' THEN 'Sent a photo'
+    WHEN 'weekly_recap' THEN '📰 Weekly recap'
+    WHEN 'voice' THEN '🎤 Voice note'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Weekly recaps: a voice answer keeps its prompt
+CREATE OR REPLACE FUNCTION parse_turn_content(p_content TEXT, p_payload JSONB)
+RETURNS JSONB AS $$
+BEGIN
+  IF p_payload->>'kind' = 'photo_turn' THEN
+    RETURN jsonb_build_object('prompt', p_payload->>'prompt', 'answer', NULL, 'image_url', p_payload->>'image_url');
+  END IF;
+
+  IF p_payload->>'kind' = 'voice' THEN
+    RETURN jsonb_build_object('prompt', p_payload->>'prompt', 'answer', p_content, 'image_url', NULL);
+  END IF;
+
+  IF p_content LIKE 'Reply to "%' THEN
+    RETURN jsonb_build_object(
+      'prompt', substring(split_part(p_content, E'\n\n', 1) FROM '^Reply to "(.*)"$'),
+      'answer', substring(p_content FROM position(E'\n\n' IN p_content) + 2),
+      'image_url', NULL
+    );
+  END IF;
+
+  RETURN jsonb_build_object('prompt', NULL, 'answer', p_content, 'image_url', NULL);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================
+-- PART 2: Voice prompts
+-- ============================================
+
+ALTER TABLE prompts DROP CONSTRAINT IF EXISTS prompts_type_check;
+ALTER TABLE prompts ADD CONSTRAINT prompts_type_check CHECK (prompt_type IN ('text', 'photo', 'poll', 'voice'));
+
+ALTER TABLE prompt_pack_items DROP CONSTRAINT IF EXISTS prompt_pack_items_prompt_type_check;
+ALTER TABLE prompt_pack_items ADD CONSTRAINT prompt_pack_items_prompt_type_check
+  CHECK (prompt_type IN ('text', 'photo', 'poll', 'voice'));
+
+INSERT INTO prompts (text, prompt_type, mode) VALUES
+  ('Say it out loud: your best impression of someone famous.', 'voice', 'fun'),
+  ('Sing the first line of the song stuck in your head.', 'voice', 'fun'),
+  ('Tell the story of your most embarrassing moment, in 30 seconds.', 'voice', 'fun'),
+  ('Record a message for your future self.', 'voice', 'deep'),
+  ('Describe your perfect day, out loud.', 'voice', 'deep'),
+  ('Tell a favorite family story in your own voice.', 'voice', 'family'),
+  ('Leave a voice note thanking someone in the family.', 'voice', 'family'),
+  ('Tell me, out loud, what you love about us.', 'voice', 'couple');
+
+-- ============================================
+-- PART 3: RPC - Answer a voice prompt
+-- ============================================
+-- Same checks as submit_photo_turn, then a turn_response carrying the
+-- voice payload (with the prompt snapshot).
+
+CREATE OR REPLACE FUNCTION submit_voice_turn(
+  p_room_id UUID,
+  p_audio_url TEXT,
+  p_duration_ms INT,
+  p_waveform INT[] DEFAULT ARRAY[]::INT[]
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  sess RECORD;
+  curr_turn_user UUID;
+  v_message_id UUID;
+  v_result JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active session');
+  END IF;
+
+  curr_turn_user := COALESCE(sess.current_turn_user_id, sess.turn_order[sess.current_turn_index + 1]);
+  IF curr_turn_user IS DISTINCT FROM caller_id THEN
+    RETURN json_build_object('success', false, 'error', 'Not your turn');
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The game is paused. You can answer once it resumes.');
+  END IF;
+
+  IF sess.waiting_until IS NOT NULL AND sess.waiting_until > NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'Still in cooldown period');
+  END IF;
+
+  IF sess.current_prompt_type IS DISTINCT FROM 'voice' THEN
+    RETURN json_build_object('success', false, 'error', 'Current prompt does not ask for a voice answer');
+  END IF;
+
+  IF COALESCE(p_audio_url, '') = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Recording is required');
+  END IF;
+
+  -- Recordings stop at two minutes; leave a little room for encoder rounding
+  IF p_duration_ms IS NULL OR p_duration_ms < 500 OR p_duration_ms > 125000 THEN
+    RETURN json_build_object('success', false, 'error', 'Voice answers can be up to two minutes');
+  END IF;
+
+  INSERT INTO messages (room_id, user_id, type, content, payload)
+  VALUES (
+    p_room_id,
+    caller_id,
+    'turn_response',
+    '🎤 Voice note',
+    jsonb_build_object(
+      'v', 1,
+      'kind', 'voice',
+      'audio_url', p_audio_url,
+      'duration_ms', p_duration_ms,
+      'waveform', (
+        SELECT COALESCE(jsonb_agg(LEAST(GREATEST(w.level, 0), 100) ORDER BY w.ord), '[]'::JSONB)
+        FROM unnest(COALESCE(p_waveform, ARRAY[]::INT[])) WITH ORDINALITY AS w(level, ord)
+        WHERE w.ord <= 64
+      ),
+      'prompt', sess.prompt_text
+    )
+  )
+  RETURNING id INTO v_message_id;
+
+  v_result := advance_turn(p_room_id, 'completed', NULL);
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  RETURN json_build_object('success', true, 'message_id', v_message_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: Prompt packs accept voice prompts
+-- ============================================
+-- Same as polls.sql, plus 'voice' as a prompt type
+
+CREATE OR REPLACE FUNCTION add_prompt_pack_items(p_pack_id UUID, p_items JSONB)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_added INT;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM prompt_packs pp
+    JOIN room_members rm ON rm.room_id = pp.room_id
+    WHERE pp.id = p_pack_id AND rm.user_id = caller_id AND rm.role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) > 500 THEN
+    RETURN json_build_object('success', false, 'error', 'Add up to 500 prompts at a time');
+  END IF;
+
+  INSERT INTO prompt_pack_items (pack_id, text, prompt_type)
+  SELECT DISTINCT ON (lower(item.text)) p_pack_id, item.text, item.prompt_type
+  FROM (
+    SELECT
+      left(btrim(elem->>'text'), 280) AS text,
+      CASE WHEN elem->>'prompt_type' IN ('photo', 'poll', 'voice') THEN elem->>'prompt_type' ELSE 'text' END AS prompt_type
+    FROM jsonb_array_elements(p_items) elem
+  ) item
+  WHERE item.text IS NOT NULL
+    AND char_length(item.text) > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM prompt_pack_items existing
+      WHERE existing.pack_id = p_pack_id
+        AND lower(existing.text) = lower(item.text)
+    );
+
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  RETURN json_build_object('success', true, 'added', v_added);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_prompt_pack_item(
+  p_item_id UUID,
+  p_text TEXT,
+  p_prompt_type TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  v_text TEXT := btrim(p_text);
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM prompt_pack_items ppi
+    JOIN prompt_packs pp ON pp.id = ppi.pack_id
+    JOIN room_members rm ON rm.room_id = pp.room_id
+    WHERE ppi.id = p_item_id AND rm.user_id = caller_id AND rm.role = 'host'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only the host can manage prompt packs');
+  END IF;
+
+  IF v_text IS NULL OR char_length(v_text) = 0 OR char_length(v_text) > 280 THEN
+    RETURN json_build_object('success', false, 'error', 'Prompts must be 1-280 characters');
+  END IF;
+
+  IF p_prompt_type NOT IN ('text', 'photo', 'poll', 'voice') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid prompt type');
+  END IF;
+
+  UPDATE prompt_pack_items
+  SET text = v_text, prompt_type = p_prompt_type
+  WHERE id = p_item_id;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: submit_turn - voice prompts are answered with submit_voice_turn
+-- ============================================
+-- Same as polls.sql, plus the 'voice' prompt check
+
+CREATE OR REPLACE FUNCTION submit_turn(p_room_id UUID, p_content TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  sess RECORD;
+  curr_turn_user UUID;
+  v_result JSON;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Get active session
+  SELECT * INTO sess FROM turn_sessions WHERE room_id = p_room_id AND is_active = true;
+  IF sess IS NULL THEN
+    RAISE EXCEPTION 'No active session';
+  END IF;
+
+  -- Determine whose turn it is
+  curr_turn_user := COALESCE(sess.current_turn_user_id, sess.turn_order[sess.current_turn_index + 1]);
+
+  IF curr_turn_user != caller_id THEN
+    RAISE EXCEPTION 'Not your turn';
+  END IF;
+
+  IF sess.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The game is paused. You can answer once it resumes.';
+  END IF;
+
+  IF sess.waiting_until IS NOT NULL AND sess.waiting_until > NOW() THEN
+    RAISE EXCEPTION 'Still in cooldown period';
+  END IF;
+
+  -- Check prompt type
+  IF sess.current_prompt_type = 'photo' THEN
+    RAISE EXCEPTION 'This prompt requires a photo.';
+  END IF;
+
+  IF sess.current_prompt_type = 'poll' THEN
+    RAISE EXCEPTION 'This prompt asks for a poll.';
+  END IF;
+
+  IF sess.current_prompt_type = 'voice' THEN
+    RAISE EXCEPTION 'This prompt asks for a voice answer.';
+  END IF;
+
+  -- Insert turn response
+  INSERT INTO messages (room_id, user_id, type, content)
+  VALUES (p_room_id, caller_id, 'turn_response', p_content);
+
+  -- Advance turn using canonical function
+  v_result := advance_turn(p_room_id, 'completed', NULL);
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 6: Grant permissions
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION submit_voice_turn(UUID, TEXT, INT, INT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_prompt_pack_items(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_prompt_pack_item(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_turn(UUID, TEXT) TO authenticated;
@@ -0,0 +1,380 @@
+-- ============================================
+-- WEEKLY ROOM RECAP
+-- ============================================
+-- Once a week the weekly-recap cron posts a recap card into every group
+-- that had activity in the previous week (Monday to Monday, UTC). The card
+-- is a 'system' message whose content is JSON:
+--   { "kind": "weekly_recap", "week_start", "week_end",
+--     "prompts": [...], "top_answers": [...], "answered_by": [...],
+--     "skipped": [...], "top_photos": [...], "new_members": [...] }
+-- Every member also gets a 'weekly_recap' notification.
+-- Run after message_votes.sql, replies_and_reactions.sql, message_edits.sql
+-- and mentions.sql
+
+-- ============================================
+-- PART 1: One recap per room per week
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS room_recaps (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  week_start TIMESTAMPTZ NOT NULL,
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_id, week_start)
+);
+
+ALTER TABLE room_recaps ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- PART 2: Turn response content
+-- ============================================
+-- Text answers are 'Reply to "prompt"\n\nanswer'; photo answers are
+-- JSON { kind: 'photo_turn', prompt, image_url }.
+
+CREATE OR REPLACE FUNCTION parse_turn_content(p_content TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_parsed JSONB;
+BEGIN
+  IF p_content LIKE 'Reply to "%' THEN
+    RETURN jsonb_build_object(
+      'prompt', substring(split_part(p_content, E'\n\n', 1) FROM '^Reply to "(.*)"$'),
+      'answer', substring(p_content FROM position(E'\n\n' IN p_content) + 2),
+      'image_url', NULL
+    );
+  END IF;
+
+  BEGIN
+    v_parsed := p_content::JSONB;
+  EXCEPTION WHEN others THEN
+    v_parsed := NULL;
+  END;
+
+  IF v_parsed IS NOT NULL AND jsonb_typeof(v_parsed) = 'object' AND v_parsed->>'kind' = 'photo_turn' THEN
+    RETURN jsonb_build_object('prompt', v_parsed->>'prompt', 'answer', NULL, 'image_url', v_parsed->>'image_url');
+  END IF;
+
+  RETURN jsonb_build_object('prompt', NULL, 'answer', p_content, 'image_url', NULL);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================
+-- PART 3: Build a recap
+-- ============================================
+
+CREATE OR REPLACE FUNCTION build_room_recap(
+  p_room_id UUID,
+  p_since TIMESTAMPTZ,
+  p_until TIMESTAMPTZ
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_prompts JSONB;
+  v_top_answers JSONB;
+  v_answered_by JSONB;
+  v_skipped JSONB;
+  v_top_photos JSONB;
+  v_new_members JSONB;
+BEGIN
+  -- Prompts answered this week, in order
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'message_id', m.id,
+    'created_at', m.created_at,
+    'user_id', m.user_id,
+    'name', COALESCE(p.display_name, split_part(p.email, '@', 1)),
+    'prompt', parse_turn_content(m.content)->>'prompt'
+  ) ORDER BY m.created_at), '[]'::JSONB)
+  INTO v_prompts
+  FROM messages m
+  LEFT JOIN profiles p ON p.id = m.user_id
+  WHERE m.room_id = p_room_id
+    AND m.type = 'turn_response'
+    AND m.deleted_at IS NULL
+    AND m.created_at >= p_since AND m.created_at < p_until;
+
+  -- Top 3 answers by vote score
+  SELECT COALESCE(jsonb_agg(t.item ORDER BY t.score DESC, t.created_at DESC), '[]'::JSONB)
+  INTO v_top_answers
+  FROM (
+    SELECT
+      v.score,
+      m.created_at,
+      jsonb_build_object(
+        'message_id', m.id,
+        'created_at', m.created_at,
+        'user_id', m.user_id,
+        'name', COALESCE(p.display_name, split_part(p.email, '@', 1)),
+        'score', v.score
+      ) || parse_turn_content(m.content) AS item
+    FROM messages m
+    JOIN (
+      SELECT mv.message_id, SUM(CASE WHEN mv.vote_type = 'up' THEN 1 ELSE -1 END)::INT AS score
+      FROM message_votes mv
+      GROUP BY mv.message_id
+    ) v ON v.message_id = m.id
+    LEFT JOIN profiles p ON p.id = m.user_id
+    WHERE m.room_id = p_room_id
+      AND m.type = 'turn_response'
+      AND m.deleted_at IS NULL
+      AND m.created_at >= p_since AND m.created_at < p_until
+      AND v.score >= 1
+    ORDER BY v.score DESC, m.created_at DESC
+    LIMIT 3
+  ) t;
+
+  -- Who answered, and how often
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'user_id', a.user_id,
+    'name', COALESCE(p.display_name, split_part(p.email, '@', 1)),
+    'count', a.answers
+  ) ORDER BY a.answers DESC), '[]'::JSONB)
+  INTO v_answered_by
+  FROM (
+    SELECT m.user_id, COUNT(*)::INT AS answers
+    FROM messages m
+    WHERE m.room_id = p_room_id
+      AND m.type = 'turn_response'
+      AND m.deleted_at IS NULL
+      AND m.user_id IS NOT NULL
+      AND m.created_at >= p_since AND m.created_at < p_until
+    GROUP BY m.user_id
+  ) a
+  LEFT JOIN profiles p ON p.id = a.user_id;
+
+  -- Who got skipped (host or auto skips leave a turn_skipped notification)
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'user_id', s.user_id,
+    'name', COALESCE(p.display_name, split_part(p.email, '@', 1)),
+    'count', s.skips
+  ) ORDER BY s.skips DESC), '[]'::JSONB)
+  INTO v_skipped
+  FROM (
+    SELECT n.user_id, COUNT(*)::INT AS skips
+    FROM notifications n
+    WHERE n.room_id = p_room_id
+      AND n.type = 'turn_skipped'
+      AND n.created_at >= p_since AND n.created_at < p_until
+    GROUP BY n.user_id
+  ) s
+  LEFT JOIN profiles p ON p.id = s.user_id;
+
+  -- Top 3 photos (chat photos and photo answers) by reactions
+  SELECT COALESCE(jsonb_agg(t.item ORDER BY t.reactions DESC, t.created_at DESC), '[]'::JSONB)
+  INTO v_top_photos
+  FROM (
+    SELECT
+      r.reactions,
+      m.created_at,
+      jsonb_build_object(
+        'message_id', m.id,
+        'created_at', m.created_at,
+        'user_id', m.user_id,
+        'name', COALESCE(p.display_name, split_part(p.email, '@', 1)),
+        'image_url', CASE WHEN m.type = 'image' THEN m.content ELSE parse_turn_content(m.content)->>'image_url' END,
+        'reactions', r.reactions
+      ) AS item
+    FROM messages m
+    JOIN (
+      SELECT mr.message_id, COUNT(*)::INT AS reactions
+      FROM message_reactions mr
+      GROUP BY mr.message_id
+    ) r ON r.message_id = m.id
+    LEFT JOIN profiles p ON p.id = m.user_id
+    WHERE m.room_id = p_room_id
+      AND m.deleted_at IS NULL
+      AND m.created_at >= p_since AND m.created_at < p_until
+      AND (
+        m.type = 'image'
+        OR (m.type = 'turn_response' AND parse_turn_content(m.content)->>'image_url' IS NOT NULL)
+      )
+    ORDER BY r.reactions DESC, m.created_at DESC
+    LIMIT 3
+  ) t;
+
+  -- New members
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'user_id', rm.user_id,
+    'name', COALESCE(p.display_name, split_part(p.email, '@', 1))
+  ) ORDER BY rm.joined_at), '[]'::JSONB)
+  INTO v_new_members
+  FROM room_members rm
+  LEFT JOIN profiles p ON p.id = rm.user_id
+  WHERE rm.room_id = p_room_id
+    AND rm.joined_at >= p_since AND rm.joined_at < p_until;
+
+  RETURN jsonb_build_object(
+    'kind', 'weekly_recap',
+    'week_start', p_since,
+    'week_end', p_until,
+    'prompts', v_prompts,
+    'top_answers', v_top_answers,
+    'answered_by', v_answered_by,
+    'skipped', v_skipped,
+    'top_photos', v_top_photos,
+    'new_members', v_new_members
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 4: 'weekly_recap' notifications
+-- ============================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS valid_notification_type;
+ALTER TABLE notifications ADD CONSTRAINT valid_notification_type CHECK (type IN (
+  'followed_you',
+  'unfollowed_you',
+  'group_invite',
+  'added_to_group',
+  'removed_from_group',
+  'your_turn',
+  'nudged_you',
+  'turn_skipped',
+  'turn_completed',
+  'story_reply',
+  'story_view_milestone',
+  'upvote_milestone',
+  'upvote_whole_group',
+  'poked_you',
+  'mentioned_you',
+  'weekly_recap'
+));
+
+-- Same as mentions.sql, plus 'weekly_recap' in the Groups filter
+CREATE OR REPLACE FUNCTION get_notifications(
+  p_limit INT DEFAULT 50,
+  p_offset INT DEFAULT 0,
+  p_filter TEXT DEFAULT 'all'
+)
+RETURNS TABLE(
+  id UUID,
+  type TEXT,
+  actor_user_id UUID,
+  actor_email TEXT,
+  actor_display_name TEXT,
+  actor_avatar_url TEXT,
+  room_id UUID,
+  room_name TEXT,
+  story_id UUID,
+  message_id UUID,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  read_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    n.id,
+    n.type,
+    n.actor_user_id,
+    p.email as actor_email,
+    p.display_name as actor_display_name,
+    p.avatar_url as actor_avatar_url,
+    n.room_id,
+    r.name as room_name,
+    n.story_id,
+    n.message_id,
+    n.metadata,
+    n.created_at,
+    n.read_at
+  FROM notifications n
+  LEFT JOIN profiles p ON p.id = n.actor_user_id
+  LEFT JOIN rooms r ON r.id = n.room_id
+  WHERE n.user_id = v_user_id
+    AND (
+      p_filter = 'all'
+      OR (p_filter = 'social' AND n.type IN ('followed_you', 'unfollowed_you', 'story_reply', 'story_view_milestone', 'upvote_milestone', 'upvote_whole_group', 'poked_you', 'mentioned_you'))
+      OR (p_filter = 'turns' AND n.type IN ('your_turn', 'nudged_you', 'turn_skipped', 'turn_completed'))
+      OR (p_filter = 'groups' AND n.type IN ('group_invite', 'added_to_group', 'removed_from_group', 'weekly_recap'))
+    )
+  ORDER BY n.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- PART 5: Function for the weekly-recap cron job
+-- ============================================
+-- Posts last week's recap into each group that had answers or new members
+-- and hasn't had that week's recap yet. Safe to run more than once.
+
+CREATE OR REPLACE FUNCTION generate_weekly_recaps()
+RETURNS TABLE(room_id UUID, message_id UUID, member_ids UUID[]) AS $$
+DECLARE
+  v_until TIMESTAMPTZ := date_trunc('week', NOW());
+  v_since TIMESTAMPTZ := date_trunc('week', NOW()) - INTERVAL '7 days';
+  v_room RECORD;
+  v_recap JSONB;
+  v_message_id UUID;
+  v_members UUID[];
+  v_member UUID;
+BEGIN
+  FOR v_room IN
+    SELECT r.id
+    FROM rooms r
+    WHERE COALESCE(r.type, 'group') = 'group'
+      AND NOT EXISTS (
+        SELECT 1 FROM room_recaps rr WHERE rr.room_id = r.id AND rr.week_start = v_since
+      )
+      AND (
+        EXISTS (
+          SELECT 1 FROM messages m
+          WHERE m.room_id = r.id
+            AND m.type = 'turn_response'
+            AND m.deleted_at IS NULL
+            AND m.created_at >= v_since AND m.created_at < v_until
+        )
+        OR EXISTS (
+          SELECT 1 FROM room_members rm
+          WHERE rm.room_id = r.id
+            AND rm.joined_at >= v_since AND rm.joined_at < v_until
+        )
+      )
+  LOOP
+    v_recap := build_room_recap(v_room.id, v_since, v_until);
+
+    INSERT INTO messages (room_id, user_id, type, content)
+    VALUES (v_room.id, NULL, 'system', v_recap::TEXT)
+    RETURNING id INTO v_message_id;
+
+    INSERT INTO room_recaps (room_id, week_start, message_id)
+    VALUES (v_room.id, v_since, v_message_id);
+
+    SELECT ARRAY_AGG(rm.user_id) INTO v_members
+    FROM room_members rm
+    WHERE rm.room_id = v_room.id;
+
+    FOREACH v_member IN ARRAY COALESCE(v_members, ARRAY[]::UUID[])
+    LOOP
+      PERFORM create_notification(
+        v_member,
+        'weekly_recap',
+        NULL,
+        v_room.id,
+        NULL,
+        v_message_id,
+        jsonb_build_object(
+          'week_start', v_since,
+          'answer_count', jsonb_array_length(v_recap->'prompts')
+        )
+      );
+    END LOOP;
+
+    room_id := v_room.id;
+    message_id := v_message_id;
+    member_ids := COALESCE(v_members, ARRAY[]::UUID[]);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cron only (service role); recaps read across every room
+REVOKE EXECUTE ON FUNCTION build_room_recap(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_weekly_recaps() FROM PUBLIC, anon, authenticated;